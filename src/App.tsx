@@ -1,612 +1,1753 @@
-import React, { useState, useMemo } from "react";
-import Papa from "papaparse";
+import React, { useState, useMemo, useEffect, useRef } from "react";
+import { flushSync } from "react-dom";
+import AliasManager from "./components/AliasManager";
+import CalendarView from "./components/CalendarView";
+import CatalogView from "./components/CatalogView";
+import ClassificationPanel from "./components/ClassificationPanel";
+import ColumnMappingWizard from "./components/ColumnMappingWizard";
+import ComparisonView, { type FonteVendas } from "./components/ComparisonView";
+import DatasetDiffView from "./components/DatasetDiffView";
+import DatasetLibrary from "./components/DatasetLibrary";
+import DaySelector from "./components/DaySelector";
+import DishChart from "./components/DishChart";
+import ForecastBuilder from "./components/ForecastBuilder";
+import KitchenDisplay from "./components/KitchenDisplay";
+import KitchenSheet from "./components/KitchenSheet";
+import LevelChart from "./components/LevelChart";
+import PrepLogBar from "./components/PrepLogBar";
+import ProductionSettingsPanel from "./components/ProductionSettingsPanel";
+import ProductionTable from "./components/ProductionTable";
+import ReadProgress from "./components/ReadProgress";
+import SavedViewsPanel from "./components/SavedViewsPanel";
+import ScenarioEditor from "./components/ScenarioEditor";
+import ShoppingListView from "./components/ShoppingListView";
+import UnitComparisonView from "./components/UnitComparisonView";
+import UnitSelector from "./components/UnitSelector";
+import UploadPanel from "./components/UploadPanel";
+import WasteReportView from "./components/WasteReportView";
+import WeeklyOverview from "./components/WeeklyOverview";
 import {
-  ResponsiveContainer,
-  BarChart,
-  Bar,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  Legend,
-  PieChart,
-  Pie,
-  Cell,
-} from "recharts";
-
-type ChartDataItem = {
-  [key: string]: string | number;
-};
+  buttonStyle,
+  selectStyle,
+  smallButtonStyle,
+} from "./components/styles";
+import ImportReportPanel from "./components/ImportReportPanel";
+import {
+  aplicarFeriados,
+  chaveDia,
+  loadFeriados,
+  rowsDaSemana,
+  saveFeriados,
+  type Feriado,
+} from "./data/calendar";
+import {
+  aplicarClassificacao,
+  arquivoTemNiveis,
+  calcularNiveis,
+  compararNiveis,
+  loadClassificacaoSettings,
+  saveClassificacaoSettings,
+  type ClassificacaoSettings,
+  type OrigemNivel,
+} from "./data/classification";
+import {
+  formatarMoeda,
+  loadCatalogo,
+  parseCatalogo,
+  projetarFinanceiro,
+  saveCatalogo,
+  type CatalogoItem,
+} from "./data/catalog";
+import { vendasDeRows } from "./data/comparison";
+import { compararDatasets, type DiffLinha } from "./data/datasetDiff";
+import {
+  comOriginal,
+  diasOrdenados,
+  filtrarPorNivel,
+  indexarPorDia,
+  nomeParaArquivo,
+  nomesPratos,
+  pratosDoDia,
+  quantidadesPorCategoria,
+  removidosNoDia as removidosDoCenario,
+  resumirNiveis,
+  type IndiceDias,
+} from "./data/dashboard";
+import {
+  CONFIG_GRAFICO_PRATOS_PADRAO,
+  montarGraficoPratos,
+  type ConfigGraficoPratos,
+} from "./data/dishChart";
+import {
+  adicionarAliases,
+  loadAliases,
+  normalizarPratos,
+  saveAliases,
+  sugerirMesclas,
+  type AliasesPratos,
+  type SugestaoMescla,
+} from "./data/dishNames";
+import { exportarCsv, exportarXlsx } from "./export/files";
+import {
+  ordenarPlanoSemana,
+  tabelaNivelMovimento,
+  tabelaProducao,
+  tabelaDesperdicio,
+  tabelaDiff,
+  tabelaUnidades,
+} from "./export/tables";
+import type { EtapaLeitura, ResumoLeitura } from "./data/csvImport";
+import {
+  atualizarRegistro,
+  dataDoRegistro,
+  dataServeParaDia,
+  loadRegistros,
+  registroDe,
+  registrosDe,
+  saveRegistros,
+  type LinhaDesperdicio,
+  type LocalRegistro,
+  type MudancaRegistro,
+  type RegistrosPreparo,
+} from "./data/prepLog";
+import {
+  gerarPlano,
+  loadPlanSettings,
+  savePlanSettings,
+  type PlanSettings,
+  type PlanoItem,
+} from "./data/productionPlan";
+import {
+  loadRecipes,
+  parseRecipes,
+  saveRecipes,
+  type RecipeRow,
+} from "./data/recipes";
+import {
+  deleteDataset,
+  getDatasetData,
+  getLastDatasetId,
+  listDatasets,
+  renameDataset,
+  saveDataset,
+  setLastDatasetId,
+  type DatasetData,
+  type DatasetMeta,
+} from "./data/datasetStore";
+import {
+  assinaturaColunas,
+  type CsvDelimiter,
+  type ImportOptions,
+} from "./data/mapping";
+import { findProfile, loadProfiles, saveProfile } from "./data/profiles";
+import { ORDEM_TOTAL, type PivotOrdem } from "./data/weeklyPivot";
+import {
+  aplicarCenario,
+  deltasCenario,
+  loadCenarios,
+  saveCenarios,
+  type Cenario,
+} from "./data/scenarios";
+import type { Row, VendaRow } from "./data/schema";
+import {
+  TODAS_UNIDADES,
+  combinarComoUnidades,
+  rowsDaUnidade,
+  unidadeDe,
+  unidadesDe,
+  vendasDaUnidade,
+  type ComparacaoUnidade,
+} from "./data/units";
+import type { ImportIssue, ImportReport } from "./data/validation";
+import {
+  escreverEstadoUrl,
+  lerEstadoUrl,
+  loadVisoes,
+  ordemParaTexto,
+  saveVisoes,
+  textoParaOrdem,
+  VIEW_STATE_PADRAO,
+  type Agrupamento,
+  type ChartType,
+  type EscopoNivel,
+  type ViewMode,
+  type ViewState,
+  type VisaoSalva,
+} from "./data/viewState";
+import { useI18n } from "./i18n/context";
+import { IDIOMAS, type Idioma } from "./i18n/languages";
+import { aoAbrirArquivo, lerArquivoCompartilhado } from "./pwa/pwa";
+import { useTema } from "./theme/context";
+import { PALETAS, TEMAS, type Paleta, type Tema } from "./theme/themes";
+import {
+  importarEmSegundoPlano,
+  isCancelamento,
+  lerCsvEmSegundoPlano,
+  type OpcoesLeitura,
+  type ProgressoLeitura,
+} from "./workers/dataWorkerClient";
+
+type EscopoFolha = "dia" | "semana";
 
-// Linha crua vinda do CSV (tudo string/opcional)
-interface CsvRow {
-  prato?: string;
-  dia_semana?: string;
-  qtd_prevista_media?: string;
-  qtd_vendida?: string;
-  nivel_movimento_prato?: string;
-  nivel_movimento?: string;
+// Fonte de vendas reais que usa a coluna `qtd_vendida` do próprio arquivo
+const FONTE_VENDAS_ARQUIVO = "arquivo";
+
+// Arquivo da biblioteca escolhido de um lado da comparação entre rodadas
+interface LadoDiff {
+  id: string;
+  rows: Row[] | null;
 }
 
-// Linha já tratada para o estado da aplicação
-interface Row extends ChartDataItem {
-  prato: string;
-  dia_semana: string;
-  qtd_prevista_media: number;
-  nivel_movimento_prato: string;
+const LADO_DIFF_VAZIO: LadoDiff = { id: "", rows: null };
+
+// CSV sendo lido em segundo plano
+interface LeituraArquivo extends ProgressoLeitura {
+  nome: string;
 }
 
-interface NivelMovimentoData extends ChartDataItem {
-  nivel: string;
-  quantidade: number;
+// Arquivo enviado que ainda está passando por mapeamento/validação. As linhas
+// ficam no arquivo: cada etapa o lê de novo no worker.
+interface PendingUpload {
+  file: File;
+  resumo: ResumoLeitura;
+  options: ImportOptions;
+  // Índice por dia das linhas aceitas, montado no worker com a validação
+  indice: IndiceDias | null;
 }
 
-type ChartType = "bar" | "pie";
+const App: React.FC = () => {
+  const {
+    t,
+    numero,
+    rotuloDia,
+    rotuloNivel,
+    rotuloCategoria,
+    idioma,
+    locale,
+    setIdioma,
+  } = useI18n();
+  const { tema, paleta, setTema, setPaleta } = useTema();
+  // Linhas como vieram do arquivo; `rows` (abaixo) já tem os níveis calculados
+  const [rowsArquivo, setRows] = useState<Row[]>([]);
+  // Índice por dia vindo do worker, junto com as linhas a que se refere
+  const [indiceImportado, setIndiceImportado] = useState<{
+    rows: Row[];
+    indice: IndiceDias;
+  } | null>(null);
+  const [vendas, setVendas] = useState<VendaRow[]>([]);
+  const [selectedDia, setSelectedDia] = useState<string>("");
+  const [unidade, setUnidade] = useState(TODAS_UNIDADES);
+  const [chartType, setChartType] = useState<ChartType>("bar");
+  const [agrupamento, setAgrupamento] = useState<Agrupamento>("prato");
+  const [viewMode, setViewMode] = useState<ViewMode>("previsao");
+  const [fonteVendas, setFonteVendas] = useState("");
+  const [vendasExternas, setVendasExternas] = useState<VendaRow[]>([]);
+  const [diffAnterior, setDiffAnterior] = useState<LadoDiff>(LADO_DIFF_VAZIO);
+  const [diffAtual, setDiffAtual] = useState<LadoDiff>(LADO_DIFF_VAZIO);
+  const [planSettings, setPlanSettings] =
+    useState<PlanSettings>(loadPlanSettings);
+  // Checklist de preparo (feito, produzido, sobra) por data
+  const [registros, setRegistros] = useState<RegistrosPreparo>(loadRegistros);
+  // Data escolhida para o checklist; sem escolha, a data mais recente do dia
+  const [dataRegistroEscolhida, setDataRegistro] = useState<string | null>(null);
+  const [receitas, setReceitas] = useState<RecipeRow[]>(loadRecipes);
+  const [errosReceitas, setErrosReceitas] = useState<ImportIssue[]>([]);
+  const [catalogo, setCatalogo] = useState<CatalogoItem[]>(loadCatalogo);
+  const [aliases, setAliases] = useState<AliasesPratos>(loadAliases);
+  const [visoes, setVisoes] = useState<VisaoSalva[]>(loadVisoes);
+  const [errosCatalogo, setErrosCatalogo] = useState<ImportIssue[]>([]);
+  const [leitura, setLeitura] = useState<LeituraArquivo | null>(null);
+  const leituraRef = useRef<AbortController | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(
+    null
+  );
+  const [showMapping, setShowMapping] = useState(false);
+  const [datasets, setDatasets] = useState<DatasetMeta[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportReport | null>(
+    null
+  );
+  const [folhaEscopo, setFolhaEscopo] = useState<EscopoFolha>("dia");
+  const [escopoNivel, setEscopoNivel] = useState<EscopoNivel>("dia");
+  const [ordemSemana, setOrdemSemana] = useState<PivotOrdem>({
+    coluna: ORDEM_TOTAL,
+    desc: true,
+  });
+  // Nível clicado no gráfico de movimento; filtra pratos e sugestão de preparo
+  const [filtroNivel, setFiltroNivel] = useState<string | null>(null);
+  const [configPratos, setConfigPratos] = useState<ConfigGraficoPratos>(
+    CONFIG_GRAFICO_PRATOS_PADRAO
+  );
+  // Prato clicado no gráfico; destacado na tabela de preparo e no mapa da semana
+  const [pratoDestacado, setPratoDestacado] = useState<string | null>(null);
+  const [classificacaoSettings, setClassificacaoSettings] =
+    useState<ClassificacaoSettings>(loadClassificacaoSettings);
+  const [feriados, setFeriados] = useState<Feriado[]>(loadFeriados);
+  const [cenarios, setCenarios] = useState<Cenario[]>(loadCenarios);
+  // null = previsão original
+  const [cenarioAtivoId, setCenarioAtivoId] = useState<string | null>(null);
+  // Tela cheia do tablet da cozinha; `?cozinha=1` (atalho do app instalado) já abre nela
+  const [modoCozinha, setModoCozinha] = useState(() =>
+    new URLSearchParams(window.location.search).has("cozinha")
+  );
+  const cenarioAtivo = cenarios.find((c) => c.id === cenarioAtivoId) ?? null;
 
-const weekIndexes: Record<string, number> = {
-  segunda: 1,
-  terça: 2,
-  quarta: 3,
-  quinta: 4,
-  sexta: 5,
-  sábado: 6,
-};
+  // Restaurantes do arquivo; vazio quando não há coluna de unidade
+  const unidades = useMemo(() => unidadesDe(rowsArquivo), [rowsArquivo]);
+  // A unidade escolhida (ou todas somadas) entra antes do resto do fluxo
+  const rowsUnidade = useMemo(
+    () => rowsDaUnidade(rowsArquivo, unidade),
+    [rowsArquivo, unidade]
+  );
 
-// paleta maior para os gráficos de pizza (boa em fundo escuro)
-const PIE_COLORS = [
-  "#0ea5e9", // sky-500
-  "#22c55e", // green-500
-  "#f97316", // orange-500
-  "#a855f7", // purple-500
-  "#eab308", // yellow-500
-  "#f43f5e", // rose-500
-  "#2dd4bf", // teal-400
-  "#6366f1", // indigo-500
-  "#84cc16", // lime-500
-  "#ec4899", // pink-500
-  "#14b8a6", // teal-500
-  "#facc15", // amber-400
-  "#38bdf8", // sky-400
-  "#c4b5fd", // violet-300
-  "#fb7185", // rose-400
-  "#4ade80", // green-400
-  "#e5e7eb", // gray-200
-  "#f59e0b", // amber-500
-  "#a3e635", // lime-400
-  "#67e8f9", // cyan-300
-];
-
-const renderPratosLegend = (props: any) => {
-  const { payload } = props;
-  if (!payload || payload.length === 0) return null;
-
-  // soma total das quantidades
-  const total = payload.reduce(
-    (sum: number, entry: any) =>
-      sum + (entry.payload?.qtd_prevista_media ?? 0),
-    0
+  // Feriados e cenário ajustam a previsão antes da classificação de nível
+  const rowsComFeriados = useMemo(
+    () => aplicarFeriados(rowsUnidade, feriados),
+    [rowsUnidade, feriados]
+  );
+  const rowsCenario = useMemo(
+    () =>
+      cenarioAtivo ? aplicarCenario(rowsComFeriados, cenarioAtivo) : rowsComFeriados,
+    [rowsComFeriados, cenarioAtivo]
+  );
+  // Diferença de cada prato + dia em relação à previsão original
+  const deltas = useMemo(
+    () => (cenarioAtivo ? deltasCenario(rowsComFeriados, rowsCenario) : null),
+    [rowsComFeriados, rowsCenario, cenarioAtivo]
+  );
+  const classificacao = useMemo(
+    () => aplicarClassificacao(rowsCenario, classificacaoSettings),
+    [rowsCenario, classificacaoSettings]
+  );
+  const rows = classificacao.rows;
+  const temNiveisArquivo = useMemo(
+    () => arquivoTemNiveis(rowsArquivo),
+    [rowsArquivo]
   );
 
-  return (
-    <ul
-      style={{
-        listStyle: "none",
-        margin: 0,
-        padding: 0,
-        display: "flex",
-        flexWrap: "wrap",
-        justifyContent: "center",
-        gap: "0.5rem 1rem",
-        fontSize: "0.8rem",
-      }}
-    >
-      {payload.map((entry: any, index: number) => {
-        const valor = entry.payload?.qtd_prevista_media ?? 0;
-        const percent = total > 0 ? (valor / total) * 100 : 0;
-
-        return (
-          <li
-            key={`item-${index}`}
-            style={{ display: "flex", alignItems: "center" }}
-          >
-            <span
-              style={{
-                display: "inline-block",
-                width: 10,
-                height: 10,
-                borderRadius: 2,
-                backgroundColor: entry.color,
-                marginRight: 6,
-              }}
-            />
-            <span>
-              {entry.value} ({percent.toFixed(1)}%)
-            </span>
-          </li>
-        );
-      })}
-    </ul>
+  // Origem do nível de cada prato/dia, para indicar o que foi calculado
+  const origemNivel = useMemo(() => {
+    const mapa = new Map<string, OrigemNivel>();
+    rows.forEach((r, index) =>
+      mapa.set(`${r.prato}|${chaveDia(r)}`, classificacao.origens[index])
+    );
+    return mapa;
+  }, [rows, classificacao]);
+
+  // Estratégia que gerou o nível da linha; null quando veio do arquivo
+  const nivelCalculadoPor = (row: Row) => {
+    const origem = origemNivel.get(`${row.prato}|${chaveDia(row)}`);
+    return origem && origem !== "arquivo" ? t(`origem.${origem}`) : null;
+  };
+
+  const origensUsadas = useMemo(
+    () => Array.from(new Set(classificacao.origens)),
+    [classificacao]
+  );
+
+  const comparacaoNiveis = useMemo(
+    () =>
+      temNiveisArquivo
+        ? compararNiveis(
+            rowsCenario,
+            calcularNiveis(rowsCenario, classificacaoSettings)
+          )
+        : null,
+    [rowsCenario, temNiveisArquivo, classificacaoSettings]
   );
-};
 
+  const handleClassificacaoChange = (settings: ClassificacaoSettings) => {
+    setClassificacaoSettings(settings);
+    saveClassificacaoSettings(settings);
+  };
 
-const App: React.FC = () => {
-  const [rows, setRows] = useState<Row[]>([]);
-  const [selectedDia, setSelectedDia] = useState<string>("");
-  const [chartType, setChartType] = useState<ChartType>("bar");
+  const handleFeriadosChange = (novos: Feriado[]) => {
+    setFeriados(novos);
+    saveFeriados(novos);
+  };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    Papa.parse<CsvRow>(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const data: Row[] = (results.data ?? [])
-          .filter((r) => r.prato && r.dia_semana)
-          .map((r) => {
-            const qtdBruta = Number(r.qtd_prevista_media ?? r.qtd_vendida ?? 0);
-
-            return {
-              prato: (r.prato ?? "").trim(),
-              dia_semana: (r.dia_semana ?? "").trim(),
-              qtd_prevista_media: Number(qtdBruta.toFixed(3)),
-              nivel_movimento_prato: (
-                r.nivel_movimento_prato ||
-                r.nivel_movimento ||
-                ""
-              ).trim(),
-            };
-          });
-
-        setRows(data);
-        // Seleciona automaticamente o primeiro dia disponível na ordem da semana
-        if (data.length > 0) {
-          let achou = false;
-          for (const key of Object.keys(weekIndexes)) {
-            if (achou) break;
-            for (const d of data) {
-              if (d.dia_semana === key) {
-                setSelectedDia(d.dia_semana);
-                achou = true;
-                break;
-              }
-            }
-          }
-        }
-      },
-      error: (error) => {
+  const handleCenariosChange = (novos: Cenario[]) => {
+    setCenarios(novos);
+    saveCenarios(novos);
+  };
+
+  // Leitura no worker, com progresso; uma nova leitura cancela a anterior
+  const acompanharLeitura = async <T,>(
+    file: File,
+    ler: (opcoes: OpcoesLeitura) => Promise<T>
+  ): Promise<T | null> => {
+    leituraRef.current?.abort();
+    const controle = new AbortController();
+    leituraRef.current = controle;
+    setLeitura({ nome: file.name, linhas: 0, fracao: 0 });
+    try {
+      return await ler({
+        signal: controle.signal,
+        onProgresso: (progresso) => setLeitura({ nome: file.name, ...progresso }),
+      });
+    } catch (error) {
+      if (!isCancelamento(error)) {
         console.error("Erro ao ler CSV:", error);
-        alert("Erro ao ler o arquivo CSV.");
-      },
+        alert(t("erro.lerCsv"));
+      }
+      return null;
+    } finally {
+      if (leituraRef.current === controle) {
+        leituraRef.current = null;
+        setLeitura(null);
+      }
+    }
+  };
+
+  const lerArquivo = (file: File, delimiter: CsvDelimiter) =>
+    acompanharLeitura(file, (opcoes) => lerCsvEmSegundoPlano(file, delimiter, opcoes));
+
+  // O arquivo de previsão também é validado no worker
+  const importarArquivo = (file: File, etapa: EtapaLeitura) =>
+    acompanharLeitura(file, (opcoes) => importarEmSegundoPlano(file, etapa, opcoes));
+
+  const handleArquivo = async (file: File) => {
+    // Arquivos com as mesmas colunas de um mapeamento salvo pulam o assistente
+    const lido = await importarArquivo(file, { etapa: "automatica", perfis: loadProfiles() });
+    if (!lido) return;
+
+    const { resumo, preparo, indice } = lido;
+    setPendingUpload({ file, resumo, options: preparo.options, indice });
+    if (preparo.etapa === "validacao") {
+      setPendingImport(preparo.report);
+      setShowMapping(false);
+    } else {
+      setPendingImport(null);
+      setShowMapping(true);
+    }
+  };
+
+  const handleDelimiterChange = async (delimiter: CsvDelimiter) => {
+    if (!pendingUpload) return;
+    const { file } = pendingUpload;
+    const lido = await importarArquivo(file, { etapa: "mapeamento", delimiter });
+    if (!lido) return;
+    setPendingUpload({
+      file,
+      resumo: lido.resumo,
+      options: lido.preparo.options,
+      indice: lido.indice,
     });
   };
 
-  // Lista de dias da semana presentes no arquivo
-  const diasDisponiveis = useMemo<string[]>(() => {
-    const set = new Set(rows.map((r) => r.dia_semana));
-    return Array.from(set);
-  }, [rows]);
+  const handleApplyMapping = async (
+    options: ImportOptions,
+    salvarPerfil: string | null
+  ) => {
+    if (!pendingUpload) return;
+    const { file, resumo } = pendingUpload;
 
-  // Dados para o gráfico de pratos x quantidade para o dia selecionado
-  const dadosPratosDia = useMemo<Row[]>(() => {
-    if (!selectedDia) return [];
-    return rows
-      .filter((r) => r.dia_semana === selectedDia)
-      .sort((a, b) => b.qtd_prevista_media - a.qtd_prevista_media);
-  }, [rows, selectedDia]);
-
-  // Dados específicos para o gráfico de pizza de pratos (top N + "Outros")
-  const piePratosData = useMemo<Row[]>(() => {
-    const MAX_SLICES = 10;
-
-    if (dadosPratosDia.length <= MAX_SLICES) {
-      return dadosPratosDia;
+    if (salvarPerfil) {
+      saveProfile(salvarPerfil, assinaturaColunas(resumo.colunas), options);
+    }
+    const lido = await importarArquivo(file, { etapa: "validacao", options });
+    if (lido?.preparo.etapa !== "validacao") return;
+    setPendingUpload({ file, resumo: lido.resumo, options, indice: lido.indice });
+    setShowMapping(false);
+    setPendingImport(lido.preparo.report);
+  };
+
+  const handleCancelImport = () => {
+    setPendingUpload(null);
+    setShowMapping(false);
+    setPendingImport(null);
+  };
+
+  // `indice` é o do worker para estas mesmas linhas; sem ele (arquivos da
+  // biblioteca), o índice é montado aqui
+  const carregarDataset = (
+    { rows: data, vendas }: DatasetData,
+    indice: IndiceDias | null = null
+  ) => {
+    setRows(data);
+    setIndiceImportado(indice ? { rows: data, indice } : null);
+    setVendas(vendas);
+    setUnidade(TODAS_UNIDADES);
+    setViewMode("previsao");
+    setFiltroNivel(null);
+    // Seleciona automaticamente o primeiro dia disponível (ordem da semana
+    // ou primeira data do arquivo)
+    const dias = diasOrdenados(data);
+    if (dias.length > 0) setSelectedDia(dias[0]);
+  };
+
+  // Resolve com o total de arquivos na biblioteca (0 se a listagem falhar)
+  const atualizarDatasets = () =>
+    listDatasets()
+      .then((lista) => {
+        setDatasets(lista);
+        return lista.length;
+      })
+      .catch((error) => {
+        console.error("Erro ao listar arquivos salvos:", error);
+        return 0;
+      });
+
+  // Aplica um estado vindo da URL ou de uma visão salva. Dia, unidade,
+  // calendário e cenário só são aplicados se existirem para as linhas abertas;
+  // as mudanças entre rodadas precisam de dois arquivos na biblioteca.
+  const aplicarEstado = (
+    estado: Partial<ViewState>,
+    data: Row[],
+    totalDatasets: number
+  ) => {
+    if (estado.dia && data.some((r) => chaveDia(r) === estado.dia)) {
+      setSelectedDia(estado.dia);
+    }
+    // Visões salvas antes das unidades não têm o campo
+    if (estado.unidade !== undefined) {
+      setUnidade(
+        data.some((r) => unidadeDe(r) === estado.unidade)
+          ? estado.unidade
+          : TODAS_UNIDADES
+      );
+    }
+    const visaoDisponivel =
+      estado.visao === "calendario"
+        ? data.some((r) => r.data)
+        : estado.visao === "unidades"
+          ? unidadesDe(data).length > 1
+          : estado.visao === "diferencas"
+            ? totalDatasets > 1
+            : true;
+    if (estado.visao) {
+      setViewMode(visaoDisponivel ? estado.visao : VIEW_STATE_PADRAO.visao);
+    }
+    if (estado.grafico) setChartType(estado.grafico);
+    if (estado.agrupamento) setAgrupamento(estado.agrupamento);
+    if (estado.escopoNivel) setEscopoNivel(estado.escopoNivel);
+    if (estado.ordemSemana) setOrdemSemana(textoParaOrdem(estado.ordemSemana));
+    if (estado.nivel !== undefined) setFiltroNivel(estado.nivel);
+    // Visões salvas antes da busca de pratos não têm o campo; pratos que não
+    // estão no arquivo aberto ficam de fora
+    setConfigPratos((atual) => ({
+      ...atual,
+      top: estado.topPratos ?? atual.top,
+      ordem: estado.ordemPratos ?? atual.ordem,
+      orientacao: estado.orientacao ?? atual.orientacao,
+      selecionados:
+        estado.pratos?.filter((p) => data.some((r) => r.prato === p)) ??
+        atual.selecionados,
+    }));
+    if (estado.cenario !== undefined) {
+      setCenarioAtivoId(
+        cenarios.some((c) => c.id === estado.cenario) ? estado.cenario : null
+      );
+    }
+  };
+
+  // Retorna false se o arquivo não está mais na biblioteca
+  // Na abertura da página a lista da biblioteca ainda pode estar chegando: o
+  // total vem então da listagem em andamento, sem atrasar a leitura do arquivo
+  const abrirDataset = async (
+    id: string,
+    estado?: Partial<ViewState>,
+    totalDatasets: number | Promise<number> = datasets.length
+  ) => {
+    try {
+      const data = await getDatasetData(id);
+      if (!data) {
+        setLastDatasetId(null);
+        return false;
+      }
+      carregarDataset(data);
+      if (estado) aplicarEstado(estado, data.rows, await totalDatasets);
+      setActiveDatasetId(id);
+      setLastDatasetId(id);
+      return true;
+    } catch (error) {
+      console.error("Erro ao abrir arquivo salvo:", error);
+      alert(t("erro.abrirArquivo"));
+      return false;
+    }
+  };
+
+  // A abertura da página e os arquivos recebidos do sistema rodam uma vez só
+  // (callbacks registrados no início); eles usam sempre as funções da
+  // renderização mais recente
+  const acoesRef = useRef({ handleArquivo, abrirDataset, atualizarDatasets });
+  useEffect(() => {
+    acoesRef.current = { handleArquivo, abrirDataset, atualizarDatasets };
+  });
+
+  // Restaura a biblioteca e o arquivo da URL (ou o último usado) ao abrir a
+  // página; um link de outro navegador cai no último arquivo usado aqui
+  useEffect(() => {
+    const { abrirDataset, atualizarDatasets } = acoesRef.current;
+    const abrirInicial = async () => {
+      const totalDatasets = atualizarDatasets();
+      const estado = lerEstadoUrl(window.location.search);
+      const ultimo = getLastDatasetId();
+      if (
+        estado.dataset &&
+        (await abrirDataset(estado.dataset, estado, totalDatasets))
+      ) {
+        return;
+      }
+      if (ultimo) abrirDataset(ultimo, estado, totalDatasets);
+    };
+    abrirInicial();
+    // CSV recebido pelo app instalado ("Compartilhar" ou "Abrir com") segue o
+    // mesmo caminho do envio pela página
+    if (new URLSearchParams(window.location.search).has("compartilhado")) {
+      lerArquivoCompartilhado()
+        .then((file) => file && acoesRef.current.handleArquivo(file))
+        .catch((error) => console.error("Erro ao ler arquivo compartilhado:", error));
     }
+    aoAbrirArquivo((file) => acoesRef.current.handleArquivo(file));
+  }, []);
+
+  // Abre o conteúdo na tela e guarda uma cópia na biblioteca
+  const carregarESalvar = async (
+    nome: string,
+    fileName: string,
+    data: DatasetData,
+    indice: IndiceDias | null = null
+  ) => {
+    carregarDataset(data, indice);
+    try {
+      const meta = await saveDataset(nome, fileName, data);
+      setActiveDatasetId(meta.id);
+      setLastDatasetId(meta.id);
+      await atualizarDatasets();
+    } catch (error) {
+      // Sem IndexedDB (ex.: navegação privada) o arquivo só fica em memória
+      console.error("Erro ao salvar arquivo na biblioteca:", error);
+      setActiveDatasetId(null);
+    }
+  };
 
-    const top = dadosPratosDia.slice(0, MAX_SLICES);
-    const outros = dadosPratosDia.slice(MAX_SLICES);
+  // Nomes de pratos do arquivo em análise já unificados pelos apelidos salvos
+  const normalizacaoImport = useMemo(
+    () =>
+      pendingImport
+        ? normalizarPratos(pendingImport.aceitas, pendingImport.vendas, aliases)
+        : null,
+    [pendingImport, aliases]
+  );
+  const sugestoesImport = useMemo(
+    () => (normalizacaoImport ? sugerirMesclas(normalizacaoImport.rows) : []),
+    [normalizacaoImport]
+  );
+
+  const handleAliasesChange = (novos: AliasesPratos) => {
+    setAliases(novos);
+    saveAliases(novos);
+  };
 
-    const totalOutros = outros.reduce(
-      (acc, row) => acc + row.qtd_prevista_media,
-      0
+  const handleConfirmImport = async (mesclas: SugestaoMescla[]) => {
+    if (!pendingImport) return;
+    const novosAliases = adicionarAliases(aliases, mesclas);
+    if (mesclas.length > 0) handleAliasesChange(novosAliases);
+    const { rows: aceitas, vendas: vendasAceitas } = normalizarPratos(
+      pendingImport.aceitas,
+      pendingImport.vendas,
+      novosAliases
     );
+    const data: DatasetData = { rows: aceitas, vendas: vendasAceitas };
+    // Sem linhas somadas pelos apelidos, as posições são as que o worker indexou
+    const indice =
+      aceitas.length === pendingImport.aceitas.length ? (pendingUpload?.indice ?? null) : null;
+    const fileName = pendingImport.fileName;
+    handleCancelImport();
+    await carregarESalvar(fileName.replace(/\.[^.]+$/, ""), fileName, data, indice);
+  };
+
+  // Um arquivo por restaurante: cada dataset marcado vira uma unidade, com o
+  // nome que tem na biblioteca
+  const handleCombinarUnidades = async (ids: string[]) => {
+    try {
+      const partes = await Promise.all(
+        ids.map(async (id) => {
+          const data = await getDatasetData(id);
+          const nome = datasets.find((d) => d.id === id)?.nome ?? id;
+          return data ? { unidade: nome, data } : null;
+        })
+      );
+      const encontradas = partes.filter((p) => p !== null);
+      if (encontradas.length === 0) return;
+      const nomes = encontradas.map((p) => p.unidade);
+      await carregarESalvar(
+        `Unidades: ${nomes.join(", ")}`,
+        `${nomes.join("+")}.csv`,
+        combinarComoUnidades(encontradas)
+      );
+    } catch (error) {
+      console.error("Erro ao combinar arquivos:", error);
+      alert(t("erro.abrirArquivo"));
+    }
+  };
+
+  // A previsão gerada não traz vendas reais; a comparação usa as da biblioteca
+  const handleGerarPrevisao = (novas: Row[], nome: string, fileName: string) =>
+    carregarESalvar(nome, fileName, {
+      rows: normalizarPratos(novas, [], aliases).rows,
+      vendas: [],
+    });
+
+  const handleRenameDataset = async (id: string, nome: string) => {
+    await renameDataset(id, nome);
+    await atualizarDatasets();
+  };
+
+  const handleDeleteDataset = async (id: string) => {
+    await deleteDataset(id);
+    if (id === activeDatasetId) {
+      setActiveDatasetId(null);
+      setRows([]);
+      setVendas([]);
+      setSelectedDia("");
+    }
+    if (id === fonteVendas) handleChangeFonte("");
+    if (id === diffAnterior.id) setDiffAnterior(LADO_DIFF_VAZIO);
+    if (id === diffAtual.id) setDiffAtual(LADO_DIFF_VAZIO);
+    await atualizarDatasets();
+  };
+
+  // Vendas reais disponíveis para comparar com a previsão aberta: a coluna
+  // do próprio arquivo ou qualquer outro arquivo da biblioteca
+  const fontesVendas = useMemo<FonteVendas[]>(() => {
+    const fontes: FonteVendas[] = [];
+    if (vendas.length > 0) {
+      fontes.push({
+        id: FONTE_VENDAS_ARQUIVO,
+        label: t("fonte.arquivo"),
+      });
+    }
+    datasets
+      .filter((d) => d.id !== activeDatasetId)
+      .forEach((d) =>
+        fontes.push({ id: d.id, label: t("fonte.dataset", { nome: d.nome }) })
+      );
+    return fontes;
+  }, [vendas, datasets, activeDatasetId, t]);
+
+  const handleChangeFonte = async (id: string) => {
+    setFonteVendas(id);
+    setVendasExternas([]);
+    if (!id || id === FONTE_VENDAS_ARQUIVO) return;
+    try {
+      const data = await getDatasetData(id);
+      if (!data) return;
+      // Arquivo só de vendas: a quantidade importada já é a venda real
+      setVendasExternas(
+        data.vendas.length > 0 ? data.vendas : vendasDeRows(data.rows)
+      );
+    } catch (error) {
+      console.error("Erro ao carregar vendas:", error);
+    }
+  };
+
+  // Linhas de um lado da comparação entre rodadas; o arquivo aberto não
+  // precisa ser lido de novo da biblioteca
+  const handleChangeLadoDiff = async (
+    id: string,
+    setLado: React.Dispatch<React.SetStateAction<LadoDiff>>
+  ) => {
+    if (!id || id === activeDatasetId) {
+      setLado({ id, rows: id ? rowsArquivo : null });
+      return;
+    }
+    setLado({ id, rows: null });
+    try {
+      const data = await getDatasetData(id);
+      // Outro arquivo pode ter sido escolhido enquanto este carregava
+      setLado((atual) =>
+        atual.id === id ? { id, rows: data?.rows ?? [] } : atual
+      );
+    } catch (error) {
+      console.error("Erro ao carregar arquivo para comparação:", error);
+      alert(t("erro.abrirArquivo"));
+    }
+  };
+
+  const handleRecipeFile = async (file: File) => {
+    const results = await lerArquivo(file, "");
+    if (!results) return;
+    const { receitas: novas, erros } = parseRecipes(results);
+    setErrosReceitas(erros);
+    // Um arquivo sem nenhuma linha válida não apaga as receitas atuais
+    if (novas.length === 0) return;
+    setReceitas(novas);
+    saveRecipes(novas);
+  };
+
+  const handleClearRecipes = () => {
+    setReceitas([]);
+    setErrosReceitas([]);
+    saveRecipes([]);
+  };
+
+  const handleCatalogoFile = async (file: File) => {
+    const results = await lerArquivo(file, "");
+    if (!results) return;
+    const { itens, erros } = parseCatalogo(results);
+    setErrosCatalogo(erros);
+    // Um arquivo sem nenhuma linha válida não apaga o catálogo atual
+    if (itens.length === 0) return;
+    setCatalogo(itens);
+    saveCatalogo(itens);
+  };
 
-    return [
-      ...top,
-      {
-        prato: "Outros pratos",
-        dia_semana: selectedDia,
-        qtd_prevista_media: Number(totalOutros.toFixed(3)),
-        nivel_movimento_prato: "",
-      },
+  const handleCatalogoChange = (novo: CatalogoItem[]) => {
+    setCatalogo(novo);
+    saveCatalogo(novo);
+  };
+
+  const handleClearCatalogo = () => {
+    setErrosCatalogo([]);
+    handleCatalogoChange([]);
+  };
+
+  const handleViewModeChange = (modo: ViewMode) => {
+    setViewMode(modo);
+    if (modo === "comparacao" && !fontesVendas.some((f) => f.id === fonteVendas)) {
+      handleChangeFonte(fontesVendas[0]?.id ?? "");
+    }
+    // Por padrão, o arquivo aberto contra o mais recente dos outros
+    if (modo === "diferencas" && !diffAnterior.id && !diffAtual.id) {
+      const outro = datasets.find((d) => d.id !== activeDatasetId);
+      if (activeDatasetId) handleChangeLadoDiff(activeDatasetId, setDiffAtual);
+      if (outro) handleChangeLadoDiff(outro.id, setDiffAnterior);
+    }
+  };
+
+  // Uma unidade pode não abrir em todos os dias do grupo: cai no primeiro dela
+  const handleUnidadeChange = (nova: string) => {
+    setUnidade(nova);
+    const dias = diasOrdenados(rowsDaUnidade(rowsArquivo, nova));
+    if (dias.length > 0 && !dias.includes(selectedDia)) setSelectedDia(dias[0]);
+  };
+
+  // Vendas reais da mesma unidade (ou do consolidado) da previsão aberta
+  const vendasComparacao = useMemo(
+    () =>
+      vendasDaUnidade(
+        fonteVendas === FONTE_VENDAS_ARQUIVO ? vendas : vendasExternas,
+        unidade
+      ),
+    [fonteVendas, vendas, vendasExternas, unidade]
+  );
+
+  // Mudanças entre duas rodadas da previsão, na unidade escolhida
+  const diffRodadas = useMemo(
+    () =>
+      diffAnterior.rows && diffAtual.rows
+        ? compararDatasets(
+            rowsDaUnidade(diffAnterior.rows, unidade),
+            rowsDaUnidade(diffAtual.rows, unidade)
+          )
+        : null,
+    [diffAnterior, diffAtual, unidade]
+  );
+
+  // Cada unidade como se estivesse aberta sozinha (feriados e níveis
+  // próprios), para a comparação lado a lado
+  const rowsPorUnidade = useMemo(
+    () =>
+      viewMode === "unidades"
+        ? unidades.flatMap(
+            (u) =>
+              aplicarClassificacao(
+                aplicarFeriados(rowsDaUnidade(rowsArquivo, u), feriados),
+                classificacaoSettings
+              ).rows
+          )
+        : [],
+    [viewMode, unidades, rowsArquivo, feriados, classificacaoSettings]
+  );
+
+  // Clique no mapa da semana: abre o dia na visão de previsão
+  const abrirDia = (dia: string) => {
+    setSelectedDia(dia);
+    setViewMode("previsao");
+  };
+
+  // Índice das linhas do arquivo: o do worker, quando o arquivo acabou de ser
+  // importado, ou montado aqui uma vez por arquivo aberto da biblioteca
+  const indiceArquivo = useMemo(
+    () =>
+      indiceImportado?.rows === rowsArquivo
+        ? indiceImportado.indice
+        : indexarPorDia(rowsArquivo),
+    [indiceImportado, rowsArquivo]
+  );
+
+  // Feriados e classificação mantêm as linhas do arquivo nas mesmas posições,
+  // então o índice do arquivo vale para `rows`. Um cenário tira e inclui
+  // pratos, e a escolha de unidade filtra ou soma linhas: só nesses casos o
+  // índice é refeito.
+  const indiceDias = useMemo(
+    () => (cenarioAtivo || rowsUnidade !== rowsArquivo ? indexarPorDia(rows) : indiceArquivo),
+    [cenarioAtivo, rows, rowsUnidade, rowsArquivo, indiceArquivo]
+  );
+
+  // Dias (da semana ou datas) presentes no arquivo, já ordenados
+  const diasDisponiveis = useMemo(
+    () => indiceDias?.dias ?? diasOrdenados(rows),
+    [indiceDias, rows]
+  );
+
+  const temDatas = useMemo(() => rows.some((r) => r.data), [rows]);
+
+  // Semana do dia selecionado; sem datas é o arquivo inteiro
+  const rowsSemana = useMemo(
+    () => rowsDaSemana(rows, selectedDia),
+    [rows, selectedDia]
+  );
+
+  const feriadoSelecionado = feriados.find((f) => f.data === selectedDia);
+
+  // Dados para o gráfico de pratos x quantidade para o dia selecionado
+  const dadosPratosDia = useMemo(
+    () => pratosDoDia(rows, selectedDia, indiceDias),
+    [rows, selectedDia, indiceDias]
+  );
+
+  // Plano de produção (margem, lotes e limites) para o dia selecionado
+  const planoDia = useMemo(
+    () => gerarPlano(dadosPratosDia, planSettings),
+    [dadosPratosDia, planSettings]
+  );
+
+  // Versões filtradas pelo nível clicado; exportação e impressão usam o dia completo
+  const pratosDiaFiltrados = useMemo(
+    () => filtrarPorNivel(dadosPratosDia, filtroNivel, (r) => r),
+    [dadosPratosDia, filtroNivel]
+  );
+  const planoDiaFiltrado = useMemo(
+    () => filtrarPorNivel(planoDia, filtroNivel, (p) => p.row),
+    [planoDia, filtroNivel]
+  );
+
+  // Com cenário ativo, o gráfico de pratos mostra a previsão original ao lado
+  const dadosGraficoPratos = useMemo(
+    () => comOriginal(pratosDiaFiltrados, deltas),
+    [pratosDiaFiltrados, deltas]
+  );
+
+  // Mesmo gráfico somado por categoria do catálogo
+  const dadosCategoriaDia = useMemo(
+    () =>
+      quantidadesPorCategoria(dadosGraficoPratos, catalogo).map((c) => ({
+        ...c,
+        prato: rotuloCategoria(c.prato),
+      })),
+    [dadosGraficoPratos, catalogo, rotuloCategoria]
+  );
+
+  // Receita, custo e margem previstos para o dia (só com catálogo cadastrado)
+  const financeiroDia = useMemo(
+    () =>
+      catalogo.length > 0
+        ? projetarFinanceiro(dadosPratosDia, catalogo).total
+        : null,
+    [dadosPratosDia, catalogo]
+  );
+
+  // Pratos do dia que o cenário ativo tirou do cardápio
+  const removidosNoDia = useMemo(
+    () => removidosDoCenario(rowsComFeriados, cenarioAtivo, selectedDia),
+    [rowsComFeriados, cenarioAtivo, selectedDia]
+  );
+
+  // Pratos e dias da previsão original, para montar os cenários
+  const pratosOriginais = useMemo(
+    () => nomesPratos(rowsComFeriados),
+    [rowsComFeriados]
+  );
+  const diasOriginais = useMemo(
+    () => diasOrdenados(rowsComFeriados),
+    [rowsComFeriados]
+  );
+
+  const pratosDisponiveis = useMemo(() => nomesPratos(rows), [rows]);
+
+  const handlePlanSettingsChange = (settings: PlanSettings) => {
+    setPlanSettings(settings);
+    savePlanSettings(settings);
+  };
+
+  // A data escolhida só vale enquanto corresponde ao dia selecionado
+  const dataRegistro =
+    dataRegistroEscolhida && dataServeParaDia(dataRegistroEscolhida, selectedDia)
+      ? dataRegistroEscolhida
+      : dataDoRegistro(selectedDia, new Date());
+
+  // Com uma só unidade no arquivo, o consolidado é a própria unidade
+  const unidadeRegistro = unidades.length === 1 ? unidades[0] : unidade;
+  const localRegistro: LocalRegistro = {
+    data: dataRegistro,
+    unidade: unidadeRegistro,
+  };
+  // O consolidado de várias unidades soma pratos de cozinhas diferentes: o
+  // checklist só é anotado com uma unidade escolhida
+  const registroExigeUnidade = unidadeRegistro === TODAS_UNIDADES && unidades.length > 1;
+  const registroAtual = registroExigeUnidade
+    ? undefined
+    : registroDe(registros, localRegistro);
+
+  // Relatório de desperdício de todos os registros da unidade escolhida,
+  // qualquer que seja o arquivo aberto
+  const diasDesperdicio = useMemo(
+    () => registrosDe(registros, unidadeRegistro),
+    [registros, unidadeRegistro]
+  );
+
+  const handleRegistrar = (item: PlanoItem, mudanca: MudancaRegistro) => {
+    const novos = atualizarRegistro(registros, localRegistro, item, mudanca);
+    setRegistros(novos);
+    saveRegistros(novos);
+  };
+
+  // Top N, ordem e seleção de pratos: o mesmo recorte nas barras e na pizza
+  const dadosPratosGrafico = useMemo(
+    () =>
+      montarGraficoPratos(
+        dadosGraficoPratos,
+        configPratos,
+        t("pratos.outros"),
+        locale
+      ),
+    [dadosGraficoPratos, configPratos, t, locale]
+  );
+  const dadosGraficoDia =
+    agrupamento === "categoria" ? dadosCategoriaDia : dadosPratosGrafico;
+
+  // Contagem de combinações e soma de porções por nível de movimento,
+  // no dia selecionado ou na semana inteira
+  const dadosNivelMovimento = useMemo(
+    () => resumirNiveis(escopoNivel === "dia" ? dadosPratosDia : rowsSemana),
+    [rowsSemana, dadosPratosDia, escopoNivel]
+  );
+
+  const avisoFiltroNivel = filtroNivel && (
+    <p style={{ color: "var(--cor-info)", fontSize: "0.85rem", marginBottom: "0.75rem" }}>
+      {t("nivel.filtroAtivo")}{" "}
+      <strong style={{ textTransform: "capitalize" }}>
+        {rotuloNivel(filtroNivel)}
+      </strong>
+      .{" "}
+      <button
+        type="button"
+        onClick={() => setFiltroNivel(null)}
+        style={smallButtonStyle}
+      >
+        {t("nivel.limparFiltro")}
+      </button>
+    </p>
+  );
+
+  // Estado da tela espelhado na URL para o link poder ser compartilhado
+  const estadoAtual = useMemo<ViewState>(
+    () => ({
+      dataset: activeDatasetId,
+      dia: selectedDia,
+      unidade,
+      grafico: chartType,
+      visao: viewMode,
+      agrupamento,
+      escopoNivel,
+      nivel: filtroNivel,
+      cenario: cenarioAtivo?.id ?? null,
+      ordemSemana: ordemParaTexto(ordemSemana),
+      topPratos: configPratos.top,
+      ordemPratos: configPratos.ordem,
+      orientacao: configPratos.orientacao,
+      pratos: configPratos.selecionados,
+    }),
+    [
+      activeDatasetId,
+      selectedDia,
+      unidade,
+      chartType,
+      viewMode,
+      agrupamento,
+      escopoNivel,
+      filtroNivel,
+      cenarioAtivo,
+      ordemSemana,
+      configPratos,
+    ]
+  );
+
+  useEffect(() => {
+    // Antes de abrir um arquivo a URL recebida ainda não foi aplicada
+    if (rowsArquivo.length === 0) return;
+    const query = [escreverEstadoUrl(estadoAtual), modoCozinha ? "cozinha=1" : ""]
+      .filter(Boolean)
+      .join("&");
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    );
+  }, [estadoAtual, rowsArquivo.length, modoCozinha]);
+
+  const handleSalvarVisao = (nome: string) => {
+    const novas = [
+      ...visoes,
+      { id: crypto.randomUUID(), nome, estado: estadoAtual },
     ];
-  }, [dadosPratosDia, selectedDia]);
+    setVisoes(novas);
+    saveVisoes(novas);
+  };
+
+  const handleExcluirVisao = (id: string) => {
+    const novas = visoes.filter((v) => v.id !== id);
+    setVisoes(novas);
+    saveVisoes(novas);
+  };
 
-  // Contagem de pratos por nível de movimento
-  const dadosNivelMovimento = useMemo<NivelMovimentoData[]>(() => {
-    const contagem: Record<string, number> = {};
+  const handleAbrirVisao = async ({ estado }: VisaoSalva) => {
+    if (estado.dataset && estado.dataset !== activeDatasetId) {
+      if (!(await abrirDataset(estado.dataset, estado))) {
+        alert(t("erro.visaoSemArquivo"));
+      }
+      return;
+    }
+    aplicarEstado(estado, rowsArquivo, datasets.length);
+  };
 
-    rows.forEach((r) => {
-      const nivel = r.nivel_movimento_prato || "não definido";
-      contagem[nivel] = (contagem[nivel] || 0) + 1;
+  // Nome base dos arquivos exportados: o dataset aberto ou um nome genérico,
+  // mais a unidade quando uma só está aberta
+  const nomeExportacao = useMemo(() => {
+    const nome = datasets.find((d) => d.id === activeDatasetId)?.nome ?? "previsao";
+    return nomeParaArquivo(unidade ? `${nome}-${unidade}` : nome);
+  }, [datasets, activeDatasetId, unidade]);
+
+  const planoSemana = useMemo(
+    () => ordenarPlanoSemana(gerarPlano(rowsSemana, planSettings)),
+    [rowsSemana, planSettings]
+  );
+
+  const sufixoNivel = escopoNivel === "dia" ? selectedDia : "semana";
+
+  const handleExportCsv = (escopo: "dia" | "semana" | "nivel") => {
+    if (escopo === "nivel") {
+      exportarCsv(
+        tabelaNivelMovimento("Níveis", dadosNivelMovimento),
+        `${nomeExportacao}-niveis-${sufixoNivel}.csv`
+      );
+    } else if (escopo === "dia") {
+      exportarCsv(
+        tabelaProducao(selectedDia, planoDia),
+        `${nomeExportacao}-producao-${selectedDia}.csv`
+      );
+    } else {
+      exportarCsv(
+        tabelaProducao("Semana", planoSemana),
+        `${nomeExportacao}-producao-semana.csv`
+      );
+    }
+  };
+
+  const handleExportXlsx = () => {
+    exportarXlsx(
+      [
+        tabelaProducao(`Produção ${selectedDia}`, planoDia),
+        tabelaProducao("Produção semana", planoSemana),
+        tabelaNivelMovimento(`Níveis ${sufixoNivel}`, dadosNivelMovimento),
+      ],
+      `${nomeExportacao}.xlsx`
+    ).catch((error) => {
+      console.error("Erro ao exportar XLSX:", error);
+      alert(t("erro.xlsx"));
     });
+  };
 
-    const ordem = ["baixo", "médio", "alto", "não definido"];
+  const handleExportUnidades = (comparacao: ComparacaoUnidade[]) =>
+    exportarCsv(
+      tabelaUnidades(selectedDia, comparacao, unidades),
+      `${nomeExportacao}-unidades-${selectedDia}.csv`
+    );
+
+  const handleExportDesperdicio = (porPrato: LinhaDesperdicio[]) =>
+    exportarCsv(
+      tabelaDesperdicio("Desperdício", "prato", porPrato),
+      `${nomeExportacao}-desperdicio.csv`
+    );
 
-    return Object.entries(contagem)
-      .map(([nivel, quantidade]) => ({
-        nivel,
-        quantidade,
-      }))
-      .sort((a, b) => ordem.indexOf(a.nivel) - ordem.indexOf(b.nivel));
-  }, [rows]);
+  const handleExportDiff = (diff: DiffLinha[]) =>
+    exportarCsv(tabelaDiff("Mudanças", diff), `${nomeExportacao}-mudancas.csv`);
+
+  // A folha precisa estar renderizada com o escopo certo antes de abrir a impressão
+  const handleImprimirFolha = (escopo: EscopoFolha) => {
+    flushSync(() => setFolhaEscopo(escopo));
+    window.print();
+  };
+
+  // A tela cheia só pode ser pedida dentro do clique
+  const handleAbrirCozinha = () => {
+    document.documentElement.requestFullscreen?.().catch((error) => {
+      console.error("Erro ao abrir tela cheia:", error);
+    });
+    setModoCozinha(true);
+  };
+
+  const handleFecharCozinha = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch((error) => {
+        console.error("Erro ao sair da tela cheia:", error);
+      });
+    }
+    setModoCozinha(false);
+  };
 
   return (
-    <div
-      style={{
-        minHeight: "100vh",
-        background: "#0f172a",
-        color: "#e5e7eb",
-        fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI'",
-        padding: "2rem",
-      }}
-    >
+    <>
+      {/* Largura e espaçamento mudam com a tela (ver `CSS_TEMA`) */}
       <div
+        className="sabor-tela"
         style={{
-          maxWidth: "960px",
-          margin: "0 auto",
-          background: "#020617",
-          borderRadius: "1rem",
-          padding: "1.5rem 2rem 2.5rem",
-          boxShadow: "0 20px 40px rgba(15,23,42,0.8)",
-          border: "1px solid rgba(148,163,184,0.3)",
+          minHeight: "100vh",
+          background: "var(--cor-fundo)",
+          color: "var(--cor-texto)",
+          fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI'",
         }}
       >
-        <h1 style={{ fontSize: "1.8rem", marginBottom: "0.5rem" }}>
-          Dashboard de Previsão de Pratos
-        </h1>
-        <p style={{ marginBottom: "1.5rem", color: "#9ca3af" }}>
-          Faça upload do arquivo CSV gerado no Colab (por exemplo:
-          <code style={{ marginLeft: 4, marginRight: 4 }}>
-            previsoes_prato_dia_semana.csv
-          </code>
-          ) para visualizar as previsões por prato e dia da semana.
-        </p>
-
-        <div
+        <main
+          className="sabor-cartao"
           style={{
-            marginBottom: "1.5rem",
-            padding: "1rem",
-            borderRadius: "0.75rem",
-            border: "1px dashed rgba(148,163,184,0.6)",
-            background:
-              "linear-gradient(135deg, rgba(15,23,42,0.9), rgba(30,64,175,0.35))",
+            margin: "0 auto",
+            background: "var(--cor-cartao)",
+            boxShadow: "0 20px 40px var(--cor-sombra)",
+            border: "1px solid var(--cor-borda)",
           }}
         >
-          <label
-            htmlFor="csvUpload"
-            style={{ display: "block", marginBottom: "0.5rem" }}
-          >
-            <span style={{ fontWeight: 500 }}>Arquivo CSV:</span>{" "}
-            <span style={{ color: "#9ca3af", fontSize: "0.9rem" }}>
-              (clique para selecionar)
-            </span>
-          </label>
-          <input
-            id="csvUpload"
-            type="file"
-            accept=".csv,text/csv"
-            onChange={handleFileChange}
+          <div
             style={{
-              display: "block",
-              width: "98%",
-              padding: "0.5rem",
-              borderRadius: "0.5rem",
-              border: "1px solid rgba(148,163,184,0.7)",
-              backgroundColor: "rgba(15,23,42,0.8)",
-              color: "#e5e7eb",
+              display: "flex",
+              flexWrap: "wrap",
+              justifyContent: "space-between",
+              alignItems: "baseline",
+              gap: "0.5rem 1rem",
+              marginBottom: "0.5rem",
             }}
-          />
-        </div>
-
-        {rows.length === 0 && (
-          <p style={{ color: "#9ca3af" }}>
-            Nenhum dado carregado ainda. Faça upload de um arquivo CSV para ver
-            os gráficos.
-          </p>
-        )}
-
-        {rows.length > 0 && (
-          <>
-            {/* Filtro de dia da semana */}
-            <div
-              style={{
-                marginBottom: "1rem",
-                display: "flex",
-                gap: "1rem",
-                alignItems: "center",
-              }}
-            >
-              <span style={{ fontWeight: 500 }}>Dia da semana:</span>
+          >
+            <h1 style={{ fontSize: "1.8rem", margin: 0 }}>{t("app.titulo")}</h1>
+            <span style={{ display: "inline-flex", flexWrap: "wrap", gap: "0.4rem" }}>
+              {rows.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleAbrirCozinha}
+                  style={{ ...buttonStyle, fontSize: "0.85rem" }}
+                >
+                  {t("cozinha.abrir")}
+                </button>
+              )}
               <select
-                value={selectedDia}
-                onChange={(e) => setSelectedDia(e.target.value)}
-                style={{
-                  padding: "0.4rem 0.75rem",
-                  borderRadius: "999px",
-                  border: "1px solid rgba(148,163,184,0.7)",
-                  backgroundColor: "#020617",
-                  color: "#e5e7eb",
-                }}
+                value={tema}
+                onChange={(e) => setTema(e.target.value as Tema)}
+                aria-label={t("app.tema")}
+                title={t("app.tema")}
+                style={{ ...selectStyle, fontSize: "0.85rem" }}
               >
-                {[...diasDisponiveis]
-                  .sort((a, b) => weekIndexes[a] - weekIndexes[b])
-                  .map((dia) => (
-                    <option key={dia} value={dia}>
-                      {dia}
-                    </option>
-                  ))}
+                {TEMAS.map((id) => (
+                  <option key={id} value={id}>
+                    {t(`tema.${id}`)}
+                  </option>
+                ))}
               </select>
-            </div>
-
-            {/* Select de tipo de gráfico */}
-            <div
-              style={{
-                marginBottom: "1.5rem",
-                display: "flex",
-                gap: "1rem",
-                alignItems: "center",
-              }}
-            >
-              <span style={{ fontWeight: 500 }}>Tipo de gráfico:</span>
               <select
-                value={chartType}
-                onChange={(e) =>
-                  setChartType(e.target.value as ChartType)
-                }
-                style={{
-                  padding: "0.4rem 0.75rem",
-                  borderRadius: "999px",
-                  border: "1px solid rgba(148,163,184,0.7)",
-                  backgroundColor: "#020617",
-                  color: "#e5e7eb",
-                }}
+                value={paleta}
+                onChange={(e) => setPaleta(e.target.value as Paleta)}
+                aria-label={t("app.paleta")}
+                title={t("app.paleta")}
+                style={{ ...selectStyle, fontSize: "0.85rem" }}
               >
-                <option value="bar">Barras</option>
-                <option value="pie">Pizza</option>
+                {PALETAS.map((id) => (
+                  <option key={id} value={id}>
+                    {t(`paleta.${id}`)}
+                  </option>
+                ))}
               </select>
-            </div>
-
-            {/* Gráfico 1: pratos x quantidade prevista (dia selecionado) */}
-            <section style={{ marginBottom: "2rem" }}>
-              <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
-                Quantidade prevista por prato ({selectedDia})
-              </h2>
-              <p style={{ color: "#9ca3af", marginBottom: "0.75rem" }}>
-                Mostra a quantidade média prevista para cada prato no dia da
-                semana selecionado.
-              </p>
-              <div style={{ width: "100%", height: 320 }}>
-                <ResponsiveContainer>
-                  {chartType === "bar" ? (
-                    <BarChart data={dadosPratosDia}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
-                      <XAxis dataKey="prato" tick={{ fontSize: 10 }} />
-                      <YAxis />
-                      <Tooltip
-                        contentStyle={{
-                          backgroundColor: "#020617",
-                          border: "1px solid rgba(148,163,184,0.6)",
-                          borderRadius: "0.5rem",
-                        }}
-                      />
-                      <Legend />
-                      <Bar
-                        dataKey="qtd_prevista_media"
-                        name="Qtd. prevista"
-                        fill="#60a5fa"
-                      />
-                    </BarChart>
-                  ) : (
-                    <PieChart margin={{ top: 8, bottom: 20, right: 8, left: 8 }}>
-                      <Pie
-                        data={piePratosData}
-                        dataKey="qtd_prevista_media"
-                        nameKey="prato"
-                        cx="50%"
-                        cy="50%"
-                        outerRadius={100}
-                        labelLine={false}
-                        label={false}
-                      >
-                        {piePratosData.map((_, index) => (
-                          <Cell
-                            key={`cell-prato-${index}`}
-                            fill={PIE_COLORS[index % PIE_COLORS.length]}
-                          />
-                        ))}
-                      </Pie>
-
-                      <Legend
-                        layout="horizontal"
-                        verticalAlign="bottom"
-                        align="center"
-                        content={renderPratosLegend}
-                      />
-                    </PieChart>
+              <select
+                value={idioma}
+                onChange={(e) => setIdioma(e.target.value as Idioma)}
+                aria-label={t("app.idioma")}
+                title={t("app.idioma")}
+                style={{ ...selectStyle, fontSize: "0.85rem" }}
+              >
+                {IDIOMAS.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.label}
+                  </option>
+                ))}
+              </select>
+            </span>
+          </div>
+          <p style={{ marginBottom: "1.5rem", color: "var(--cor-texto-suave)" }}>
+            {t("app.introAntes")}
+            <code style={{ marginLeft: 4, marginRight: 4 }}>
+              previsoes_prato_dia_semana.csv
+            </code>
+            {t("app.introDepois")}
+          </p>
+
+          <UploadPanel onFile={handleArquivo} />
+
+          {leitura && (
+            <ReadProgress
+              nome={leitura.nome}
+              linhas={leitura.linhas}
+              fracao={leitura.fracao}
+              onCancel={() => leituraRef.current?.abort()}
+            />
+          )}
+
+          <ForecastBuilder
+            onLerArquivo={(file) => lerArquivo(file, "")}
+            onGerar={handleGerarPrevisao}
+          />
+
+          <DatasetLibrary
+            datasets={datasets}
+            activeId={activeDatasetId}
+            onOpen={abrirDataset}
+            onRename={handleRenameDataset}
+            onDelete={handleDeleteDataset}
+            onCombine={handleCombinarUnidades}
+          />
+
+          <AliasManager aliases={aliases} onChange={handleAliasesChange} />
 
+          {pendingUpload && showMapping && (
+            <ColumnMappingWizard
+              key={`${pendingUpload.options.delimiter}|${assinaturaColunas(
+                pendingUpload.resumo.colunas
+              )}`}
+              fileName={pendingUpload.file.name}
+              colunas={pendingUpload.resumo.colunas}
+              amostra={pendingUpload.resumo.amostra}
+              delimitadorDetectado={pendingUpload.resumo.delimitadorDetectado}
+              initialOptions={pendingUpload.options}
+              perfilExistente={
+                findProfile(assinaturaColunas(pendingUpload.resumo.colunas))?.nome ??
+                null
+              }
+              onChangeDelimiter={handleDelimiterChange}
+              onApply={handleApplyMapping}
+              onCancel={handleCancelImport}
+            />
+          )}
+
+          {pendingImport && (
+            <ImportReportPanel
+              key={`${pendingImport.fileName}|${pendingImport.aceitas.length}`}
+              report={pendingImport}
+              renomeados={normalizacaoImport?.renomeados ?? []}
+              sugestoes={sugestoesImport}
+              onConfirm={handleConfirmImport}
+              onCancel={handleCancelImport}
+              onEditMapping={() => {
+                setPendingImport(null);
+                setShowMapping(true);
+              }}
+            />
+          )}
+
+          {rows.length === 0 && (
+            <p style={{ color: "var(--cor-texto-suave)" }}>{t("app.semDados")}</p>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              {/* Filtro de dia da semana */}
+              <DaySelector
+                dias={diasDisponiveis}
+                value={selectedDia}
+                temDatas={temDatas}
+                onChange={setSelectedDia}
+              />
+
+              {unidades.length > 0 && (
+                <UnitSelector
+                  unidades={unidades}
+                  value={unidade}
+                  onChange={handleUnidadeChange}
+                />
+              )}
+
+              {/* Modo de visualização */}
+              <div
+                style={{
+                  marginBottom: "1rem",
+                  display: "flex",
+                  gap: "1rem",
+                  alignItems: "center",
+                }}
+              >
+                <span style={{ fontWeight: 500 }}>{t("filtro.visualizacao")}</span>
+                <select
+                  value={viewMode}
+                  onChange={(e) =>
+                    handleViewModeChange(e.target.value as ViewMode)
+                  }
+                  style={selectStyle}
+                >
+                  <option value="previsao">{t("visao.previsao")}</option>
+                  <option value="semana">{t("visao.semana")}</option>
+                  {temDatas && (
+                    <option value="calendario">{t("visao.calendario")}</option>
                   )}
-                </ResponsiveContainer>
-              </div>
-            </section>
-
-            {/* Gráfico 2: contagem por nível de movimento */}
-            <section>
-              <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
-                Nível de movimento por combinação prato/dia
-              </h2>
-              <p style={{ color: "#9ca3af", marginBottom: "0.75rem" }}>
-                Conta quantas combinações prato + dia da semana foram
-                classificadas como baixo, médio ou alto movimento.
-              </p>
-              <div style={{ width: "100%", height: 260 }}>
-                <ResponsiveContainer>
-                  {chartType === "bar" ? (
-                    <BarChart data={dadosNivelMovimento}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
-                      <XAxis dataKey="nivel" />
-                      <YAxis allowDecimals={false} />
-                      <Tooltip
-                        contentStyle={{
-                          backgroundColor: "#020617",
-                          border: "1px solid rgba(148,163,184,0.6)",
-                          borderRadius: "0.5rem",
-                        }}
-                      />
-                      <Legend />
-                      <Bar
-                        dataKey="quantidade"
-                        name="Qtde. de combinações"
-                        fill="#34d399"
-                      />
-                    </BarChart>
-                  ) : (
-                    <PieChart margin={{ top: 8, bottom: 40, right: 4, left: 4 }}>
-                      <Pie
-                        data={dadosNivelMovimento}
-                        dataKey="quantidade"
-                        nameKey="nivel"
-                        cx="50%"
-                        cy="50%"
-                        outerRadius={100}
-                        labelLine={false}
-                        label={({ name, percent }) =>
-                          `${name} (${(percent! * 100).toFixed(1)}%)`
-                        }
-                      >
-                        {dadosNivelMovimento.map((_, index) => (
-                          <Cell
-                            key={`cell-nivel-${index}`}
-                            fill={PIE_COLORS[index % PIE_COLORS.length]}
-                          />
-                        ))}
-                      </Pie>
-                    </PieChart>
+                  <option value="comparacao">{t("visao.comparacao")}</option>
+                  <option value="compras">{t("visao.compras")}</option>
+                  <option value="financeiro">{t("visao.financeiro")}</option>
+                  {unidades.length > 1 && (
+                    <option value="unidades">{t("visao.unidades")}</option>
                   )}
-                </ResponsiveContainer>
-
+                  {datasets.length > 1 && (
+                    <option value="diferencas">{t("visao.diferencas")}</option>
+                  )}
+                  <option value="desperdicio">{t("visao.desperdicio")}</option>
+                </select>
               </div>
-            </section>
-
-            {/* Sugestão de preparo para o dia selecionado */}
-            <section
-              style={{
-                marginTop: "2.5rem",
-                paddingTop: "1.5rem",
-                borderTop: "1px solid rgba(148,163,184,0.4)",
-              }}
-            >
-              <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
-                Sugestão de preparo para {selectedDia}
-              </h2>
-              <p style={{ color: "#9ca3af", marginBottom: "0.75rem" }}>
-                Lista de pratos e quantidades previstas para auxiliar o
-                planejamento de produção no dia selecionado.
-              </p>
-
-              {dadosPratosDia.length === 0 ? (
-                <p style={{ color: "#9ca3af" }}>
-                  Não há dados disponíveis para o dia selecionado.
-                </p>
+
+              <SavedViewsPanel
+                visoes={visoes}
+                datasets={datasets}
+                onSalvar={handleSalvarVisao}
+                onAbrir={handleAbrirVisao}
+                onExcluir={handleExcluirVisao}
+              />
+
+              <ScenarioEditor
+                cenarios={cenarios}
+                ativoId={cenarioAtivo?.id ?? null}
+                pratos={pratosOriginais}
+                dias={diasOriginais}
+                onSelect={setCenarioAtivoId}
+                onChange={handleCenariosChange}
+              />
+
+              {viewMode === "comparacao" ? (
+                <ComparisonView
+                  rows={rows}
+                  vendas={vendasComparacao}
+                  selectedDia={selectedDia}
+                  fontes={fontesVendas}
+                  fonte={fonteVendas}
+                  onChangeFonte={handleChangeFonte}
+                />
+              ) : viewMode === "diferencas" ? (
+                <DatasetDiffView
+                  datasets={datasets}
+                  anteriorId={diffAnterior.id}
+                  atualId={diffAtual.id}
+                  onChangeAnterior={(id) => handleChangeLadoDiff(id, setDiffAnterior)}
+                  onChangeAtual={(id) => handleChangeLadoDiff(id, setDiffAtual)}
+                  onInverter={() => {
+                    setDiffAnterior(diffAtual);
+                    setDiffAtual(diffAnterior);
+                  }}
+                  diff={diffRodadas}
+                  selectedDia={selectedDia}
+                  exportName={nomeExportacao}
+                  onExportCsv={handleExportDiff}
+                />
+              ) : viewMode === "desperdicio" ? (
+                <WasteReportView
+                  dias={diasDesperdicio}
+                  exportName={nomeExportacao}
+                  onExportCsv={handleExportDesperdicio}
+                />
+              ) : viewMode === "unidades" ? (
+                <UnitComparisonView
+                  rows={rowsPorUnidade}
+                  unidades={unidades}
+                  selectedDia={selectedDia}
+                  settings={planSettings}
+                  exportName={nomeExportacao}
+                  onExportCsv={handleExportUnidades}
+                  destaque={pratoDestacado}
+                  onDestacar={setPratoDestacado}
+                />
+              ) : viewMode === "semana" ? (
+                <WeeklyOverview
+                  rows={rowsSemana}
+                  selectedDia={selectedDia}
+                  exportName={nomeExportacao}
+                  onSelectDia={abrirDia}
+                  ordem={ordemSemana}
+                  onChangeOrdem={setOrdemSemana}
+                  destaque={pratoDestacado}
+                  onDestacar={setPratoDestacado}
+                />
+              ) : viewMode === "calendario" ? (
+                <CalendarView
+                  rows={rows}
+                  feriados={feriados}
+                  selectedDia={selectedDia}
+                  onSelectDia={abrirDia}
+                  onChangeFeriados={handleFeriadosChange}
+                />
+              ) : viewMode === "financeiro" ? (
+                <CatalogView
+                  rows={rowsSemana}
+                  selectedDia={selectedDia}
+                  catalogo={catalogo}
+                  errosCatalogo={errosCatalogo}
+                  planSettings={planSettings}
+                  onCatalogoFile={handleCatalogoFile}
+                  onChangeCatalogo={handleCatalogoChange}
+                  onClearCatalogo={handleClearCatalogo}
+                />
+              ) : viewMode === "compras" ? (
+                <ShoppingListView
+                  rows={rowsSemana}
+                  selectedDia={selectedDia}
+                  receitas={receitas}
+                  errosReceitas={errosReceitas}
+                  planSettings={planSettings}
+                  onRecipeFile={handleRecipeFile}
+                  onClearRecipes={handleClearRecipes}
+                />
               ) : (
-                <div style={{ overflowX: "auto" }}>
-                  <table
+                <>
+                  {/* Select de tipo de gráfico */}
+                  <div
+                    style={{
+                      marginBottom: "1.5rem",
+                      display: "flex",
+                      gap: "1rem",
+                      alignItems: "center",
+                    }}
+                  >
+                    <span style={{ fontWeight: 500 }}>{t("grafico.tipo")}</span>
+                    <select
+                      value={chartType}
+                      onChange={(e) =>
+                        setChartType(e.target.value as ChartType)
+                      }
+                      style={{
+                        padding: "0.4rem 0.75rem",
+                        borderRadius: "999px",
+                        border: "1px solid var(--cor-borda-forte)",
+                        backgroundColor: "var(--cor-cartao)",
+                        color: "var(--cor-texto)",
+                      }}
+                    >
+                      <option value="bar">{t("grafico.bar")}</option>
+                      <option value="pie">{t("grafico.pie")}</option>
+                    </select>
+                    <span style={{ fontWeight: 500 }}>{t("grafico.agruparPor")}</span>
+                    <select
+                      value={agrupamento}
+                      onChange={(e) =>
+                        setAgrupamento(e.target.value as Agrupamento)
+                      }
+                      style={selectStyle}
+                    >
+                      <option value="prato">{t("agrupamento.prato")}</option>
+                      <option value="categoria">
+                        {t("agrupamento.categoria")}
+                      </option>
+                    </select>
+                  </div>
+
+                  {/* Gráfico 1: pratos x quantidade prevista (dia selecionado) */}
+                  <DishChart
+                    dados={dadosGraficoDia}
+                    dia={selectedDia}
+                    exportName={nomeExportacao}
+                    chartType={chartType}
+                    agrupamento={agrupamento}
+                    comOriginal={deltas !== null}
+                    config={configPratos}
+                    pratos={pratosDiaFiltrados.map((r) => r.prato)}
+                    onChangeConfig={setConfigPratos}
+                    destaque={pratoDestacado}
+                    onDestacar={setPratoDestacado}
+                    aviso={avisoFiltroNivel}
+                  />
+
+                  {/* Gráfico 2: nível de movimento (dia selecionado ou semana) */}
+                  <LevelChart
+                    dados={dadosNivelMovimento}
+                    dia={selectedDia}
+                    escopo={escopoNivel}
+                    onChangeEscopo={setEscopoNivel}
+                    chartType={chartType}
+                    filtroNivel={filtroNivel}
+                    onFiltrar={setFiltroNivel}
+                    origens={origensUsadas}
+                    exportName={nomeExportacao}
+                    onExportCsv={() => handleExportCsv("nivel")}
+                  >
+                    <ClassificationPanel
+                      settings={classificacaoSettings}
+                      arquivoTemNiveis={temNiveisArquivo}
+                      comparacao={comparacaoNiveis}
+                      onChange={handleClassificacaoChange}
+                    />
+                  </LevelChart>
+
+                  {/* Sugestão de preparo para o dia selecionado */}
+                  <section
                     style={{
-                      width: "100%",
-                      borderCollapse: "collapse",
-                      fontSize: "0.9rem",
+                      marginTop: "2.5rem",
+                      paddingTop: "1.5rem",
+                      borderTop: "1px solid var(--cor-borda)",
                     }}
                   >
-                    <thead>
-                      <tr>
-                        <th
-                          style={{
-                            textAlign: "left",
-                            padding: "0.5rem",
-                            borderBottom:
-                              "1px solid rgba(148,163,184,0.4)",
-                          }}
-                        >
-                          Prato
-                        </th>
-                        <th
-                          style={{
-                            textAlign: "right",
-                            padding: "0.5rem",
-                            borderBottom:
-                              "1px solid rgba(148,163,184,0.4)",
-                          }}
-                        >
-                          Qtd. prevista (porções)
-                        </th>
-                        <th
-                          style={{
-                            textAlign: "left",
-                            padding: "0.5rem",
-                            borderBottom:
-                              "1px solid rgba(148,163,184,0.4)",
-                          }}
-                        >
-                          Nível de movimento
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {dadosPratosDia.map((linha) => (
-                        <tr key={linha.prato + linha.dia_semana}>
-                          <td
-                            style={{
-                              padding: "0.4rem 0.5rem",
-                              borderBottom:
-                                "1px solid rgba(31,41,55,0.8)",
-                            }}
-                          >
-                            {linha.prato}
-                          </td>
-                          <td
-                            style={{
-                              padding: "0.4rem 0.5rem",
-                              textAlign: "right",
-                              borderBottom:
-                                "1px solid rgba(31,41,55,0.8)",
-                              fontVariantNumeric: "tabular-nums",
-                            }}
-                          >
-                            {linha.qtd_prevista_media.toFixed(3)}
-                          </td>
-                          <td
-                            style={{
-                              padding: "0.4rem 0.5rem",
-                              borderBottom:
-                                "1px solid rgba(31,41,55,0.8)",
-                              textTransform: "capitalize",
-                            }}
-                          >
-                            {linha.nivel_movimento_prato || "não definido"}
-                          </td>
-                        </tr>
+                    <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+                      {t("preparo.titulo", { dia: rotuloDia(selectedDia) })}
+                    </h2>
+                    {feriadoSelecionado && (
+                      <p style={{ color: "var(--cor-alerta)", fontSize: "0.85rem", marginBottom: "0.5rem" }}>
+                        {t("preparo.feriado", {
+                          nome: feriadoSelecionado.nome,
+                          valor: numero(feriadoSelecionado.multiplicador, 3, 0),
+                        })}
+                      </p>
+                    )}
+                    <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+                      {t("preparo.descricao")}
+                    </p>
+
+                    <div
+                      style={{
+                        display: "flex",
+                        flexWrap: "wrap",
+                        gap: "0.5rem",
+                        alignItems: "center",
+                        marginBottom: "0.75rem",
+                        fontSize: "0.85rem",
+                      }}
+                    >
+                      <span style={{ color: "var(--cor-texto-suave)" }}>{t("preparo.exportar")}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleExportCsv("dia")}
+                        disabled={planoDia.length === 0}
+                        style={smallButtonStyle}
+                      >
+                        {t("preparo.csvDia")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleExportCsv("semana")}
+                        style={smallButtonStyle}
+                      >
+                        {t("preparo.csvSemana")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleExportXlsx}
+                        style={smallButtonStyle}
+                      >
+                        {t("preparo.xlsx")}
+                      </button>
+                      <span style={{ color: "var(--cor-texto-suave)", marginLeft: "0.5rem" }}>
+                        {t("preparo.folha")}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleImprimirFolha("dia")}
+                        disabled={planoDia.length === 0}
+                        style={smallButtonStyle}
+                      >
+                        {t("preparo.imprimirDia")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleImprimirFolha("semana")}
+                        style={smallButtonStyle}
+                      >
+                        {t("preparo.imprimirSemana")}
+                      </button>
+                    </div>
+
+                    {avisoFiltroNivel}
+                    {planoDia.length > 0 &&
+                      (registroExigeUnidade ? (
+                        <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem" }}>
+                          {t("preparo.registroUnidade")}
+                        </p>
+                      ) : (
+                        <PrepLogBar
+                          dia={selectedDia}
+                          data={dataRegistro}
+                          onChangeData={setDataRegistro}
+                          plano={planoDiaFiltrado}
+                          registro={registroAtual}
+                        />
                       ))}
-                    </tbody>
-                  </table>
-                </div>
+                    {planoDia.length === 0 ? (
+                      <p style={{ color: "var(--cor-texto-suave)" }}>
+                        {t("preparo.semDados")}
+                      </p>
+                    ) : (
+                      <ProductionTable
+                        plano={planoDiaFiltrado}
+                        deltas={deltas}
+                        destaque={pratoDestacado}
+                        onDestacar={setPratoDestacado}
+                        nivelCalculadoPor={nivelCalculadoPor}
+                        registro={registroAtual}
+                        onRegistrar={registroExigeUnidade ? null : handleRegistrar}
+                      />
+                    )}
+
+                    {financeiroDia && (
+                      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", marginTop: "0.5rem" }}>
+                        {t("preparo.financeiro", {
+                          receita: formatarMoeda(financeiroDia.receita, locale),
+                          custo: formatarMoeda(financeiroDia.custo, locale),
+                          margem: formatarMoeda(financeiroDia.margem, locale),
+                        })}
+                        {financeiroDia.margemPct !== null &&
+                          ` (${numero(financeiroDia.margemPct, 1)}%)`}
+                        {financeiroDia.porcoesSemCatalogo > 0 &&
+                          ` · ${t("preparo.foraCatalogo", {
+                            valor: numero(financeiroDia.porcoesSemCatalogo, 1),
+                          })}`}
+                      </p>
+                    )}
+
+                    {removidosNoDia.length > 0 && (
+                      <p style={{ color: "var(--cor-alerta)", fontSize: "0.85rem", marginTop: "0.5rem" }}>
+                        {t("preparo.retirados")}{" "}
+                        {removidosNoDia
+                          .map((r) => `${r.prato} (${numero(r.qtd_prevista_media, 1)})`)
+                          .join(", ")}
+                      </p>
+                    )}
+
+                    <ProductionSettingsPanel
+                      settings={planSettings}
+                      pratos={pratosDisponiveis}
+                      onChange={handlePlanSettingsChange}
+                    />
+                  </section>
+                </>
               )}
-            </section>
-          </>
-        )}
+            </>
+          )}
+        </main>
       </div>
-    </div>
+      {rows.length > 0 && (
+        <KitchenSheet
+          titulo={t("preparo.folhaTitulo")}
+          plano={folhaEscopo === "dia" ? planoDia : planoSemana}
+        />
+      )}
+      {modoCozinha && rows.length > 0 && (
+        <KitchenDisplay
+          rows={rows}
+          dias={diasDisponiveis}
+          indiceDias={indiceDias}
+          settings={planSettings}
+          onClose={handleFecharCozinha}
+        />
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,152 @@
+import React, { useId, useState } from "react";
+import { useI18n } from "../i18n/context";
+import { numCellStyle, tdStyle, thStyle } from "./styles";
+
+// Os mesmos dados do gráfico, para leitores de tela e para quem prefere ler
+export interface TabelaGrafico {
+  colunas: string[];
+  linhas: (string | number)[][];
+}
+
+interface AccessibleChartProps {
+  // Vai para a área do gráfico (a mesma usada na exportação PNG/SVG)
+  ref?: React.Ref<HTMLDivElement>;
+  // Nome do gráfico anunciado pelo leitor de tela
+  titulo: string;
+  altura: number;
+  // Descrição de cada barra ou fatia, na ordem do gráfico
+  itens: string[];
+  // Omitida quando a tela já mostra os mesmos dados em uma tabela
+  tabela?: TabelaGrafico;
+  // Enter / espaço sobre o item em foco, como o clique na barra
+  onAtivar?: (index: number) => void;
+  // Recebe o item em foco pelo teclado (ex.: `defaultIndex` do Tooltip)
+  children: (foco: number | null) => React.ReactNode;
+}
+
+// Envolve um gráfico do Recharts: foco pelo teclado em cada barra ou fatia
+// (setas, Home, End), anúncio do item em foco e a tabela com os dados. Os
+// gráficos envolvidos usam `accessibilityLayer={false}` para não ter dois
+// pontos de parada no Tab.
+const AccessibleChart: React.FC<AccessibleChartProps> = ({
+  ref,
+  titulo,
+  altura,
+  itens,
+  tabela,
+  onAtivar,
+  children,
+}) => {
+  const { t, numero } = useI18n();
+  const instrucoesId = useId();
+  const [foco, setFoco] = useState<number | null>(null);
+  // Os itens mudam com filtros e dia; o foco antigo pode ter sumido
+  const ativo = foco !== null && foco < itens.length ? foco : null;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const ultimo = itens.length - 1;
+    if (ultimo < 0) return;
+    const destinos: Record<string, number> = {
+      ArrowRight: ativo === null ? 0 : Math.min(ativo + 1, ultimo),
+      ArrowDown: ativo === null ? 0 : Math.min(ativo + 1, ultimo),
+      ArrowLeft: ativo === null ? ultimo : Math.max(ativo - 1, 0),
+      ArrowUp: ativo === null ? ultimo : Math.max(ativo - 1, 0),
+      Home: 0,
+      End: ultimo,
+    };
+    if (e.key in destinos) {
+      e.preventDefault();
+      setFoco(destinos[e.key]);
+    } else if ((e.key === "Enter" || e.key === " ") && ativo !== null && onAtivar) {
+      e.preventDefault();
+      onAtivar(ativo);
+    } else if (e.key === "Escape") {
+      setFoco(null);
+    }
+  };
+
+  return (
+    <>
+      <div
+        ref={ref}
+        role="group"
+        aria-roledescription={t("grafico.papel")}
+        aria-label={titulo}
+        aria-describedby={instrucoesId}
+        tabIndex={itens.length > 0 ? 0 : undefined}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setFoco(null)}
+        style={{ width: "100%", height: altura }}
+      >
+        {children(ativo)}
+      </div>
+      <span id={instrucoesId} className="sr-only">
+        {t("grafico.instrucoes")}
+        {onAtivar && ` ${t("grafico.instrucoesAtivar")}`}
+      </span>
+      <span className="sr-only" aria-live="polite">
+        {ativo !== null &&
+          `${itens[ativo]} (${t("grafico.posicao", {
+            atual: ativo + 1,
+            total: itens.length,
+          })})`}
+      </span>
+      {tabela && (
+        <details style={{ marginTop: "0.5rem" }}>
+          <summary
+            style={{
+              cursor: "pointer",
+              color: "var(--cor-texto-suave)",
+              fontSize: "0.85rem",
+            }}
+          >
+            {t("grafico.verTabela")}
+          </summary>
+          <div style={{ overflowX: "auto", marginTop: "0.5rem" }}>
+            <table
+              style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.85rem" }}
+            >
+              <caption className="sr-only">{titulo}</caption>
+              <thead>
+                <tr>
+                  {tabela.colunas.map((coluna, index) => (
+                    <th
+                      key={coluna}
+                      scope="col"
+                      style={index > 0 ? { ...thStyle, textAlign: "right" } : thStyle}
+                    >
+                      {coluna}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {tabela.linhas.map((linha, index) => (
+                  <tr key={index}>
+                    {linha.map((valor, coluna) =>
+                      coluna === 0 ? (
+                        <th
+                          key={coluna}
+                          scope="row"
+                          style={{ ...tdStyle, textAlign: "left", fontWeight: 400 }}
+                        >
+                          {valor}
+                        </th>
+                      ) : (
+                        <td key={coluna} style={numCellStyle}>
+                          {typeof valor === "number" ? numero(valor, 1) : valor}
+                        </td>
+                      )
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </>
+  );
+};
+
+export default AccessibleChart;
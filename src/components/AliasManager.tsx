@@ -0,0 +1,62 @@
+import React from "react";
+import type { AliasesPratos } from "../data/dishNames";
+import { useI18n } from "../i18n/context";
+import { panelStyle, smallButtonStyle, tdStyle, thStyle } from "./styles";
+
+interface AliasManagerProps {
+  aliases: AliasesPratos;
+  onChange: (aliases: AliasesPratos) => void;
+}
+
+const AliasManager: React.FC<AliasManagerProps> = ({ aliases, onChange }) => {
+  const { t, numero, locale } = useI18n();
+  const entradas = Object.entries(aliases).sort(
+    (a, b) => a[1].localeCompare(b[1], locale) || a[0].localeCompare(b[0], locale)
+  );
+  if (entradas.length === 0) return null;
+
+  const remover = (chave: string) => {
+    const novos = { ...aliases };
+    delete novos[chave];
+    onChange(novos);
+  };
+
+  return (
+    <details style={panelStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("apelidos.titulo", { n: numero(entradas.length) })}
+      </summary>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.75rem 0" }}>
+        {t("apelidos.descricao")}
+      </p>
+      <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+        <thead>
+          <tr>
+            <th style={thStyle}>{t("apelidos.nomeArquivo")}</th>
+            <th style={thStyle}>{t("apelidos.vira")}</th>
+            <th style={thStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {entradas.map(([chave, canonico]) => (
+            <tr key={chave}>
+              <td style={tdStyle}>{chave}</td>
+              <td style={tdStyle}>{canonico}</td>
+              <td style={tdStyle}>
+                <button
+                  type="button"
+                  onClick={() => remover(chave)}
+                  style={smallButtonStyle}
+                >
+                  {t("apelidos.remover")}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
+
+export default AliasManager;
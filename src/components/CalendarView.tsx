@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from "react";
+import {
+  formatarData,
+  gradeDoMes,
+  isData,
+  mesesComDados,
+  parseData,
+  type Feriado,
+} from "../data/calendar";
+import type { Row } from "../data/schema";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import { fundoMapaCalor } from "../theme/themes";
+import {
+  buttonStyle,
+  inputStyle,
+  panelStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+interface CalendarViewProps {
+  // Linhas já com o multiplicador dos feriados aplicado
+  rows: Row[];
+  feriados: Feriado[];
+  selectedDia: string;
+  onSelectDia: (dia: string) => void;
+  onChangeFeriados: (feriados: Feriado[]) => void;
+}
+
+// Dias abreviados de segunda a domingo (1º/1/2024 foi uma segunda-feira)
+const cabecalhoSemana = (locale: string) =>
+  Array.from({ length: 7 }, (_, i) =>
+    new Date(Date.UTC(2024, 0, 1 + i)).toLocaleDateString(locale, {
+      weekday: "short",
+      timeZone: "UTC",
+    })
+  );
+
+const formatarMes = (mes: string, locale: string) => {
+  const [ano, numero] = mes.split("-").map(Number);
+  return new Date(Date.UTC(ano, numero - 1, 1)).toLocaleDateString(locale, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const HolidayPanel: React.FC<{
+  feriados: Feriado[];
+  onChange: (feriados: Feriado[]) => void;
+}> = ({ feriados, onChange }) => {
+  const { t, numero, locale } = useI18n();
+  const [data, setData] = useState("");
+  const [nome, setNome] = useState("");
+  const [multiplicador, setMultiplicador] = useState("1.5");
+
+  const dataValida = parseData(data);
+  const fator = Number(multiplicador.replace(",", "."));
+  const podeAdicionar =
+    dataValida !== null && nome.trim() !== "" && Number.isFinite(fator) && fator >= 0;
+
+  const adicionar = () => {
+    if (!podeAdicionar) return;
+    // Uma data só pode ter um feriado; adicionar de novo substitui
+    const novos = feriados
+      .filter((f) => f.data !== dataValida)
+      .concat({ data: dataValida, nome: nome.trim(), multiplicador: fator })
+      .sort((a, b) => a.data.localeCompare(b.data));
+    onChange(novos);
+    setData("");
+    setNome("");
+  };
+
+  return (
+    <details open={feriados.length > 0} style={{ ...panelStyle, marginTop: "1.5rem" }}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("calendario.feriados", { n: numero(feriados.length) })}
+      </summary>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.75rem 0" }}>
+        {t("calendario.feriadosAjuda", { exemplo: numero(1.5, 1) })}
+      </p>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.75rem",
+          alignItems: "flex-end",
+          marginBottom: "0.75rem",
+        }}
+      >
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("calendario.data")}</span>
+          <input
+            type="date"
+            value={data}
+            onChange={(e) => setData(e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("calendario.nome")}</span>
+          <input
+            value={nome}
+            placeholder={t("calendario.nomeExemplo")}
+            onChange={(e) => setNome(e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("calendario.multiplicador")}</span>
+          <input
+            value={multiplicador}
+            inputMode="decimal"
+            onChange={(e) => setMultiplicador(e.target.value)}
+            style={{ ...inputStyle, width: "5rem", textAlign: "right" }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={adicionar}
+          disabled={!podeAdicionar}
+          style={{ ...buttonStyle, opacity: podeAdicionar ? 1 : 0.5 }}
+        >
+          {t("calendario.adicionar")}
+        </button>
+      </div>
+      {feriados.length > 0 && (
+        <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>{t("calendario.data")}</th>
+              <th style={thStyle}>{t("calendario.nome")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("calendario.multiplicador")}</th>
+              <th style={thStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {feriados.map((f) => (
+              <tr key={f.data}>
+                <td style={tdStyle}>{formatarData(f.data, locale)}</td>
+                <td style={tdStyle}>{f.nome}</td>
+                <td style={{ ...tdStyle, textAlign: "right" }}>
+                  ×{numero(f.multiplicador, 2, 0)}
+                </td>
+                <td style={tdStyle}>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange(feriados.filter((outro) => outro.data !== f.data))
+                    }
+                    style={smallButtonStyle}
+                  >
+                    {t("calendario.remover")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+};
+
+const CalendarView: React.FC<CalendarViewProps> = ({
+  rows,
+  feriados,
+  selectedDia,
+  onSelectDia,
+  onChangeFeriados,
+}) => {
+  const { t, numero, locale } = useI18n();
+  const { grafico } = useTema();
+  const meses = useMemo(() => mesesComDados(rows), [rows]);
+  const [mesEscolhido, setMesEscolhido] = useState<string | null>(null);
+  // Sem escolha explícita, abre no mês do dia selecionado
+  const mes =
+    mesEscolhido && meses.includes(mesEscolhido)
+      ? mesEscolhido
+      : isData(selectedDia)
+        ? selectedDia.slice(0, 7)
+        : meses[0];
+
+  const totaisPorData = useMemo(() => {
+    const totais = new Map<string, number>();
+    rows.forEach((r) => {
+      if (r.data) {
+        totais.set(r.data, (totais.get(r.data) ?? 0) + r.qtd_prevista_media);
+      }
+    });
+    return totais;
+  }, [rows]);
+
+  const feriadoPorData = useMemo(
+    () => new Map(feriados.map((f) => [f.data, f])),
+    [feriados]
+  );
+
+  if (meses.length === 0) {
+    return (
+      <>
+        <p style={{ color: "var(--cor-texto-suave)" }}>
+          {t("calendario.semDatas")}
+        </p>
+        <HolidayPanel feriados={feriados} onChange={onChangeFeriados} />
+      </>
+    );
+  }
+
+  const indiceMes = meses.indexOf(mes);
+  const maximo = Math.max(
+    ...Array.from(totaisPorData.entries())
+      .filter(([data]) => data.startsWith(mes))
+      .map(([, total]) => total),
+    0
+  );
+
+  return (
+    <>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: "0.75rem",
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => setMesEscolhido(meses[indiceMes - 1])}
+          disabled={indiceMes <= 0}
+          style={{ ...smallButtonStyle, opacity: indiceMes <= 0 ? 0.4 : 1 }}
+        >
+          ← {t("calendario.anterior")}
+        </button>
+        <h2 style={{ fontSize: "1.2rem", margin: 0, textTransform: "capitalize" }}>
+          {formatarMes(mes, locale)}
+        </h2>
+        <button
+          type="button"
+          onClick={() => setMesEscolhido(meses[indiceMes + 1])}
+          disabled={indiceMes >= meses.length - 1}
+          style={{
+            ...smallButtonStyle,
+            opacity: indiceMes >= meses.length - 1 ? 0.4 : 1,
+          }}
+        >
+          {t("calendario.proximo")} →
+        </button>
+      </div>
+
+      <table
+        style={{
+          width: "100%",
+          borderCollapse: "collapse",
+          tableLayout: "fixed",
+          fontSize: "0.85rem",
+        }}
+      >
+        <thead>
+          <tr>
+            {cabecalhoSemana(locale).map((d) => (
+              <th key={d} style={{ ...thStyle, textAlign: "center" }}>
+                {d}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {gradeDoMes(mes).map((semana, index) => (
+            <tr key={index}>
+              {semana.map((data, coluna) => {
+                if (!data) return <td key={coluna} style={tdStyle} />;
+                const total = totaisPorData.get(data);
+                const feriado = feriadoPorData.get(data);
+                const selecionado = data === selectedDia;
+                return (
+                  <td
+                    key={data}
+                    onClick={total !== undefined ? () => onSelectDia(data) : undefined}
+                    title={
+                      feriado
+                        ? `${feriado.nome} (×${numero(feriado.multiplicador, 2, 0)})`
+                        : undefined
+                    }
+                    style={{
+                      ...tdStyle,
+                      height: "4.5rem",
+                      cursor: total !== undefined ? "pointer" : "default",
+                      border: selecionado
+                        ? "2px solid var(--cor-primaria)"
+                        : "1px solid var(--cor-linha)",
+                      background:
+                        total !== undefined && maximo > 0
+                          ? fundoMapaCalor(grafico, total / maximo)
+                          : undefined,
+                    }}
+                  >
+                    <div
+                      style={{
+                        color: feriado ? "var(--cor-alerta)" : "var(--cor-texto-suave)",
+                        fontSize: "0.75rem",
+                      }}
+                    >
+                      {Number(data.slice(8))}
+                      {feriado && ` · ${feriado.nome}`}
+                    </div>
+                    {total !== undefined && (
+                      <div
+                        style={{
+                          fontSize: "1rem",
+                          fontWeight: 600,
+                          fontVariantNumeric: "tabular-nums",
+                          marginTop: 4,
+                        }}
+                      >
+                        {numero(total)}
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", marginTop: "0.5rem" }}>
+        {t("calendario.legenda")}
+      </p>
+
+      <HolidayPanel feriados={feriados} onChange={onChangeFeriados} />
+    </>
+  );
+};
+
+export default CalendarView;
@@ -0,0 +1,423 @@
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  CATEGORIAS_PRATO,
+  SEM_CATEGORIA,
+  formatarMoeda,
+  projetarFinanceiro,
+  totaisPorCategoria,
+  type CatalogoItem,
+  type ProjecaoFinanceira,
+} from "../data/catalog";
+import { planejarItem, type PlanSettings } from "../data/productionPlan";
+import type { Row } from "../data/schema";
+import type { ImportIssue } from "../data/validation";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import AccessibleChart from "./AccessibleChart";
+import {
+  inputStyle,
+  panelStyle,
+  selectStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+  tooltipStyle,
+} from "./styles";
+
+type BaseCusto = "previsao" | "producao";
+
+interface CatalogViewProps {
+  // Linhas da semana do dia selecionado
+  rows: Row[];
+  selectedDia: string;
+  catalogo: CatalogoItem[];
+  errosCatalogo: ImportIssue[];
+  planSettings: PlanSettings;
+  onCatalogoFile: (file: File) => void;
+  onChangeCatalogo: (catalogo: CatalogoItem[]) => void;
+  onClearCatalogo: () => void;
+}
+
+const numStyle: React.CSSProperties = {
+  ...tdStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+  whiteSpace: "nowrap",
+};
+
+const CatalogView: React.FC<CatalogViewProps> = ({
+  rows,
+  selectedDia,
+  catalogo,
+  errosCatalogo,
+  planSettings,
+  onCatalogoFile,
+  onChangeCatalogo,
+  onClearCatalogo,
+}) => {
+  const { t, numero, rotuloDia, rotuloCategoria, locale, motivo } = useI18n();
+  const { grafico } = useTema();
+  const [baseCusto, setBaseCusto] = useState<BaseCusto>("previsao");
+
+  const moeda = (valor: number) => formatarMoeda(valor, locale);
+  const formatarPct = (valor: number | null) =>
+    valor === null ? "—" : `${numero(valor, 1)}%`;
+
+  const celulasProjecao = (p: ProjecaoFinanceira) => (
+    <>
+      <td style={numStyle}>{numero(p.porcoes, 1)}</td>
+      <td style={numStyle}>{moeda(p.receita)}</td>
+      <td style={numStyle}>{moeda(p.custo)}</td>
+      <td style={{ ...numStyle, color: p.margem < 0 ? "var(--cor-erro)" : undefined }}>
+        {moeda(p.margem)}
+      </td>
+      <td style={numStyle}>{formatarPct(p.margemPct)}</td>
+    </>
+  );
+
+  const projecao = useMemo(
+    () =>
+      projetarFinanceiro(
+        rows,
+        catalogo,
+        baseCusto === "producao"
+          ? (row) => planejarItem(row, planSettings).produzir
+          : undefined
+      ),
+    [rows, catalogo, baseCusto, planSettings]
+  );
+
+  const categorias = useMemo(
+    () => totaisPorCategoria(rows, catalogo),
+    [rows, catalogo]
+  );
+
+  const dadosGrafico = projecao.dias.map((d) => ({
+    dia: rotuloDia(d.dia),
+    receita: Number(d.receita.toFixed(2)),
+    custo: Number(d.custo.toFixed(2)),
+    margem: Number(d.margem.toFixed(2)),
+  }));
+
+  // Pratos do catálogo mais os da previsão que ainda não foram cadastrados
+  const linhasCatalogo = useMemo(() => {
+    const cadastrados = new Set(catalogo.map((c) => c.prato));
+    const faltantes = projecao.pratosSemCatalogo
+      .filter((p) => !cadastrados.has(p))
+      .map((prato) => ({ prato, item: null }));
+    return [
+      ...faltantes,
+      ...catalogo
+        .map((item) => ({ prato: item.prato, item }))
+        .sort((a, b) => a.prato.localeCompare(b.prato, locale)),
+    ];
+  }, [catalogo, projecao.pratosSemCatalogo, locale]);
+
+  // Editar um prato fora do catálogo já o cadastra
+  const editar = (prato: string, parcial: Partial<CatalogoItem>) => {
+    const existe = catalogo.some((c) => c.prato === prato);
+    onChangeCatalogo(
+      existe
+        ? catalogo.map((c) => (c.prato === prato ? { ...c, ...parcial } : c))
+        : [...catalogo, { prato, categoria: "", custo: 0, preco: 0, ...parcial }]
+    );
+  };
+
+  const lerValor = (valor: string) => {
+    const lido = Number(valor);
+    return Number.isFinite(lido) && lido >= 0 ? lido : 0;
+  };
+
+  return (
+    <>
+      <div style={panelStyle}>
+        <label
+          htmlFor="catalogUpload"
+          style={{ display: "block", marginBottom: "0.5rem" }}
+        >
+          <span style={{ fontWeight: 500 }}>{t("catalogo.arquivo")}</span>{" "}
+          <span style={{ color: "var(--cor-texto-suave)", fontSize: "0.9rem" }}>
+            {t("catalogo.colunas", { categorias: CATEGORIAS_PRATO.join(", ") })}
+          </span>
+        </label>
+        <input
+          id="catalogUpload"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onCatalogoFile(file);
+          }}
+          style={{ ...inputStyle, display: "block", width: "98%" }}
+        />
+        <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.5rem 0 0" }}>
+          {catalogo.length > 0
+            ? t("catalogo.resumo", { n: numero(catalogo.length) })
+            : t("catalogo.vazio")}
+          {catalogo.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                if (confirm(t("catalogo.confirmarLimpar"))) onClearCatalogo();
+              }}
+              style={{ ...smallButtonStyle, marginLeft: "0.75rem" }}
+            >
+              {t("catalogo.limpar")}
+            </button>
+          )}
+        </p>
+        {errosCatalogo.length > 0 && (
+          <details style={{ marginTop: "0.5rem" }}>
+            <summary style={{ cursor: "pointer", color: "var(--cor-erro-suave)" }}>
+              {t("catalogo.erros", { n: numero(errosCatalogo.length) })}
+            </summary>
+            <ul style={{ fontSize: "0.85rem", color: "var(--cor-erro-suave)" }}>
+              {errosCatalogo.map((issue, index) => (
+                <li key={index}>
+                  {issue.linha !== null
+                    ? t("importacao.linhaN", { n: issue.linha })
+                    : t("importacao.cabecalho")}{" "}
+                  (
+                  <code>{issue.coluna}</code>): {motivo(issue)}
+                  {issue.valor && `: "${issue.valor}"`}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+
+      <section style={{ marginBottom: "2rem" }}>
+        <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+          {t("catalogo.projecao")}
+        </h2>
+        <div
+          style={{
+            display: "flex",
+            gap: "1rem",
+            alignItems: "center",
+            marginBottom: "0.75rem",
+          }}
+        >
+          <span style={{ fontWeight: 500 }}>{t("catalogo.baseCusto")}</span>
+          <select
+            value={baseCusto}
+            onChange={(e) => setBaseCusto(e.target.value as BaseCusto)}
+            style={selectStyle}
+          >
+            <option value="previsao">{t("catalogo.basePrevisao")}</option>
+            <option value="producao">{t("catalogo.baseProducao")}</option>
+          </select>
+        </div>
+        {projecao.pratosSemCatalogo.length > 0 && (
+          <p style={{ color: "var(--cor-alerta-suave)", fontSize: "0.85rem", marginBottom: "0.75rem" }}>
+            {t("catalogo.semCatalogo", { pratos: projecao.pratosSemCatalogo.join(", ") })}
+          </p>
+        )}
+
+        {/* A tabela logo abaixo traz os mesmos valores por dia */}
+        <AccessibleChart
+          titulo={t("catalogo.graficoTitulo")}
+          altura={260}
+          itens={projecao.dias.map((d) =>
+            t("catalogo.graficoItem", {
+              dia: rotuloDia(d.dia),
+              receita: moeda(d.receita),
+              custo: moeda(d.custo),
+              margem: moeda(d.margem),
+            })
+          )}
+        >
+          {(foco) => (
+            <ResponsiveContainer>
+              <BarChart data={dadosGrafico} accessibilityLayer={false}>
+                <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                <XAxis dataKey="dia" stroke={grafico.eixo} tick={{ fontSize: 11 }} />
+                <YAxis stroke={grafico.eixo} />
+                <Tooltip
+                  defaultIndex={foco ?? undefined}
+                  contentStyle={tooltipStyle}
+                  formatter={(valor) => moeda(Number(valor))}
+                />
+                <Legend />
+                <Bar dataKey="receita" name={t("catalogo.receita")} fill={grafico.primaria} />
+                <Bar dataKey="custo" name={t("catalogo.custoInsumos")} fill={grafico.secundaria} />
+                <Bar dataKey="margem" name={t("catalogo.margem")} fill={grafico.terciaria} />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </AccessibleChart>
+
+        <div style={{ overflowX: "auto", marginTop: "0.75rem" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.85rem" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>{t("catalogo.dia")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.porcoes")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.receita")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.custo")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.margem")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.margemPct")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projecao.dias.map((d) => (
+                <tr
+                  key={d.dia}
+                  style={{
+                    background:
+                      d.dia === selectedDia ? "var(--cor-selecao)" : undefined,
+                  }}
+                >
+                  <td style={tdStyle}>{rotuloDia(d.dia)}</td>
+                  {celulasProjecao(d)}
+                </tr>
+              ))}
+              <tr style={{ fontWeight: 600 }}>
+                <td style={tdStyle}>{t("catalogo.semana")}</td>
+                {celulasProjecao(projecao.total)}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section style={{ marginBottom: "2rem" }}>
+        <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+          {t("catalogo.porCategoria")}
+        </h2>
+        <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>{t("catalogo.categoria")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.porcoes")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.receita")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {categorias.map((c) => (
+              <tr key={c.categoria}>
+                <td
+                  style={{
+                    ...tdStyle,
+                    textTransform: "capitalize",
+                    color: c.categoria === SEM_CATEGORIA ? "var(--cor-alerta-suave)" : undefined,
+                  }}
+                >
+                  {rotuloCategoria(c.categoria)}
+                </td>
+                <td style={numStyle}>{numero(c.porcoes, 1)}</td>
+                <td style={numStyle}>{moeda(c.receita)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+          {t("catalogo.titulo")}
+        </h2>
+        <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", marginBottom: "0.75rem" }}>
+          {t("catalogo.descricao")}
+        </p>
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.85rem" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>{t("catalogo.prato")}</th>
+                <th style={thStyle}>{t("catalogo.categoria")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.custoReais")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.precoReais")}</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("catalogo.margem")}</th>
+                <th style={thStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {linhasCatalogo.map(({ prato, item }) => (
+                <tr
+                  key={prato}
+                  style={{ background: item ? undefined : "var(--cor-alerta-fundo)" }}
+                >
+                  <td style={tdStyle}>
+                    {prato}
+                    {!item && (
+                      <span style={{ color: "var(--cor-alerta)", fontSize: "0.75rem", marginLeft: 6 }}>
+                        {t("catalogo.foraCatalogo")}
+                      </span>
+                    )}
+                  </td>
+                  <td style={tdStyle}>
+                    <select
+                      value={item?.categoria ?? ""}
+                      onChange={(e) => editar(prato, { categoria: e.target.value })}
+                      style={{ ...selectStyle, fontSize: "0.8rem" }}
+                    >
+                      <option value="">{rotuloCategoria("")}</option>
+                      {CATEGORIAS_PRATO.map((c) => (
+                        <option key={c} value={c}>
+                          {rotuloCategoria(c)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={numStyle}>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={item?.custo ?? ""}
+                      onChange={(e) => editar(prato, { custo: lerValor(e.target.value) })}
+                      style={{ ...inputStyle, width: "5.5rem", textAlign: "right" }}
+                    />
+                  </td>
+                  <td style={numStyle}>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={item?.preco ?? ""}
+                      onChange={(e) => editar(prato, { preco: lerValor(e.target.value) })}
+                      style={{ ...inputStyle, width: "5.5rem", textAlign: "right" }}
+                    />
+                  </td>
+                  <td style={numStyle}>
+                    {item && item.preco > 0
+                      ? formatarPct(((item.preco - item.custo) / item.preco) * 100)
+                      : "—"}
+                  </td>
+                  <td style={tdStyle}>
+                    {item && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          onChangeCatalogo(catalogo.filter((c) => c.prato !== prato))
+                        }
+                        style={smallButtonStyle}
+                      >
+                        {t("catalogo.remover")}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default CatalogView;
@@ -0,0 +1,55 @@
+import React from "react";
+import { exportarPng, exportarSvg } from "../export/charts";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import { smallButtonStyle } from "./styles";
+
+interface ChartExportButtonsProps {
+  targetRef: React.RefObject<HTMLDivElement | null>;
+  // Nome do arquivo sem extensão
+  fileName: string;
+}
+
+const ChartExportButtons: React.FC<ChartExportButtonsProps> = ({
+  targetRef,
+  fileName,
+}) => {
+  const { t } = useI18n();
+  // O arquivo sai com o fundo do tema em uso, como o gráfico na tela
+  const { grafico } = useTema();
+
+  const handlePng = () => {
+    if (!targetRef.current) return;
+    exportarPng(targetRef.current, `${fileName}.png`, grafico.fundo).catch((error) => {
+      console.error("Erro ao exportar gráfico:", error);
+      alert(t("exportar.erroPng"));
+    });
+  };
+
+  const handleSvg = () => {
+    if (targetRef.current) exportarSvg(targetRef.current, `${fileName}.svg`, grafico.fundo);
+  };
+
+  return (
+    <span style={{ display: "inline-flex", gap: "0.4rem" }}>
+      <button
+        type="button"
+        onClick={handlePng}
+        title={t("exportar.baixar", { formato: "PNG" })}
+        style={smallButtonStyle}
+      >
+        PNG
+      </button>
+      <button
+        type="button"
+        onClick={handleSvg}
+        title={t("exportar.baixar", { formato: "SVG" })}
+        style={smallButtonStyle}
+      >
+        SVG
+      </button>
+    </span>
+  );
+};
+
+export default ChartExportButtons;
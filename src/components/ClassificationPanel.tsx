@@ -0,0 +1,205 @@
+import React from "react";
+import {
+  ESTRATEGIAS_NIVEL,
+  type ClassificacaoSettings,
+  type ComparacaoNiveis,
+  type EstrategiaNivel,
+} from "../data/classification";
+import { NIVEIS_MOVIMENTO } from "../data/schema";
+import { useI18n } from "../i18n/context";
+import { inputStyle, panelStyle, selectStyle, tdStyle, thStyle } from "./styles";
+
+interface ClassificationPanelProps {
+  settings: ClassificacaoSettings;
+  // O arquivo aberto já traz `nivel_movimento_prato`?
+  arquivoTemNiveis: boolean;
+  // Arquivo x calculado; só existe quando o arquivo traz níveis
+  comparacao: ComparacaoNiveis | null;
+  onChange: (settings: ClassificacaoSettings) => void;
+}
+
+const numberInputStyle: React.CSSProperties = {
+  ...inputStyle,
+  width: "5.5rem",
+  textAlign: "right",
+};
+
+const numStyle: React.CSSProperties = {
+  ...tdStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+};
+
+const ClassificationPanel: React.FC<ClassificationPanelProps> = ({
+  settings,
+  arquivoTemNiveis,
+  comparacao,
+  onChange,
+}) => {
+  const { t, numero, rotuloNivel } = useI18n();
+  const lerLimite = (valor: string, atual: number) => {
+    const lido = Number(valor);
+    return valor.trim() !== "" && Number.isFinite(lido) && lido >= 0 ? lido : atual;
+  };
+
+  return (
+    <details
+      open={!arquivoTemNiveis}
+      style={{ ...panelStyle, marginTop: "1rem" }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("classificacao.titulo")}
+      </summary>
+
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.75rem 0" }}>
+        {arquivoTemNiveis
+          ? t("classificacao.doArquivo")
+          : t("classificacao.calculado")}
+      </p>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "1rem",
+          alignItems: "flex-end",
+        }}
+      >
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("classificacao.estrategia")}</span>
+          <select
+            value={settings.estrategia}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                estrategia: e.target.value as EstrategiaNivel,
+              })
+            }
+            style={selectStyle}
+          >
+            {ESTRATEGIAS_NIVEL.map((e) => (
+              <option key={e} value={e}>
+                {t(`classificacao.estrategia.${e}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {settings.estrategia === "limites" && (
+          <>
+            <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+              <span style={{ fontWeight: 500 }}>{t("classificacao.limiteBaixo")}</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={settings.limiteBaixo}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    limiteBaixo: lerLimite(e.target.value, settings.limiteBaixo),
+                  })
+                }
+                style={numberInputStyle}
+              />
+            </label>
+            <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+              <span style={{ fontWeight: 500 }}>{t("classificacao.limiteAlto")}</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={settings.limiteAlto}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    limiteAlto: lerLimite(e.target.value, settings.limiteAlto),
+                  })
+                }
+                style={numberInputStyle}
+              />
+            </label>
+          </>
+        )}
+        {arquivoTemNiveis && (
+          <label
+            style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}
+          >
+            <input
+              type="checkbox"
+              checked={settings.sobrescrever}
+              onChange={(e) =>
+                onChange({ ...settings, sobrescrever: e.target.checked })
+              }
+            />
+            {t("classificacao.sobrescrever")}
+          </label>
+        )}
+      </div>
+
+      {settings.estrategia === "limites" &&
+        settings.limiteAlto <= settings.limiteBaixo && (
+          <p style={{ color: "var(--cor-alerta-suave)", fontSize: "0.85rem", marginTop: "0.5rem" }}>
+            {t("classificacao.limitesInvalidos")}
+          </p>
+        )}
+
+      {comparacao && comparacao.total > 0 && (
+        <div style={{ marginTop: "1rem" }}>
+          <p style={{ fontSize: "0.85rem", marginBottom: "0.5rem" }}>
+            {t("classificacao.concordancia")}{" "}
+            <strong>{numero((comparacao.iguais / comparacao.total) * 100, 1)}%</strong>{" "}
+            {t("classificacao.concordanciaTotal", {
+              iguais: numero(comparacao.iguais),
+              total: numero(comparacao.total),
+            })}
+          </p>
+          <table
+            style={{
+              borderCollapse: "collapse",
+              fontSize: "0.85rem",
+            }}
+          >
+            <thead>
+              <tr>
+                <th style={thStyle}>{t("classificacao.matriz")}</th>
+                {NIVEIS_MOVIMENTO.map((n) => (
+                  <th
+                    key={n}
+                    style={{ ...thStyle, textAlign: "right", textTransform: "capitalize" }}
+                  >
+                    {rotuloNivel(n)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(comparacao.matriz)
+                .filter(([, linha]) => Object.values(linha).some((v) => v > 0))
+                .map(([doArquivo, linha]) => (
+                  <tr key={doArquivo}>
+                    <td style={{ ...tdStyle, textTransform: "capitalize" }}>
+                      {rotuloNivel(doArquivo)}
+                    </td>
+                    {NIVEIS_MOVIMENTO.map((n) => (
+                      <td
+                        key={n}
+                        style={{
+                          ...numStyle,
+                          fontWeight: n === doArquivo ? 600 : 400,
+                          color: linha[n] === 0 ? "var(--cor-texto-apagado)" : undefined,
+                        }}
+                      >
+                        {numero(linha[n])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ClassificationPanel;
@@ -0,0 +1,262 @@
+import React, { useState } from "react";
+import {
+  CAMPOS_MAPEAVEIS,
+  DELIMITADORES,
+  campoObrigatorio,
+  parseNumero,
+  type ColumnMapping,
+  type CsvDelimiter,
+  type DecimalSeparator,
+  type ImportOptions,
+  type MappedField,
+} from "../data/mapping";
+import type { CsvRecord } from "../data/schema";
+import { useI18n } from "../i18n/context";
+import {
+  buttonStyle,
+  inputStyle,
+  panelStyle,
+  selectStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  colunas: string[];
+  amostra: CsvRecord[];
+  // Delimitador efetivamente usado na leitura (útil quando está em "Automático")
+  delimitadorDetectado: string;
+  initialOptions: ImportOptions;
+  perfilExistente: string | null;
+  onChangeDelimiter: (delimiter: CsvDelimiter) => void;
+  onApply: (options: ImportOptions, salvarPerfil: string | null) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  fileName,
+  colunas,
+  amostra,
+  delimitadorDetectado,
+  initialOptions,
+  perfilExistente,
+  onChangeDelimiter,
+  onApply,
+  onCancel,
+}) => {
+  const { t, numero } = useI18n();
+  // Perfis salvos antes da comparação com vendas e das datas não têm
+  // `qtd_vendida` nem `data`
+  const [mapping, setMapping] = useState<ColumnMapping>(() => ({
+    ...initialOptions.mapping,
+    qtd_vendida: initialOptions.mapping.qtd_vendida ?? null,
+    data: initialOptions.mapping.data ?? null,
+  }));
+  const [decimal, setDecimal] = useState<DecimalSeparator>(
+    initialOptions.decimal
+  );
+  const [lembrar, setLembrar] = useState(true);
+  const [nomePerfil, setNomePerfil] = useState(
+    perfilExistente ?? fileName.replace(/\.[^.]+$/, "")
+  );
+
+  const faltando = CAMPOS_MAPEAVEIS.filter(
+    (c) => campoObrigatorio(c.campo, mapping) && !mapping[c.campo]
+  );
+
+  const descreverDelimitador = (delimitador: string) => {
+    const conhecido = DELIMITADORES.find((d) => d.valor === delimitador);
+    return conhecido ? t(`delimitador.${conhecido.id}`) : `"${delimitador}"`;
+  };
+
+  const handleMappingChange = (campo: MappedField, coluna: string) => {
+    setMapping((atual) => ({ ...atual, [campo]: coluna || null }));
+  };
+
+  const handleApply = () => {
+    const options: ImportOptions = {
+      mapping,
+      decimal,
+      delimiter: initialOptions.delimiter,
+    };
+    onApply(options, lembrar && nomePerfil.trim() ? nomePerfil.trim() : null);
+  };
+
+  const valorPrevia = (r: CsvRecord, campo: MappedField) => {
+    const coluna = mapping[campo];
+    if (!coluna) return "—";
+    const valor = (r[coluna] ?? "").trim();
+    const numerico = campo === "qtd_prevista_media" || campo === "qtd_vendida";
+    if (!numerico || !valor) return valor;
+    const lido = parseNumero(valor, decimal);
+    return Number.isNaN(lido)
+      ? `${valor} (${t("mapeamento.invalido")})`
+      : numero(lido, 3);
+  };
+
+  return (
+    <section style={{ ...panelStyle, borderColor: "var(--cor-primaria-borda)" }}>
+      <h2 style={{ fontSize: "1.1rem", marginBottom: "0.5rem" }}>
+        {t("mapeamento.titulo", { nome: fileName })}
+      </h2>
+      <p style={{ color: "var(--cor-texto-suave)", marginBottom: "1rem" }}>
+        {t("mapeamento.descricao")}
+      </p>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "1rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("mapeamento.delimitador")}</span>
+          <select
+            value={initialOptions.delimiter}
+            onChange={(e) => onChangeDelimiter(e.target.value as CsvDelimiter)}
+            style={selectStyle}
+          >
+            {DELIMITADORES.map((d) => (
+              <option key={d.id} value={d.valor}>
+                {d.valor === ""
+                  ? `${t("delimitador.auto")} (${descreverDelimitador(delimitadorDetectado)})`
+                  : t(`delimitador.${d.id}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("mapeamento.decimal")}</span>
+          <select
+            value={decimal}
+            onChange={(e) => setDecimal(e.target.value as DecimalSeparator)}
+            style={selectStyle}
+          >
+            <option value=".">{t("mapeamento.decimalPonto")}</option>
+            <option value=",">{t("mapeamento.decimalVirgula")}</option>
+          </select>
+        </label>
+
+        {CAMPOS_MAPEAVEIS.map(({ campo }) => (
+          <label
+            key={campo}
+            style={{ display: "flex", flexDirection: "column", gap: 4 }}
+          >
+            <span style={{ fontWeight: 500 }}>
+              {t(`campo.${campo}`)}
+              {campoObrigatorio(campo, mapping) && <span style={{ color: "var(--cor-erro)" }}> *</span>}
+            </span>
+            <select
+              value={mapping[campo] ?? ""}
+              onChange={(e) => handleMappingChange(campo, e.target.value)}
+              style={selectStyle}
+            >
+              <option value="">{t("mapeamento.naoUsar")}</option>
+              {colunas.map((coluna) => (
+                <option key={coluna} value={coluna}>
+                  {coluna}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {amostra.length > 0 && (
+        <div style={{ overflowX: "auto", marginBottom: "1rem" }}>
+          <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", marginBottom: 4 }}>
+            {t("mapeamento.previa")}
+          </p>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "0.85rem",
+            }}
+          >
+            <thead>
+              <tr>
+                {CAMPOS_MAPEAVEIS.map(({ campo }) => (
+                  <th key={campo} style={thStyle}>
+                    {t(`campo.${campo}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {amostra.map((r, index) => (
+                <tr key={index}>
+                  {CAMPOS_MAPEAVEIS.map(({ campo }) => (
+                    <td key={campo} style={tdStyle}>
+                      {valorPrevia(r, campo)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: "0.75rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={lembrar}
+            onChange={(e) => setLembrar(e.target.checked)}
+          />
+          {t("mapeamento.lembrar")}
+        </label>
+        <input
+          type="text"
+          value={nomePerfil}
+          disabled={!lembrar}
+          onChange={(e) => setNomePerfil(e.target.value)}
+          placeholder={t("mapeamento.nomePerfil")}
+          style={inputStyle}
+        />
+      </div>
+
+      {faltando.length > 0 && (
+        <p style={{ color: "var(--cor-erro-suave)", marginBottom: "0.75rem" }}>
+          {t("mapeamento.faltando", {
+            campos: faltando.map((c) => t(`campo.${c.campo}`)).join(", "),
+          })}
+        </p>
+      )}
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={faltando.length > 0}
+          style={{
+            ...buttonStyle,
+            borderColor: "var(--cor-primaria-borda)",
+            opacity: faltando.length > 0 ? 0.5 : 1,
+            cursor: faltando.length > 0 ? "not-allowed" : "pointer",
+          }}
+        >
+          {t("mapeamento.aplicar")}
+        </button>
+        <button type="button" onClick={onCancel} style={buttonStyle}>
+          {t("importacao.descartar")}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ColumnMappingWizard;
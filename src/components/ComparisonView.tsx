@@ -0,0 +1,347 @@
+import React, { useMemo } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { chaveDia, diaDaSemanaDe, isData } from "../data/calendar";
+import {
+  calcularMetricas,
+  joinPrevistoRealizado,
+  metricasPorDia,
+  metricasPorPrato,
+  type ErrorMetrics,
+  type Tendencia,
+} from "../data/comparison";
+import type { Row, VendaRow } from "../data/schema";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import AccessibleChart from "./AccessibleChart";
+import MetricCard from "./MetricCard";
+import { selectStyle, tdStyle, thStyle, tooltipStyle } from "./styles";
+
+export interface FonteVendas {
+  id: string;
+  label: string;
+}
+
+interface ComparisonViewProps {
+  rows: Row[];
+  vendas: VendaRow[];
+  selectedDia: string;
+  fontes: FonteVendas[];
+  fonte: string;
+  onChangeFonte: (id: string) => void;
+}
+
+const TENDENCIA_CORES: Record<Tendencia, string | undefined> = {
+  superestima: "rgba(249,115,22,0.18)",
+  subestima: "rgba(59,130,246,0.18)",
+  equilibrado: undefined,
+};
+
+const numStyle: React.CSSProperties = {
+  ...tdStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+};
+
+// MAPE e viés no formato do idioma
+const useFormatos = () => {
+  const { numero } = useI18n();
+  return {
+    mape: (mape: number | null) => (mape === null ? "—" : `${numero(mape, 1)}%`),
+    bias: (bias: number) => `${bias > 0 ? "+" : ""}${numero(bias, 2)}`,
+  };
+};
+
+// Viés nas cores das barras: vendido (acima) e previsto (abaixo)
+const MetricCells: React.FC<{ m: ErrorMetrics }> = ({ m }) => {
+  const { numero } = useI18n();
+  const { grafico } = useTema();
+  const formatar = useFormatos();
+  return (
+    <>
+      <td style={numStyle}>{numero(m.n)}</td>
+      <td style={numStyle}>{numero(m.mae, 2)}</td>
+      <td style={numStyle}>{formatar.mape(m.mape)}</td>
+      <td
+        style={{
+          ...numStyle,
+          color:
+            m.bias > 0 ? grafico.secundaria : m.bias < 0 ? grafico.primaria : undefined,
+        }}
+      >
+        {formatar.bias(m.bias)}
+      </td>
+    </>
+  );
+};
+
+const MetricHeaders: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <>
+      <th style={{ ...thStyle, textAlign: "right" }}>{t("comparacao.combinacoes")}</th>
+      <th style={{ ...thStyle, textAlign: "right" }}>MAE</th>
+      <th style={{ ...thStyle, textAlign: "right" }}>MAPE</th>
+      <th style={{ ...thStyle, textAlign: "right" }}>{t("comparacao.vies")}</th>
+    </>
+  );
+};
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({
+  rows,
+  vendas,
+  selectedDia,
+  fontes,
+  fonte,
+  onChangeFonte,
+}) => {
+  const { t, numero, rotuloDia } = useI18n();
+  const { grafico } = useTema();
+  const formatar = useFormatos();
+  const comparacao = useMemo(
+    () => joinPrevistoRealizado(rows, vendas),
+    [rows, vendas]
+  );
+  const { pares, semVenda, semPrevisao } = comparacao;
+
+  const geral = useMemo(() => calcularMetricas(pares), [pares]);
+  const porDia = useMemo(() => metricasPorDia(pares), [pares]);
+  const porPrato = useMemo(() => metricasPorPrato(pares), [pares]);
+
+  // As métricas por dia agrupam pelo dia da semana, mesmo em arquivos com datas
+  const diaDaSelecao = isData(selectedDia)
+    ? diaDaSemanaDe(selectedDia)
+    : selectedDia;
+
+  const paresDia = useMemo(
+    () =>
+      pares
+        .filter((p) => chaveDia(p) === selectedDia)
+        .sort((a, b) => b.previsto - a.previsto),
+    [pares, selectedDia]
+  );
+
+  return (
+    <>
+      <div
+        style={{
+          marginBottom: "1.5rem",
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "1rem",
+          alignItems: "center",
+        }}
+      >
+        <span style={{ fontWeight: 500 }}>{t("comparacao.fonte")}</span>
+        <select
+          value={fonte}
+          onChange={(e) => onChangeFonte(e.target.value)}
+          style={selectStyle}
+        >
+          {fontes.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {fontes.length === 0 || vendas.length === 0 ? (
+        <p style={{ color: "var(--cor-texto-suave)" }}>
+          {t("comparacao.semVendas")}
+        </p>
+      ) : (
+        <>
+          <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+            {t("comparacao.pares", { n: numero(pares.length) })}
+            {semVenda.length > 0 &&
+              ` ${t("comparacao.semVenda", { n: numero(semVenda.length) })}`}
+            {semPrevisao.length > 0 &&
+              ` ${t("comparacao.semPrevisao", { n: numero(semPrevisao.length) })}`}
+          </p>
+
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "0.75rem",
+              marginBottom: "2rem",
+            }}
+          >
+            <MetricCard
+              label={t("comparacao.mae")}
+              valor={numero(geral.mae, 2)}
+              ajuda={t("comparacao.maeAjuda")}
+            />
+            <MetricCard
+              label="MAPE"
+              valor={formatar.mape(geral.mape)}
+              ajuda={t("comparacao.mapeAjuda")}
+            />
+            <MetricCard
+              label={t("comparacao.viesPorcoes")}
+              valor={formatar.bias(geral.bias)}
+              ajuda={t("comparacao.viesAjuda")}
+            />
+          </div>
+
+          <section style={{ marginBottom: "2rem" }}>
+            <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+              {t("comparacao.graficoTitulo", { dia: rotuloDia(selectedDia) })}
+            </h2>
+            {paresDia.length === 0 ? (
+              <p style={{ color: "var(--cor-texto-suave)" }}>
+                {t("comparacao.diaSemVenda")}
+              </p>
+            ) : (
+              <AccessibleChart
+                titulo={t("comparacao.graficoTitulo", { dia: rotuloDia(selectedDia) })}
+                altura={320}
+                itens={paresDia.map((p) =>
+                  t("comparacao.graficoItem", {
+                    prato: p.prato,
+                    previsto: numero(p.previsto, 1),
+                    vendido: numero(p.realizado, 1),
+                  })
+                )}
+                tabela={{
+                  colunas: [
+                    t("comparacao.prato"),
+                    t("comparacao.previsto"),
+                    t("comparacao.vendido"),
+                  ],
+                  linhas: paresDia.map((p) => [p.prato, p.previsto, p.realizado]),
+                }}
+              >
+                {(foco) => (
+                  <ResponsiveContainer>
+                    <BarChart data={paresDia} accessibilityLayer={false}>
+                      <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                      <XAxis
+                        dataKey="prato"
+                        stroke={grafico.eixo}
+                        tick={{ fontSize: 10 }}
+                      />
+                      <YAxis stroke={grafico.eixo} />
+                      <Tooltip
+                        defaultIndex={foco ?? undefined}
+                        contentStyle={tooltipStyle}
+                      />
+                      <Legend />
+                      <Bar
+                        dataKey="previsto"
+                        name={t("comparacao.previsto")}
+                        fill={grafico.primaria}
+                      />
+                      <Bar
+                        dataKey="realizado"
+                        name={t("comparacao.vendido")}
+                        fill={grafico.secundaria}
+                      />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </AccessibleChart>
+            )}
+          </section>
+
+          <section style={{ marginBottom: "2rem" }}>
+            <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+              {t("comparacao.porDia")}
+            </h2>
+            <div style={{ overflowX: "auto" }}>
+              <table
+                style={{
+                  width: "100%",
+                  borderCollapse: "collapse",
+                  fontSize: "0.9rem",
+                }}
+              >
+                <thead>
+                  <tr>
+                    <th style={thStyle}>{t("comparacao.dia")}</th>
+                    <MetricHeaders />
+                  </tr>
+                </thead>
+                <tbody>
+                  {porDia.map((m) => (
+                    <tr
+                      key={m.dia_semana}
+                      style={{
+                        fontWeight:
+                          m.dia_semana === diaDaSelecao ? 600 : 400,
+                      }}
+                    >
+                      <td style={{ ...tdStyle, textTransform: "capitalize" }}>
+                        {rotuloDia(m.dia_semana)}
+                      </td>
+                      <MetricCells m={m} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section>
+            <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+              {t("comparacao.porPrato")}
+            </h2>
+            <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+              {t("comparacao.porPratoAjuda")}
+            </p>
+            <div style={{ overflowX: "auto" }}>
+              <table
+                style={{
+                  width: "100%",
+                  borderCollapse: "collapse",
+                  fontSize: "0.9rem",
+                }}
+              >
+                <thead>
+                  <tr>
+                    <th style={thStyle}>{t("comparacao.prato")}</th>
+                    <MetricHeaders />
+                    <th style={{ ...thStyle, textAlign: "right" }}>
+                      {t("comparacao.diasAcimaAbaixo")}
+                    </th>
+                    <th style={thStyle}>{t("comparacao.tendencia")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {porPrato.map((m) => (
+                    <tr
+                      key={m.prato}
+                      style={{ background: TENDENCIA_CORES[m.tendencia] }}
+                    >
+                      <td style={tdStyle}>{m.prato}</td>
+                      <MetricCells m={m} />
+                      <td style={numStyle}>
+                        {m.diasAcima} / {m.diasAbaixo}
+                      </td>
+                      <td style={tdStyle}>
+                        {m.tendencia === "equilibrado"
+                          ? "—"
+                          : t(`comparacao.tendencia.${m.tendencia}`)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </>
+  );
+};
+
+export default ComparisonView;
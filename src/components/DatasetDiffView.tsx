@@ -0,0 +1,434 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ReferenceLine,
+  Tooltip,
+} from "recharts";
+import { diaDaSemanaDe, isData } from "../data/calendar";
+import {
+  ORDEM_DIFF_PADRAO,
+  maioresVariacoes,
+  mudouNivel,
+  ordenarDiff,
+  resumirDiff,
+  type ColunaDiff,
+  type DiffLinha,
+  type OrdemDiff,
+  type TipoMudanca,
+} from "../data/datasetDiff";
+import type { DatasetMeta } from "../data/datasetStore";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import type { CoresGrafico } from "../theme/themes";
+import AccessibleChart from "./AccessibleChart";
+import ChartExportButtons from "./ChartExportButtons";
+import MetricCard from "./MetricCard";
+import {
+  chartHeaderStyle,
+  numCellStyle,
+  selectStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+  tooltipStyle,
+} from "./styles";
+
+interface DatasetDiffViewProps {
+  datasets: DatasetMeta[];
+  anteriorId: string;
+  atualId: string;
+  onChangeAnterior: (id: string) => void;
+  onChangeAtual: (id: string) => void;
+  onInverter: () => void;
+  // null enquanto os dois arquivos não foram carregados
+  diff: DiffLinha[] | null;
+  // Dia da semana ou data do seletor; datas viram o dia da semana
+  selectedDia: string;
+  // Nome base para os arquivos de imagem exportados
+  exportName: string;
+  onExportCsv: (diff: DiffLinha[]) => void;
+}
+
+type FiltroDiff = "todos" | TipoMudanca | "nivel";
+
+const FILTROS = ["todos", "alterado", "adicionado", "removido", "nivel"] as const;
+
+// Pratos no gráfico divergente e linhas desenhadas na lista
+const PRATOS_NO_GRAFICO = 15;
+const LIMITE_LISTA = 200;
+
+const corDelta = (valor: number, grafico: CoresGrafico) =>
+  valor > 0 ? grafico.positivo : valor < 0 ? grafico.negativo : grafico.eixo;
+
+// O que mudou de uma rodada da previsão para a outra (ex.: semana a semana)
+const DatasetDiffView: React.FC<DatasetDiffViewProps> = ({
+  datasets,
+  anteriorId,
+  atualId,
+  onChangeAnterior,
+  onChangeAtual,
+  onInverter,
+  diff,
+  selectedDia,
+  exportName,
+  onExportCsv,
+}) => {
+  const { t, numero, rotuloDia, rotuloNivel } = useI18n();
+  const { grafico } = useTema();
+  const graficoRef = useRef<HTMLDivElement>(null);
+  const [ordem, setOrdem] = useState<OrdemDiff>(ORDEM_DIFF_PADRAO);
+  const [filtro, setFiltro] = useState<FiltroDiff>("todos");
+  const [soDia, setSoDia] = useState(false);
+
+  const dia = isData(selectedDia) ? diaDaSemanaDe(selectedDia) : selectedDia;
+
+  const formatar = (valor: number) => numero(valor, 1, 0);
+  const formatarDelta = (valor: number) => `${valor > 0 ? "+" : ""}${formatar(valor)}`;
+
+  const resumo = useMemo(() => (diff ? resumirDiff(diff) : null), [diff]);
+  const variacoesDia = useMemo(
+    () => (diff ? maioresVariacoes(diff, dia, PRATOS_NO_GRAFICO) : []),
+    [diff, dia]
+  );
+  const lista = useMemo(() => {
+    if (!diff) return [];
+    const filtradas = diff.filter(
+      (l) =>
+        (!soDia || l.dia_semana === dia) &&
+        (filtro === "todos"
+          ? l.tipo !== "igual" || mudouNivel(l)
+          : filtro === "nivel"
+            ? mudouNivel(l)
+            : l.tipo === filtro)
+    );
+    return ordenarDiff(filtradas, ordem);
+  }, [diff, dia, soDia, filtro, ordem]);
+
+  // Clicar de novo na mesma coluna inverte a direção
+  const ordenarPor = (coluna: ColunaDiff) =>
+    setOrdem((atual) =>
+      atual.coluna === coluna
+        ? { coluna, desc: !atual.desc }
+        : { coluna, desc: coluna !== "prato" && coluna !== "dia" }
+    );
+
+  const cabecalho = (coluna: ColunaDiff, rotulo: string, numerico = false) => (
+    <th
+      onClick={() => ordenarPor(coluna)}
+      style={{
+        ...thStyle,
+        textAlign: numerico ? "right" : "left",
+        cursor: "pointer",
+        whiteSpace: "nowrap",
+      }}
+      title={t("diff.ordenar")}
+    >
+      {rotulo}
+      {ordem.coluna === coluna && (ordem.desc ? " ▼" : " ▲")}
+    </th>
+  );
+
+  const seletor = (
+    rotulo: string,
+    valor: string,
+    onChange: (id: string) => void
+  ) => (
+    <label style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+      <span style={{ fontWeight: 500 }}>{rotulo}</span>
+      <select
+        value={valor}
+        onChange={(e) => onChange(e.target.value)}
+        style={selectStyle}
+      >
+        <option value="">{t("diff.escolhaArquivo")}</option>
+        {datasets.map((d) => (
+          <option key={d.id} value={d.id}>
+            {d.nome}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const variacaoTotal =
+    resumo && resumo.totalAnterior > 0
+      ? ((resumo.totalAtual - resumo.totalAnterior) / resumo.totalAnterior) * 100
+      : null;
+
+  return (
+    <>
+      <div
+        style={{
+          marginBottom: "1rem",
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.75rem 1.5rem",
+          alignItems: "center",
+        }}
+      >
+        {seletor(t("diff.rodadaAnterior"), anteriorId, onChangeAnterior)}
+        {seletor(t("diff.rodadaAtual"), atualId, onChangeAtual)}
+        <button
+          type="button"
+          onClick={onInverter}
+          disabled={!anteriorId || !atualId}
+          style={smallButtonStyle}
+          title={t("diff.inverterAjuda")}
+        >
+          ⇄ {t("diff.inverter")}
+        </button>
+      </div>
+
+      {!anteriorId || !atualId ? (
+        <p style={{ color: "var(--cor-texto-suave)" }}>{t("diff.escolhaDois")}</p>
+      ) : anteriorId === atualId ? (
+        <p style={{ color: "var(--cor-texto-suave)" }}>{t("diff.escolhaDiferentes")}</p>
+      ) : !diff || !resumo ? (
+        <p style={{ color: "var(--cor-texto-suave)" }}>{t("diff.carregando")}</p>
+      ) : (
+        <>
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "0.75rem",
+              marginBottom: "2rem",
+            }}
+          >
+            <MetricCard
+              label={t("diff.novos")}
+              valor={numero(resumo.adicionados)}
+              ajuda={t("diff.novosAjuda")}
+            />
+            <MetricCard
+              label={t("diff.retirados")}
+              valor={numero(resumo.removidos)}
+              ajuda={t("diff.retiradosAjuda")}
+            />
+            <MetricCard
+              label={t("diff.alterados")}
+              valor={numero(resumo.alterados)}
+              ajuda={t("diff.alteradosAjuda")}
+            />
+            <MetricCard
+              label={t("diff.mudancasNivel")}
+              valor={numero(resumo.mudancasNivel)}
+              ajuda={t("diff.mudancasNivelAjuda", {
+                de: rotuloNivel("médio"),
+                para: rotuloNivel("alto"),
+              })}
+            />
+            <MetricCard
+              label={t("diff.porcoesSemana")}
+              valor={`${formatar(resumo.totalAtual)}${
+                variacaoTotal === null ? "" : ` (${formatarDelta(variacaoTotal)}%)`
+              }`}
+              ajuda={t("diff.porcoesSemanaAjuda", { valor: formatar(resumo.totalAnterior) })}
+            />
+          </div>
+
+          <section style={{ marginBottom: "2rem" }}>
+            <div style={chartHeaderStyle}>
+              <h2 style={{ fontSize: "1.2rem", margin: 0 }}>
+                {t("diff.maioresVariacoes", { dia: rotuloDia(dia) })}
+              </h2>
+              <ChartExportButtons
+                targetRef={graficoRef}
+                fileName={`${exportName}-variacoes-${dia}`}
+              />
+            </div>
+            {variacoesDia.length === 0 ? (
+              <p style={{ color: "var(--cor-texto-suave)" }}>
+                {t("diff.semVariacoes")}
+              </p>
+            ) : (
+              <AccessibleChart
+                ref={graficoRef}
+                titulo={t("diff.maioresVariacoes", { dia: rotuloDia(dia) })}
+                altura={Math.max(200, variacoesDia.length * 28 + 40)}
+                itens={variacoesDia.map((l) =>
+                  t("diff.variacaoItem", { prato: l.prato, valor: formatarDelta(l.delta) })
+                )}
+                tabela={{
+                  colunas: [
+                    t("diff.prato"),
+                    t("diff.anterior"),
+                    t("diff.atual"),
+                    t("diff.variacao"),
+                  ],
+                  linhas: variacoesDia.map((l) => [
+                    l.prato,
+                    l.anterior === null ? "—" : formatar(l.anterior),
+                    l.atual === null ? "—" : formatar(l.atual),
+                    formatarDelta(l.delta),
+                  ]),
+                }}
+              >
+                {(foco) => (
+                  <ResponsiveContainer>
+                    <BarChart
+                      data={variacoesDia}
+                      layout="vertical"
+                      accessibilityLayer={false}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                      <XAxis type="number" stroke={grafico.eixo} />
+                      <YAxis
+                        type="category"
+                        dataKey="prato"
+                        width={140}
+                        stroke={grafico.eixo}
+                        tick={{ fontSize: 11 }}
+                      />
+                      <ReferenceLine x={0} stroke={grafico.eixo} />
+                      <Tooltip
+                        defaultIndex={foco ?? undefined}
+                        contentStyle={tooltipStyle}
+                      />
+                      <Bar dataKey="delta" name={t("diff.variacaoPorcoes")}>
+                        {variacoesDia.map((l) => (
+                          <Cell key={l.prato} fill={corDelta(l.delta, grafico)} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </AccessibleChart>
+            )}
+          </section>
+
+          <section>
+            <div style={chartHeaderStyle}>
+              <h2 style={{ fontSize: "1.2rem", margin: 0 }}>{t("diff.oQueMudou")}</h2>
+              <button
+                type="button"
+                onClick={() => onExportCsv(ordenarDiff(diff, ordem))}
+                style={smallButtonStyle}
+              >
+                {t("diff.exportarCsv")}
+              </button>
+            </div>
+            <div
+              style={{
+                marginBottom: "0.75rem",
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "0.5rem 1rem",
+                alignItems: "center",
+                fontSize: "0.85rem",
+              }}
+            >
+              <select
+                value={filtro}
+                onChange={(e) => setFiltro(e.target.value as FiltroDiff)}
+                style={selectStyle}
+              >
+                {FILTROS.map((f) => (
+                  <option key={f} value={f}>
+                    {t(`diff.filtro.${f}`)}
+                  </option>
+                ))}
+              </select>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={soDia}
+                  onChange={(e) => setSoDia(e.target.checked)}
+                />{" "}
+                {t("diff.soDia", { dia: rotuloDia(dia) })}
+              </label>
+            </div>
+            {lista.length === 0 ? (
+              <p style={{ color: "var(--cor-texto-suave)" }}>{t("diff.semMudancas")}</p>
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table
+                  style={{
+                    width: "100%",
+                    borderCollapse: "collapse",
+                    fontSize: "0.85rem",
+                  }}
+                >
+                  <thead>
+                    <tr>
+                      {cabecalho("prato", t("diff.prato"))}
+                      {cabecalho("dia", t("diff.dia"))}
+                      <th style={{ ...thStyle, textAlign: "right" }}>{t("diff.anterior")}</th>
+                      <th style={{ ...thStyle, textAlign: "right" }}>{t("diff.atual")}</th>
+                      {cabecalho("delta", t("diff.deltaPorcoes"), true)}
+                      {cabecalho("deltaPct", "Δ %", true)}
+                      <th style={thStyle}>{t("diff.nivel")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lista.slice(0, LIMITE_LISTA).map((l) => (
+                      <tr key={`${l.prato}|${l.dia_semana}`}>
+                        <td style={tdStyle}>
+                          {l.prato}
+                          {(l.tipo === "adicionado" || l.tipo === "removido") && (
+                            <span
+                              style={{
+                                color: l.tipo === "adicionado" ? "var(--cor-info)" : "var(--cor-erro)",
+                                fontSize: "0.75rem",
+                                marginLeft: 6,
+                              }}
+                            >
+                              ({t(`diff.tipo.${l.tipo}`)})
+                            </span>
+                          )}
+                        </td>
+                        <td style={tdStyle}>{rotuloDia(l.dia_semana)}</td>
+                        <td style={numCellStyle}>
+                          {l.anterior === null ? "—" : formatar(l.anterior)}
+                        </td>
+                        <td style={numCellStyle}>
+                          {l.atual === null ? "—" : formatar(l.atual)}
+                        </td>
+                        <td style={{ ...numCellStyle, color: corDelta(l.delta, grafico) }}>
+                          {l.delta === 0 ? "—" : formatarDelta(l.delta)}
+                        </td>
+                        <td style={{ ...numCellStyle, color: corDelta(l.delta, grafico) }}>
+                          {l.deltaPct === null || l.deltaPct === 0
+                            ? "—"
+                            : `${formatarDelta(l.deltaPct)}%`}
+                        </td>
+                        <td style={{ ...tdStyle, textTransform: "capitalize" }}>
+                          {mudouNivel(l) ? (
+                            <span style={{ color: "var(--cor-alerta)" }}>
+                              {rotuloNivel(l.nivelAnterior)} →{" "}
+                              {rotuloNivel(l.nivelAtual)}
+                            </span>
+                          ) : (
+                            rotuloNivel(
+                              l.atual === null ? l.nivelAnterior : l.nivelAtual
+                            )
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {lista.length > LIMITE_LISTA && (
+                  <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.8rem", marginTop: "0.5rem" }}>
+                    {t("diff.limite", {
+                      n: numero(LIMITE_LISTA),
+                      total: numero(lista.length),
+                    })}
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </>
+  );
+};
+
+export default DatasetDiffView;
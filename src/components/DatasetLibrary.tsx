@@ -0,0 +1,217 @@
+import React, { useState } from "react";
+import type { DatasetMeta } from "../data/datasetStore";
+import { useI18n } from "../i18n/context";
+import {
+  inputStyle,
+  panelStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+interface DatasetLibraryProps {
+  datasets: DatasetMeta[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, nome: string) => void;
+  onDelete: (id: string) => void;
+  // Junta os arquivos marcados em um novo, um por unidade (restaurante)
+  onCombine: (ids: string[]) => void;
+}
+
+const formatarData = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+const DatasetLibrary: React.FC<DatasetLibraryProps> = ({
+  datasets,
+  activeId,
+  onOpen,
+  onRename,
+  onDelete,
+  onCombine,
+}) => {
+  const { t, numero, locale } = useI18n();
+  const [editandoId, setEditandoId] = useState<string | null>(null);
+  const [nomeEditado, setNomeEditado] = useState("");
+  const [marcados, setMarcados] = useState<string[]>([]);
+
+  if (datasets.length === 0) return null;
+
+  // Arquivos excluídos depois de marcados deixam de contar
+  const selecionados = marcados.filter((id) => datasets.some((d) => d.id === id));
+
+  const alternarMarcado = (id: string) =>
+    setMarcados(
+      selecionados.includes(id)
+        ? selecionados.filter((m) => m !== id)
+        : [...selecionados, id]
+    );
+
+  const handleCombine = () => {
+    onCombine(selecionados);
+    setMarcados([]);
+  };
+
+  const iniciarRenomear = (dataset: DatasetMeta) => {
+    setEditandoId(dataset.id);
+    setNomeEditado(dataset.nome);
+  };
+
+  const concluirRenomear = () => {
+    if (editandoId && nomeEditado.trim()) {
+      onRename(editandoId, nomeEditado.trim());
+    }
+    setEditandoId(null);
+  };
+
+  const handleDelete = (dataset: DatasetMeta) => {
+    if (confirm(t("biblioteca.confirmarExcluir", { nome: dataset.nome }))) {
+      onDelete(dataset.id);
+    }
+  };
+
+  return (
+    <details open style={panelStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("biblioteca.titulo", { n: numero(datasets.length) })}
+      </summary>
+      <div style={{ overflowX: "auto", marginTop: "0.75rem" }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+          }}
+        >
+          <thead>
+            <tr>
+              <th style={thStyle} />
+              <th style={thStyle}>{t("biblioteca.nome")}</th>
+              <th style={thStyle}>{t("biblioteca.enviadoEm")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("biblioteca.linhas")}</th>
+              <th style={thStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {datasets.map((dataset) => {
+              const ativo = dataset.id === activeId;
+              return (
+                <tr
+                  key={dataset.id}
+                  style={{
+                    background: ativo ? "var(--cor-selecao)" : undefined,
+                  }}
+                >
+                  <td style={tdStyle}>
+                    <input
+                      type="checkbox"
+                      checked={selecionados.includes(dataset.id)}
+                      onChange={() => alternarMarcado(dataset.id)}
+                      title={t("biblioteca.marcar")}
+                    />
+                  </td>
+                  <td style={tdStyle}>
+                    {editandoId === dataset.id ? (
+                      <input
+                        autoFocus
+                        value={nomeEditado}
+                        onChange={(e) => setNomeEditado(e.target.value)}
+                        onBlur={concluirRenomear}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") concluirRenomear();
+                          if (e.key === "Escape") setEditandoId(null);
+                        }}
+                        style={{ ...inputStyle, width: "90%" }}
+                      />
+                    ) : (
+                      <>
+                        <span style={{ fontWeight: ativo ? 600 : 400 }}>
+                          {dataset.nome}
+                        </span>
+                        {dataset.nome !== dataset.fileName && (
+                          <span style={{ color: "var(--cor-texto-apagado)", marginLeft: 6 }}>
+                            ({dataset.fileName})
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td style={tdStyle}>{formatarData(dataset.criadoEm, locale)}</td>
+                  <td
+                    style={{
+                      ...tdStyle,
+                      textAlign: "right",
+                      fontVariantNumeric: "tabular-nums",
+                    }}
+                  >
+                    {numero(dataset.quantidadeLinhas)}
+                  </td>
+                  <td style={{ ...tdStyle, whiteSpace: "nowrap", textAlign: "right" }}>
+                    <button
+                      type="button"
+                      onClick={() => onOpen(dataset.id)}
+                      disabled={ativo}
+                      style={{ ...smallButtonStyle, opacity: ativo ? 0.5 : 1 }}
+                    >
+                      {ativo ? t("biblioteca.aberto") : t("biblioteca.abrir")}
+                    </button>{" "}
+                    <button
+                      type="button"
+                      onClick={() => iniciarRenomear(dataset)}
+                      style={smallButtonStyle}
+                    >
+                      {t("biblioteca.renomear")}
+                    </button>{" "}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(dataset)}
+                      style={{
+                        ...smallButtonStyle,
+                        borderColor: "var(--cor-erro-borda)",
+                      }}
+                    >
+                      {t("biblioteca.excluir")}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div
+        style={{
+          marginTop: "0.75rem",
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.5rem 1rem",
+          alignItems: "center",
+          fontSize: "0.85rem",
+          color: "var(--cor-texto-suave)",
+        }}
+      >
+        <span>
+          {t("biblioteca.combinarAjuda")}
+        </span>
+        <button
+          type="button"
+          onClick={handleCombine}
+          disabled={selecionados.length < 2}
+          style={{
+            ...smallButtonStyle,
+            opacity: selecionados.length < 2 ? 0.5 : 1,
+          }}
+        >
+          {selecionados.length > 1
+            ? t("biblioteca.combinarN", { n: numero(selecionados.length) })
+            : t("biblioteca.combinar")}
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default DatasetLibrary;
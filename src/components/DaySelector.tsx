@@ -0,0 +1,48 @@
+import React from "react";
+import { useI18n } from "../i18n/context";
+import { selectStyle } from "./styles";
+
+interface DaySelectorProps {
+  // Dias da semana ou datas, já ordenados
+  dias: string[];
+  value: string;
+  temDatas: boolean;
+  onChange: (dia: string) => void;
+}
+
+const DaySelector: React.FC<DaySelectorProps> = ({
+  dias,
+  value,
+  temDatas,
+  onChange,
+}) => {
+  const { t, rotuloDia } = useI18n();
+
+  return (
+    <div
+      style={{
+        marginBottom: "1rem",
+        display: "flex",
+        gap: "1rem",
+        alignItems: "center",
+      }}
+    >
+      <span style={{ fontWeight: 500 }}>
+        {temDatas ? t("filtro.data") : t("filtro.diaSemana")}
+      </span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={selectStyle}
+      >
+        {dias.map((dia) => (
+          <option key={dia} value={dia}>
+            {rotuloDia(dia)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DaySelector;
@@ -0,0 +1,276 @@
+import React, { useRef } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  PieChart,
+  Pie,
+  Cell,
+} from "recharts";
+import type { ConfigGraficoPratos } from "../data/dishChart";
+import type { ChartDataItem } from "../data/schema";
+import type { Agrupamento, ChartType } from "../data/viewState";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import AccessibleChart from "./AccessibleChart";
+import ChartExportButtons from "./ChartExportButtons";
+import DishChartControls from "./DishChartControls";
+import PieLegend from "./PieLegend";
+import { chartHeaderStyle, smallButtonStyle, tooltipStyle } from "./styles";
+
+interface DishChartProps {
+  // Itens já recortados (top N, ordem, "Outros") ou somados por categoria
+  dados: ChartDataItem[];
+  dia: string;
+  exportName: string;
+  chartType: ChartType;
+  agrupamento: Agrupamento;
+  // Cenário ativo: mostra a previsão original (`qtd_original`) ao lado
+  comOriginal: boolean;
+  config: ConfigGraficoPratos;
+  // Pratos do dia, para a busca
+  pratos: string[];
+  onChangeConfig: (config: ConfigGraficoPratos) => void;
+  destaque: string | null;
+  onDestacar: (prato: string | null) => void;
+  // Aviso do filtro de nível, exibido acima do gráfico
+  aviso?: React.ReactNode;
+}
+
+// Gráfico 1: pratos (ou categorias) x quantidade prevista no dia selecionado
+const DishChart: React.FC<DishChartProps> = ({
+  dados,
+  dia,
+  exportName,
+  chartType,
+  agrupamento,
+  comOriginal,
+  config,
+  pratos,
+  onChangeConfig,
+  destaque,
+  onDestacar,
+  aviso,
+}) => {
+  const { t, numero, rotuloDia } = useI18n();
+  const { grafico } = useTema();
+  const graficoRef = useRef<HTMLDivElement>(null);
+  const porPrato = agrupamento === "prato";
+  const barrasHorizontais =
+    chartType === "bar" && config.orientacao === "horizontal";
+
+  // O item "Outros pratos" não é um prato e não pode ser destacado
+  const alternarDestaque = (index: number) => {
+    const prato = dados[index]?.prato;
+    if (!porPrato || !prato || prato === t("pratos.outros")) return;
+    onDestacar(destaque === prato ? null : String(prato));
+  };
+
+  const rotuloSerie = comOriginal ? t("pratos.cenario") : t("pratos.qtdPrevista");
+  const itens = dados.map((d) =>
+    comOriginal
+      ? `${d.prato}: ${numero(Number(d.qtd_prevista_media), 1)} (${t("pratos.previsaoOriginal")}: ${numero(Number(d.qtd_original ?? 0), 1)})`
+      : `${d.prato}: ${numero(Number(d.qtd_prevista_media), 1)}`
+  );
+  const tabela = {
+    colunas: [
+      t(porPrato ? "agrupamento.prato" : "agrupamento.categoria"),
+      ...(comOriginal ? [t("pratos.previsaoOriginal")] : []),
+      rotuloSerie,
+    ],
+    linhas: dados.map((d) => [
+      String(d.prato),
+      ...(comOriginal ? [Number(d.qtd_original ?? 0)] : []),
+      Number(d.qtd_prevista_media),
+    ]),
+  };
+
+  // Categorias não são apagadas pelo destaque de um prato
+  const opacidade = (prato: string) =>
+    porPrato && destaque && destaque !== prato ? 0.35 : 1;
+
+  return (
+    <section style={{ marginBottom: "2rem" }}>
+      <div style={chartHeaderStyle}>
+        <h2 style={{ fontSize: "1.2rem", margin: 0 }}>
+          {t(porPrato ? "pratos.tituloPrato" : "pratos.tituloCategoria", {
+            dia: rotuloDia(dia),
+          })}
+        </h2>
+        <ChartExportButtons
+          targetRef={graficoRef}
+          fileName={`${exportName}-pratos-${dia}`}
+        />
+      </div>
+      <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+        {t("pratos.descricao")}
+      </p>
+      {porPrato && (
+        <DishChartControls
+          config={config}
+          pratos={pratos}
+          mostrarOrientacao={chartType === "bar"}
+          onChange={onChangeConfig}
+        />
+      )}
+      {aviso}
+      {porPrato && destaque && (
+        <p style={{ color: "var(--cor-info)", fontSize: "0.85rem", marginBottom: "0.75rem" }}>
+          {t("pratosGrafico.destacando")} <strong>{destaque}</strong>.{" "}
+          <button
+            type="button"
+            onClick={() => onDestacar(null)}
+            style={smallButtonStyle}
+          >
+            {t("pratosGrafico.limparDestaque")}
+          </button>
+        </p>
+      )}
+      <AccessibleChart
+        ref={graficoRef}
+        titulo={t(porPrato ? "pratos.tituloPrato" : "pratos.tituloCategoria", {
+          dia: rotuloDia(dia),
+        })}
+        // Barras deitadas: uma linha por prato, sem espremer os nomes
+        altura={barrasHorizontais ? Math.max(320, dados.length * 28 + 60) : 320}
+        itens={itens}
+        tabela={tabela}
+        onAtivar={porPrato ? alternarDestaque : undefined}
+      >
+        {(foco) => (
+          <ResponsiveContainer>
+            {chartType === "bar" ? (
+              <BarChart
+                data={dados}
+                layout={barrasHorizontais ? "vertical" : "horizontal"}
+                accessibilityLayer={false}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                {barrasHorizontais ? (
+                  <XAxis
+                    type="number"
+                    stroke={grafico.eixo}
+                    tickFormatter={(v: number) => numero(v, 1)}
+                  />
+                ) : (
+                  <XAxis
+                    dataKey="prato"
+                    interval={0}
+                    angle={-30}
+                    textAnchor="end"
+                    height={80}
+                    stroke={grafico.eixo}
+                    tick={{ fontSize: 11 }}
+                  />
+                )}
+                {barrasHorizontais ? (
+                  <YAxis
+                    type="category"
+                    dataKey="prato"
+                    interval={0}
+                    width={160}
+                    stroke={grafico.eixo}
+                    tick={{ fontSize: 11 }}
+                  />
+                ) : (
+                  <YAxis
+                    stroke={grafico.eixo}
+                    tickFormatter={(v: number) => numero(v, 1)}
+                  />
+                )}
+                <Tooltip
+                  defaultIndex={foco ?? undefined}
+                  formatter={(v) => numero(Number(v), 3)}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend />
+                {comOriginal && (
+                  <Bar
+                    dataKey="qtd_original"
+                    name={t("pratos.previsaoOriginal")}
+                    fill={grafico.neutra}
+                    cursor="pointer"
+                    onClick={(_, index) => alternarDestaque(index)}
+                  >
+                    {dados.map((d) => (
+                      <Cell
+                        key={`cell-original-${d.prato}`}
+                        fillOpacity={opacidade(String(d.prato))}
+                      />
+                    ))}
+                  </Bar>
+                )}
+                <Bar
+                  dataKey="qtd_prevista_media"
+                  name={rotuloSerie}
+                  fill={grafico.primaria}
+                  cursor="pointer"
+                  onClick={(_, index) => alternarDestaque(index)}
+                >
+                  {dados.map((d) => (
+                    <Cell
+                      key={`cell-qtd-${d.prato}`}
+                      fillOpacity={opacidade(String(d.prato))}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            ) : (
+              <PieChart
+                margin={{ top: 8, bottom: 20, right: 8, left: 8 }}
+                accessibilityLayer={false}
+              >
+                <Pie
+                  data={dados}
+                  dataKey="qtd_prevista_media"
+                  nameKey="prato"
+                  cx="50%"
+                  cy="50%"
+                  outerRadius={100}
+                  labelLine={false}
+                  label={false}
+                  cursor="pointer"
+                  rootTabIndex={-1}
+                  onClick={(_, index) => alternarDestaque(index)}
+                >
+                  {dados.map((d, index) => (
+                    <Cell
+                      key={`cell-prato-${index}`}
+                      fill={grafico.series[index % grafico.series.length]}
+                      fillOpacity={opacidade(String(d.prato))}
+                      {...(index === foco && { stroke: grafico.foco, strokeWidth: 3 })}
+                    />
+                  ))}
+                </Pie>
+                <Tooltip
+                  defaultIndex={foco ?? undefined}
+                  formatter={(v) => numero(Number(v), 3)}
+                  contentStyle={tooltipStyle}
+                />
+
+                <Legend
+                  layout="horizontal"
+                  verticalAlign="bottom"
+                  align="center"
+                  content={({ payload }) => <PieLegend payload={payload} />}
+                />
+              </PieChart>
+            )}
+          </ResponsiveContainer>
+        )}
+      </AccessibleChart>
+      {porPrato && (
+        <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.8rem", marginTop: "0.5rem" }}>
+          {t("pratosGrafico.dica")}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default DishChart;
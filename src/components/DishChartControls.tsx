@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import {
+  OPCOES_TOP_PRATOS,
+  ORDENS_PRATOS,
+  ORIENTACOES,
+  type ConfigGraficoPratos,
+  type OrdemPratos,
+  type OrientacaoBarras,
+} from "../data/dishChart";
+import { useI18n } from "../i18n/context";
+import { inputStyle, selectStyle, smallButtonStyle } from "./styles";
+
+interface DishChartControlsProps {
+  config: ConfigGraficoPratos;
+  // Pratos do dia, para a busca
+  pratos: string[];
+  // A orientação só faz sentido no gráfico de barras
+  mostrarOrientacao: boolean;
+  onChange: (config: ConfigGraficoPratos) => void;
+}
+
+const chipStyle: React.CSSProperties = {
+  ...smallButtonStyle,
+  borderColor: "var(--cor-primaria-borda)",
+  background: "var(--cor-selecao)",
+};
+
+const DishChartControls: React.FC<DishChartControlsProps> = ({
+  config,
+  pratos,
+  mostrarOrientacao,
+  onChange,
+}) => {
+  const { t } = useI18n();
+  const [busca, setBusca] = useState("");
+
+  const alterar = (parcial: Partial<ConfigGraficoPratos>) =>
+    onChange({ ...config, ...parcial });
+
+  const adicionar = (prato: string) => {
+    const encontrado = pratos.find(
+      (p) => p.toLowerCase() === prato.trim().toLowerCase()
+    );
+    if (!encontrado) return;
+    if (!config.selecionados.includes(encontrado)) {
+      alterar({ selecionados: [...config.selecionados, encontrado] });
+    }
+    setBusca("");
+  };
+
+  const remover = (prato: string) =>
+    alterar({ selecionados: config.selecionados.filter((p) => p !== prato) });
+
+  return (
+    <div style={{ marginBottom: "0.75rem", fontSize: "0.85rem" }}>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.5rem 1rem",
+          alignItems: "center",
+          marginBottom: "0.5rem",
+        }}
+      >
+        <label>
+          {t("pratosGrafico.mostrar")}{" "}
+          <select
+            value={config.top}
+            onChange={(e) => alterar({ top: Number(e.target.value) })}
+            style={{ ...selectStyle, fontSize: "0.8rem" }}
+          >
+            {OPCOES_TOP_PRATOS.map((n) => (
+              <option key={n} value={n}>
+                {n > 0 ? t("pratosGrafico.top", { n }) : t("pratosGrafico.todos")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t("pratosGrafico.ordenar")}{" "}
+          <select
+            value={config.ordem}
+            onChange={(e) => alterar({ ordem: e.target.value as OrdemPratos })}
+            style={{ ...selectStyle, fontSize: "0.8rem" }}
+          >
+            {ORDENS_PRATOS.map((o) => (
+              <option key={o} value={o}>
+                {t(`ordemPratos.${o}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {mostrarOrientacao && (
+          <label>
+            {t("pratosGrafico.orientacao")}{" "}
+            <select
+              value={config.orientacao}
+              onChange={(e) =>
+                alterar({ orientacao: e.target.value as OrientacaoBarras })
+              }
+              style={{ ...selectStyle, fontSize: "0.8rem" }}
+            >
+              {ORIENTACOES.map((o) => (
+                <option key={o} value={o}>
+                  {t(`orientacao.${o}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <span style={{ display: "inline-flex", gap: "0.4rem" }}>
+          <input
+            list="pratos-grafico"
+            value={busca}
+            placeholder={t("pratosGrafico.buscar")}
+            aria-label={t("pratosGrafico.buscar")}
+            onChange={(e) => {
+              setBusca(e.target.value);
+              // Escolher uma opção da lista já adiciona o prato
+              if (pratos.includes(e.target.value)) adicionar(e.target.value);
+            }}
+            onKeyDown={(e) => e.key === "Enter" && adicionar(busca)}
+            style={{ ...inputStyle, fontSize: "0.8rem" }}
+          />
+          <datalist id="pratos-grafico">
+            {pratos
+              .filter((p) => !config.selecionados.includes(p))
+              .map((p) => (
+                <option key={p} value={p} />
+              ))}
+          </datalist>
+        </span>
+      </div>
+
+      {config.selecionados.length > 0 && (
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "0.4rem",
+            alignItems: "center",
+          }}
+        >
+          <span style={{ color: "var(--cor-texto-suave)" }}>{t("pratosGrafico.selecionados")}</span>
+          {config.selecionados.map((p) => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => remover(p)}
+              title={t("pratosGrafico.remover", { prato: p })}
+              style={chipStyle}
+            >
+              {p} ×
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => alterar({ selecionados: [] })}
+            style={smallButtonStyle}
+          >
+            {t("pratosGrafico.limparSelecao")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DishChartControls;
@@ -0,0 +1,171 @@
+import type { ParseResult } from "papaparse";
+import React, { useMemo, useState } from "react";
+import { formatarData } from "../data/calendar";
+import {
+  FORECAST_PADRAO,
+  MODELOS_PREVISAO,
+  parseHistorico,
+  preverBaseline,
+  resumirHistorico,
+  type ForecastSettings,
+  type HistoricoVenda,
+  type ModeloPrevisao,
+} from "../data/forecasting";
+import type { CsvRecord, Row } from "../data/schema";
+import type { ImportIssue } from "../data/validation";
+import { useI18n } from "../i18n/context";
+import { buttonStyle, inputStyle, panelStyle, selectStyle } from "./styles";
+
+interface ForecastBuilderProps {
+  // Leitura do CSV compartilhada com o upload principal (alerta em caso de erro)
+  onLerArquivo: (file: File) => Promise<ParseResult<CsvRecord> | null>;
+  // Recebe a previsão gerada e o nome sugerido para a biblioteca
+  onGerar: (rows: Row[], nome: string, fileName: string) => void;
+}
+
+const ForecastBuilder: React.FC<ForecastBuilderProps> = ({
+  onLerArquivo,
+  onGerar,
+}) => {
+  const { t, numero, locale, motivo } = useI18n();
+  const [fileName, setFileName] = useState("");
+  const [historico, setHistorico] = useState<HistoricoVenda[]>([]);
+  const [erros, setErros] = useState<ImportIssue[]>([]);
+  const [settings, setSettings] = useState<ForecastSettings>(FORECAST_PADRAO);
+
+  const resumo = useMemo(() => resumirHistorico(historico), [historico]);
+
+  const handleFile = async (file: File) => {
+    const results = await onLerArquivo(file);
+    if (!results) return;
+    const resultado = parseHistorico(results);
+    setFileName(file.name);
+    setHistorico(resultado.historico);
+    setErros(resultado.erros);
+  };
+
+  const handleGerar = () => {
+    const modelo = t(`historico.modelo.${settings.modelo}`);
+    const base = fileName.replace(/\.[^.]+$/, "");
+    onGerar(preverBaseline(historico, settings), `${base} · ${modelo}`, fileName);
+  };
+
+  return (
+    <details style={panelStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("historico.titulo")}
+      </summary>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.75rem 0" }}>
+        {t("historico.descricao")}
+      </p>
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) handleFile(file);
+        }}
+        style={{ ...inputStyle, display: "block", width: "98%" }}
+      />
+
+      {erros.length > 0 && (
+        <details style={{ marginTop: "0.5rem" }}>
+          <summary style={{ cursor: "pointer", color: "var(--cor-erro-suave)" }}>
+            {t("historico.erros", { n: numero(erros.length) })}
+          </summary>
+          <ul style={{ fontSize: "0.85rem", color: "var(--cor-erro-suave)" }}>
+            {erros.map((issue, index) => (
+              <li key={index}>
+                {issue.linha !== null
+                  ? t("importacao.linhaN", { n: issue.linha })
+                  : t("importacao.cabecalho")}{" "}
+                (
+                <code>{issue.coluna}</code>): {motivo(issue)}
+                {issue.valor && `: "${issue.valor}"`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {historico.length > 0 && (
+        <>
+          <p style={{ fontSize: "0.85rem", margin: "0.75rem 0" }}>
+            {t("historico.resumo", {
+              registros: numero(resumo.registros),
+              pratos: numero(resumo.pratos),
+              inicio: formatarData(resumo.inicio!, locale),
+              fim: formatarData(resumo.fim!, locale),
+            })}
+          </p>
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "1rem",
+              alignItems: "flex-end",
+            }}
+          >
+            <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+              <span style={{ fontWeight: 500 }}>{t("historico.modelo")}</span>
+              <select
+                value={settings.modelo}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    modelo: e.target.value as ModeloPrevisao,
+                  })
+                }
+                style={selectStyle}
+              >
+                {MODELOS_PREVISAO.map((m) => (
+                  <option key={m} value={m}>
+                    {t(`historico.modelo.${m}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {settings.modelo === "ewma" ? (
+              <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                <span style={{ fontWeight: 500 }}>{t("historico.alpha")}</span>
+                <input
+                  type="number"
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={settings.alpha}
+                  onChange={(e) => {
+                    const alpha = Number(e.target.value);
+                    if (alpha > 0 && alpha <= 1) setSettings({ ...settings, alpha });
+                  }}
+                  style={{ ...inputStyle, width: "5.5rem", textAlign: "right" }}
+                />
+              </label>
+            ) : (
+              <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                <span style={{ fontWeight: 500 }}>{t("historico.semanas")}</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={settings.semanas}
+                  onChange={(e) => {
+                    const semanas = Math.round(Number(e.target.value));
+                    if (semanas >= 1) setSettings({ ...settings, semanas });
+                  }}
+                  style={{ ...inputStyle, width: "5.5rem", textAlign: "right" }}
+                />
+              </label>
+            )}
+            <button type="button" onClick={handleGerar} style={buttonStyle}>
+              {t("historico.gerar")}
+            </button>
+          </div>
+        </>
+      )}
+    </details>
+  );
+};
+
+export default ForecastBuilder;
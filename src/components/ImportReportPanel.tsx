@@ -0,0 +1,301 @@
+import React, { useState } from "react";
+import { chaveDia } from "../data/calendar";
+import type { Renomeacao, SugestaoMescla } from "../data/dishNames";
+import type { ImportIssue, ImportReport } from "../data/validation";
+import { useI18n } from "../i18n/context";
+import {
+  buttonStyle,
+  panelStyle,
+  selectStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  // Nomes unificados automaticamente (maiúsculas, acentos, espaços, apelidos)
+  renomeados: Renomeacao[];
+  // Nomes parecidos que o usuário pode confirmar como o mesmo prato
+  sugestoes: SugestaoMescla[];
+  onConfirm: (mesclas: SugestaoMescla[]) => void;
+  onCancel: () => void;
+  onEditMapping: () => void;
+}
+
+// Arquivos grandes podem ter centenas de milhares de linhas; as listas do
+// relatório mostram só as primeiras
+const LIMITE_LISTA = 200;
+
+// Escolha do usuário para um grupo de nomes parecidos
+interface EscolhaMescla {
+  ativo: boolean;
+  canonico: string;
+}
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({
+  report,
+  renomeados,
+  sugestoes,
+  onConfirm,
+  onCancel,
+  onEditMapping,
+}) => {
+  const { t, numero, rotuloDia, rotuloNivel, motivo } = useI18n();
+  const { aceitas, rejeitadas, avisos, errosCabecalho } = report;
+  const cabecalhoInvalido = errosCabecalho.length > 0;
+  // Indexado pelo nome canônico sugerido; sem escolha = não mesclar
+  const [escolhas, setEscolhas] = useState<Record<string, EscolhaMescla>>({});
+
+  const restantes = (total: number) =>
+    total > LIMITE_LISTA && (
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.8rem" }}>
+        {t("importacao.restantes", { n: numero(total - LIMITE_LISTA) })}
+      </p>
+    );
+
+  const descreverIssue = (issue: ImportIssue) =>
+    issue.valor ? `${motivo(issue)}: "${issue.valor}"` : motivo(issue);
+
+  const escolhaDe = (s: SugestaoMescla) =>
+    escolhas[s.canonico] ?? { ativo: false, canonico: s.canonico };
+
+  const alterarEscolha = (s: SugestaoMescla, parcial: Partial<EscolhaMescla>) =>
+    setEscolhas({ ...escolhas, [s.canonico]: { ...escolhaDe(s), ...parcial } });
+
+  const confirmar = () =>
+    onConfirm(
+      sugestoes
+        .filter((s) => escolhaDe(s).ativo)
+        .map((s) => {
+          const canonico = escolhaDe(s).canonico;
+          return {
+            canonico,
+            variantes: [s.canonico, ...s.variantes].filter((n) => n !== canonico),
+          };
+        })
+    );
+
+  return (
+    <section
+      style={{
+        ...panelStyle,
+        border: `1px solid ${
+          cabecalhoInvalido || rejeitadas.length > 0
+            ? "var(--cor-erro-borda)"
+            : "var(--cor-sucesso-borda)"
+        }`,
+      }}
+    >
+      <h2 style={{ fontSize: "1.1rem", marginBottom: "0.5rem" }}>
+        {t("importacao.titulo", { nome: report.fileName })}
+      </h2>
+      {report.perfil && (
+        <p style={{ color: "var(--cor-info)", fontSize: "0.9rem", marginBottom: "0.5rem" }}>
+          {t("importacao.perfil", { nome: report.perfil })}
+        </p>
+      )}
+
+      {cabecalhoInvalido ? (
+        <>
+          <p style={{ color: "var(--cor-erro-suave)", marginBottom: "0.75rem" }}>
+            {t("importacao.cabecalhoInvalido")}{" "}
+            <code>{report.colunas.join(", ") || t("importacao.nenhumaColuna")}</code>
+          </p>
+          <ul style={{ marginBottom: "0.75rem", color: "var(--cor-erro-suave)" }}>
+            {errosCabecalho.map((issue) => (
+              <li key={issue.coluna ?? issue.motivo}>
+                <code>{issue.coluna}</code>: {motivo(issue)}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+          {t("importacao.lidas", { n: numero(report.totalLinhas) })}{" "}
+          <strong style={{ color: "var(--cor-sucesso)" }}>
+            {t("importacao.aceitas", { n: numero(aceitas.length) })}
+          </strong>{" "}
+          {t("importacao.e")}{" "}
+          <strong style={{ color: "var(--cor-erro)" }}>
+            {t("importacao.rejeitadas", { n: numero(rejeitadas.length) })}
+          </strong>
+          {avisos.length > 0 &&
+            t("importacao.comAvisos", { n: numero(avisos.length) })}
+          .
+        </p>
+      )}
+
+      {rejeitadas.length > 0 && (
+        <div style={{ overflowX: "auto", maxHeight: 240, marginBottom: "0.75rem" }}>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "0.85rem",
+            }}
+          >
+            <thead>
+              <tr>
+                <th style={thStyle}>{t("importacao.linha")}</th>
+                <th style={thStyle}>{t("importacao.prato")}</th>
+                <th style={thStyle}>{t("importacao.dia")}</th>
+                <th style={thStyle}>{t("importacao.coluna")}</th>
+                <th style={thStyle}>{t("importacao.motivo")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rejeitadas.slice(0, LIMITE_LISTA).flatMap((r) =>
+                r.motivos.map((issue, index) => (
+                  <tr key={`${r.linha}-${index}`}>
+                    <td style={{ ...tdStyle, fontVariantNumeric: "tabular-nums" }}>
+                      {index === 0 ? r.linha : ""}
+                    </td>
+                    <td style={tdStyle}>{index === 0 ? r.prato : ""}</td>
+                    <td style={tdStyle}>{index === 0 ? r.dia_semana : ""}</td>
+                    <td style={tdStyle}>
+                      <code>{issue.coluna ?? "—"}</code>
+                    </td>
+                    <td style={{ ...tdStyle, color: "var(--cor-erro-suave)" }}>
+                      {descreverIssue(issue)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          {restantes(rejeitadas.length)}
+        </div>
+      )}
+
+      {avisos.length > 0 && (
+        <details style={{ marginBottom: "0.75rem" }}>
+          <summary style={{ cursor: "pointer", color: "var(--cor-alerta)" }}>
+            {t("importacao.avisos", { n: numero(avisos.length) })}
+          </summary>
+          <ul style={{ fontSize: "0.85rem", color: "var(--cor-alerta-suave)" }}>
+            {avisos.slice(0, LIMITE_LISTA).map((issue, index) => (
+              <li key={index}>
+                {issue.linha !== null
+                  ? t("importacao.linhaN", { n: issue.linha })
+                  : t("importacao.cabecalho")}
+                {issue.coluna && (
+                  <>
+                    {" "}
+                    (<code>{issue.coluna}</code>)
+                  </>
+                )}
+                : {descreverIssue(issue)}
+              </li>
+            ))}
+          </ul>
+          {restantes(avisos.length)}
+        </details>
+      )}
+
+      {renomeados.length > 0 && (
+        <details style={{ marginBottom: "0.75rem" }}>
+          <summary style={{ cursor: "pointer", color: "var(--cor-info)" }}>
+            {t("importacao.unificados", { n: numero(renomeados.length) })}
+          </summary>
+          <ul style={{ fontSize: "0.85rem", color: "var(--cor-texto-suave)" }}>
+            {renomeados.map((r) => (
+              <li key={r.de}>
+                "{r.de}" → "{r.para}"
+                {r.origem === "apelido" && ` (${t("importacao.apelidoSalvo")})`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {sugestoes.length > 0 && (
+        <div style={{ marginBottom: "0.75rem" }}>
+          <p style={{ color: "var(--cor-alerta)", fontSize: "0.9rem", marginBottom: "0.5rem" }}>
+            {t("importacao.sugestoes")}
+          </p>
+          <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>{t("importacao.unificar")}</th>
+                <th style={thStyle}>{t("importacao.nomesEncontrados")}</th>
+                <th style={thStyle}>{t("importacao.usarNome")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sugestoes.map((s) => {
+                const escolha = escolhaDe(s);
+                const nomes = [s.canonico, ...s.variantes];
+                return (
+                  <tr key={s.canonico}>
+                    <td style={{ ...tdStyle, textAlign: "center" }}>
+                      <input
+                        type="checkbox"
+                        checked={escolha.ativo}
+                        onChange={(e) => alterarEscolha(s, { ativo: e.target.checked })}
+                      />
+                    </td>
+                    <td style={tdStyle}>{nomes.map((n) => `"${n}"`).join(", ")}</td>
+                    <td style={tdStyle}>
+                      <select
+                        value={escolha.canonico}
+                        onChange={(e) => alterarEscolha(s, { canonico: e.target.value })}
+                        style={{ ...selectStyle, fontSize: "0.8rem" }}
+                      >
+                        {nomes.map((n) => (
+                          <option key={n} value={n}>
+                            {n}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {aceitas.length > 0 && (
+        <details style={{ marginBottom: "0.75rem" }}>
+          <summary style={{ cursor: "pointer", color: "var(--cor-sucesso)" }}>
+            {t("importacao.linhasAceitas", { n: numero(aceitas.length) })}
+          </summary>
+          <ul style={{ fontSize: "0.85rem", color: "var(--cor-texto-suave)" }}>
+            {aceitas.slice(0, LIMITE_LISTA).map((r) => (
+              <li key={r.prato + chaveDia(r)}>
+                {r.prato} · {rotuloDia(chaveDia(r))} · {numero(r.qtd_prevista_media, 3)}
+                {r.nivel_movimento_prato && ` · ${rotuloNivel(r.nivel_movimento_prato)}`}
+              </li>
+            ))}
+          </ul>
+          {restantes(aceitas.length)}
+        </details>
+      )}
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+        <button
+          type="button"
+          onClick={confirmar}
+          disabled={aceitas.length === 0}
+          style={{
+            ...buttonStyle,
+            borderColor: "var(--cor-sucesso-borda)",
+            opacity: aceitas.length === 0 ? 0.5 : 1,
+            cursor: aceitas.length === 0 ? "not-allowed" : "pointer",
+          }}
+        >
+          {t("importacao.carregar", { n: numero(aceitas.length) })}
+        </button>
+        <button type="button" onClick={onEditMapping} style={buttonStyle}>
+          {t("importacao.ajustarMapeamento")}
+        </button>
+        <button type="button" onClick={onCancel} style={buttonStyle}>
+          {t("importacao.descartar")}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ImportReportPanel;
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { diaDaSemanaDe, diaDeHoje, hojeIso } from "../data/calendar";
+import { pratosDoDia, type IndiceDias } from "../data/dashboard";
+import { gerarPlano, type PlanSettings } from "../data/productionPlan";
+import type { Row } from "../data/schema";
+import { useI18n } from "../i18n/context";
+import { buttonStyle } from "./styles";
+
+interface KitchenDisplayProps {
+  rows: Row[];
+  // Dias presentes no arquivo e o índice por dia, como no resto do dashboard
+  dias: string[];
+  indiceDias?: IndiceDias;
+  settings: PlanSettings;
+  onClose: () => void;
+}
+
+// O dia só muda à meia-noite, mas o tablet fica ligado direto na cozinha
+const INTERVALO_RELOGIO = 60_000;
+
+// Tela cheia para o tablet da cozinha: só a lista de produção de hoje, com
+// letras grandes para ler de longe. A tela não apaga enquanto está aberta.
+const KitchenDisplay: React.FC<KitchenDisplayProps> = ({
+  rows,
+  dias,
+  indiceDias,
+  settings,
+  onClose,
+}) => {
+  const { t, numero, rotuloDia, rotuloNivel, locale } = useI18n();
+  const [agora, setAgora] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setAgora(new Date()), INTERVALO_RELOGIO);
+    return () => window.clearInterval(id);
+  }, []);
+
+  // Wake Lock: sem ele o tablet apaga a tela no meio do preparo. O navegador
+  // solta a trava quando a aba some; ao voltar, ela é pedida de novo.
+  useEffect(() => {
+    let trava: WakeLockSentinel | null = null;
+    let ativo = true;
+    const soltar = (sentinela: WakeLockSentinel) =>
+      sentinela.release().catch((error) => {
+        console.error("Erro ao soltar a trava da tela:", error);
+      });
+    const travar = async () => {
+      if (!("wakeLock" in navigator) || document.visibilityState !== "visible") return;
+      try {
+        const nova = await navigator.wakeLock.request("screen");
+        if (ativo) trava = nova;
+        else soltar(nova);
+      } catch (error) {
+        console.error("Erro ao manter a tela ligada:", error);
+      }
+    };
+    travar();
+    document.addEventListener("visibilitychange", travar);
+    return () => {
+      ativo = false;
+      document.removeEventListener("visibilitychange", travar);
+      if (trava) soltar(trava);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const dia = diaDeHoje(dias, agora);
+  const plano = useMemo(
+    () =>
+      dia
+        ? gerarPlano(pratosDoDia(rows, dia, indiceDias), settings).sort(
+            (a, b) => b.produzir - a.produzir
+          )
+        : [],
+    [rows, dia, indiceDias, settings]
+  );
+  const total = plano.reduce((soma, item) => soma + item.produzir, 0);
+  const hora = agora.toLocaleTimeString(locale, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t("cozinha.titulo")}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 10,
+        overflowY: "auto",
+        background: "var(--cor-fundo)",
+        color: "var(--cor-texto)",
+        fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI'",
+        padding: "clamp(1rem, 3vw, 2.5rem)",
+      }}
+    >
+      <header
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: "1rem",
+          marginBottom: "1.5rem",
+        }}
+      >
+        <h1 style={{ fontSize: "clamp(1.8rem, 4vw, 3rem)", margin: 0 }}>
+          {t("cozinha.titulo")}
+          {dia && (
+            <span
+              style={{
+                color: "var(--cor-info)",
+                marginLeft: "0.75rem",
+                textTransform: "capitalize",
+              }}
+            >
+              {rotuloDia(dia)}
+            </span>
+          )}
+        </h1>
+        <span style={{ display: "inline-flex", alignItems: "center", gap: "1rem" }}>
+          <span
+            style={{
+              fontSize: "clamp(1.5rem, 3vw, 2.5rem)",
+              fontVariantNumeric: "tabular-nums",
+              color: "var(--cor-texto-suave)",
+            }}
+          >
+            {hora}
+          </span>
+          <button
+            type="button"
+            onClick={onClose}
+            style={{ ...buttonStyle, fontSize: "1.1rem", padding: "0.6rem 1.4rem" }}
+          >
+            {t("cozinha.sair")}
+          </button>
+        </span>
+      </header>
+
+      {plano.length === 0 ? (
+        <p style={{ fontSize: "clamp(1.3rem, 3vw, 2rem)", color: "var(--cor-texto-suave)" }}>
+          {t("cozinha.semPrevisao", {
+            dia: rotuloDia(diaDaSemanaDe(hojeIso(agora))),
+          })}
+        </p>
+      ) : (
+        <>
+          <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
+            {plano.map((item) => (
+              <li
+                key={item.row.prato}
+                style={{
+                  display: "flex",
+                  flexWrap: "wrap",
+                  justifyContent: "space-between",
+                  alignItems: "baseline",
+                  gap: "0.25rem 1.5rem",
+                  padding: "0.75rem 0",
+                  borderBottom: "1px solid var(--cor-borda)",
+                }}
+              >
+                <span style={{ fontSize: "clamp(1.5rem, 3.5vw, 2.5rem)", fontWeight: 600 }}>
+                  {item.row.prato}
+                  <span
+                    style={{
+                      display: "block",
+                      fontSize: "clamp(0.95rem, 1.8vw, 1.3rem)",
+                      fontWeight: 400,
+                      color: "var(--cor-texto-suave)",
+                    }}
+                  >
+                    {t("cozinha.previsto", {
+                      valor: numero(item.row.qtd_prevista_media, 1),
+                    })}
+                    {item.lotes !== null &&
+                      ` · ${t("cozinha.lotes", { lotes: item.lotes, lote: item.lote ?? 0 })}`}
+                    {item.row.nivel_movimento_prato &&
+                      ` · ${rotuloNivel(item.row.nivel_movimento_prato)}`}
+                  </span>
+                </span>
+                <span
+                  style={{
+                    fontSize: "clamp(2.25rem, 6vw, 4.5rem)",
+                    fontWeight: 700,
+                    fontVariantNumeric: "tabular-nums",
+                  }}
+                >
+                  {numero(item.produzir)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p
+            style={{
+              marginTop: "1.25rem",
+              fontSize: "clamp(1.3rem, 3vw, 2rem)",
+              fontWeight: 600,
+              textAlign: "right",
+            }}
+          >
+            {t("cozinha.total", { valor: numero(total) })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KitchenDisplay;
@@ -0,0 +1,142 @@
+import React from "react";
+import { chaveDia, compararDias } from "../data/calendar";
+import type { PlanoItem } from "../data/productionPlan";
+import { useI18n } from "../i18n/context";
+
+interface KitchenSheetProps {
+  // Plano já filtrado para o que deve ser impresso (um dia ou a semana)
+  plano: PlanoItem[];
+  titulo: string;
+}
+
+// A folha só aparece na impressão; na tela o dashboard continua visível.
+// As classes são aplicadas no App (tela) e aqui (folha).
+const PRINT_CSS = `
+.sabor-folha-cozinha { display: none; }
+@media print {
+  @page { size: A4 portrait; margin: 12mm; }
+  body { background: #ffffff !important; }
+  .sabor-tela { display: none !important; }
+  .sabor-folha-cozinha { display: block; }
+  .sabor-folha-dia { break-after: page; }
+  .sabor-folha-dia:last-child { break-after: auto; }
+}
+`;
+
+const cellStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderBottom: "1px solid #d1d5db",
+  fontSize: "11pt",
+};
+
+const numCellStyle: React.CSSProperties = {
+  ...cellStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+};
+
+const headStyle: React.CSSProperties = {
+  ...cellStyle,
+  textAlign: "left",
+  borderBottom: "2px solid #111827",
+  fontSize: "10pt",
+  textTransform: "uppercase",
+  letterSpacing: "0.03em",
+};
+
+const KitchenSheet: React.FC<KitchenSheetProps> = ({ plano, titulo }) => {
+  const { t, numero, rotuloDia, rotuloNivel, locale } = useI18n();
+  const porDia = new Map<string, PlanoItem[]>();
+  plano.forEach((item) => {
+    const dia = chaveDia(item.row);
+    const lista = porDia.get(dia) ?? [];
+    lista.push(item);
+    porDia.set(dia, lista);
+  });
+  const dias = Array.from(porDia.keys()).sort(compararDias);
+  const impressoEm = new Date().toLocaleString(locale, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+  return (
+    <div
+      className="sabor-folha-cozinha"
+      style={{
+        color: "#111827",
+        background: "#ffffff",
+        fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI'",
+      }}
+    >
+      <style>{PRINT_CSS}</style>
+      {dias.map((dia) => {
+        const itens = porDia.get(dia)!;
+        const total = itens.reduce((acc, item) => acc + item.produzir, 0);
+        return (
+          <section key={dia} className="sabor-folha-dia">
+            <header
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "baseline",
+                borderBottom: "3px solid #111827",
+                marginBottom: "8px",
+              }}
+            >
+              <h1 style={{ fontSize: "20pt", margin: "0 0 4px" }}>
+                {titulo} — <span style={{ textTransform: "capitalize" }}>{rotuloDia(dia)}</span>
+              </h1>
+              <span style={{ fontSize: "9pt", color: "#4b5563" }}>
+                {t("folha.impressoEm", { data: impressoEm })}
+              </span>
+            </header>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={headStyle}>{t("folha.prato")}</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>{t("folha.previsto")}</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>{t("folha.produzir")}</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>{t("folha.lotes")}</th>
+                  <th style={headStyle}>{t("folha.movimento")}</th>
+                  <th style={{ ...headStyle, textAlign: "center" }}>{t("folha.feito")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {itens.map((item) => (
+                  <tr key={item.row.prato}>
+                    <td style={cellStyle}>{item.row.prato}</td>
+                    <td style={{ ...numCellStyle, color: "#4b5563" }}>
+                      {numero(item.row.qtd_prevista_media, 1)}
+                    </td>
+                    <td style={{ ...numCellStyle, fontWeight: 700, fontSize: "13pt" }}>
+                      {numero(item.produzir)}
+                    </td>
+                    <td style={numCellStyle}>
+                      {item.lotes !== null && item.lote !== null
+                        ? `${numero(item.lotes)} × ${numero(item.lote)}`
+                        : "—"}
+                    </td>
+                    <td style={{ ...cellStyle, textTransform: "capitalize" }}>
+                      {rotuloNivel(item.row.nivel_movimento_prato)}
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: "center" }}>☐</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td style={{ ...cellStyle, fontWeight: 700 }}>{t("folha.total")}</td>
+                  <td style={cellStyle} />
+                  <td style={{ ...numCellStyle, fontWeight: 700 }}>{numero(total)}</td>
+                  <td colSpan={3} style={cellStyle} />
+                </tr>
+              </tfoot>
+            </table>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default KitchenSheet;
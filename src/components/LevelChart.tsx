@@ -0,0 +1,268 @@
+import React, { useMemo, useRef } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  PieChart,
+  Pie,
+  Cell,
+} from "recharts";
+import type { OrigemNivel } from "../data/classification";
+import type { ResumoNivel } from "../data/dashboard";
+import type { ChartType, EscopoNivel } from "../data/viewState";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import AccessibleChart from "./AccessibleChart";
+import ChartExportButtons from "./ChartExportButtons";
+import {
+  chartHeaderStyle,
+  numCellStyle,
+  selectStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+  tooltipStyle,
+} from "./styles";
+
+interface LevelChartProps {
+  dados: ResumoNivel[];
+  dia: string;
+  escopo: EscopoNivel;
+  onChangeEscopo: (escopo: EscopoNivel) => void;
+  chartType: ChartType;
+  // Nível clicado; filtra os pratos e a sugestão de preparo
+  filtroNivel: string | null;
+  onFiltrar: (nivel: string | null) => void;
+  origens: OrigemNivel[];
+  exportName: string;
+  onExportCsv: () => void;
+  // Painel de classificação, exibido abaixo da tabela
+  children?: React.ReactNode;
+}
+
+// Gráfico 2: nível de movimento no dia selecionado ou na semana
+const LevelChart: React.FC<LevelChartProps> = ({
+  dados,
+  dia,
+  escopo,
+  onChangeEscopo,
+  chartType,
+  filtroNivel,
+  onFiltrar,
+  origens,
+  exportName,
+  onExportCsv,
+  children,
+}) => {
+  const { t, numero, rotuloDia, rotuloNivel } = useI18n();
+  const { grafico } = useTema();
+  const graficoRef = useRef<HTMLDivElement>(null);
+
+  // `nivel` é a chave interna; `rotulo` é o nome no idioma da tela
+  const itens = useMemo(
+    () => dados.map((d) => ({ ...d, rotulo: rotuloNivel(d.nivel) })),
+    [dados, rotuloNivel]
+  );
+
+  const totalPorcoes = dados.reduce((acc, d) => acc + d.porcoes, 0);
+
+  // Clicar de novo no nível já filtrado remove o filtro
+  const alternar = (nivel: string) =>
+    onFiltrar(filtroNivel === nivel ? null : nivel);
+
+  const titulo =
+    escopo === "dia"
+      ? t("nivel.tituloDia", { dia: rotuloDia(dia) })
+      : t("nivel.tituloSemana");
+
+  const opacidade = (nivel: string) =>
+    filtroNivel && filtroNivel !== nivel ? 0.35 : 1;
+
+  return (
+    <section>
+      <div style={chartHeaderStyle}>
+        <h2 style={{ fontSize: "1.2rem", margin: 0 }}>
+          {titulo}
+        </h2>
+        <span style={{ display: "inline-flex", gap: "0.4rem" }}>
+          <select
+            value={escopo}
+            onChange={(e) => onChangeEscopo(e.target.value as EscopoNivel)}
+            style={{ ...selectStyle, fontSize: "0.8rem" }}
+          >
+            <option value="dia">{t("nivel.escopoDia")}</option>
+            <option value="semana">{t("nivel.escopoSemana")}</option>
+          </select>
+          <button type="button" onClick={onExportCsv} style={smallButtonStyle}>
+            CSV
+          </button>
+          <ChartExportButtons
+            targetRef={graficoRef}
+            fileName={`${exportName}-niveis-${escopo === "dia" ? dia : "semana"}`}
+          />
+        </span>
+      </div>
+      <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+        {t("nivel.descricao")}
+      </p>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", marginBottom: "0.75rem" }}>
+        {t("nivel.origem")} {origens.map((o) => t(`origem.${o}`)).join(" + ")}
+      </p>
+      {/* A tabela de resumo logo abaixo já traz os dados do gráfico */}
+      <AccessibleChart
+        ref={graficoRef}
+        titulo={titulo}
+        altura={260}
+        itens={itens.map(
+          (d) =>
+            `${d.rotulo}: ${d.quantidade} ${t("nivel.combinacoes").toLowerCase()}, ${numero(d.porcoes, 1)} ${t("nivel.porcoes").toLowerCase()}`
+        )}
+        onAtivar={(index) => alternar(itens[index].nivel)}
+      >
+        {(foco) => (
+          <ResponsiveContainer>
+            {chartType === "bar" ? (
+              <BarChart data={itens} accessibilityLayer={false}>
+                <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                <XAxis dataKey="rotulo" stroke={grafico.eixo} />
+                <YAxis
+                  yAxisId="combinacoes"
+                  allowDecimals={false}
+                  stroke={grafico.eixo}
+                />
+                <YAxis
+                  yAxisId="porcoes"
+                  orientation="right"
+                  stroke={grafico.eixo}
+                  tickFormatter={(v: number) => numero(v, 1)}
+                />
+                <Tooltip
+                  defaultIndex={foco ?? undefined}
+                  formatter={(v) => numero(Number(v), 1)}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend />
+                <Bar
+                  yAxisId="combinacoes"
+                  dataKey="quantidade"
+                  name={t("nivel.combinacoesSerie")}
+                  fill={grafico.terciaria}
+                  cursor="pointer"
+                  onClick={(_, index) => alternar(itens[index].nivel)}
+                >
+                  {itens.map((d) => (
+                    <Cell
+                      key={`cell-combinacoes-${d.nivel}`}
+                      fillOpacity={opacidade(d.nivel)}
+                    />
+                  ))}
+                </Bar>
+                <Bar
+                  yAxisId="porcoes"
+                  dataKey="porcoes"
+                  name={t("nivel.porcoes")}
+                  fill={grafico.primaria}
+                  cursor="pointer"
+                  onClick={(_, index) => alternar(itens[index].nivel)}
+                >
+                  {itens.map((d) => (
+                    <Cell
+                      key={`cell-porcoes-${d.nivel}`}
+                      fillOpacity={opacidade(d.nivel)}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            ) : (
+              <PieChart
+                margin={{ top: 8, bottom: 40, right: 4, left: 4 }}
+                accessibilityLayer={false}
+              >
+                <Pie
+                  data={itens}
+                  dataKey="quantidade"
+                  nameKey="rotulo"
+                  cx="50%"
+                  cy="50%"
+                  outerRadius={100}
+                  labelLine={false}
+                  label={({ name, percent }) =>
+                    `${name} (${numero(percent! * 100, 1)}%)`
+                  }
+                  cursor="pointer"
+                  rootTabIndex={-1}
+                  onClick={(_, index) => alternar(itens[index].nivel)}
+                >
+                  {itens.map((d, index) => (
+                    <Cell
+                      key={`cell-nivel-${index}`}
+                      fill={grafico.series[index % grafico.series.length]}
+                      fillOpacity={opacidade(d.nivel)}
+                      {...(index === foco && { stroke: grafico.foco, strokeWidth: 3 })}
+                    />
+                  ))}
+                </Pie>
+              </PieChart>
+            )}
+          </ResponsiveContainer>
+        )}
+      </AccessibleChart>
+
+      {/* Resumo por nível: combinações e volume de porções */}
+      <table
+        style={{
+          width: "100%",
+          borderCollapse: "collapse",
+          fontSize: "0.85rem",
+          marginTop: "0.75rem",
+        }}
+      >
+        <thead>
+          <tr>
+            <th style={thStyle}>{t("nivel.nivel")}</th>
+            <th style={{ ...thStyle, textAlign: "right" }}>
+              {t("nivel.combinacoes")}
+            </th>
+            <th style={{ ...thStyle, textAlign: "right" }}>{t("nivel.porcoes")}</th>
+            <th style={{ ...thStyle, textAlign: "right" }}>
+              {t("nivel.pctPorcoes")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {itens.map((d) => (
+            <tr
+              key={d.nivel}
+              onClick={() => alternar(d.nivel)}
+              style={{
+                cursor: "pointer",
+                background:
+                  filtroNivel === d.nivel ? "var(--cor-selecao)" : undefined,
+              }}
+            >
+              <td style={{ ...tdStyle, textTransform: "capitalize" }}>
+                {d.rotulo}
+              </td>
+              <td style={numCellStyle}>{d.quantidade}</td>
+              <td style={numCellStyle}>{numero(d.porcoes, 1)}</td>
+              <td style={numCellStyle}>
+                {totalPorcoes > 0
+                  ? `${numero((d.porcoes / totalPorcoes) * 100, 1)}%`
+                  : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {children}
+    </section>
+  );
+};
+
+export default LevelChart;
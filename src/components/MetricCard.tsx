@@ -0,0 +1,33 @@
+import React from "react";
+
+interface MetricCardProps {
+  label: string;
+  valor: string;
+  // Explicação exibida ao passar o mouse
+  ajuda: string;
+}
+
+// Indicador em destaque no topo das visões de comparação
+const MetricCard: React.FC<MetricCardProps> = ({
+  label,
+  valor,
+  ajuda,
+}) => (
+  <div
+    title={ajuda}
+    style={{
+      flex: "1 1 140px",
+      padding: "0.75rem 1rem",
+      borderRadius: "0.75rem",
+      border: "1px solid var(--cor-borda)",
+      background: "var(--cor-painel)",
+    }}
+  >
+    <div style={{ color: "var(--cor-texto-suave)", fontSize: "0.8rem" }}>{label}</div>
+    <div style={{ fontSize: "1.4rem", fontVariantNumeric: "tabular-nums" }}>
+      {valor}
+    </div>
+  </div>
+);
+
+export default MetricCard;
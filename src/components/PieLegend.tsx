@@ -0,0 +1,65 @@
+import React from "react";
+import type { LegendPayload } from "recharts";
+import { useI18n } from "../i18n/context";
+
+interface PieLegendProps {
+  payload?: readonly LegendPayload[];
+}
+
+// Na pizza, o Recharts coloca o item do gráfico em `payload` de cada entrada
+const quantidadeDe = (entry: LegendPayload) =>
+  Number(
+    (entry.payload as { qtd_prevista_media?: number } | undefined)
+      ?.qtd_prevista_media ?? 0
+  );
+
+// Legenda da pizza de pratos com a participação de cada fatia
+const PieLegend: React.FC<PieLegendProps> = ({ payload }) => {
+  const { numero } = useI18n();
+  if (!payload || payload.length === 0) return null;
+
+  // soma total das quantidades
+  const total = payload.reduce((sum, entry) => sum + quantidadeDe(entry), 0);
+
+  return (
+    <ul
+      style={{
+        listStyle: "none",
+        margin: 0,
+        padding: 0,
+        display: "flex",
+        flexWrap: "wrap",
+        justifyContent: "center",
+        gap: "0.5rem 1rem",
+        fontSize: "0.8rem",
+      }}
+    >
+      {payload.map((entry, index) => {
+        const percent = total > 0 ? (quantidadeDe(entry) / total) * 100 : 0;
+
+        return (
+          <li
+            key={`item-${index}`}
+            style={{ display: "flex", alignItems: "center" }}
+          >
+            <span
+              style={{
+                display: "inline-block",
+                width: 10,
+                height: 10,
+                borderRadius: 2,
+                backgroundColor: entry.color,
+                marginRight: 6,
+              }}
+            />
+            <span>
+              {entry.value} ({numero(percent, 1, 1)}%)
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PieLegend;
@@ -0,0 +1,85 @@
+import React from "react";
+import { isData } from "../data/calendar";
+import {
+  ajustarDataRegistro,
+  limitesDoRegistro,
+  type RegistroDia,
+} from "../data/prepLog";
+import type { PlanoItem } from "../data/productionPlan";
+import { useI18n } from "../i18n/context";
+import { inputStyle } from "./styles";
+
+interface PrepLogBarProps {
+  // Dia do dashboard (dia da semana ou data) e a data em que ele é registrado
+  dia: string;
+  data: string;
+  onChangeData: (data: string) => void;
+  plano: PlanoItem[];
+  registro: RegistroDia | undefined;
+}
+
+// Data do checklist de preparo e o fechamento do dia (produzido e sobra)
+const PrepLogBar: React.FC<PrepLogBarProps> = ({
+  dia,
+  data,
+  onChangeData,
+  plano,
+  registro,
+}) => {
+  const { t, numero } = useI18n();
+  const { min, max } = limitesDoRegistro(dia, new Date());
+  const registrados = plano
+    .map((item) => registro?.pratos[item.row.prato])
+    .filter((r) => r !== undefined);
+  const feitos = registrados.filter((r) => r.feito).length;
+  const produzido = registrados.reduce((soma, r) => soma + (r.produzido ?? 0), 0);
+  const fechados = registrados.filter((r) => r.produzido !== null && r.sobra !== null);
+  const sobra = fechados.reduce((soma, r) => soma + (r.sobra ?? 0), 0);
+  const produzidoFechado = fechados.reduce((soma, r) => soma + (r.produzido ?? 0), 0);
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: "0.5rem 1rem",
+        alignItems: "center",
+        marginBottom: "0.75rem",
+        fontSize: "0.85rem",
+      }}
+    >
+      <label style={{ display: "inline-flex", alignItems: "center", gap: "0.4rem" }}>
+        <span style={{ color: "var(--cor-texto-suave)" }}>{t("preparo.registroData")}</span>
+        {/* Em arquivos sem datas, o passo de 7 dias só aceita o mesmo dia da
+            semana; uma data digitada fora disso é ajustada */}
+        <input
+          type="date"
+          value={data}
+          disabled={isData(dia)}
+          min={min}
+          max={max}
+          step={7}
+          onChange={(e) =>
+            e.target.value &&
+            onChangeData(ajustarDataRegistro(e.target.value, dia, new Date()))
+          }
+          style={{ ...inputStyle, padding: "0.2rem 0.5rem" }}
+        />
+      </label>
+      <span style={{ color: "var(--cor-texto-suave)" }}>
+        {t("preparo.registroResumo", {
+          feitos,
+          total: plano.length,
+          produzido: numero(produzido),
+        })}
+        {fechados.length > 0 &&
+          ` · ${t("preparo.registroSobra", {
+            sobra: numero(sobra),
+            pct: numero(produzidoFechado > 0 ? (sobra / produzidoFechado) * 100 : 0, 1),
+          })}`}
+      </span>
+    </div>
+  );
+};
+
+export default PrepLogBar;
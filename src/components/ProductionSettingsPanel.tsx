@@ -0,0 +1,166 @@
+import React from "react";
+import {
+  PLAN_SETTINGS_PADRAO,
+  type PlanSettings,
+  type PratoSettings,
+} from "../data/productionPlan";
+import { NIVEIS_MOVIMENTO } from "../data/schema";
+import { useI18n } from "../i18n/context";
+import { buttonStyle, inputStyle, panelStyle, tdStyle, thStyle } from "./styles";
+
+interface ProductionSettingsPanelProps {
+  settings: PlanSettings;
+  pratos: string[];
+  onChange: (settings: PlanSettings) => void;
+}
+
+const numberInputStyle: React.CSSProperties = {
+  ...inputStyle,
+  width: "5.5rem",
+  textAlign: "right",
+};
+
+// Campo vazio = sem valor (usa o padrão)
+const lerNumero = (valor: string): number | undefined => {
+  if (valor.trim() === "") return undefined;
+  const lido = Number(valor);
+  return Number.isFinite(lido) && lido >= 0 ? lido : undefined;
+};
+
+const NumberField: React.FC<{
+  value: number | undefined;
+  placeholder?: string;
+  onChange: (valor: number | undefined) => void;
+  ariaLabel: string;
+}> = ({ value, placeholder, onChange, ariaLabel }) => (
+  <input
+    type="number"
+    min={0}
+    step="any"
+    value={value ?? ""}
+    placeholder={placeholder}
+    aria-label={ariaLabel}
+    onChange={(e) => onChange(lerNumero(e.target.value))}
+    style={numberInputStyle}
+  />
+);
+
+const ProductionSettingsPanel: React.FC<ProductionSettingsPanelProps> = ({
+  settings,
+  pratos,
+  onChange,
+}) => {
+  const { t, rotuloNivel } = useI18n();
+  const atualizarPrato = (prato: string, campo: keyof PratoSettings, valor?: number) => {
+    const atual = { ...settings.pratos[prato], [campo]: valor };
+    onChange({ ...settings, pratos: { ...settings.pratos, [prato]: atual } });
+  };
+
+  return (
+    <details style={{ ...panelStyle, marginTop: "1rem" }}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("configPlano.titulo")}
+      </summary>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "1rem",
+          margin: "0.75rem 0 1rem",
+          alignItems: "flex-end",
+        }}
+      >
+        <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <span style={{ fontWeight: 500 }}>{t("configPlano.margemGlobal")} (%)</span>
+          <NumberField
+            value={settings.margemGlobal}
+            ariaLabel={t("configPlano.margemGlobal")}
+            onChange={(valor) =>
+              onChange({ ...settings, margemGlobal: valor ?? 0 })
+            }
+          />
+        </label>
+        {NIVEIS_MOVIMENTO.map((nivel) => (
+          <label
+            key={nivel}
+            style={{ display: "flex", flexDirection: "column", gap: 4 }}
+          >
+            <span style={{ fontWeight: 500, textTransform: "capitalize" }}>
+              {t("configPlano.margemNivel", { nivel: rotuloNivel(nivel) })} (%)
+            </span>
+            <NumberField
+              value={settings.margemPorNivel[nivel]}
+              placeholder={String(settings.margemGlobal)}
+              ariaLabel={t("configPlano.margemNivelAria", { nivel: rotuloNivel(nivel) })}
+              onChange={(valor) =>
+                onChange({
+                  ...settings,
+                  margemPorNivel: { ...settings.margemPorNivel, [nivel]: valor },
+                })
+              }
+            />
+          </label>
+        ))}
+        <button
+          type="button"
+          onClick={() => {
+            if (confirm(t("configPlano.confirmarRestaurar"))) {
+              onChange(PLAN_SETTINGS_PADRAO);
+            }
+          }}
+          style={buttonStyle}
+        >
+          {t("configPlano.restaurar")}
+        </button>
+      </div>
+
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", marginBottom: "0.5rem" }}>
+        {t("configPlano.porPrato")}
+      </p>
+      <div style={{ overflowX: "auto", maxHeight: 320 }}>
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: "0.85rem",
+          }}
+        >
+          <thead>
+            <tr>
+              <th style={thStyle}>{t("configPlano.prato")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("configPlano.lote")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("configPlano.minimo")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("configPlano.maximo")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pratos.map((prato) => {
+              const config = settings.pratos[prato] ?? {};
+              return (
+                <tr key={prato}>
+                  <td style={tdStyle}>{prato}</td>
+                  {(["lote", "minimo", "maximo"] as const).map((campo) => (
+                    <td key={campo} style={{ ...tdStyle, textAlign: "right" }}>
+                      <NumberField
+                        value={config[campo]}
+                        placeholder="—"
+                        ariaLabel={t("configPlano.campoDe", {
+                          campo: t(`configPlano.${campo}`),
+                          prato,
+                        })}
+                        onChange={(valor) => atualizarPrato(prato, campo, valor)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
+
+export default ProductionSettingsPanel;
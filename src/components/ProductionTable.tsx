@@ -0,0 +1,277 @@
+import React from "react";
+import type { MudancaRegistro, RegistroDia } from "../data/prepLog";
+import type { PlanoItem } from "../data/productionPlan";
+import type { Row } from "../data/schema";
+import { chaveLinha, type DeltaCenario } from "../data/scenarios";
+import { useI18n } from "../i18n/context";
+import { inputStyle, numCellStyle, thStyle } from "./styles";
+import { useVirtualRows } from "./useVirtualRows";
+
+interface ProductionTableProps {
+  plano: PlanoItem[];
+  // Diferença de cada prato + dia para a previsão original (cenário ativo)
+  deltas: Map<string, DeltaCenario> | null;
+  destaque: string | null;
+  onDestacar: (prato: string | null) => void;
+  // Estratégia que calculou o nível da linha; null quando veio do arquivo
+  nivelCalculadoPor: (row: Row) => string | null;
+  // Checklist da cozinha na data registrada: feito, produzido e sobra; sem
+  // onRegistrar (consolidado de várias unidades) os campos ficam desativados
+  registro: RegistroDia | undefined;
+  onRegistrar: ((item: PlanoItem, mudanca: MudancaRegistro) => void) | null;
+}
+
+// Acima disso a tabela ganha rolagem própria e só as linhas visíveis são
+// desenhadas (arquivos com várias unidades chegam a milhares de pratos por dia)
+const LINHAS_SEM_ROLAGEM = 200;
+const ALTURA_LINHA = 34;
+const ALTURA_VISIVEL = 480;
+
+const cabecalhoStyle: React.CSSProperties = {
+  textAlign: "left",
+  padding: "0.5rem",
+  borderBottom: "1px solid var(--cor-borda)",
+};
+
+const celulaStyle: React.CSSProperties = {
+  padding: "0.4rem 0.5rem",
+  borderBottom: "1px solid var(--cor-linha)",
+};
+
+const celulaNumStyle: React.CSSProperties = {
+  ...celulaStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+};
+
+const quantidadeStyle: React.CSSProperties = {
+  ...inputStyle,
+  width: "4.5rem",
+  padding: "0.15rem 0.4rem",
+  textAlign: "right",
+};
+
+// Campo vazio = ainda não registrado; undefined = digitação inválida, que é
+// ignorada em vez de apagar o valor salvo
+const lerQuantidade = (campo: HTMLInputElement): number | null | undefined => {
+  if (campo.validity.badInput) return undefined;
+  if (campo.value.trim() === "") return null;
+  const numero = Number(campo.value);
+  return Number.isFinite(numero) && numero >= 0 ? numero : undefined;
+};
+
+// Os campos ficam na linha clicável; o clique neles não troca o destaque
+const pararClique = (e: React.MouseEvent) => e.stopPropagation();
+
+// Tabela da sugestão de preparo do dia (margem, lotes e limites por prato),
+// que também serve de checklist: feito, quanto foi produzido e a sobra
+const ProductionTable: React.FC<ProductionTableProps> = ({
+  plano,
+  deltas,
+  destaque,
+  onDestacar,
+  nivelCalculadoPor,
+  registro,
+  onRegistrar,
+}) => {
+  const { t, numero, rotuloNivel } = useI18n();
+  const virtual = plano.length > LINHAS_SEM_ROLAGEM;
+  const janela = useVirtualRows(plano.length, ALTURA_LINHA, ALTURA_VISIVEL);
+  const visiveis = virtual ? plano.slice(janela.inicio, janela.fim) : plano;
+  // Linhas de altura fixa, sem quebra, para a janela bater com a rolagem
+  const linhaVirtual: React.CSSProperties = virtual
+    ? { height: ALTURA_LINHA, whiteSpace: "nowrap" }
+    : {};
+  // Cabeçalho fixo no topo da área com rolagem
+  const cabecalhoVirtual: React.CSSProperties = virtual
+    ? { position: "sticky", top: 0, background: "var(--cor-cartao)" }
+    : {};
+
+  // Célula com a diferença do cenário ativo em relação à previsão original
+  const renderDelta = (row: Row) => {
+    const info = deltas?.get(chaveLinha(row));
+    if (!info) return <td style={numCellStyle} />;
+    const cor =
+      info.original === null
+        ? "var(--cor-info)"
+        : info.delta > 0
+          ? "var(--cor-sucesso)"
+          : info.delta < 0
+            ? "var(--cor-erro)"
+            : "var(--cor-texto-suave)";
+    return (
+      <td
+        style={{ ...numCellStyle, color: cor }}
+        title={
+          info.original === null
+            ? t("cenario.adicionado")
+            : t("cenario.original", { valor: numero(info.original, 3) })
+        }
+      >
+        {info.original === null
+          ? t("cenario.novo")
+          : info.delta === 0
+            ? "—"
+            : `${info.delta > 0 ? "+" : ""}${numero(info.delta, 1)}`}
+      </td>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        overflowX: "auto",
+        ...(virtual ? { maxHeight: ALTURA_VISIVEL, overflowY: "auto" } : {}),
+      }}
+      onScroll={virtual ? janela.onScroll : undefined}
+    >
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.9rem" }}>
+        <thead style={cabecalhoVirtual}>
+          <tr>
+            <th style={cabecalhoStyle}>{t("preparo.prato")}</th>
+            <th style={{ ...cabecalhoStyle, textAlign: "right" }}>
+              {t("preparo.qtdPrevista")}
+            </th>
+            {deltas && (
+              <th style={{ ...thStyle, textAlign: "right" }}>
+                {t("preparo.deltaCenario")}
+              </th>
+            )}
+            <th style={{ ...cabecalhoStyle, textAlign: "right" }}>
+              {t("preparo.margem")}
+            </th>
+            <th style={{ ...cabecalhoStyle, textAlign: "right" }}>
+              {t("preparo.produzir")}
+            </th>
+            <th style={cabecalhoStyle}>{t("preparo.nivel")}</th>
+            <th style={{ ...cabecalhoStyle, textAlign: "center" }}>
+              {t("preparo.feito")}
+            </th>
+            <th style={{ ...cabecalhoStyle, textAlign: "right" }}>
+              {t("preparo.produzido")}
+            </th>
+            <th style={{ ...cabecalhoStyle, textAlign: "right" }}>
+              {t("preparo.sobra")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {virtual && janela.espacoAntes > 0 && (
+            <tr aria-hidden="true" style={{ height: janela.espacoAntes }} />
+          )}
+          {visiveis.map((planoItem) => {
+            const { row: linha, ...item } = planoItem;
+            const calculadoPor = nivelCalculadoPor(linha);
+            const registrado = registro?.pratos[linha.prato];
+            return (
+              <tr
+                key={linha.prato + linha.dia_semana}
+                onClick={() =>
+                  onDestacar(destaque === linha.prato ? null : linha.prato)
+                }
+                style={{
+                  ...linhaVirtual,
+                  cursor: "pointer",
+                  background:
+                    destaque === linha.prato ? "var(--cor-selecao)" : undefined,
+                }}
+              >
+                <td style={celulaStyle}>{linha.prato}</td>
+                <td style={{ ...celulaNumStyle, color: "var(--cor-texto-suave)" }}>
+                  {numero(linha.qtd_prevista_media, 3)}
+                </td>
+                {deltas && renderDelta(linha)}
+                <td style={{ ...celulaNumStyle, color: "var(--cor-texto-suave)" }}>
+                  +{numero(item.margem, 1, 0)}%
+                </td>
+                <td
+                  style={{ ...celulaNumStyle, fontWeight: 600 }}
+                  title={t("preparo.comMargem", {
+                    valor: numero(item.qtdComMargem, 3),
+                  })}
+                >
+                  {numero(item.produzir)}
+                  {item.lotes !== null && (
+                    <span style={{ color: "var(--cor-texto-suave)", fontWeight: 400, marginLeft: 6 }}>
+                      ({item.lotes} × {item.lote})
+                    </span>
+                  )}
+                  {item.limite && (
+                    <span style={{ color: "var(--cor-alerta)", fontWeight: 400, marginLeft: 6 }}>
+                      {t(
+                        item.limite === "mínimo"
+                          ? "preparo.limiteMinimo"
+                          : "preparo.limiteMaximo"
+                      )}
+                    </span>
+                  )}
+                </td>
+                <td style={{ ...celulaStyle, textTransform: "capitalize" }}>
+                  {rotuloNivel(linha.nivel_movimento_prato)}
+                  {calculadoPor && (
+                    <span
+                      title={t("preparo.calculado", { origem: calculadoPor })}
+                      style={{
+                        color: "var(--cor-texto-suave)",
+                        fontSize: "0.75rem",
+                        marginLeft: 6,
+                        textTransform: "none",
+                      }}
+                    >
+                      {t("preparo.calc")}
+                    </span>
+                  )}
+                </td>
+                <td style={{ ...celulaStyle, textAlign: "center" }} onClick={pararClique}>
+                  <input
+                    type="checkbox"
+                    checked={registrado?.feito ?? false}
+                    disabled={!onRegistrar}
+                    onChange={(e) => onRegistrar?.(planoItem, { feito: e.target.checked })}
+                    aria-label={t("preparo.marcarFeito", { prato: linha.prato })}
+                  />
+                </td>
+                <td style={celulaNumStyle} onClick={pararClique}>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={registrado?.produzido ?? ""}
+                    placeholder={String(item.produzir)}
+                    disabled={!onRegistrar}
+                    onChange={(e) => {
+                      const produzido = lerQuantidade(e.target);
+                      if (produzido !== undefined) onRegistrar?.(planoItem, { produzido });
+                    }}
+                    aria-label={`${t("preparo.produzido")}: ${linha.prato}`}
+                    style={quantidadeStyle}
+                  />
+                </td>
+                <td style={celulaNumStyle} onClick={pararClique}>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={registrado?.sobra ?? ""}
+                    disabled={!onRegistrar}
+                    onChange={(e) => {
+                      const sobra = lerQuantidade(e.target);
+                      if (sobra !== undefined) onRegistrar?.(planoItem, { sobra });
+                    }}
+                    aria-label={`${t("preparo.sobra")}: ${linha.prato}`}
+                    style={quantidadeStyle}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+          {virtual && janela.espacoDepois > 0 && (
+            <tr aria-hidden="true" style={{ height: janela.espacoDepois }} />
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ProductionTable;
@@ -0,0 +1,50 @@
+import React from "react";
+import { useI18n } from "../i18n/context";
+import { smallButtonStyle } from "./styles";
+
+interface ReadProgressProps {
+  nome: string;
+  linhas: number;
+  // 0 a 1
+  fracao: number;
+  onCancel: () => void;
+}
+
+// Andamento da leitura de um CSV em segundo plano
+const ReadProgress: React.FC<ReadProgressProps> = ({
+  nome,
+  linhas,
+  fracao,
+  onCancel,
+}) => {
+  const { t, numero } = useI18n();
+
+  return (
+    <div
+      role="status"
+      style={{
+        marginBottom: "1.5rem",
+        display: "flex",
+        flexWrap: "wrap",
+        gap: "0.5rem 1rem",
+        alignItems: "center",
+        fontSize: "0.85rem",
+      }}
+    >
+      <span>{t("leitura.lendo", { nome })}</span>
+      <progress
+        value={fracao}
+        max={1}
+        style={{ flex: "1 1 160px", accentColor: "var(--cor-primaria)" }}
+      />
+      <span style={{ color: "var(--cor-texto-suave)", fontVariantNumeric: "tabular-nums" }}>
+        {numero(fracao * 100)}% · {t("leitura.linhas", { n: numero(linhas) })}
+      </span>
+      <button type="button" onClick={onCancel} style={smallButtonStyle}>
+        {t("leitura.cancelar")}
+      </button>
+    </div>
+  );
+};
+
+export default ReadProgress;
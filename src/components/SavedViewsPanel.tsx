@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import type { DatasetMeta } from "../data/datasetStore";
+import type { VisaoSalva } from "../data/viewState";
+import { useI18n } from "../i18n/context";
+import {
+  buttonStyle,
+  inputStyle,
+  panelStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+interface SavedViewsPanelProps {
+  visoes: VisaoSalva[];
+  datasets: DatasetMeta[];
+  onSalvar: (nome: string) => void;
+  onAbrir: (visao: VisaoSalva) => void;
+  onExcluir: (id: string) => void;
+}
+
+const SavedViewsPanel: React.FC<SavedViewsPanelProps> = ({
+  visoes,
+  datasets,
+  onSalvar,
+  onAbrir,
+  onExcluir,
+}) => {
+  const { t, numero, rotuloDia } = useI18n();
+  const [nome, setNome] = useState("");
+  const [copiado, setCopiado] = useState(false);
+
+  const salvar = () => {
+    if (!nome.trim()) return;
+    onSalvar(nome.trim());
+    setNome("");
+  };
+
+  // A URL já acompanha o estado da tela; basta copiá-la
+  const copiarLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopiado(true);
+      setTimeout(() => setCopiado(false), 2000);
+    } catch (error) {
+      console.error("Erro ao copiar link:", error);
+      prompt(t("visoes.copieLink"), window.location.href);
+    }
+  };
+
+  const nomeDataset = (id: string | null) =>
+    datasets.find((d) => d.id === id)?.nome ?? t("visoes.arquivoAusente");
+
+  return (
+    <details style={panelStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("visoes.titulo", { n: numero(visoes.length) })}
+      </summary>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.75rem 0" }}>
+        {t("visoes.descricao")}
+      </p>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.75rem",
+          alignItems: "center",
+          marginBottom: "0.75rem",
+        }}
+      >
+        <button type="button" onClick={copiarLink} style={buttonStyle}>
+          {copiado ? t("visoes.copiado") : t("visoes.copiar")}
+        </button>
+        <input
+          value={nome}
+          placeholder={t("visoes.nomeExemplo")}
+          onChange={(e) => setNome(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && salvar()}
+          style={inputStyle}
+        />
+        <button
+          type="button"
+          onClick={salvar}
+          disabled={!nome.trim()}
+          style={{ ...buttonStyle, opacity: nome.trim() ? 1 : 0.5 }}
+        >
+          {t("visoes.salvar")}
+        </button>
+      </div>
+      {visoes.length > 0 && (
+        <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>{t("visoes.visao")}</th>
+              <th style={thStyle}>{t("visoes.arquivo")}</th>
+              <th style={thStyle}>{t("visoes.dia")}</th>
+              <th style={thStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {visoes.map((v) => (
+              <tr key={v.id}>
+                <td style={tdStyle}>{v.nome}</td>
+                <td style={tdStyle}>{nomeDataset(v.estado.dataset)}</td>
+                <td style={tdStyle}>{v.estado.dia ? rotuloDia(v.estado.dia) : "—"}</td>
+                <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                  <button
+                    type="button"
+                    onClick={() => onAbrir(v)}
+                    style={smallButtonStyle}
+                  >
+                    {t("visoes.abrir")}
+                  </button>{" "}
+                  <button
+                    type="button"
+                    onClick={() => onExcluir(v.id)}
+                    style={{
+                      ...smallButtonStyle,
+                      borderColor: "var(--cor-erro-borda)",
+                    }}
+                  >
+                    {t("visoes.excluir")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+};
+
+export default SavedViewsPanel;
@@ -0,0 +1,428 @@
+import React, { useState } from "react";
+import {
+  novoCenario,
+  type AjusteCenario,
+  type Cenario,
+  type TipoAjuste,
+} from "../data/scenarios";
+import { useI18n } from "../i18n/context";
+import {
+  buttonStyle,
+  inputStyle,
+  panelStyle,
+  selectStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+interface ScenarioEditorProps {
+  cenarios: Cenario[];
+  ativoId: string | null;
+  // Pratos e dias da previsão original, usados nas listas de escolha
+  pratos: string[];
+  dias: string[];
+  onSelect: (id: string | null) => void;
+  onChange: (cenarios: Cenario[]) => void;
+}
+
+const TODOS = "";
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: 4,
+};
+
+const formStyle: React.CSSProperties = {
+  display: "flex",
+  flexWrap: "wrap",
+  gap: "0.75rem",
+  alignItems: "flex-end",
+  margin: "0.5rem 0 0.75rem",
+};
+
+const lerNumero = (valor: string) => Number(valor.replace(",", "."));
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({
+  cenarios,
+  ativoId,
+  pratos,
+  dias,
+  onSelect,
+  onChange,
+}) => {
+  const { t, numero, rotuloDia } = useI18n();
+  const [ajustePrato, setAjustePrato] = useState(TODOS);
+  const [ajusteDia, setAjusteDia] = useState(TODOS);
+  const [ajusteTipo, setAjusteTipo] = useState<TipoAjuste>("percentual");
+  const [ajusteValor, setAjusteValor] = useState("");
+  const [pratoRemover, setPratoRemover] = useState("");
+  const [novoPrato, setNovoPrato] = useState("");
+  const [novoDia, setNovoDia] = useState("");
+  const [novoQtd, setNovoQtd] = useState("");
+
+  const ativo = cenarios.find((c) => c.id === ativoId) ?? null;
+
+  const formatarAjuste = ({ tipo, valor }: AjusteCenario) => {
+    const sinal = valor > 0 ? "+" : "";
+    const texto = `${sinal}${numero(valor, 2, 0)}`;
+    return tipo === "percentual"
+      ? `${texto}%`
+      : t("cenario.ajustePorcoes", { valor: texto });
+  };
+
+  const atualizar = (parcial: Partial<Cenario>) =>
+    onChange(cenarios.map((c) => (c.id === ativoId ? { ...c, ...parcial } : c)));
+
+  const criar = () => {
+    const cenario = novoCenario(t("cenario.nomePadrao", { n: cenarios.length + 1 }));
+    onChange([...cenarios, cenario]);
+    onSelect(cenario.id);
+  };
+
+  const excluir = () => {
+    if (!ativo || !confirm(t("cenario.confirmarExcluir", { nome: ativo.nome }))) return;
+    onSelect(null);
+    onChange(cenarios.filter((c) => c.id !== ativo.id));
+  };
+
+  const valorAjuste = lerNumero(ajusteValor);
+  const podeAjustar = ajusteValor.trim() !== "" && Number.isFinite(valorAjuste);
+
+  const adicionarAjuste = () => {
+    if (!ativo || !podeAjustar) return;
+    atualizar({
+      ajustes: [
+        ...ativo.ajustes,
+        {
+          id: crypto.randomUUID(),
+          prato: ajustePrato || null,
+          dia: ajusteDia || null,
+          tipo: ajusteTipo,
+          valor: valorAjuste,
+        },
+      ],
+    });
+    setAjusteValor("");
+  };
+
+  const diaNovo = novoDia || dias[0] || "";
+  const qtdNova = lerNumero(novoQtd);
+  const podeAdicionar =
+    novoPrato.trim() !== "" && diaNovo !== "" && Number.isFinite(qtdNova) && qtdNova >= 0;
+
+  const adicionarPrato = () => {
+    if (!ativo || !podeAdicionar) return;
+    const prato = novoPrato.trim();
+    atualizar({
+      adicionados: ativo.adicionados
+        .filter((a) => !(a.prato === prato && a.dia === diaNovo))
+        .concat({ prato, dia: diaNovo, qtd: qtdNova }),
+    });
+    setNovoPrato("");
+    setNovoQtd("");
+  };
+
+  const pratosRemoviveis = pratos.filter((p) => !ativo?.removidos.includes(p));
+
+  return (
+    <details open={ativo !== null} style={panelStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 500 }}>
+        {t("cenario.titulo")}
+        {ativo && (
+          <span style={{ color: "var(--cor-alerta)", fontWeight: 400, marginLeft: 8 }}>
+            {t("cenario.ativo", { nome: ativo.nome })}
+          </span>
+        )}
+      </summary>
+      <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.75rem 0" }}>
+        {t("cenario.descricao")}
+      </p>
+
+      <div style={{ ...formStyle, marginTop: 0 }}>
+        <label style={labelStyle}>
+          <span style={{ fontWeight: 500 }}>{t("cenario.mostrar")}</span>
+          <select
+            value={ativoId ?? ""}
+            onChange={(e) => onSelect(e.target.value || null)}
+            style={selectStyle}
+          >
+            <option value="">{t("cenario.previsaoOriginal")}</option>
+            {cenarios.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.nome}
+              </option>
+            ))}
+          </select>
+        </label>
+        {ativo && (
+          <label style={labelStyle}>
+            <span style={{ fontWeight: 500 }}>{t("cenario.nome")}</span>
+            <input
+              value={ativo.nome}
+              onChange={(e) => atualizar({ nome: e.target.value })}
+              style={inputStyle}
+            />
+          </label>
+        )}
+        <button type="button" onClick={criar} style={buttonStyle}>
+          {t("cenario.criar")}
+        </button>
+        {ativo && (
+          <button
+            type="button"
+            onClick={excluir}
+            style={{ ...buttonStyle, borderColor: "var(--cor-erro-borda)" }}
+          >
+            {t("cenario.excluir")}
+          </button>
+        )}
+      </div>
+
+      {ativo && (
+        <>
+          <h3 style={{ fontSize: "1rem", margin: "1rem 0 0" }}>{t("cenario.ajustes")}</h3>
+          <div style={formStyle}>
+            <label style={labelStyle}>
+              <span>{t("cenario.prato")}</span>
+              <select
+                value={ajustePrato}
+                onChange={(e) => setAjustePrato(e.target.value)}
+                style={selectStyle}
+              >
+                <option value={TODOS}>{t("cenario.todosPratos")}</option>
+                {pratos.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              <span>{t("cenario.dia")}</span>
+              <select
+                value={ajusteDia}
+                onChange={(e) => setAjusteDia(e.target.value)}
+                style={selectStyle}
+              >
+                <option value={TODOS}>{t("cenario.todosDias")}</option>
+                {dias.map((d) => (
+                  <option key={d} value={d}>
+                    {rotuloDia(d)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              <span>{t("cenario.tipo")}</span>
+              <select
+                value={ajusteTipo}
+                onChange={(e) => setAjusteTipo(e.target.value as TipoAjuste)}
+                style={selectStyle}
+              >
+                <option value="percentual">{t("cenario.tipo.percentual")}</option>
+                <option value="absoluto">{t("cenario.tipo.absoluto")}</option>
+              </select>
+            </label>
+            <label style={labelStyle}>
+              <span>{t("cenario.valor")}</span>
+              <input
+                value={ajusteValor}
+                inputMode="decimal"
+                placeholder={ajusteTipo === "percentual" ? "-20" : "5"}
+                onChange={(e) => setAjusteValor(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && adicionarAjuste()}
+                style={{ ...inputStyle, width: "5rem", textAlign: "right" }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={adicionarAjuste}
+              disabled={!podeAjustar}
+              style={{ ...buttonStyle, opacity: podeAjustar ? 1 : 0.5 }}
+            >
+              {t("cenario.adicionarAjuste")}
+            </button>
+          </div>
+          {ativo.ajustes.length > 0 && (
+            <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>{t("cenario.prato")}</th>
+                  <th style={thStyle}>{t("cenario.dia")}</th>
+                  <th style={{ ...thStyle, textAlign: "right" }}>{t("cenario.ajuste")}</th>
+                  <th style={thStyle} />
+                </tr>
+              </thead>
+              <tbody>
+                {ativo.ajustes.map((a) => (
+                  <tr key={a.id}>
+                    <td style={tdStyle}>{a.prato ?? t("cenario.todos")}</td>
+                    <td style={tdStyle}>{a.dia ? rotuloDia(a.dia) : t("cenario.todos")}</td>
+                    <td style={{ ...tdStyle, textAlign: "right" }}>
+                      {formatarAjuste(a)}
+                    </td>
+                    <td style={tdStyle}>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          atualizar({
+                            ajustes: ativo.ajustes.filter((o) => o.id !== a.id),
+                          })
+                        }
+                        style={smallButtonStyle}
+                      >
+                        {t("cenario.remover")}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <h3 style={{ fontSize: "1rem", margin: "1rem 0 0" }}>
+            {t("cenario.removidos")}
+          </h3>
+          <div style={formStyle}>
+            <select
+              value={pratoRemover}
+              onChange={(e) => setPratoRemover(e.target.value)}
+              style={selectStyle}
+            >
+              <option value="">{t("cenario.escolhaPrato")}</option>
+              {pratosRemoviveis.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => {
+                atualizar({ removidos: [...ativo.removidos, pratoRemover] });
+                setPratoRemover("");
+              }}
+              disabled={!pratoRemover}
+              style={{ ...buttonStyle, opacity: pratoRemover ? 1 : 0.5 }}
+            >
+              {t("cenario.retirar")}
+            </button>
+          </div>
+          {ativo.removidos.length > 0 && (
+            <ul style={{ fontSize: "0.85rem", margin: 0, paddingLeft: "1.2rem" }}>
+              {ativo.removidos.map((p) => (
+                <li key={p} style={{ marginBottom: 4 }}>
+                  {p}{" "}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      atualizar({
+                        removidos: ativo.removidos.filter((o) => o !== p),
+                      })
+                    }
+                    style={smallButtonStyle}
+                  >
+                    {t("cenario.restaurar")}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h3 style={{ fontSize: "1rem", margin: "1rem 0 0" }}>
+            {t("cenario.adicionados")}
+          </h3>
+          <div style={formStyle}>
+            <label style={labelStyle}>
+              <span>{t("cenario.prato")}</span>
+              <input
+                value={novoPrato}
+                list="cenario-pratos"
+                placeholder={t("cenario.pratoExemplo")}
+                onChange={(e) => setNovoPrato(e.target.value)}
+                style={inputStyle}
+              />
+              <datalist id="cenario-pratos">
+                {pratos.map((p) => (
+                  <option key={p} value={p} />
+                ))}
+              </datalist>
+            </label>
+            <label style={labelStyle}>
+              <span>{t("cenario.dia")}</span>
+              <select
+                value={diaNovo}
+                onChange={(e) => setNovoDia(e.target.value)}
+                style={selectStyle}
+              >
+                {dias.map((d) => (
+                  <option key={d} value={d}>
+                    {rotuloDia(d)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              <span>{t("cenario.porcoes")}</span>
+              <input
+                value={novoQtd}
+                inputMode="decimal"
+                onChange={(e) => setNovoQtd(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && adicionarPrato()}
+                style={{ ...inputStyle, width: "5rem", textAlign: "right" }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={adicionarPrato}
+              disabled={!podeAdicionar}
+              style={{ ...buttonStyle, opacity: podeAdicionar ? 1 : 0.5 }}
+            >
+              {t("cenario.adicionarPrato")}
+            </button>
+          </div>
+          {ativo.adicionados.length > 0 && (
+            <table style={{ borderCollapse: "collapse", fontSize: "0.85rem" }}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>{t("cenario.prato")}</th>
+                  <th style={thStyle}>{t("cenario.dia")}</th>
+                  <th style={{ ...thStyle, textAlign: "right" }}>{t("cenario.porcoes")}</th>
+                  <th style={thStyle} />
+                </tr>
+              </thead>
+              <tbody>
+                {ativo.adicionados.map((a) => (
+                  <tr key={`${a.prato}|${a.dia}`}>
+                    <td style={tdStyle}>{a.prato}</td>
+                    <td style={tdStyle}>{rotuloDia(a.dia)}</td>
+                    <td style={{ ...tdStyle, textAlign: "right" }}>
+                      {numero(a.qtd, 2, 0)}
+                    </td>
+                    <td style={tdStyle}>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          atualizar({
+                            adicionados: ativo.adicionados.filter((o) => o !== a),
+                          })
+                        }
+                        style={smallButtonStyle}
+                      >
+                        {t("cenario.remover")}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </details>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from "react";
+import { chaveDia } from "../data/calendar";
+import { planejarItem, type PlanSettings } from "../data/productionPlan";
+import {
+  explodirIngredientes,
+  formatarQuantidade,
+  type RecipeRow,
+} from "../data/recipes";
+import type { Row } from "../data/schema";
+import type { ImportIssue } from "../data/validation";
+import { useI18n } from "../i18n/context";
+import {
+  buttonStyle,
+  inputStyle,
+  panelStyle,
+  selectStyle,
+  tdStyle,
+  thStyle,
+} from "./styles";
+
+type Escopo = "dia" | "semana";
+type BaseQuantidade = "previsao" | "producao";
+
+interface ShoppingListViewProps {
+  rows: Row[];
+  selectedDia: string;
+  receitas: RecipeRow[];
+  errosReceitas: ImportIssue[];
+  planSettings: PlanSettings;
+  onRecipeFile: (file: File) => void;
+  onClearRecipes: () => void;
+}
+
+const numStyle: React.CSSProperties = {
+  ...tdStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+  whiteSpace: "nowrap",
+};
+
+const ShoppingListView: React.FC<ShoppingListViewProps> = ({
+  rows,
+  selectedDia,
+  receitas,
+  errosReceitas,
+  planSettings,
+  onRecipeFile,
+  onClearRecipes,
+}) => {
+  const { t, numero, rotuloDia, locale, motivo } = useI18n();
+  const [escopo, setEscopo] = useState<Escopo>("dia");
+  const [base, setBase] = useState<BaseQuantidade>("previsao");
+
+  const lista = useMemo(() => {
+    const rowsEscopo =
+      escopo === "dia" ? rows.filter((r) => chaveDia(r) === selectedDia) : rows;
+    return explodirIngredientes(
+      rowsEscopo,
+      receitas,
+      base === "producao"
+        ? (row) => planejarItem(row, planSettings).produzir
+        : undefined
+    );
+  }, [rows, selectedDia, receitas, escopo, base, planSettings]);
+
+  const totalPratosComReceita = new Set(receitas.map((r) => r.prato)).size;
+
+  return (
+    <>
+      <div style={panelStyle}>
+        <label
+          htmlFor="recipeUpload"
+          style={{ display: "block", marginBottom: "0.5rem" }}
+        >
+          <span style={{ fontWeight: 500 }}>{t("compras.arquivo")}</span>{" "}
+          <span style={{ color: "var(--cor-texto-suave)", fontSize: "0.9rem" }}>
+            {t("compras.colunas")}
+          </span>
+        </label>
+        <input
+          id="recipeUpload"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onRecipeFile(file);
+          }}
+          style={{ ...inputStyle, display: "block", width: "98%" }}
+        />
+        <p style={{ color: "var(--cor-texto-suave)", fontSize: "0.85rem", margin: "0.5rem 0 0" }}>
+          {receitas.length > 0
+            ? t("compras.resumo", {
+                ingredientes: numero(receitas.length),
+                pratos: numero(totalPratosComReceita),
+              })
+            : t("compras.vazio")}
+          {receitas.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                if (confirm(t("compras.confirmarLimpar"))) onClearRecipes();
+              }}
+              style={{
+                ...buttonStyle,
+                marginLeft: "0.75rem",
+                padding: "0.2rem 0.7rem",
+                fontSize: "0.8rem",
+              }}
+            >
+              {t("compras.limpar")}
+            </button>
+          )}
+        </p>
+        {errosReceitas.length > 0 && (
+          <details style={{ marginTop: "0.5rem" }}>
+            <summary style={{ cursor: "pointer", color: "var(--cor-erro-suave)" }}>
+              {t("compras.erros", { n: numero(errosReceitas.length) })}
+            </summary>
+            <ul style={{ fontSize: "0.85rem", color: "var(--cor-erro-suave)" }}>
+              {errosReceitas.map((issue, index) => (
+                <li key={index}>
+                  {issue.linha !== null
+                    ? t("importacao.linhaN", { n: issue.linha })
+                    : t("importacao.cabecalho")}{" "}
+                  (
+                  <code>{issue.coluna}</code>): {motivo(issue)}
+                  {issue.valor && `: "${issue.valor}"`}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+
+      <div
+        style={{
+          marginBottom: "1.5rem",
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "1rem",
+          alignItems: "center",
+        }}
+      >
+        <span style={{ fontWeight: 500 }}>{t("compras.periodo")}</span>
+        <select
+          value={escopo}
+          onChange={(e) => setEscopo(e.target.value as Escopo)}
+          style={selectStyle}
+        >
+          <option value="dia">
+            {t("compras.diaSelecionado", { dia: rotuloDia(selectedDia) })}
+          </option>
+          <option value="semana">{t("compras.semanaInteira")}</option>
+        </select>
+        <span style={{ fontWeight: 500 }}>{t("compras.base")}</span>
+        <select
+          value={base}
+          onChange={(e) => setBase(e.target.value as BaseQuantidade)}
+          style={selectStyle}
+        >
+          <option value="previsao">{t("compras.basePrevisao")}</option>
+          <option value="producao">{t("catalogo.baseProducao")}</option>
+        </select>
+      </div>
+
+      <section>
+        <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+          {escopo === "dia"
+            ? t("compras.tituloDia", { dia: rotuloDia(selectedDia) })
+            : t("compras.tituloSemana")}
+        </h2>
+
+        {lista.pratosSemReceita.length > 0 && receitas.length > 0 && (
+          <p style={{ color: "var(--cor-alerta-suave)", fontSize: "0.85rem", marginBottom: "0.75rem" }}>
+            {t("compras.semReceita", { pratos: lista.pratosSemReceita.join(", ") })}
+          </p>
+        )}
+
+        {lista.itens.length === 0 ? (
+          <p style={{ color: "var(--cor-texto-suave)" }}>
+            {t("compras.semItens")}
+          </p>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontSize: "0.9rem",
+              }}
+            >
+              <thead>
+                <tr>
+                  <th style={thStyle}>{t("compras.ingrediente")}</th>
+                  {escopo === "semana" &&
+                    lista.dias.map((dia) => (
+                      <th key={dia} style={{ ...thStyle, textAlign: "right" }}>
+                        {rotuloDia(dia)}
+                      </th>
+                    ))}
+                  <th style={{ ...thStyle, textAlign: "right" }}>{t("compras.total")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lista.itens.map((item) => (
+                  <tr key={`${item.ingrediente}|${item.unidade}`}>
+                    <td style={tdStyle}>{item.ingrediente}</td>
+                    {escopo === "semana" &&
+                      lista.dias.map((dia) => (
+                        <td key={dia} style={{ ...numStyle, color: "var(--cor-texto-suave)" }}>
+                          {item.porDia[dia]
+                            ? formatarQuantidade(item.porDia[dia], item.unidade, locale)
+                            : "—"}
+                        </td>
+                      ))}
+                    <td style={{ ...numStyle, fontWeight: 600 }}>
+                      {formatarQuantidade(item.total, item.unidade, locale)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+};
+
+export default ShoppingListView;
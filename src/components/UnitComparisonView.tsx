@@ -0,0 +1,261 @@
+import React, { useMemo, useRef } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import type { PlanSettings } from "../data/productionPlan";
+import type { Row } from "../data/schema";
+import { compararUnidades, type ComparacaoUnidade } from "../data/units";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import AccessibleChart from "./AccessibleChart";
+import ChartExportButtons from "./ChartExportButtons";
+import {
+  chartHeaderStyle,
+  numCellStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+  tooltipStyle,
+} from "./styles";
+
+interface UnitComparisonViewProps {
+  // Linhas de todas as unidades, cada uma com feriados e níveis próprios
+  rows: Row[];
+  unidades: string[];
+  selectedDia: string;
+  settings: PlanSettings;
+  // Nome base para os arquivos de imagem exportados
+  exportName: string;
+  onExportCsv: (comparacao: ComparacaoUnidade[]) => void;
+  destaque: string | null;
+  onDestacar: (prato: string | null) => void;
+}
+
+// Pratos no gráfico; a tabela mostra todos
+const PRATOS_NO_GRAFICO = 12;
+
+// Mesmo prato e dia em cada unidade, lado a lado, no gráfico e no preparo
+const UnitComparisonView: React.FC<UnitComparisonViewProps> = ({
+  rows,
+  unidades,
+  selectedDia,
+  settings,
+  exportName,
+  onExportCsv,
+  destaque,
+  onDestacar,
+}) => {
+  const { t, numero, rotuloDia } = useI18n();
+  const { grafico } = useTema();
+  const graficoRef = useRef<HTMLDivElement>(null);
+
+  const comparacao = useMemo(
+    () => compararUnidades(rows, selectedDia, settings),
+    [rows, selectedDia, settings]
+  );
+  const noGrafico = comparacao.slice(0, PRATOS_NO_GRAFICO);
+  const formatar = (valor: number) => numero(valor, 1, 0);
+
+  const totalUnidade = (unidade: string, campo: "previsto" | "produzir") =>
+    comparacao.reduce((soma, c) => {
+      const celula = c.porUnidade[unidade];
+      if (!celula) return soma;
+      return (
+        soma +
+        (campo === "previsto" ? celula.row.qtd_prevista_media : celula.item.produzir)
+      );
+    }, 0);
+
+  if (comparacao.length === 0) {
+    return (
+      <p style={{ color: "var(--cor-texto-suave)" }}>
+        {t("unidades.semDados", { dia: rotuloDia(selectedDia) })}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <section style={{ marginBottom: "2rem" }}>
+        <div style={chartHeaderStyle}>
+          <h2 style={{ fontSize: "1.2rem", margin: 0 }}>
+            {t("unidades.titulo", { dia: rotuloDia(selectedDia) })}
+          </h2>
+          <ChartExportButtons
+            targetRef={graficoRef}
+            fileName={`${exportName}-unidades-${selectedDia}`}
+          />
+        </div>
+        <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+          {t("unidades.descricao")}
+          {comparacao.length > PRATOS_NO_GRAFICO &&
+            ` ${t("unidades.descricaoTop", { n: PRATOS_NO_GRAFICO })}`}
+          . {t("unidades.dica")}
+        </p>
+        {/* A tabela de preparo abaixo traz a previsão de cada unidade */}
+        <AccessibleChart
+          ref={graficoRef}
+          titulo={t("unidades.titulo", { dia: rotuloDia(selectedDia) })}
+          altura={360}
+          itens={noGrafico.map(
+            (c) =>
+              `${c.prato}: ${unidades
+                .map(
+                  (unidade) =>
+                    `${unidade} ${formatar(c.porUnidade[unidade]?.row.qtd_prevista_media ?? 0)}`
+                )
+                .join(", ")}`
+          )}
+          onAtivar={(index) => {
+            const prato = noGrafico[index].prato;
+            onDestacar(prato === destaque ? null : prato);
+          }}
+        >
+          {(foco) => (
+            <ResponsiveContainer>
+              <BarChart
+                data={noGrafico}
+                accessibilityLayer={false}
+                onClick={(estado) => {
+                  const prato = noGrafico[Number(estado?.activeTooltipIndex)]?.prato;
+                  if (prato) onDestacar(prato === destaque ? null : prato);
+                }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                <XAxis dataKey="prato" stroke={grafico.eixo} tick={{ fontSize: 10 }} />
+                <YAxis stroke={grafico.eixo} />
+                <Tooltip defaultIndex={foco ?? undefined} contentStyle={tooltipStyle} />
+                <Legend wrapperStyle={{ fontSize: "0.75rem" }} />
+                {unidades.map((unidade, index) => (
+                  <Bar
+                    key={unidade}
+                    name={unidade}
+                    dataKey={(c: ComparacaoUnidade) =>
+                      c.porUnidade[unidade]?.row.qtd_prevista_media ?? 0
+                    }
+                    fill={grafico.series[index % grafico.series.length]}
+                    cursor="pointer"
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </AccessibleChart>
+      </section>
+
+      <section>
+        <div style={chartHeaderStyle}>
+          <h2 style={{ fontSize: "1.2rem", margin: 0 }}>
+            {t("unidades.preparoTitulo")}
+          </h2>
+          <button
+            type="button"
+            onClick={() => onExportCsv(comparacao)}
+            style={smallButtonStyle}
+          >
+            {t("unidades.exportarCsv")}
+          </button>
+        </div>
+        <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+          {t("unidades.preparoDescricao")}
+        </p>
+        <div style={{ overflowX: "auto" }}>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "0.85rem",
+            }}
+          >
+            <thead>
+              <tr>
+                <th style={thStyle}>{t("unidades.prato")}</th>
+                {unidades.map((unidade) => (
+                  <th
+                    key={unidade}
+                    style={{ ...thStyle, textAlign: "right", whiteSpace: "nowrap" }}
+                  >
+                    {unidade}
+                  </th>
+                ))}
+                <th style={{ ...thStyle, textAlign: "right" }}>{t("unidades.total")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparacao.map((c) => (
+                <tr
+                  key={c.prato}
+                  onClick={() => onDestacar(destaque === c.prato ? null : c.prato)}
+                  style={{
+                    cursor: "pointer",
+                    background:
+                      destaque === c.prato ? "var(--cor-selecao)" : undefined,
+                  }}
+                >
+                  <td style={tdStyle}>{c.prato}</td>
+                  {unidades.map((unidade) => {
+                    const celula = c.porUnidade[unidade];
+                    return (
+                      <td
+                        key={unidade}
+                        style={{ ...numCellStyle, whiteSpace: "nowrap" }}
+                      >
+                        {celula ? (
+                          <>
+                            <strong>{formatar(celula.item.produzir)}</strong>
+                            <span style={{ color: "var(--cor-texto-suave)", marginLeft: 6 }}>
+                              ({formatar(celula.row.qtd_prevista_media)})
+                            </span>
+                          </>
+                        ) : (
+                          <span style={{ color: "var(--cor-texto-apagado)" }}>—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td style={{ ...numCellStyle, fontWeight: 600, whiteSpace: "nowrap" }}>
+                    {formatar(c.totalProduzir)}
+                    <span style={{ color: "var(--cor-texto-suave)", fontWeight: 400, marginLeft: 6 }}>
+                      ({formatar(c.totalPrevisto)})
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>{t("unidades.totalUnidade")}</td>
+                {unidades.map((unidade) => (
+                  <td
+                    key={unidade}
+                    style={{ ...numCellStyle, fontWeight: 600, whiteSpace: "nowrap" }}
+                  >
+                    {formatar(totalUnidade(unidade, "produzir"))}
+                    <span style={{ color: "var(--cor-texto-suave)", fontWeight: 400, marginLeft: 6 }}>
+                      ({formatar(totalUnidade(unidade, "previsto"))})
+                    </span>
+                  </td>
+                ))}
+                <td style={{ ...numCellStyle, fontWeight: 700, whiteSpace: "nowrap" }}>
+                  {formatar(comparacao.reduce((s, c) => s + c.totalProduzir, 0))}
+                  <span style={{ color: "var(--cor-texto-suave)", fontWeight: 400, marginLeft: 6 }}>
+                    ({formatar(comparacao.reduce((s, c) => s + c.totalPrevisto, 0))})
+                  </span>
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default UnitComparisonView;
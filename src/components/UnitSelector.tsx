@@ -0,0 +1,46 @@
+import React from "react";
+import { TODAS_UNIDADES } from "../data/units";
+import { useI18n } from "../i18n/context";
+import { selectStyle } from "./styles";
+
+interface UnitSelectorProps {
+  unidades: string[];
+  // `TODAS_UNIDADES` = todas somadas
+  value: string;
+  onChange: (unidade: string) => void;
+}
+
+const UnitSelector: React.FC<UnitSelectorProps> = ({
+  unidades,
+  value,
+  onChange,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      style={{
+        marginBottom: "1rem",
+        display: "flex",
+        gap: "1rem",
+        alignItems: "center",
+      }}
+    >
+      <span style={{ fontWeight: 500 }}>{t("filtro.unidade")}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={selectStyle}
+      >
+        <option value={TODAS_UNIDADES}>{t("filtro.todasUnidades")}</option>
+        {unidades.map((unidade) => (
+          <option key={unidade} value={unidade}>
+            {unidade}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default UnitSelector;
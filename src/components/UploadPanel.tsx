@@ -0,0 +1,55 @@
+import React from "react";
+import { useI18n } from "../i18n/context";
+
+interface UploadPanelProps {
+  onFile: (file: File) => void;
+}
+
+// Caixa de envio do CSV de previsões
+const UploadPanel: React.FC<UploadPanelProps> = ({ onFile }) => {
+  const { t } = useI18n();
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Permite reenviar o mesmo arquivo depois de corrigi-lo
+    event.target.value = "";
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: "1.5rem",
+        padding: "1rem",
+        borderRadius: "0.75rem",
+        border: "1px dashed var(--cor-borda-forte)",
+        background:
+          "linear-gradient(135deg, var(--cor-painel), var(--cor-selecao))",
+      }}
+    >
+      <label htmlFor="csvUpload" style={{ display: "block", marginBottom: "0.5rem" }}>
+        <span style={{ fontWeight: 500 }}>{t("app.arquivoCsv")}</span>{" "}
+        <span style={{ color: "var(--cor-texto-suave)", fontSize: "0.9rem" }}>
+          {t("app.cliqueParaSelecionar")}
+        </span>
+      </label>
+      <input
+        id="csvUpload"
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleChange}
+        style={{
+          display: "block",
+          width: "98%",
+          padding: "0.5rem",
+          borderRadius: "0.5rem",
+          border: "1px solid var(--cor-borda-forte)",
+          backgroundColor: "var(--cor-campo)",
+          color: "var(--cor-texto)",
+        }}
+      />
+    </div>
+  );
+};
+
+export default UploadPanel;
@@ -0,0 +1,299 @@
+import React, { useMemo, useRef } from "react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import {
+  resumirDesperdicio,
+  type LinhaDesperdicio,
+  type RegistroDia,
+} from "../data/prepLog";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import AccessibleChart from "./AccessibleChart";
+import ChartExportButtons from "./ChartExportButtons";
+import MetricCard from "./MetricCard";
+import {
+  chartHeaderStyle,
+  numCellStyle,
+  smallButtonStyle,
+  tdStyle,
+  thStyle,
+  tooltipStyle,
+} from "./styles";
+
+interface WasteReportViewProps {
+  // Checklist de preparo de todos os arquivos, já filtrado pela unidade escolhida
+  dias: RegistroDia[];
+  // Nome base para os arquivos exportados
+  exportName: string;
+  onExportCsv: (porPrato: LinhaDesperdicio[]) => void;
+}
+
+// Semanas mostradas no gráfico de tendência (as mais recentes)
+const SEMANAS_NO_GRAFICO = 12;
+
+// Dia e mês da segunda-feira que abre a semana, no formato do idioma
+const rotuloSemana = (inicio: string, locale: string) =>
+  new Date(`${inicio}T00:00:00Z`).toLocaleDateString(locale, {
+    day: "2-digit",
+    month: "2-digit",
+    timeZone: "UTC",
+  });
+
+// Relatório do checklist de preparo: o que foi produzido contra a previsão
+// (`qtd_prevista_media`) e quanto sobrou, por prato, por dia da semana e
+// semana a semana
+const WasteReportView: React.FC<WasteReportViewProps> = ({
+  dias,
+  exportName,
+  onExportCsv,
+}) => {
+  const { t, numero, rotuloDia, locale } = useI18n();
+  const { grafico } = useTema();
+  const graficoRef = useRef<HTMLDivElement>(null);
+  const relatorio = useMemo(() => resumirDesperdicio(dias), [dias]);
+  const semanas = useMemo(
+    () =>
+      relatorio.porSemana.slice(-SEMANAS_NO_GRAFICO).map((l) => ({
+        ...l,
+        semana: rotuloSemana(l.chave, locale),
+      })),
+    [relatorio, locale]
+  );
+  const { total } = relatorio;
+
+  const formatar = (valor: number) => numero(valor, 1, 0);
+  const formatarDelta = (valor: number) => `${valor > 0 ? "+" : ""}${formatar(valor)}`;
+  const formatarPct = (valor: number | null) =>
+    valor === null ? "—" : `${formatar(valor)}%`;
+
+  const tabela = (
+    titulo: string,
+    rotuloChave: string,
+    linhas: LinhaDesperdicio[],
+    rotulo: (chave: string) => string = (chave) => chave,
+    acao?: React.ReactNode,
+    capitalizar = false
+  ) => (
+    <section style={{ marginBottom: "2rem" }}>
+      <div style={chartHeaderStyle}>
+        <h2 style={{ fontSize: "1.2rem", margin: 0 }}>{titulo}</h2>
+        {acao}
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.85rem" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>{rotuloChave}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("desperdicio.registros")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("desperdicio.previsto")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("desperdicio.produzido")}</th>
+              <th
+                style={{ ...thStyle, textAlign: "right" }}
+                title={t("desperdicio.deltaAjuda")}
+              >
+                {t("desperdicio.delta")}
+              </th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("desperdicio.sobra")}</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>{t("desperdicio.pctProduzido")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {linhas.map((l) => (
+              <tr key={l.chave}>
+                <td style={{ ...tdStyle, textTransform: capitalizar ? "capitalize" : undefined }}>
+                  {rotulo(l.chave)}
+                </td>
+                <td style={numCellStyle}>{numero(l.registros)}</td>
+                <td style={numCellStyle}>{formatar(l.previsto)}</td>
+                <td style={numCellStyle}>{formatar(l.produzido)}</td>
+                <td
+                  style={{
+                    ...numCellStyle,
+                    color:
+                      l.diferenca > 0
+                        ? "var(--cor-alerta)"
+                        : l.diferenca < 0
+                          ? "var(--cor-info)"
+                          : undefined,
+                  }}
+                >
+                  {l.diferenca === 0 ? "—" : formatarDelta(l.diferenca)}
+                </td>
+                <td style={numCellStyle}>{formatar(l.sobra)}</td>
+                <td style={{ ...numCellStyle, fontWeight: 600 }}>{formatarPct(l.sobraPct)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+
+  if (total.registros === 0) {
+    return (
+      <p style={{ color: "var(--cor-texto-suave)" }}>
+        {t("desperdicio.vazio", { visao: t("visao.previsao") })}
+        {relatorio.semFechamento > 0 &&
+          ` ${t("desperdicio.vazioSemFechamento", { n: relatorio.semFechamento })}`}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.75rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <MetricCard
+          label={t("desperdicio.produzidas")}
+          valor={formatar(total.produzido)}
+          ajuda={t("desperdicio.produzidasAjuda", { n: numero(total.registros) })}
+        />
+        <MetricCard
+          label={t("desperdicio.previsao")}
+          valor={formatar(total.previsto)}
+          ajuda={t("desperdicio.previsaoAjuda")}
+        />
+        <MetricCard
+          label={t("desperdicio.produzidoPrevisto")}
+          valor={formatarDelta(total.diferenca)}
+          ajuda={t("desperdicio.produzidoPrevistoAjuda")}
+        />
+        <MetricCard
+          label={t("desperdicio.sobra")}
+          valor={`${formatar(total.sobra)} (${formatarPct(total.sobraPct)})`}
+          ajuda={t("desperdicio.sobraAjuda")}
+        />
+      </div>
+      {relatorio.semFechamento > 0 && (
+        <p style={{ color: "var(--cor-alerta)", fontSize: "0.85rem", marginBottom: "1rem" }}>
+          {t("desperdicio.semFechamento", { n: relatorio.semFechamento })}
+        </p>
+      )}
+
+      <section style={{ marginBottom: "2rem" }}>
+        <div style={chartHeaderStyle}>
+          <h2 style={{ fontSize: "1.2rem", margin: 0 }}>{t("desperdicio.semanas")}</h2>
+          <ChartExportButtons
+            targetRef={graficoRef}
+            fileName={`${exportName}-desperdicio-semanas`}
+          />
+        </div>
+        <AccessibleChart
+          ref={graficoRef}
+          titulo={t("desperdicio.graficoTitulo")}
+          altura={280}
+          itens={semanas.map((l) =>
+            t("desperdicio.graficoItem", {
+              semana: l.semana,
+              produzido: formatar(l.produzido),
+              sobra: formatar(l.sobra),
+              pct: formatarPct(l.sobraPct),
+            })
+          )}
+          tabela={{
+            colunas: [
+              t("desperdicio.semana"),
+              t("desperdicio.previsto"),
+              t("desperdicio.produzido"),
+              t("desperdicio.sobra"),
+              t("desperdicio.pctSobra"),
+            ],
+            linhas: semanas.map((l) => [
+              l.semana,
+              l.previsto,
+              l.produzido,
+              l.sobra,
+              formatarPct(l.sobraPct),
+            ]),
+          }}
+        >
+          {(foco) => (
+            <ResponsiveContainer>
+              <ComposedChart data={semanas} accessibilityLayer={false}>
+                <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                <XAxis dataKey="semana" stroke={grafico.eixo} />
+                <YAxis yAxisId="porcoes" stroke={grafico.eixo} />
+                <YAxis
+                  yAxisId="pct"
+                  orientation="right"
+                  unit="%"
+                  stroke={grafico.eixo}
+                />
+                <Tooltip defaultIndex={foco ?? undefined} contentStyle={tooltipStyle} />
+                <Legend />
+                <Bar
+                  yAxisId="porcoes"
+                  dataKey="previsto"
+                  name={t("desperdicio.previsto")}
+                  fill={grafico.neutra}
+                />
+                <Bar
+                  yAxisId="porcoes"
+                  dataKey="produzido"
+                  name={t("desperdicio.produzido")}
+                  fill={grafico.primaria}
+                />
+                <Bar yAxisId="porcoes" dataKey="sobra" name={t("desperdicio.sobra")} fill={grafico.negativo} />
+                <Line
+                  yAxisId="pct"
+                  type="monotone"
+                  dataKey="sobraPct"
+                  name={t("desperdicio.pctSobra")}
+                  stroke={grafico.secundaria}
+                  strokeWidth={2}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </AccessibleChart>
+      </section>
+
+      {relatorio.porUnidade.length > 1 &&
+        tabela(
+          t("desperdicio.porUnidade"),
+          t("desperdicio.unidade"),
+          relatorio.porUnidade
+        )}
+
+      {tabela(
+        t("desperdicio.porDia"),
+        t("desperdicio.dia"),
+        relatorio.porDia,
+        rotuloDia,
+        undefined,
+        true
+      )}
+
+      {tabela(
+        t("desperdicio.porPrato"),
+        t("desperdicio.prato"),
+        relatorio.porPrato,
+        undefined,
+        <button
+          type="button"
+          onClick={() => onExportCsv(relatorio.porPrato)}
+          style={smallButtonStyle}
+        >
+          {t("desperdicio.exportarCsv")}
+        </button>
+      )}
+    </>
+  );
+};
+
+export default WasteReportView;
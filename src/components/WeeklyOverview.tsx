@@ -0,0 +1,265 @@
+import React, { useMemo, useRef } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import type { Row } from "../data/schema";
+import {
+  ORDEM_PRATO,
+  ORDEM_TOTAL,
+  dadosEmpilhados,
+  intensidade,
+  ordenarPivot,
+  pivotSemana,
+  type PivotOrdem,
+} from "../data/weeklyPivot";
+import { useI18n } from "../i18n/context";
+import { useTema } from "../theme/context";
+import { fundoMapaCalor } from "../theme/themes";
+import AccessibleChart from "./AccessibleChart";
+import ChartExportButtons from "./ChartExportButtons";
+import { chartHeaderStyle, tdStyle, thStyle, tooltipStyle } from "./styles";
+
+interface WeeklyOverviewProps {
+  rows: Row[];
+  selectedDia: string;
+  // Nome base para os arquivos de imagem exportados
+  exportName: string;
+  // Abre o dia na visão de previsão
+  onSelectDia: (dia: string) => void;
+  // Ordenação da tabela, guardada na URL pelo App
+  ordem: PivotOrdem;
+  onChangeOrdem: (ordem: PivotOrdem) => void;
+  // Prato destacado no gráfico de pratos do dia (compartilhado com o App)
+  destaque: string | null;
+  onDestacar: (prato: string | null) => void;
+}
+
+const numStyle: React.CSSProperties = {
+  ...tdStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+  whiteSpace: "nowrap",
+};
+
+const WeeklyOverview: React.FC<WeeklyOverviewProps> = ({
+  rows,
+  selectedDia,
+  exportName,
+  onSelectDia,
+  ordem,
+  onChangeOrdem,
+  destaque,
+  onDestacar,
+}) => {
+  const { t, numero, rotuloDia } = useI18n();
+  const { grafico } = useTema();
+  const graficoRef = useRef<HTMLDivElement>(null);
+
+  const pivot = useMemo(() => pivotSemana(rows), [rows]);
+  const pratos = useMemo(
+    () => ordenarPivot(pivot.pratos, ordem),
+    [pivot, ordem]
+  );
+  const empilhado = useMemo(
+    () => dadosEmpilhados(pivot, undefined, rotuloDia, t("pratos.outros")),
+    [pivot, rotuloDia, t]
+  );
+  const formatar = (valor: number) => numero(valor, 1, 0);
+
+  // Prato fora dos maiores da semana cai em "Outros" e não apaga o gráfico
+  const destaqueNoGrafico = destaque !== null && empilhado.series.includes(destaque);
+
+  // Clicar de novo na mesma coluna inverte a direção
+  const ordenarPor = (coluna: string) =>
+    onChangeOrdem(
+      ordem.coluna === coluna
+        ? { coluna, desc: !ordem.desc }
+        : { coluna, desc: coluna !== ORDEM_PRATO }
+    );
+
+  const cabecalho = (coluna: string, rotulo: string) => (
+    <th
+      key={coluna}
+      onClick={() => ordenarPor(coluna)}
+      style={{
+        ...thStyle,
+        textAlign: coluna === ORDEM_PRATO ? "left" : "right",
+        cursor: "pointer",
+        whiteSpace: "nowrap",
+        color: coluna === selectedDia ? "var(--cor-info)" : undefined,
+      }}
+      title={t("semana.ordenar")}
+    >
+      {rotulo}
+      {ordem.coluna === coluna && (ordem.desc ? " ▼" : " ▲")}
+    </th>
+  );
+
+  return (
+    <>
+      <section style={{ marginBottom: "2rem" }}>
+        <h2 style={{ fontSize: "1.2rem", marginBottom: "0.5rem" }}>
+          {t("semana.mapa")}
+        </h2>
+        <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+          {t("semana.mapaAjuda")}
+        </p>
+        <div style={{ overflowX: "auto" }}>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "0.85rem",
+            }}
+          >
+            <thead>
+              <tr>
+                {cabecalho(ORDEM_PRATO, t("semana.prato"))}
+                {pivot.dias.map((dia) => cabecalho(dia, rotuloDia(dia)))}
+                {cabecalho(ORDEM_TOTAL, t("semana.total"))}
+              </tr>
+            </thead>
+            <tbody>
+              {pratos.map((p) => (
+                <tr
+                  key={p.prato}
+                  style={{
+                    outline:
+                      p.prato === destaque ? "2px solid var(--cor-info)" : undefined,
+                  }}
+                >
+                  <td
+                    onClick={() => onDestacar(p.prato === destaque ? null : p.prato)}
+                    title={t("semana.destacar")}
+                    style={{
+                      ...tdStyle,
+                      cursor: "pointer",
+                      fontWeight: p.prato === destaque ? 600 : undefined,
+                    }}
+                  >
+                    {p.prato}
+                  </td>
+                  {pivot.dias.map((dia) => {
+                    const valor = p.porDia[dia];
+                    const i = intensidade(valor, pivot.maximo);
+                    return (
+                      <td
+                        key={dia}
+                        onClick={() => onSelectDia(dia)}
+                        title={`${p.prato} — ${rotuloDia(dia)}`}
+                        style={{
+                          ...numStyle,
+                          cursor: "pointer",
+                          background:
+                            i > 0 ? fundoMapaCalor(grafico, i) : undefined,
+                          color:
+                            valor === null
+                              ? "var(--cor-texto-apagado)"
+                              : i > 0.6
+                                ? "#ffffff"
+                                : undefined,
+                        }}
+                      >
+                        {valor === null ? "—" : formatar(valor)}
+                      </td>
+                    );
+                  })}
+                  <td style={{ ...numStyle, fontWeight: 600 }}>
+                    {formatar(p.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>{t("semana.totalDia")}</td>
+                {pivot.dias.map((dia) => (
+                  <td
+                    key={dia}
+                    onClick={() => onSelectDia(dia)}
+                    style={{ ...numStyle, fontWeight: 600, cursor: "pointer" }}
+                  >
+                    {formatar(pivot.totaisPorDia[dia])}
+                  </td>
+                ))}
+                <td style={{ ...numStyle, fontWeight: 700 }}>
+                  {formatar(pivot.totalGeral)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </section>
+
+      <section>
+        <div style={chartHeaderStyle}>
+          <h2 style={{ fontSize: "1.2rem", margin: 0 }}>
+            {t("semana.grafico")}
+          </h2>
+          <ChartExportButtons
+            targetRef={graficoRef}
+            fileName={`${exportName}-semana`}
+          />
+        </div>
+        <p style={{ color: "var(--cor-texto-suave)", marginBottom: "0.75rem" }}>
+          {t("semana.graficoAjuda")}
+        </p>
+        {/* O mapa da semana acima já traz os mesmos dados em tabela */}
+        <AccessibleChart
+          ref={graficoRef}
+          titulo={t("semana.grafico")}
+          altura={360}
+          itens={pivot.dias.map((dia) =>
+            t("semana.graficoItem", {
+              dia: rotuloDia(dia),
+              valor: formatar(pivot.totaisPorDia[dia]),
+            })
+          )}
+          onAtivar={(index) => onSelectDia(pivot.dias[index])}
+        >
+          {(foco) => (
+            <ResponsiveContainer>
+              <BarChart
+                data={empilhado.dados}
+                accessibilityLayer={false}
+                onClick={(estado) => {
+                  const indice = Number(estado?.activeTooltipIndex);
+                  const dia = pivot.dias[indice];
+                  if (dia) onSelectDia(dia);
+                }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke={grafico.grade} />
+                <XAxis dataKey="dia_semana" stroke={grafico.eixo} />
+                <YAxis stroke={grafico.eixo} />
+                <Tooltip
+                  defaultIndex={foco ?? undefined}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend wrapperStyle={{ fontSize: "0.75rem" }} />
+                {empilhado.series.map((serie, index) => (
+                  <Bar
+                    key={serie}
+                    dataKey={serie}
+                    stackId="dia"
+                    fill={grafico.series[index % grafico.series.length]}
+                    fillOpacity={destaqueNoGrafico && serie !== destaque ? 0.35 : 1}
+                    cursor="pointer"
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </AccessibleChart>
+      </section>
+    </>
+  );
+};
+
+export default WeeklyOverview;
@@ -0,0 +1,79 @@
+import type React from "react";
+
+// Estilos inline compartilhados pelos painéis do dashboard. As cores são as
+// variáveis do tema ativo (ver `theme/themes.ts`).
+
+export const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  padding: "0.4rem 0.5rem",
+  borderBottom: "1px solid var(--cor-borda)",
+};
+
+export const tdStyle: React.CSSProperties = {
+  padding: "0.3rem 0.5rem",
+  borderBottom: "1px solid var(--cor-linha)",
+  verticalAlign: "top",
+};
+
+export const numCellStyle: React.CSSProperties = {
+  ...tdStyle,
+  textAlign: "right",
+  fontVariantNumeric: "tabular-nums",
+};
+
+export const buttonStyle: React.CSSProperties = {
+  padding: "0.45rem 1rem",
+  borderRadius: "999px",
+  border: "1px solid var(--cor-borda-forte)",
+  backgroundColor: "var(--cor-cartao)",
+  color: "var(--cor-texto)",
+  cursor: "pointer",
+};
+
+export const selectStyle: React.CSSProperties = {
+  padding: "0.4rem 0.75rem",
+  borderRadius: "999px",
+  border: "1px solid var(--cor-borda-forte)",
+  backgroundColor: "var(--cor-cartao)",
+  color: "var(--cor-texto)",
+};
+
+export const inputStyle: React.CSSProperties = {
+  padding: "0.4rem 0.6rem",
+  borderRadius: "0.5rem",
+  border: "1px solid var(--cor-borda-forte)",
+  backgroundColor: "var(--cor-campo)",
+  color: "var(--cor-texto)",
+};
+
+export const panelStyle: React.CSSProperties = {
+  marginBottom: "1.5rem",
+  padding: "1rem",
+  borderRadius: "0.75rem",
+  border: "1px solid var(--cor-borda)",
+  background: "var(--cor-painel)",
+};
+
+export const smallButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  padding: "0.25rem 0.7rem",
+  fontSize: "0.8rem",
+};
+
+// Título de gráfico com botões de exportação à direita
+export const chartHeaderStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  alignItems: "center",
+  gap: "0.75rem",
+  flexWrap: "wrap",
+  marginBottom: "0.5rem",
+};
+
+// Caixa do Tooltip dos gráficos (HTML, aceita as variáveis do tema)
+export const tooltipStyle: React.CSSProperties = {
+  backgroundColor: "var(--cor-cartao)",
+  border: "1px solid var(--cor-borda-forte)",
+  borderRadius: "0.5rem",
+  color: "var(--cor-texto)",
+};
@@ -0,0 +1,33 @@
+import type React from "react";
+import { useState } from "react";
+
+// Janela de linhas visíveis de uma tabela com rolagem própria. As linhas têm
+// altura fixa; as que ficam fora da janela viram espaço vazio antes e depois.
+export const useVirtualRows = (
+  total: number,
+  alturaLinha: number,
+  alturaVisivel: number,
+  // Linhas extras renderizadas acima e abaixo para a rolagem não piscar
+  folga = 10
+) => {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // Ao trocar para uma lista menor, a rolagem antiga pode passar do fim
+  const inicio = Math.min(
+    total,
+    Math.max(0, Math.floor(scrollTop / alturaLinha) - folga)
+  );
+  const fim = Math.min(
+    total,
+    Math.ceil((scrollTop + alturaVisivel) / alturaLinha) + folga
+  );
+
+  return {
+    inicio,
+    fim: Math.max(inicio, fim),
+    espacoAntes: inicio * alturaLinha,
+    espacoDepois: (total - Math.max(inicio, fim)) * alturaLinha,
+    onScroll: (event: React.UIEvent<HTMLElement>) =>
+      setScrollTop(event.currentTarget.scrollTop),
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  aplicarFeriados,
+  compararDias,
+  diaDaSemanaDe,
+  diaDeHoje,
+  parseData,
+  rowsDaSemana,
+} from "./calendar";
+import type { Row } from "./schema";
+
+const linha = (prato: string, data: string, qtd_prevista_media = 10): Row => ({
+  prato,
+  dia_semana: diaDaSemanaDe(data),
+  qtd_prevista_media,
+  nivel_movimento_prato: "",
+  data,
+  unidade: "",
+});
+
+describe("parseData", () => {
+  it("aceita ISO e o formato brasileiro", () => {
+    expect(parseData("2025-03-04")).toBe("2025-03-04");
+    expect(parseData("4/3/2025")).toBe("2025-03-04");
+  });
+
+  it("recusa datas que não existem", () => {
+    expect(parseData("31/02/2025")).toBeNull();
+    expect(parseData("amanhã")).toBeNull();
+  });
+});
+
+describe("compararDias", () => {
+  it("ordena dias da semana antes das datas", () => {
+    expect(
+      ["2025-03-04", "domingo", "2025-03-03", "segunda"].sort(compararDias)
+    ).toEqual(["segunda", "domingo", "2025-03-03", "2025-03-04"]);
+  });
+});
+
+describe("rowsDaSemana", () => {
+  it("pega de segunda a domingo da data escolhida", () => {
+    const rows = [
+      linha("Salada", "2025-03-02"),
+      linha("Salada", "2025-03-03"),
+      linha("Salada", "2025-03-09"),
+      linha("Salada", "2025-03-10"),
+    ];
+    expect(rowsDaSemana(rows, "2025-03-05").map((r) => r.data)).toEqual([
+      "2025-03-03",
+      "2025-03-09",
+    ]);
+    expect(rowsDaSemana(rows, "quarta")).toBe(rows);
+  });
+});
+
+describe("aplicarFeriados", () => {
+  it("multiplica só as previsões da data do feriado", () => {
+    const rows = [linha("Feijoada", "2025-03-04", 40), linha("Feijoada", "2025-03-05", 40)];
+    const resultado = aplicarFeriados(rows, [
+      { data: "2025-03-04", nome: "Carnaval", multiplicador: 0.5 },
+    ]);
+    expect(resultado.map((r) => r.qtd_prevista_media)).toEqual([20, 40]);
+  });
+});
+
+describe("diaDeHoje", () => {
+  // Terça-feira, 4 de março de 2025, às 23h no horário local
+  const agora = new Date(2025, 2, 4, 23, 0);
+
+  it("prefere a data de hoje em arquivos com datas", () => {
+    expect(diaDeHoje(["2025-03-03", "2025-03-04"], agora)).toBe("2025-03-04");
+  });
+
+  it("usa o dia da semana em arquivos sem datas", () => {
+    expect(diaDeHoje(["segunda", "terça"], agora)).toBe("terça");
+  });
+
+  it("devolve null quando hoje não está no arquivo", () => {
+    expect(diaDeHoje(["2025-03-10", "2025-03-11"], agora)).toBeNull();
+    expect(diaDeHoje(["segunda"], agora)).toBeNull();
+  });
+});
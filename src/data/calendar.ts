@@ -0,0 +1,160 @@
+import { weekIndexes, type Row } from "./schema";
+
+// Feriado ou evento especial: multiplica a previsão de todos os pratos na data
+export interface Feriado {
+  data: string;
+  nome: string;
+  multiplicador: number;
+}
+
+const STORAGE_KEY = "sabor-em-dados:feriados";
+
+// Índice de Date.getUTCDay() (domingo = 0) para o nome usado em `weekIndexes`
+const DIAS_POR_INDICE = [
+  "domingo",
+  "segunda",
+  "terça",
+  "quarta",
+  "quinta",
+  "sexta",
+  "sábado",
+];
+
+const ISO = /^(\d{4})-(\d{2})-(\d{2})$/;
+const BR = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+const paraIso = (ano: number, mes: number, dia: number) =>
+  `${ano}-${String(mes).padStart(2, "0")}-${String(dia).padStart(2, "0")}`;
+
+// Sempre em UTC para o fuso do navegador não trocar o dia
+const paraDate = (iso: string) => {
+  const [ano, mes, dia] = iso.split("-").map(Number);
+  return new Date(Date.UTC(ano, mes - 1, dia));
+};
+
+const deDate = (data: Date) =>
+  paraIso(data.getUTCFullYear(), data.getUTCMonth() + 1, data.getUTCDate());
+
+// Aceita "2025-03-04" ou "04/03/2025"; retorna a data ISO ou null se inválida
+export const parseData = (valor: string): string | null => {
+  const limpo = valor.trim();
+  let partes: [number, number, number] | null = null;
+  const iso = ISO.exec(limpo);
+  const br = BR.exec(limpo);
+  if (iso) partes = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  else if (br) partes = [Number(br[3]), Number(br[2]), Number(br[1])];
+  if (!partes) return null;
+
+  const [ano, mes, dia] = partes;
+  const resultado = paraIso(ano, mes, dia);
+  // 31/02 "rola" para março no Date; nesse caso a data não existe
+  return deDate(paraDate(resultado)) === resultado ? resultado : null;
+};
+
+export const diaDaSemanaDe = (iso: string) =>
+  DIAS_POR_INDICE[paraDate(iso).getUTCDay()];
+
+// Data de hoje no fuso do aparelho (a cozinha), não em UTC
+export const hojeIso = (agora: Date) =>
+  paraIso(agora.getFullYear(), agora.getMonth() + 1, agora.getDate());
+
+// O dia de hoje entre os dias do arquivo: a data, em arquivos com datas, ou o
+// dia da semana. null quando o arquivo não tem previsão para hoje.
+export const diaDeHoje = (dias: string[], agora: Date) => {
+  const hoje = hojeIso(agora);
+  if (dias.includes(hoje)) return hoje;
+  const semana = diaDaSemanaDe(hoje);
+  return dias.includes(semana) ? semana : null;
+};
+
+// Chave do "dia" usada no dashboard: a data quando existe, senão o dia da semana
+export const chaveDia = (r: { dia_semana: string; data?: string }) =>
+  r.data || r.dia_semana;
+
+export const isData = (chave: string) => ISO.test(chave);
+
+export const compararDias = (a: string, b: string) => {
+  if (isData(a) && isData(b)) return a.localeCompare(b);
+  if (isData(a) !== isData(b)) return isData(a) ? 1 : -1;
+  return weekIndexes[a] - weekIndexes[b];
+};
+
+// "04/03 (terça)" para datas; dias da semana ficam como estão
+export const rotuloDia = (chave: string) => {
+  if (!isData(chave)) return chave;
+  const [, mes, dia] = chave.split("-");
+  return `${dia}/${mes} (${diaDaSemanaDe(chave)})`;
+};
+
+// Data completa no formato do locale (dd/mm/aaaa em pt-BR)
+export const formatarData = (iso: string, locale: string) =>
+  paraDate(iso).toLocaleDateString(locale, { timeZone: "UTC" });
+
+export const somarDias = (iso: string, dias: number) => {
+  const data = paraDate(iso);
+  data.setUTCDate(data.getUTCDate() + dias);
+  return deDate(data);
+};
+
+// Segunda-feira da semana da data (a semana vai de segunda a domingo)
+export const inicioDaSemana = (iso: string) =>
+  somarDias(iso, -(weekIndexes[diaDaSemanaDe(iso)] - 1));
+
+// Linhas da mesma semana do dia selecionado. Sem datas, o arquivo inteiro já é
+// uma semana.
+export const rowsDaSemana = (rows: Row[], chave: string) => {
+  if (!isData(chave)) return rows;
+  const inicio = inicioDaSemana(chave);
+  const fim = somarDias(inicio, 6);
+  return rows.filter((r) => r.data && r.data >= inicio && r.data <= fim);
+};
+
+// "AAAA-MM" dos meses que têm alguma previsão
+export const mesesComDados = (rows: Row[]) =>
+  Array.from(new Set(rows.filter((r) => r.data).map((r) => r.data.slice(0, 7)))).sort();
+
+// Grade do mês em semanas de segunda a domingo; null = dia de outro mês
+export const gradeDoMes = (mes: string): (string | null)[][] => {
+  const primeiro = `${mes}-01`;
+  const semanas: (string | null)[][] = [];
+  let atual = inicioDaSemana(primeiro);
+  while (semanas.length === 0 || atual.startsWith(mes)) {
+    const semana: (string | null)[] = [];
+    for (let i = 0; i < 7; i += 1) {
+      semana.push(atual.startsWith(mes) ? atual : null);
+      atual = somarDias(atual, 1);
+    }
+    semanas.push(semana);
+  }
+  return semanas;
+};
+
+export const loadFeriados = (): Feriado[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as Feriado[]) : [];
+  } catch (error) {
+    console.error("Erro ao ler feriados:", error);
+    return [];
+  }
+};
+
+export const saveFeriados = (feriados: Feriado[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(feriados));
+};
+
+// Aplica o multiplicador dos feriados às previsões das datas correspondentes
+export const aplicarFeriados = (rows: Row[], feriados: Feriado[]): Row[] => {
+  if (feriados.length === 0) return rows;
+  const porData = new Map(feriados.map((f) => [f.data, f]));
+  return rows.map((r) => {
+    const feriado = r.data ? porData.get(r.data) : undefined;
+    if (!feriado) return r;
+    return {
+      ...r,
+      qtd_prevista_media: Number(
+        (r.qtd_prevista_media * feriado.multiplicador).toFixed(3)
+      ),
+    };
+  });
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  SEM_CATEGORIA,
+  normalizarCategoria,
+  parseCatalogo,
+  projetarFinanceiro,
+  totaisPorCategoria,
+  type CatalogoItem,
+} from "./catalog";
+import { parseCsvTexto } from "./csvImport";
+import type { Row } from "./schema";
+
+const linha = (prato: string, dia_semana: string, qtd_prevista_media: number): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato: "",
+  data: "",
+  unidade: "",
+});
+
+const item = (
+  prato: string,
+  categoria: string,
+  custo: number,
+  preco: number
+): CatalogoItem => ({ prato, categoria, custo, preco });
+
+describe("normalizarCategoria", () => {
+  it("aceita plural, maiúsculas e falta de acento", () => {
+    expect(normalizarCategoria("PROTEÍNAS")).toBe("proteína");
+    expect(normalizarCategoria("Proteina")).toBe("proteína");
+    expect(normalizarCategoria("Acompanhamentos")).toBe("acompanhamento");
+    expect(normalizarCategoria("  ")).toBe("");
+    expect(normalizarCategoria("bebida")).toBeNull();
+  });
+});
+
+describe("parseCatalogo", () => {
+  it("lê valores com R$ e vírgula decimal", () => {
+    const { itens, erros } = parseCatalogo(
+      parseCsvTexto(
+        "prato;categoria;custo;preco\n" +
+          "Feijoada;Proteínas;R$ 12,50;R$ 32,90\n" +
+          "Arroz;;1,20;6,00\n"
+      )
+    );
+    expect(erros).toEqual([]);
+    expect(itens).toEqual([
+      item("Feijoada", "proteína", 12.5, 32.9),
+      item("Arroz", "", 1.2, 6),
+    ]);
+  });
+
+  it("aponta a linha e o motivo de cada erro", () => {
+    const { itens, erros } = parseCatalogo(
+      parseCsvTexto(
+        "prato,categoria,custo,preco\n" +
+          "Suco,bebida,2,8\n" +
+          "Arroz,,abc,6\n" +
+          "Feijão,,2,\n" +
+          "Salada,salada,3,12\n" +
+          "Salada,salada,3,14\n"
+      )
+    );
+    expect(itens).toEqual([item("Salada", "salada", 3, 12)]);
+    expect(erros.map((e) => [e.linha, e.motivo])).toEqual([
+      [2, "categoriaDesconhecida"],
+      [3, "custoInvalido"],
+      [4, "precoInvalido"],
+      [6, "pratoRepetido"],
+    ]);
+  });
+});
+
+describe("projetarFinanceiro", () => {
+  const catalogo = [item("Feijoada", "proteína", 10, 30), item("Arroz", "", 1, 5)];
+  const rows = [
+    linha("Feijoada", "sexta", 10),
+    linha("Arroz", "segunda", 20),
+    linha("Arroz", "sexta", 10),
+    linha("Moqueca", "sexta", 4),
+  ];
+
+  it("soma receita, custo e margem por dia e na semana", () => {
+    const projecao = projetarFinanceiro(rows, catalogo);
+    expect(projecao.dias.map((d) => [d.dia, d.receita, d.custo, d.margem])).toEqual([
+      ["segunda", 100, 20, 80],
+      ["sexta", 350, 110, 240],
+    ]);
+    expect(projecao.total).toMatchObject({
+      porcoes: 44,
+      receita: 450,
+      custo: 130,
+      margem: 320,
+      porcoesSemCatalogo: 4,
+    });
+    expect(projecao.total.margemPct).toBeCloseTo((320 / 450) * 100);
+    expect(projecao.pratosSemCatalogo).toEqual(["Moqueca"]);
+  });
+
+  it("calcula o custo sobre outra quantidade e mantém a receita pela previsão", () => {
+    const projecao = projetarFinanceiro(rows, catalogo, (row) => row.qtd_prevista_media * 2);
+    expect(projecao.total.receita).toBe(450);
+    expect(projecao.total.custo).toBe(260);
+  });
+
+  it("margem em % fica nula sem receita", () => {
+    const projecao = projetarFinanceiro([linha("Moqueca", "sexta", 4)], catalogo);
+    expect(projecao.total.margemPct).toBeNull();
+  });
+});
+
+describe("totaisPorCategoria", () => {
+  it("agrupa na ordem das categorias, com os pratos sem categoria no fim", () => {
+    const totais = totaisPorCategoria(
+      [
+        linha("Pudim", "sexta", 5),
+        linha("Moqueca", "sexta", 4),
+        linha("Feijoada", "sexta", 10),
+        linha("Feijoada", "sábado", 2),
+      ],
+      [item("Feijoada", "proteína", 10, 30), item("Pudim", "sobremesa", 2, 8)]
+    );
+    expect(totais).toEqual([
+      { categoria: "proteína", porcoes: 12, receita: 360 },
+      { categoria: "sobremesa", porcoes: 5, receita: 40 },
+      { categoria: SEM_CATEGORIA, porcoes: 4, receita: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,259 @@
+import type { ParseResult } from "papaparse";
+import { chaveDia, compararDias } from "./calendar";
+import { detectDecimal, encontrarColuna, parseNumero } from "./mapping";
+import type { CsvRecord, Row } from "./schema";
+import { semAcentos } from "./texto";
+import type { ImportIssue, MotivoIssue } from "./validation";
+
+export const CATEGORIAS_PRATO = [
+  "proteína",
+  "acompanhamento",
+  "salada",
+  "sobremesa",
+];
+
+export const SEM_CATEGORIA = "sem categoria";
+
+// Ficha de um prato do cardápio; custo e preço são por porção, em reais
+export interface CatalogoItem {
+  prato: string;
+  // "" = ainda sem categoria
+  categoria: string;
+  custo: number;
+  preco: number;
+}
+
+export interface CatalogoImport {
+  itens: CatalogoItem[];
+  erros: ImportIssue[];
+}
+
+export interface ProjecaoFinanceira {
+  porcoes: number;
+  receita: number;
+  custo: number;
+  margem: number;
+  // Margem sobre a receita, em %; null quando não há receita
+  margemPct: number | null;
+  // Porções de pratos fora do catálogo (não entram em receita e custo)
+  porcoesSemCatalogo: number;
+}
+
+export interface ProjecaoDia extends ProjecaoFinanceira {
+  dia: string;
+}
+
+export interface ProjecaoSemana {
+  dias: ProjecaoDia[];
+  total: ProjecaoFinanceira;
+  pratosSemCatalogo: string[];
+}
+
+export interface TotalCategoria {
+  categoria: string;
+  porcoes: number;
+  receita: number;
+}
+
+const STORAGE_KEY = "sabor-em-dados:catalogo";
+
+const COLUNAS_CATALOGO: Record<keyof CatalogoItem, string[]> = {
+  prato: ["prato", "dish", "item"],
+  categoria: ["categoria", "category", "tipo"],
+  custo: ["custo", "custo_porcao", "custo_unitario", "cost"],
+  preco: ["preco", "preco_venda", "preco_porcao", "price"],
+};
+
+// Aceita "Proteina", "PROTEÍNAS", "Acompanhamentos"; vazio = sem categoria
+export const normalizarCategoria = (valor: string): string | null => {
+  const limpo = semAcentos(valor.trim().toLowerCase()).replace(/s$/, "");
+  if (!limpo) return "";
+  return CATEGORIAS_PRATO.find((c) => semAcentos(c) === limpo) ?? null;
+};
+
+export const categoriaDe = (
+  catalogo: Map<string, CatalogoItem>,
+  prato: string
+) => catalogo.get(prato)?.categoria || SEM_CATEGORIA;
+
+export const indexarCatalogo = (catalogo: CatalogoItem[]) =>
+  new Map(catalogo.map((item) => [item.prato, item]));
+
+// Os valores do catálogo são em reais; só a formatação segue o idioma
+export const formatarMoeda = (valor: number, locale: string) =>
+  valor.toLocaleString(locale, { style: "currency", currency: "BRL" });
+
+export const parseCatalogo = (
+  results: ParseResult<CsvRecord>
+): CatalogoImport => {
+  const colunas = results.meta.fields ?? [];
+  const erros: ImportIssue[] = [];
+  const itens: CatalogoItem[] = [];
+
+  const mapa = {} as Record<keyof CatalogoItem, string | null>;
+  (Object.keys(COLUNAS_CATALOGO) as (keyof CatalogoItem)[]).forEach((campo) => {
+    mapa[campo] = encontrarColuna(colunas, COLUNAS_CATALOGO[campo]);
+    if (!mapa[campo]) {
+      erros.push({
+        linha: null,
+        coluna: campo,
+        motivo: "colunaObrigatoria",
+        severidade: "erro",
+      });
+    }
+  });
+  if (erros.length > 0) return { itens, erros };
+
+  const decimal = detectDecimal(results.data, mapa.preco);
+  const vistos = new Set<string>();
+
+  results.data.forEach((r, index) => {
+    const linha = index + 2;
+    const prato = (r[mapa.prato!] ?? "").trim();
+    const categoriaBruta = (r[mapa.categoria!] ?? "").trim();
+    // Aceita "R$ 12,50" além de "12,50"
+    const custoBruto = (r[mapa.custo!] ?? "").replace(/R\$/i, "").trim();
+    const precoBruto = (r[mapa.preco!] ?? "").replace(/R\$/i, "").trim();
+
+    if (!prato && !categoriaBruta && !custoBruto && !precoBruto) return;
+
+    const erro = (
+      coluna: string,
+      motivo: MotivoIssue,
+      valor?: string,
+      params?: ImportIssue["params"]
+    ) => erros.push({ linha, coluna, motivo, params, valor, severidade: "erro" });
+
+    if (!prato) {
+      erro(mapa.prato!, "pratoVazio");
+      return;
+    }
+
+    const categoria = normalizarCategoria(categoriaBruta);
+    if (categoria === null) {
+      erro(mapa.categoria!, "categoriaDesconhecida", categoriaBruta, {
+        categorias: CATEGORIAS_PRATO.join(", "),
+      });
+      return;
+    }
+
+    const custo = parseNumero(custoBruto, decimal);
+    if (!custoBruto || !Number.isFinite(custo) || custo < 0) {
+      erro(mapa.custo!, "custoInvalido", custoBruto);
+      return;
+    }
+    const preco = parseNumero(precoBruto, decimal);
+    if (!precoBruto || !Number.isFinite(preco) || preco < 0) {
+      erro(mapa.preco!, "precoInvalido", precoBruto);
+      return;
+    }
+
+    if (vistos.has(prato)) {
+      erro(mapa.prato!, "pratoRepetido", prato);
+      return;
+    }
+    vistos.add(prato);
+
+    itens.push({ prato, categoria, custo, preco });
+  });
+
+  return { itens, erros };
+};
+
+export const loadCatalogo = (): CatalogoItem[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as CatalogoItem[]) : [];
+  } catch (error) {
+    console.error("Erro ao ler catálogo de pratos:", error);
+    return [];
+  }
+};
+
+export const saveCatalogo = (catalogo: CatalogoItem[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(catalogo));
+};
+
+const projecaoVazia = (): ProjecaoFinanceira => ({
+  porcoes: 0,
+  receita: 0,
+  custo: 0,
+  margem: 0,
+  margemPct: null,
+  porcoesSemCatalogo: 0,
+});
+
+const fecharProjecao = <T extends ProjecaoFinanceira>(p: T): T => ({
+  ...p,
+  margem: p.receita - p.custo,
+  margemPct: p.receita > 0 ? ((p.receita - p.custo) / p.receita) * 100 : null,
+});
+
+// Receita pela previsão de vendas; o custo pode usar outra quantidade
+// (ex.: o plano de produção, que já inclui a margem de segurança)
+export const projetarFinanceiro = (
+  rows: Row[],
+  catalogo: CatalogoItem[],
+  qtdCusto: (row: Row) => number = (row) => row.qtd_prevista_media
+): ProjecaoSemana => {
+  const porPrato = indexarCatalogo(catalogo);
+  const porDia = new Map<string, ProjecaoDia>();
+  const semCatalogo = new Set<string>();
+
+  rows.forEach((row) => {
+    const dia = chaveDia(row);
+    const projecao = porDia.get(dia) ?? { dia, ...projecaoVazia() };
+    const item = porPrato.get(row.prato);
+    projecao.porcoes += row.qtd_prevista_media;
+    if (item) {
+      projecao.receita += row.qtd_prevista_media * item.preco;
+      projecao.custo += qtdCusto(row) * item.custo;
+    } else {
+      projecao.porcoesSemCatalogo += row.qtd_prevista_media;
+      semCatalogo.add(row.prato);
+    }
+    porDia.set(dia, projecao);
+  });
+
+  const dias = Array.from(porDia.values())
+    .sort((a, b) => compararDias(a.dia, b.dia))
+    .map(fecharProjecao);
+
+  const total = dias.reduce((acc, d) => {
+    acc.porcoes += d.porcoes;
+    acc.receita += d.receita;
+    acc.custo += d.custo;
+    acc.porcoesSemCatalogo += d.porcoesSemCatalogo;
+    return acc;
+  }, projecaoVazia());
+
+  return {
+    dias,
+    total: fecharProjecao(total),
+    pratosSemCatalogo: Array.from(semCatalogo).sort((a, b) =>
+      a.localeCompare(b, "pt-BR")
+    ),
+  };
+};
+
+// Porções e receita agrupadas por categoria, na ordem de CATEGORIAS_PRATO
+export const totaisPorCategoria = (
+  rows: Row[],
+  catalogo: CatalogoItem[]
+): TotalCategoria[] => {
+  const porPrato = indexarCatalogo(catalogo);
+  const totais = new Map<string, TotalCategoria>();
+
+  rows.forEach((row) => {
+    const categoria = categoriaDe(porPrato, row.prato);
+    const total = totais.get(categoria) ?? { categoria, porcoes: 0, receita: 0 };
+    total.porcoes += row.qtd_prevista_media;
+    total.receita += row.qtd_prevista_media * (porPrato.get(row.prato)?.preco ?? 0);
+    totais.set(categoria, total);
+  });
+
+  const ordem = [...CATEGORIAS_PRATO, SEM_CATEGORIA];
+  return Array.from(totais.values()).sort(
+    (a, b) => ordem.indexOf(a.categoria) - ordem.indexOf(b.categoria)
+  );
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLASSIFICACAO_PADRAO,
+  aplicarClassificacao,
+  calcularNiveis,
+  compararNiveis,
+  type ClassificacaoSettings,
+} from "./classification";
+import type { Row } from "./schema";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  data = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data,
+  unidade: "",
+});
+
+const settings = (
+  parcial: Partial<ClassificacaoSettings> = {}
+): ClassificacaoSettings => ({ ...CLASSIFICACAO_PADRAO, ...parcial });
+
+describe("calcularNiveis", () => {
+  it("divide cada dia em tercis", () => {
+    const rows = [
+      linha("A", "segunda", 10),
+      linha("B", "segunda", 30),
+      linha("C", "segunda", 20),
+      // Outro dia, outra escala: classificado só contra ele mesmo
+      linha("A", "terça", 100),
+      linha("B", "terça", 300),
+      linha("C", "terça", 200),
+    ];
+    expect(calcularNiveis(rows, settings())).toEqual([
+      "baixo",
+      "alto",
+      "médio",
+      "baixo",
+      "alto",
+      "médio",
+    ]);
+  });
+
+  it("compara a semana inteira com tercis da semana", () => {
+    const rows = [
+      linha("A", "segunda", 10),
+      linha("B", "segunda", 20),
+      linha("A", "terça", 100),
+      linha("B", "terça", 300),
+    ];
+    expect(calcularNiveis(rows, settings({ estrategia: "tercis_semana" }))).toEqual([
+      "baixo",
+      "baixo",
+      "médio",
+      "alto",
+    ]);
+  });
+
+  it("em arquivos com datas, cada semana do calendário é um grupo", () => {
+    const rows = [
+      linha("A", "segunda", 10, "", "2025-03-03"),
+      linha("B", "terça", 90, "", "2025-03-04"),
+      linha("A", "segunda", 50, "", "2025-03-10"),
+      linha("B", "terça", 60, "", "2025-03-11"),
+    ];
+    expect(calcularNiveis(rows, settings({ estrategia: "tercis_semana" }))).toEqual([
+      "baixo",
+      "alto",
+      "baixo",
+      "alto",
+    ]);
+  });
+
+  it("deixa em médio um grupo sem variação", () => {
+    const rows = [linha("A", "segunda", 15), linha("B", "segunda", 15)];
+    expect(calcularNiveis(rows, settings())).toEqual(["médio", "médio"]);
+  });
+
+  it("usa os limites inclusivos na estratégia de limites", () => {
+    const rows = [20, 21, 49, 50].map((q) => linha("A", "segunda", q));
+    expect(calcularNiveis(rows, settings({ estrategia: "limites" }))).toEqual([
+      "baixo",
+      "médio",
+      "médio",
+      "alto",
+    ]);
+  });
+
+  it("retorna vazio sem linhas", () => {
+    expect(calcularNiveis([], settings())).toEqual([]);
+  });
+});
+
+describe("aplicarClassificacao", () => {
+  const rows = [
+    linha("A", "segunda", 10, "alto"),
+    linha("B", "segunda", 20),
+    linha("C", "segunda", 30),
+  ];
+
+  it("mantém o nível do arquivo e preenche o que falta", () => {
+    const resultado = aplicarClassificacao(rows, settings());
+    expect(resultado.rows.map((r) => r.nivel_movimento_prato)).toEqual([
+      "alto",
+      "médio",
+      "alto",
+    ]);
+    expect(resultado.origens).toEqual(["arquivo", "tercis_dia", "tercis_dia"]);
+    expect(resultado.rows[0]).toBe(rows[0]);
+  });
+
+  it("substitui todos os níveis com sobrescrever", () => {
+    const resultado = aplicarClassificacao(rows, settings({ sobrescrever: true }));
+    expect(resultado.rows[0].nivel_movimento_prato).toBe("baixo");
+    expect(resultado.origens).toEqual(["tercis_dia", "tercis_dia", "tercis_dia"]);
+  });
+});
+
+describe("compararNiveis", () => {
+  it("monta a matriz arquivo x calculado só com as linhas que têm nível", () => {
+    const rows = [
+      linha("A", "segunda", 10, "baixo"),
+      linha("B", "segunda", 20, "alto"),
+      linha("C", "segunda", 30),
+    ];
+    const comparacao = compararNiveis(rows, ["baixo", "médio", "alto"]);
+    expect(comparacao).toMatchObject({ total: 2, iguais: 1 });
+    expect(comparacao.matriz.baixo.baixo).toBe(1);
+    expect(comparacao.matriz.alto.médio).toBe(1);
+    expect(comparacao.matriz.médio).toEqual({ baixo: 0, médio: 0, alto: 0 });
+  });
+});
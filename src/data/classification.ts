@@ -0,0 +1,174 @@
+import { chaveDia, inicioDaSemana } from "./calendar";
+import { NIVEIS_MOVIMENTO, type Row } from "./schema";
+
+// Como o nível de movimento é calculado a partir de `qtd_prevista_media`
+export type EstrategiaNivel = "tercis_dia" | "tercis_semana" | "limites";
+
+// De onde veio o nível exibido em cada linha
+export type OrigemNivel = "arquivo" | EstrategiaNivel;
+
+export interface ClassificacaoSettings {
+  estrategia: EstrategiaNivel;
+  // Até `limiteBaixo` porções = baixo; a partir de `limiteAlto` = alto
+  limiteBaixo: number;
+  limiteAlto: number;
+  // Usa o nível calculado mesmo quando o arquivo já traz a classificação
+  sobrescrever: boolean;
+}
+
+export interface ClassificacaoResultado {
+  rows: Row[];
+  // Origem do nível por linha, na mesma ordem de `rows`
+  origens: OrigemNivel[];
+}
+
+// Linhas = nível do arquivo, colunas = nível calculado
+export interface ComparacaoNiveis {
+  total: number;
+  iguais: number;
+  matriz: Record<string, Record<string, number>>;
+}
+
+const STORAGE_KEY = "sabor-em-dados:classificacao-niveis";
+
+// Nomes na interface: chaves `classificacao.estrategia.*`
+export const ESTRATEGIAS_NIVEL = [
+  "tercis_dia",
+  "tercis_semana",
+  "limites",
+] as const satisfies readonly EstrategiaNivel[];
+
+export const CLASSIFICACAO_PADRAO: ClassificacaoSettings = {
+  estrategia: "tercis_dia",
+  limiteBaixo: 20,
+  limiteAlto: 50,
+  sobrescrever: false,
+};
+
+export const loadClassificacaoSettings = (): ClassificacaoSettings => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    if (!salvo) return CLASSIFICACAO_PADRAO;
+    return {
+      ...CLASSIFICACAO_PADRAO,
+      ...(JSON.parse(salvo) as ClassificacaoSettings),
+    };
+  } catch (error) {
+    console.error("Erro ao ler configurações de classificação:", error);
+    return CLASSIFICACAO_PADRAO;
+  }
+};
+
+export const saveClassificacaoSettings = (settings: ClassificacaoSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const arquivoTemNiveis = (rows: Row[]) =>
+  rows.some((r) => r.nivel_movimento_prato !== "");
+
+// Quantil com interpolação linear sobre valores já ordenados
+const quantil = (ordenados: number[], p: number) => {
+  const pos = (ordenados.length - 1) * p;
+  const base = Math.floor(pos);
+  const resto = pos - base;
+  const proximo = ordenados[base + 1] ?? ordenados[base];
+  return ordenados[base] + resto * (proximo - ordenados[base]);
+};
+
+const [BAIXO, MEDIO, ALTO] = NIVEIS_MOVIMENTO;
+
+// Divide o grupo em três faixas pelos tercis. Grupos sem variação ficam em "médio".
+const classificarPorTercis = (valores: number[]): string[] => {
+  const ordenados = [...valores].sort((a, b) => a - b);
+  if (ordenados.length === 0) return [];
+  if (ordenados[0] === ordenados[ordenados.length - 1]) {
+    return valores.map(() => MEDIO);
+  }
+  const t1 = quantil(ordenados, 1 / 3);
+  const t2 = quantil(ordenados, 2 / 3);
+  return valores.map((v) => (v <= t1 ? BAIXO : v > t2 ? ALTO : MEDIO));
+};
+
+const classificarPorLimites = (
+  valor: number,
+  settings: ClassificacaoSettings
+) =>
+  valor <= settings.limiteBaixo
+    ? BAIXO
+    : valor >= settings.limiteAlto
+      ? ALTO
+      : MEDIO;
+
+// Nível calculado para cada linha, na mesma ordem de `rows`
+export const calcularNiveis = (
+  rows: Row[],
+  settings: ClassificacaoSettings
+): string[] => {
+  if (settings.estrategia === "limites") {
+    return rows.map((r) => classificarPorLimites(r.qtd_prevista_media, settings));
+  }
+
+  // Tercis dentro de cada grupo: o dia ou a semana (em arquivos com datas,
+  // cada semana do calendário é um grupo)
+  const grupoDe =
+    settings.estrategia === "tercis_dia"
+      ? chaveDia
+      : (r: Row) => (r.data ? inicioDaSemana(r.data) : "");
+  const niveis: string[] = new Array(rows.length);
+  const grupos = new Map<string, number[]>();
+  rows.forEach((r, index) => {
+    const grupo = grupoDe(r);
+    const indices = grupos.get(grupo) ?? [];
+    indices.push(index);
+    grupos.set(grupo, indices);
+  });
+  grupos.forEach((indices) => {
+    const calculados = classificarPorTercis(
+      indices.map((i) => rows[i].qtd_prevista_media)
+    );
+    indices.forEach((i, pos) => (niveis[i] = calculados[pos]));
+  });
+  return niveis;
+};
+
+// Mantém o nível do arquivo quando existe (a menos que `sobrescrever` esteja
+// ligado) e preenche o restante com o nível calculado.
+export const aplicarClassificacao = (
+  rows: Row[],
+  settings: ClassificacaoSettings
+): ClassificacaoResultado => {
+  const calculados = calcularNiveis(rows, settings);
+  const origens: OrigemNivel[] = [];
+  const classificadas = rows.map((r, index) => {
+    if (r.nivel_movimento_prato && !settings.sobrescrever) {
+      origens.push("arquivo");
+      return r;
+    }
+    origens.push(settings.estrategia);
+    return { ...r, nivel_movimento_prato: calculados[index] };
+  });
+  return { rows: classificadas, origens };
+};
+
+// Quanto a classificação calculada concorda com a do arquivo (só linhas com nível)
+export const compararNiveis = (
+  rows: Row[],
+  calculados: string[]
+): ComparacaoNiveis => {
+  const matriz: ComparacaoNiveis["matriz"] = Object.fromEntries(
+    NIVEIS_MOVIMENTO.map((n) => [
+      n,
+      Object.fromEntries(NIVEIS_MOVIMENTO.map((c) => [c, 0])),
+    ])
+  );
+  let total = 0;
+  let iguais = 0;
+  rows.forEach((r, index) => {
+    const doArquivo = r.nivel_movimento_prato;
+    if (!doArquivo) return;
+    matriz[doArquivo][calculados[index]] += 1;
+    total += 1;
+    if (doArquivo === calculados[index]) iguais += 1;
+  });
+  return { total, iguais, matriz };
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  calcularMetricas,
+  joinPrevistoRealizado,
+  metricasPorDia,
+  metricasPorPrato,
+  vendasDeRows,
+  type ComparacaoRow,
+} from "./comparison";
+import type { Row, VendaRow } from "./schema";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  data = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data,
+  unidade: "",
+});
+
+const venda = (
+  prato: string,
+  dia_semana: string,
+  qtd_vendida: number,
+  data = ""
+): VendaRow => ({ prato, dia_semana, qtd_vendida, data, unidade: "" });
+
+const par = (
+  prato: string,
+  dia_semana: string,
+  previsto: number,
+  realizado: number
+): ComparacaoRow => ({
+  prato,
+  dia_semana,
+  data: "",
+  previsto,
+  realizado,
+  erro: previsto - realizado,
+});
+
+describe("joinPrevistoRealizado", () => {
+  it("une previsão e venda por prato e dia da semana", () => {
+    const { pares, semVenda, semPrevisao } = joinPrevistoRealizado(
+      [linha("Arroz", "segunda", 20), linha("Feijão", "segunda", 10)],
+      [venda("Arroz", "segunda", 18), venda("Arroz", "terça", 5)]
+    );
+    expect(pares).toEqual([
+      {
+        prato: "Arroz",
+        dia_semana: "segunda",
+        data: "",
+        previsto: 20,
+        realizado: 18,
+        erro: 2,
+      },
+    ]);
+    expect(semVenda.map((r) => r.prato)).toEqual(["Feijão"]);
+    expect(semPrevisao).toEqual([venda("Arroz", "terça", 5)]);
+  });
+
+  it("une pela data quando os dois lados têm datas", () => {
+    const { pares, semPrevisao } = joinPrevistoRealizado(
+      [linha("Arroz", "segunda", 20, "", "2025-03-03")],
+      [
+        venda("Arroz", "segunda", 9, "2025-03-10"),
+        venda("Arroz", "segunda", 21, "2025-03-03"),
+      ]
+    );
+    expect(pares.map((p) => [p.data, p.realizado])).toEqual([["2025-03-03", 21]]);
+    expect(semPrevisao).toHaveLength(1);
+  });
+
+  it("cai no dia da semana se só um dos lados tem datas", () => {
+    const { pares } = joinPrevistoRealizado(
+      [linha("Arroz", "segunda", 20, "", "2025-03-03")],
+      [venda("Arroz", "segunda", 15)]
+    );
+    expect(pares).toHaveLength(1);
+  });
+
+  it("usa as quantidades de outro arquivo como vendas", () => {
+    expect(vendasDeRows([linha("Arroz", "segunda", 7)])).toEqual([
+      venda("Arroz", "segunda", 7),
+    ]);
+  });
+});
+
+describe("calcularMetricas", () => {
+  it("calcula MAE, MAPE e viés", () => {
+    // Erros +2 e -4 sobre vendas de 10 e 20
+    const metricas = calcularMetricas([par("A", "segunda", 12, 10), par("B", "segunda", 16, 20)]);
+    expect(metricas.n).toBe(2);
+    expect(metricas.mae).toBe(3);
+    expect(metricas.mape).toBeCloseTo(20);
+    expect(metricas.bias).toBe(-1);
+  });
+
+  it("ignora vendas zeradas no MAPE, mas não no MAE", () => {
+    const metricas = calcularMetricas([par("A", "segunda", 5, 0), par("B", "segunda", 9, 10)]);
+    expect(metricas.mae).toBe(3);
+    expect(metricas.mape).toBeCloseTo(10);
+  });
+
+  it("não tem MAPE quando todas as vendas são zero", () => {
+    expect(calcularMetricas([par("A", "segunda", 5, 0)]).mape).toBeNull();
+  });
+
+  it("zera as métricas sem pares", () => {
+    expect(calcularMetricas([])).toEqual({ n: 0, mae: 0, mape: null, bias: 0 });
+  });
+});
+
+describe("metricasPorPrato", () => {
+  it("aponta a tendência a partir de 75% dos dias no mesmo sentido", () => {
+    const pares = [
+      ...["segunda", "terça", "quarta", "quinta"].map((d, i) =>
+        // Três dias acima e um abaixo: superestima
+        par("Arroz", d, i < 3 ? 12 : 9, 10)
+      ),
+      par("Feijão", "segunda", 5, 10),
+      par("Feijão", "terça", 12, 10),
+      // Um dia só não basta para apontar tendência
+      par("Salada", "segunda", 1, 10),
+    ];
+    const metricas = metricasPorPrato(pares);
+    expect(metricas.map((m) => [m.prato, m.tendencia, m.diasAcima, m.diasAbaixo])).toEqual([
+      ["Salada", "equilibrado", 0, 1],
+      ["Feijão", "equilibrado", 1, 1],
+      ["Arroz", "superestima", 3, 1],
+    ]);
+  });
+
+  it("aponta subestimação", () => {
+    const pares = [par("Arroz", "segunda", 8, 10), par("Arroz", "terça", 7, 10)];
+    expect(metricasPorPrato(pares)[0].tendencia).toBe("subestima");
+  });
+});
+
+describe("metricasPorDia", () => {
+  it("agrupa pelo dia da semana na ordem da semana", () => {
+    const metricas = metricasPorDia([
+      par("A", "sexta", 12, 10),
+      par("A", "segunda", 10, 10),
+      par("B", "sexta", 6, 10),
+    ]);
+    expect(metricas.map((m) => [m.dia_semana, m.n, m.mae, m.bias])).toEqual([
+      ["segunda", 1, 0, 0],
+      ["sexta", 2, 3, -1],
+    ]);
+  });
+});
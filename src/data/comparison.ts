@@ -0,0 +1,149 @@
+import { chaveDia } from "./calendar";
+import { weekIndexes, type ChartDataItem, type Row, type VendaRow } from "./schema";
+
+// Previsão e venda real de um mesmo prato no mesmo dia da semana
+export interface ComparacaoRow extends ChartDataItem {
+  prato: string;
+  dia_semana: string;
+  data: string;
+  previsto: number;
+  realizado: number;
+  // previsto - realizado: positivo quando o modelo superestimou
+  erro: number;
+}
+
+export interface ErrorMetrics {
+  n: number;
+  mae: number;
+  // Em %, ignorando combinações com venda zero; null se não houver nenhuma
+  mape: number | null;
+  bias: number;
+}
+
+export type Tendencia = "superestima" | "subestima" | "equilibrado";
+
+export interface PratoMetrics extends ErrorMetrics {
+  prato: string;
+  diasAcima: number;
+  diasAbaixo: number;
+  tendencia: Tendencia;
+}
+
+export interface DiaMetrics extends ErrorMetrics {
+  dia_semana: string;
+}
+
+export interface ComparacaoResult {
+  pares: ComparacaoRow[];
+  semVenda: Row[];
+  semPrevisao: VendaRow[];
+}
+
+// Fração mínima dos dias com erro no mesmo sentido para apontar uma tendência
+const LIMIAR_TENDENCIA = 0.75;
+const MIN_DIAS_TENDENCIA = 2;
+
+const chave = (prato: string, dia: string) => `${prato}|${dia}`;
+
+// Usa as quantidades de outro arquivo (ex.: um CSV só com `qtd_vendida`)
+// como vendas reais
+export const vendasDeRows = (rows: Row[]): VendaRow[] =>
+  rows.map((r) => ({
+    prato: r.prato,
+    dia_semana: r.dia_semana,
+    qtd_vendida: r.qtd_prevista_media,
+    data: r.data,
+    unidade: r.unidade,
+  }));
+
+export const joinPrevistoRealizado = (
+  rows: Row[],
+  vendas: VendaRow[]
+): ComparacaoResult => {
+  // Só une por data quando previsão e vendas têm datas; senão, pelo dia da semana
+  const usarData = rows.some((r) => r.data) && vendas.some((v) => v.data);
+  const diaDe = (r: { dia_semana: string; data?: string }) =>
+    usarData ? chaveDia(r) : r.dia_semana;
+  const vendasPorChave = new Map(
+    vendas.map((v) => [chave(v.prato, diaDe(v)), v])
+  );
+  const usadas = new Set<string>();
+  const pares: ComparacaoRow[] = [];
+  const semVenda: Row[] = [];
+
+  rows.forEach((r) => {
+    const k = chave(r.prato, diaDe(r));
+    const venda = vendasPorChave.get(k);
+    if (!venda) {
+      semVenda.push(r);
+      return;
+    }
+    usadas.add(k);
+    pares.push({
+      prato: r.prato,
+      dia_semana: r.dia_semana,
+      data: r.data ?? "",
+      previsto: r.qtd_prevista_media,
+      realizado: venda.qtd_vendida,
+      erro: Number((r.qtd_prevista_media - venda.qtd_vendida).toFixed(3)),
+    });
+  });
+
+  const semPrevisao = vendas.filter(
+    (v) => !usadas.has(chave(v.prato, diaDe(v)))
+  );
+
+  return { pares, semVenda, semPrevisao };
+};
+
+export const calcularMetricas = (pares: ComparacaoRow[]): ErrorMetrics => {
+  const n = pares.length;
+  if (n === 0) return { n, mae: 0, mape: null, bias: 0 };
+
+  const somaAbs = pares.reduce((acc, p) => acc + Math.abs(p.erro), 0);
+  const somaErro = pares.reduce((acc, p) => acc + p.erro, 0);
+  const comVenda = pares.filter((p) => p.realizado > 0);
+  const mape =
+    comVenda.length > 0
+      ? (comVenda.reduce((acc, p) => acc + Math.abs(p.erro) / p.realizado, 0) /
+          comVenda.length) *
+        100
+      : null;
+
+  return { n, mae: somaAbs / n, mape, bias: somaErro / n };
+};
+
+const agrupar = (pares: ComparacaoRow[], campo: "prato" | "dia_semana") => {
+  const grupos = new Map<string, ComparacaoRow[]>();
+  pares.forEach((p) => {
+    const lista = grupos.get(p[campo]) ?? [];
+    lista.push(p);
+    grupos.set(p[campo], lista);
+  });
+  return grupos;
+};
+
+export const metricasPorPrato = (pares: ComparacaoRow[]): PratoMetrics[] =>
+  Array.from(agrupar(pares, "prato").entries())
+    .map(([prato, lista]) => {
+      const diasAcima = lista.filter((p) => p.erro > 0).length;
+      const diasAbaixo = lista.filter((p) => p.erro < 0).length;
+      let tendencia: Tendencia = "equilibrado";
+      if (lista.length >= MIN_DIAS_TENDENCIA) {
+        if (diasAcima / lista.length >= LIMIAR_TENDENCIA) tendencia = "superestima";
+        else if (diasAbaixo / lista.length >= LIMIAR_TENDENCIA) tendencia = "subestima";
+      }
+      return {
+        prato,
+        ...calcularMetricas(lista),
+        diasAcima,
+        diasAbaixo,
+        tendencia,
+      };
+    })
+    .sort((a, b) => Math.abs(b.bias) - Math.abs(a.bias));
+
+export const metricasPorDia = (pares: ComparacaoRow[]): DiaMetrics[] =>
+  Array.from(agrupar(pares, "dia_semana").entries())
+    .map(([dia_semana, lista]) => ({ dia_semana, ...calcularMetricas(lista) }))
+    .sort((a, b) => weekIndexes[a.dia_semana] - weekIndexes[b.dia_semana]);
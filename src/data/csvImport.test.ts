@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvTexto, prepararImportacao, prepararLeitura } from "./csvImport";
+import type { MappingProfile } from "./profiles";
+
+describe("parseCsvTexto", () => {
+  it("detecta o delimitador e limpa espaços do cabeçalho", () => {
+    const results = parseCsvTexto(
+      " prato ;dia_semana; qtd_prevista_media\nSalada;segunda;12,5\n"
+    );
+    expect(results.meta.fields).toEqual(["prato", "dia_semana", "qtd_prevista_media"]);
+    expect(results.meta.delimiter).toBe(";");
+    expect(results.data[0]).toEqual({
+      prato: "Salada",
+      dia_semana: "segunda",
+      qtd_prevista_media: "12,5",
+    });
+  });
+});
+
+describe("prepararImportacao", () => {
+  it("vai direto para a validação no formato padrão", () => {
+    const results = parseCsvTexto(
+      "prato,dia_semana,qtd_prevista_media\nSalada,segunda,12.5\n"
+    );
+    const preparo = prepararImportacao(results, "semana.csv", null);
+    expect(preparo.etapa).toBe("validacao");
+  });
+
+  it("pede o mapeamento para colunas fora do padrão", () => {
+    const results = parseCsvTexto("Plato,Dia,Cantidad\nEnsalada,lunes,12\n");
+    const preparo = prepararImportacao(results, "semana.csv", null);
+    expect(preparo).toMatchObject({
+      etapa: "mapeamento",
+      options: { mapping: { prato: "Plato", qtd_prevista_media: "Cantidad" } },
+    });
+  });
+
+  it("usa o perfil salvo no lugar da sugestão", () => {
+    const results = parseCsvTexto("item;quando;previsto\nSalada;segunda;12,5\n");
+    const perfil: MappingProfile = {
+      nome: "Cozinha central",
+      assinatura: "item|previsto|quando",
+      atualizadoEm: "2025-03-01T00:00:00.000Z",
+      options: {
+        delimiter: "",
+        decimal: ",",
+        mapping: {
+          prato: "item",
+          dia_semana: "quando",
+          qtd_prevista_media: "previsto",
+          nivel_movimento_prato: null,
+          qtd_vendida: null,
+          data: null,
+          unidade: null,
+        },
+      },
+    };
+    const preparo = prepararImportacao(results, "semana.csv", perfil);
+    if (preparo.etapa !== "validacao") throw new Error("esperava validação");
+    expect(preparo.report.perfil).toBe("Cozinha central");
+    expect(preparo.report.aceitas).toMatchObject([
+      { prato: "Salada", dia_semana: "segunda", qtd_prevista_media: 12.5 },
+    ]);
+  });
+});
+
+describe("prepararLeitura", () => {
+  const texto = "Plato;Dia;Cantidad\nEnsalada;lunes;12\nSopa;martes;8";
+
+  it("resume o cabeçalho para o assistente de mapeamento", () => {
+    const { resumo, preparo } = prepararLeitura(parseCsvTexto(texto), "semana.csv", {
+      etapa: "automatica",
+      perfis: [],
+    });
+    expect(resumo).toEqual({
+      colunas: ["Plato", "Dia", "Cantidad"],
+      amostra: [
+        { Plato: "Ensalada", Dia: "lunes", Cantidad: "12" },
+        { Plato: "Sopa", Dia: "martes", Cantidad: "8" },
+      ],
+      delimitadorDetectado: ";",
+    });
+    expect(preparo.etapa).toBe("mapeamento");
+  });
+
+  it("valida com o mapeamento escolhido no assistente e indexa os dias", () => {
+    const results = parseCsvTexto(texto);
+    const sugerido = prepararLeitura(results, "semana.csv", {
+      etapa: "mapeamento",
+      delimiter: ";",
+    });
+    expect(sugerido.preparo.options.delimiter).toBe(";");
+    expect(sugerido.indice).toBeNull();
+    const { preparo, indice } = prepararLeitura(results, "semana.csv", {
+      etapa: "validacao",
+      options: sugerido.preparo.options,
+    });
+    if (preparo.etapa !== "validacao") throw new Error("esperava validação");
+    expect(preparo.report.aceitas.map((r) => [r.prato, r.dia_semana])).toEqual([
+      ["Ensalada", "segunda"],
+      ["Sopa", "terça"],
+    ]);
+    // Índice por dia das linhas aceitas, montado junto com a validação
+    expect(indice).toEqual({
+      dias: ["segunda", "terça"],
+      linhas: { segunda: [0], terça: [1] },
+    });
+  });
+});
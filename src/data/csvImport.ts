@@ -0,0 +1,147 @@
+import Papa, { type ParseConfig, type ParseResult } from "papaparse";
+import { indexarPorDia, type IndiceDias } from "./dashboard";
+import {
+  assinaturaColunas,
+  detectDecimal,
+  isFormatoPadrao,
+  suggestMapping,
+  type CsvDelimiter,
+  type ImportOptions,
+} from "./mapping";
+import type { MappingProfile } from "./profiles";
+import type { CsvRecord } from "./schema";
+import { validateCsv, type ImportReport } from "./validation";
+
+// Mantém as linhas vazias: elas são descartadas na validação para que a
+// numeração das linhas no relatório bata com a do arquivo.
+export const opcoesPapa = (delimiter: CsvDelimiter): ParseConfig<CsvRecord> => ({
+  header: true,
+  skipEmptyLines: false,
+  delimiter,
+  transformHeader: (header) => header.trim(),
+});
+
+export const parseCsvFile = (
+  file: File,
+  delimiter: CsvDelimiter
+): Promise<ParseResult<CsvRecord>> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<CsvRecord>(file, {
+      ...opcoesPapa(delimiter),
+      complete: resolve,
+      error: reject,
+    });
+  });
+
+// Mesmo resultado de `parseCsvFile` para um texto já carregado
+export const parseCsvTexto = (
+  texto: string,
+  delimiter: CsvDelimiter = ""
+): ParseResult<CsvRecord> => Papa.parse<CsvRecord>(texto, opcoesPapa(delimiter));
+
+export const opcoesSugeridas = (
+  results: ParseResult<CsvRecord>,
+  delimiter: CsvDelimiter
+): ImportOptions => {
+  const mapping = suggestMapping(results.meta.fields ?? []);
+  return {
+    mapping,
+    decimal: detectDecimal(results.data, mapping.qtd_prevista_media),
+    delimiter,
+  };
+};
+
+// Próximo passo de um arquivo recém-lido: validar direto (perfil salvo ou
+// formato padrão) ou passar pelo assistente de mapeamento
+export type PreparoImportacao =
+  | { etapa: "validacao"; options: ImportOptions; report: ImportReport }
+  | { etapa: "mapeamento"; options: ImportOptions };
+
+export const prepararImportacao = (
+  results: ParseResult<CsvRecord>,
+  fileName: string,
+  perfil: MappingProfile | null
+): PreparoImportacao => {
+  if (perfil) {
+    return {
+      etapa: "validacao",
+      options: perfil.options,
+      report: validateCsv(results, fileName, perfil.options, perfil.nome),
+    };
+  }
+  const options = opcoesSugeridas(results, "");
+  return isFormatoPadrao(results.meta.fields ?? [], options.mapping)
+    ? { etapa: "validacao", options, report: validateCsv(results, fileName, options) }
+    : { etapa: "mapeamento", options };
+};
+
+// O que fazer com o arquivo depois de lido: seguir pelo perfil salvo ou pelo
+// formato padrão (arquivo novo), voltar ao assistente com outro separador ou
+// validar com o mapeamento escolhido no assistente
+export type EtapaLeitura =
+  | { etapa: "automatica"; perfis: MappingProfile[] }
+  | { etapa: "mapeamento"; delimiter: CsvDelimiter }
+  | { etapa: "validacao"; options: ImportOptions };
+
+// Cabeçalho e primeiras linhas, o que o assistente de mapeamento mostra
+export interface ResumoLeitura {
+  colunas: string[];
+  amostra: CsvRecord[];
+  delimitadorDetectado: string;
+}
+
+export interface LeituraImportacao {
+  resumo: ResumoLeitura;
+  preparo: PreparoImportacao;
+  // Índice por dia das linhas aceitas, montado junto com a validação; nulo
+  // quando o arquivo ainda vai para o assistente
+  indice: IndiceDias | null;
+}
+
+export const delimitadorDaLeitura = (pedido: EtapaLeitura): CsvDelimiter =>
+  pedido.etapa === "mapeamento"
+    ? pedido.delimiter
+    : pedido.etapa === "validacao"
+      ? pedido.options.delimiter
+      : "";
+
+// Próximo passo conforme o pedido: sugestão para o assistente, validação com
+// o mapeamento escolhido ou o caminho automático de `prepararImportacao`
+const prepararEtapa = (
+  results: ParseResult<CsvRecord>,
+  fileName: string,
+  pedido: EtapaLeitura
+): PreparoImportacao => {
+  if (pedido.etapa === "mapeamento") {
+    return { etapa: "mapeamento", options: opcoesSugeridas(results, pedido.delimiter) };
+  }
+  if (pedido.etapa === "validacao") {
+    return {
+      etapa: "validacao",
+      options: pedido.options,
+      report: validateCsv(results, fileName, pedido.options),
+    };
+  }
+  const assinatura = assinaturaColunas(results.meta.fields ?? []);
+  const perfil = pedido.perfis.find((p) => p.assinatura === assinatura) ?? null;
+  return prepararImportacao(results, fileName, perfil);
+};
+
+// Tudo o que a interface precisa do arquivo lido; as linhas brutas ficam onde
+// a leitura foi feita (no worker, em arquivos grandes)
+export const prepararLeitura = (
+  results: ParseResult<CsvRecord>,
+  fileName: string,
+  pedido: EtapaLeitura
+): LeituraImportacao => {
+  const preparo = prepararEtapa(results, fileName, pedido);
+  return {
+    resumo: {
+      colunas: results.meta.fields ?? [],
+      amostra: results.data.slice(0, 5),
+      delimitadorDetectado: results.meta.delimiter,
+    },
+    preparo,
+    indice: preparo.etapa === "validacao" ? indexarPorDia(preparo.report.aceitas) : null,
+  };
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  comOriginal,
+  diasOrdenados,
+  filtrarPorNivel,
+  indexarPorDia,
+  nomeParaArquivo,
+  nomesPratos,
+  pratosDoDia,
+  quantidadesPorCategoria,
+  removidosNoDia,
+  resumirNiveis,
+} from "./dashboard";
+import type { Row } from "./schema";
+import type { Cenario, DeltaCenario } from "./scenarios";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  data = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data,
+  unidade: "",
+});
+
+const rows: Row[] = [
+  linha("Salada", "segunda", 12, "baixo"),
+  linha("Feijoada", "sábado", 45.5, "alto"),
+  linha("Arroz", "segunda", 30, "médio"),
+  linha("Feijoada", "segunda", 20),
+];
+
+describe("diasOrdenados", () => {
+  it("segue a ordem da semana", () => {
+    expect(diasOrdenados(rows)).toEqual(["segunda", "sábado"]);
+  });
+
+  it("coloca datas em ordem cronológica", () => {
+    const comDatas = [
+      linha("Salada", "quarta", 1, "", "2025-03-05"),
+      linha("Salada", "segunda", 1, "", "2025-03-03"),
+    ];
+    expect(diasOrdenados(comDatas)).toEqual(["2025-03-03", "2025-03-05"]);
+  });
+
+  it("retorna vazio sem linhas", () => {
+    expect(diasOrdenados([])).toEqual([]);
+  });
+});
+
+describe("indexarPorDia", () => {
+  it("guarda as posições das linhas de cada dia, com os dias ordenados", () => {
+    expect(indexarPorDia(rows)).toEqual({
+      dias: ["segunda", "sábado"],
+      linhas: { segunda: [0, 2, 3], sábado: [1] },
+    });
+  });
+});
+
+describe("pratosDoDia", () => {
+  it("filtra o dia e ordena do maior para o menor volume", () => {
+    expect(pratosDoDia(rows, "segunda").map((r) => r.prato)).toEqual([
+      "Arroz",
+      "Feijoada",
+      "Salada",
+    ]);
+  });
+
+  it("retorna vazio para dia sem previsões ou sem dia selecionado", () => {
+    expect(pratosDoDia(rows, "terça")).toEqual([]);
+    expect(pratosDoDia(rows, "")).toEqual([]);
+    expect(pratosDoDia(rows, "terça", indexarPorDia(rows))).toEqual([]);
+  });
+
+  it("dá o mesmo resultado usando o índice", () => {
+    expect(pratosDoDia(rows, "segunda", indexarPorDia(rows))).toEqual(
+      pratosDoDia(rows, "segunda")
+    );
+  });
+});
+
+describe("nomesPratos", () => {
+  it("lista os pratos sem repetição, em ordem alfabética", () => {
+    expect(nomesPratos(rows)).toEqual(["Arroz", "Feijoada", "Salada"]);
+  });
+});
+
+describe("filtrarPorNivel", () => {
+  it("mantém tudo sem filtro e compara pelo nível não definido", () => {
+    expect(filtrarPorNivel(rows, null, (r) => r)).toHaveLength(4);
+    expect(
+      filtrarPorNivel(rows, "não definido", (r) => r).map((r) => r.dia_semana)
+    ).toEqual(["segunda"]);
+  });
+});
+
+describe("resumirNiveis", () => {
+  it("conta combinações e soma porções na ordem dos níveis", () => {
+    expect(resumirNiveis(rows)).toEqual([
+      { nivel: "baixo", quantidade: 1, porcoes: 12 },
+      { nivel: "médio", quantidade: 1, porcoes: 30 },
+      { nivel: "alto", quantidade: 1, porcoes: 45.5 },
+      { nivel: "não definido", quantidade: 1, porcoes: 20 },
+    ]);
+  });
+
+  it("retorna vazio para um dia sem pratos", () => {
+    expect(resumirNiveis(pratosDoDia(rows, "domingo"))).toEqual([]);
+  });
+});
+
+describe("quantidadesPorCategoria", () => {
+  it("soma por categoria do catálogo e agrupa o resto em sem categoria", () => {
+    const catalogo = [
+      { prato: "Feijoada", categoria: "proteína", custo: 10, preco: 30 },
+      { prato: "Arroz", categoria: "acompanhamento", custo: 1, preco: 5 },
+    ];
+    expect(quantidadesPorCategoria(rows, catalogo)).toEqual([
+      { prato: "proteína", qtd_prevista_media: 65.5, qtd_original: 0 },
+      { prato: "acompanhamento", qtd_prevista_media: 30, qtd_original: 0 },
+      { prato: "sem categoria", qtd_prevista_media: 12, qtd_original: 0 },
+    ]);
+  });
+});
+
+describe("comOriginal", () => {
+  it("anexa a previsão original só com cenário ativo", () => {
+    const deltas = new Map<string, DeltaCenario>([
+      ["Salada|segunda", { original: 10, delta: 2 }],
+    ]);
+    expect(comOriginal(rows, null)).toBe(rows);
+    const resultado = comOriginal(rows, deltas);
+    expect(resultado[0].qtd_original).toBe(10);
+    expect(resultado[1].qtd_original).toBe(0);
+  });
+});
+
+describe("removidosNoDia", () => {
+  it("lista os pratos do dia retirados pelo cenário", () => {
+    const cenario: Cenario = {
+      id: "c1",
+      nome: "Sem feijoada",
+      ajustes: [],
+      adicionados: [],
+      removidos: ["Feijoada"],
+    };
+    expect(removidosNoDia(rows, cenario, "segunda")).toEqual([rows[3]]);
+    expect(removidosNoDia(rows, null, "segunda")).toEqual([]);
+  });
+});
+
+describe("nomeParaArquivo", () => {
+  it("tira a extensão e caracteres proibidos", () => {
+    expect(nomeParaArquivo("semana 10/03.csv")).toBe("semana 10_03");
+  });
+});
@@ -0,0 +1,155 @@
+import { chaveDia, compararDias } from "./calendar";
+import {
+  CATEGORIAS_PRATO,
+  SEM_CATEGORIA,
+  categoriaDe,
+  indexarCatalogo,
+  type CatalogoItem,
+} from "./catalog";
+import { chaveLinha, type Cenario, type DeltaCenario } from "./scenarios";
+import {
+  NIVEIS_MOVIMENTO,
+  NIVEL_NAO_DEFINIDO,
+  type ChartDataItem,
+  type Row,
+} from "./schema";
+
+// Agregações da tela de previsão (dia selecionado, níveis e categorias)
+
+export interface ResumoNivel extends ChartDataItem {
+  nivel: string;
+  // Combinações prato + dia com o nível
+  quantidade: number;
+  porcoes: number;
+}
+
+export interface TotalCategoriaDia extends ChartDataItem {
+  // Nome da categoria; o campo se chama `prato` para o gráfico ser o mesmo
+  prato: string;
+  qtd_prevista_media: number;
+  qtd_original: number;
+}
+
+// Posições das linhas de cada dia, para não percorrer o arquivo inteiro a
+// cada troca de dia.
+export interface IndiceDias {
+  // Dias (da semana ou datas) presentes nas linhas, já ordenados
+  dias: string[];
+  linhas: Record<string, number[]>;
+}
+
+export const nivelDe = (row: Row) => row.nivel_movimento_prato || NIVEL_NAO_DEFINIDO;
+
+// Dias (da semana ou datas) presentes nas linhas, já ordenados
+export const diasOrdenados = (rows: Row[]) =>
+  Array.from(new Set(rows.map(chaveDia))).sort(compararDias);
+
+export const nomesPratos = (rows: Row[], locale = "pt-BR") =>
+  Array.from(new Set(rows.map((r) => r.prato))).sort((a, b) =>
+    a.localeCompare(b, locale)
+  );
+
+export const indexarPorDia = (rows: Row[]): IndiceDias => {
+  const linhas: Record<string, number[]> = {};
+  rows.forEach((r, index) => {
+    const dia = chaveDia(r);
+    const indices = linhas[dia] ?? [];
+    indices.push(index);
+    linhas[dia] = indices;
+  });
+  return { dias: Object.keys(linhas).sort(compararDias), linhas };
+};
+
+// Pratos do dia, do maior para o menor volume previsto. Com o índice das
+// mesmas linhas, só as do dia são visitadas.
+export const pratosDoDia = (rows: Row[], dia: string, indice?: IndiceDias) => {
+  if (!dia) return [];
+  const doDia = indice
+    ? (indice.linhas[dia] ?? []).map((i) => rows[i])
+    : rows.filter((r) => chaveDia(r) === dia);
+  return doDia.sort((a, b) => b.qtd_prevista_media - a.qtd_prevista_media);
+};
+
+export const filtrarPorNivel = <T>(
+  itens: T[],
+  nivel: string | null,
+  rowDe: (item: T) => Row
+) => (nivel ? itens.filter((item) => nivelDe(rowDe(item)) === nivel) : itens);
+
+// Com cenário ativo, cada linha leva a previsão original para comparação
+export const comOriginal = (
+  rows: Row[],
+  deltas: Map<string, DeltaCenario> | null
+): Row[] =>
+  deltas
+    ? rows.map((r) => ({
+        ...r,
+        qtd_original: deltas.get(chaveLinha(r))?.original ?? 0,
+      }))
+    : rows;
+
+// Soma as linhas por categoria do catálogo, na ordem das categorias
+export const quantidadesPorCategoria = (
+  rows: Row[],
+  catalogo: CatalogoItem[]
+): TotalCategoriaDia[] => {
+  const porPrato = indexarCatalogo(catalogo);
+  const totais = new Map<string, TotalCategoriaDia>();
+  rows.forEach((r) => {
+    const categoria = categoriaDe(porPrato, r.prato);
+    const item = totais.get(categoria) ?? {
+      prato: categoria,
+      qtd_prevista_media: 0,
+      qtd_original: 0,
+    };
+    item.qtd_prevista_media += r.qtd_prevista_media;
+    item.qtd_original += Number(r.qtd_original ?? 0);
+    totais.set(categoria, item);
+  });
+  const ordem = [...CATEGORIAS_PRATO, SEM_CATEGORIA];
+  return Array.from(totais.values())
+    .sort((a, b) => ordem.indexOf(a.prato) - ordem.indexOf(b.prato))
+    .map((item) => ({
+      ...item,
+      qtd_prevista_media: Number(item.qtd_prevista_media.toFixed(3)),
+      qtd_original: Number(item.qtd_original.toFixed(3)),
+    }));
+};
+
+// Contagem de combinações e soma de porções por nível de movimento
+export const resumirNiveis = (rows: Row[]): ResumoNivel[] => {
+  const contagem: Record<string, number> = {};
+  const porcoes: Record<string, number> = {};
+
+  rows.forEach((r) => {
+    const nivel = nivelDe(r);
+    contagem[nivel] = (contagem[nivel] || 0) + 1;
+    porcoes[nivel] = (porcoes[nivel] || 0) + r.qtd_prevista_media;
+  });
+
+  const ordem = [...NIVEIS_MOVIMENTO, NIVEL_NAO_DEFINIDO];
+
+  return Object.entries(contagem)
+    .map(([nivel, quantidade]) => ({
+      nivel,
+      quantidade,
+      porcoes: Number(porcoes[nivel].toFixed(3)),
+    }))
+    .sort((a, b) => ordem.indexOf(a.nivel) - ordem.indexOf(b.nivel));
+};
+
+// Pratos do dia que o cenário tirou do cardápio
+export const removidosNoDia = (
+  rows: Row[],
+  cenario: Cenario | null,
+  dia: string
+) =>
+  cenario
+    ? rows.filter(
+        (r) => chaveDia(r) === dia && cenario.removidos.includes(r.prato)
+      )
+    : [];
+
+// Nome base dos arquivos exportados, sem caracteres proibidos em nomes de arquivo
+export const nomeParaArquivo = (nome: string) =>
+  nome.replace(/\.csv$/i, "").replace(/[\\/:*?"<>|]+/g, "_");
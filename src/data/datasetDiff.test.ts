@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  compararDatasets,
+  maioresVariacoes,
+  ordenarDiff,
+  resumirDiff,
+} from "./datasetDiff";
+import type { Row } from "./schema";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  data = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data,
+  unidade: "",
+});
+
+const anterior: Row[] = [
+  linha("Feijoada", "sábado", 40, "médio"),
+  linha("Salada", "segunda", 10, "baixo"),
+  linha("Moqueca", "sexta", 20, "alto"),
+  linha("Arroz", "segunda", 30, "alto"),
+];
+const atual: Row[] = [
+  linha("Feijoada", "sábado", 50, "alto"),
+  linha("Salada", "segunda", 7, "baixo"),
+  linha("Arroz", "segunda", 30, "alto"),
+  linha("Escondidinho", "segunda", 12),
+];
+
+describe("compararDatasets", () => {
+  const diff = compararDatasets(anterior, atual);
+  const de = (prato: string) => diff.find((l) => l.prato === prato)!;
+
+  it("calcula variações absolutas e percentuais", () => {
+    expect(de("Feijoada")).toMatchObject({
+      anterior: 40,
+      atual: 50,
+      delta: 10,
+      deltaPct: 25,
+      nivelAnterior: "médio",
+      nivelAtual: "alto",
+      tipo: "alterado",
+    });
+    expect(de("Arroz").tipo).toBe("igual");
+  });
+
+  it("identifica pratos novos e retirados", () => {
+    expect(de("Escondidinho")).toMatchObject({
+      anterior: null,
+      delta: 12,
+      deltaPct: null,
+      tipo: "adicionado",
+    });
+    expect(de("Moqueca")).toMatchObject({ atual: null, delta: -20, tipo: "removido" });
+  });
+
+  it("usa a média das datas do mesmo dia da semana", () => {
+    const comDatas = [
+      linha("Salada", "segunda", 8, "", "2025-03-03"),
+      linha("Salada", "segunda", 12, "", "2025-03-10"),
+    ];
+    expect(compararDatasets(anterior, comDatas)[1]).toMatchObject({
+      prato: "Salada",
+      atual: 10,
+      tipo: "igual",
+    });
+  });
+
+  it("resume as mudanças", () => {
+    expect(resumirDiff(diff)).toEqual({
+      adicionados: 1,
+      removidos: 1,
+      alterados: 2,
+      mudancasNivel: 1,
+      totalAnterior: 100,
+      totalAtual: 99,
+    });
+  });
+});
+
+describe("ordenarDiff", () => {
+  const diff = compararDatasets(anterior, atual);
+
+  it("ordena pelo tamanho da variação", () => {
+    expect(
+      ordenarDiff(diff, { coluna: "impacto", desc: true }).map((l) => l.prato)
+    ).toEqual(["Moqueca", "Escondidinho", "Feijoada", "Salada", "Arroz"]);
+  });
+
+  it("deixa pratos sem variação percentual no fim", () => {
+    const porPct = ordenarDiff(diff, { coluna: "deltaPct", desc: false });
+    expect(porPct.map((l) => l.prato)).toEqual([
+      "Moqueca",
+      "Salada",
+      "Arroz",
+      "Feijoada",
+      "Escondidinho",
+    ]);
+  });
+});
+
+describe("maioresVariacoes", () => {
+  it("mostra só o dia, da maior alta para a maior queda", () => {
+    const diff = compararDatasets(anterior, atual);
+    expect(maioresVariacoes(diff, "segunda", 10).map((l) => l.delta)).toEqual([12, -3]);
+    expect(maioresVariacoes(diff, "segunda", 1).map((l) => l.prato)).toEqual([
+      "Escondidinho",
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { weekIndexes, type Row } from "./schema";
+
+// Diferença entre duas rodadas da previsão (ex.: o CSV desta semana e o da
+// anterior), por prato + dia da semana
+
+export type TipoMudanca = "adicionado" | "removido" | "alterado" | "igual";
+
+export interface DiffLinha {
+  prato: string;
+  dia_semana: string;
+  // null = prato fora do cardápio naquele dia na rodada
+  anterior: number | null;
+  atual: number | null;
+  // atual - anterior, contando o prato ausente como zero
+  delta: number;
+  // Em %, sobre a rodada anterior; null para pratos novos ou que tinham zero
+  deltaPct: number | null;
+  // "" = não definido no arquivo
+  nivelAnterior: string;
+  nivelAtual: string;
+  tipo: TipoMudanca;
+}
+
+export interface ResumoDiff {
+  adicionados: number;
+  removidos: number;
+  alterados: number;
+  // Pratos presentes nas duas rodadas com nível de movimento diferente
+  mudancasNivel: number;
+  totalAnterior: number;
+  totalAtual: number;
+}
+
+// Coluna usada para ordenar a lista: "impacto" é a variação em módulo
+export type ColunaDiff = "impacto" | "delta" | "deltaPct" | "prato" | "dia";
+
+export interface OrdemDiff {
+  coluna: ColunaDiff;
+  desc: boolean;
+}
+
+export const ORDEM_DIFF_PADRAO: OrdemDiff = { coluna: "impacto", desc: true };
+
+interface Agregado {
+  prato: string;
+  dia_semana: string;
+  soma: number;
+  n: number;
+  nivel: string;
+}
+
+const arredondar = (valor: number) => Number(valor.toFixed(3));
+
+// Arquivos com datas podem ter o mesmo prato em várias segundas-feiras: vale a
+// média delas, e o nível só quando todas concordam
+const agregarPorDiaSemana = (rows: Row[]) => {
+  const mapa = new Map<string, Agregado>();
+  rows.forEach((r) => {
+    const chave = `${r.prato}|${r.dia_semana}`;
+    const atual = mapa.get(chave);
+    if (!atual) {
+      mapa.set(chave, {
+        prato: r.prato,
+        dia_semana: r.dia_semana,
+        soma: r.qtd_prevista_media,
+        n: 1,
+        nivel: r.nivel_movimento_prato,
+      });
+      return;
+    }
+    atual.soma += r.qtd_prevista_media;
+    atual.n += 1;
+    if (atual.nivel !== r.nivel_movimento_prato) atual.nivel = "";
+  });
+  return mapa;
+};
+
+const classificar = (anterior: number | null, atual: number | null): TipoMudanca =>
+  anterior === null
+    ? "adicionado"
+    : atual === null
+      ? "removido"
+      : anterior === atual
+        ? "igual"
+        : "alterado";
+
+export const compararDatasets = (anteriores: Row[], atuais: Row[]): DiffLinha[] => {
+  const antes = agregarPorDiaSemana(anteriores);
+  const depois = agregarPorDiaSemana(atuais);
+  const chaves = new Set([...antes.keys(), ...depois.keys()]);
+
+  return Array.from(chaves, (chave) => {
+    const a = antes.get(chave);
+    const d = depois.get(chave);
+    const anterior = a ? arredondar(a.soma / a.n) : null;
+    const atual = d ? arredondar(d.soma / d.n) : null;
+    const delta = arredondar((atual ?? 0) - (anterior ?? 0));
+    return {
+      prato: (a ?? d)!.prato,
+      dia_semana: (a ?? d)!.dia_semana,
+      anterior,
+      atual,
+      delta,
+      deltaPct: anterior ? Number(((delta / anterior) * 100).toFixed(1)) : null,
+      nivelAnterior: a?.nivel ?? "",
+      nivelAtual: d?.nivel ?? "",
+      tipo: classificar(anterior, atual),
+    };
+  });
+};
+
+export const mudouNivel = (linha: DiffLinha) =>
+  linha.anterior !== null &&
+  linha.atual !== null &&
+  linha.nivelAnterior !== linha.nivelAtual;
+
+export const resumirDiff = (diff: DiffLinha[]): ResumoDiff => ({
+  adicionados: diff.filter((l) => l.tipo === "adicionado").length,
+  removidos: diff.filter((l) => l.tipo === "removido").length,
+  alterados: diff.filter((l) => l.tipo === "alterado").length,
+  mudancasNivel: diff.filter(mudouNivel).length,
+  totalAnterior: arredondar(diff.reduce((s, l) => s + (l.anterior ?? 0), 0)),
+  totalAtual: arredondar(diff.reduce((s, l) => s + (l.atual ?? 0), 0)),
+});
+
+const compararPrato = (a: DiffLinha, b: DiffLinha) =>
+  a.prato.localeCompare(b.prato, "pt-BR") ||
+  weekIndexes[a.dia_semana] - weekIndexes[b.dia_semana];
+
+export const ordenarDiff = (diff: DiffLinha[], ordem: OrdemDiff): DiffLinha[] => {
+  const sinal = ordem.desc ? -1 : 1;
+  // Pratos novos não têm variação percentual: ficam sempre no fim
+  const pct = (l: DiffLinha) =>
+    l.deltaPct ?? (ordem.desc ? -Infinity : Infinity);
+  const valor: Record<ColunaDiff, ((l: DiffLinha) => number) | null> = {
+    impacto: (l) => Math.abs(l.delta),
+    delta: (l) => l.delta,
+    deltaPct: pct,
+    dia: (l) => weekIndexes[l.dia_semana],
+    prato: null,
+  };
+  const chave = valor[ordem.coluna];
+  return [...diff].sort((a, b) => {
+    if (!chave) return sinal * compararPrato(a, b);
+    const diferenca = chave(a) - chave(b);
+    return (diferenca ? sinal * diferenca : 0) || compararPrato(a, b);
+  });
+};
+
+// Pratos do dia com maior variação, da maior alta para a maior queda
+// (gráfico de barras divergentes)
+export const maioresVariacoes = (diff: DiffLinha[], dia: string, limite: number) =>
+  ordenarDiff(
+    diff.filter((l) => l.dia_semana === dia && l.delta !== 0),
+    ORDEM_DIFF_PADRAO
+  )
+    .slice(0, limite)
+    .sort((a, b) => b.delta - a.delta);
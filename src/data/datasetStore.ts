@@ -0,0 +1,136 @@
+import type { Row, VendaRow } from "./schema";
+
+// Biblioteca local de arquivos importados (IndexedDB). Os metadados ficam
+// separados das linhas para que a listagem não precise carregar tudo.
+
+export interface DatasetMeta {
+  id: string;
+  nome: string;
+  fileName: string;
+  criadoEm: string;
+  quantidadeLinhas: number;
+  // O arquivo trazia também a quantidade vendida (previsto x realizado)
+  temVendas?: boolean;
+}
+
+export interface DatasetData {
+  rows: Row[];
+  vendas: VendaRow[];
+}
+
+interface DatasetRows extends Partial<DatasetData> {
+  id: string;
+}
+
+const DB_NAME = "sabor-em-dados";
+const DB_VERSION = 1;
+const STORE_META = "datasets";
+const STORE_ROWS = "dataset-rows";
+const ULTIMO_DATASET_KEY = "sabor-em-dados:ultimo-dataset";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_META)) {
+          db.createObjectStore(STORE_META, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(STORE_ROWS)) {
+          db.createObjectStore(STORE_ROWS, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const listDatasets = async (): Promise<DatasetMeta[]> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_META).objectStore(STORE_META);
+  const datasets = await requestToPromise<DatasetMeta[]>(store.getAll());
+  return datasets.sort((a, b) => b.criadoEm.localeCompare(a.criadoEm));
+};
+
+export const getDatasetData = async (
+  id: string
+): Promise<DatasetData | null> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_ROWS).objectStore(STORE_ROWS);
+  const salvo = await requestToPromise<DatasetRows | undefined>(store.get(id));
+  if (!salvo?.rows) return null;
+  return { rows: salvo.rows, vendas: salvo.vendas ?? [] };
+};
+
+export const saveDataset = async (
+  nome: string,
+  fileName: string,
+  { rows, vendas }: DatasetData
+): Promise<DatasetMeta> => {
+  const meta: DatasetMeta = {
+    id: crypto.randomUUID(),
+    nome,
+    fileName,
+    criadoEm: new Date().toISOString(),
+    quantidadeLinhas: rows.length,
+    temVendas: vendas.length > 0,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([STORE_META, STORE_ROWS], "readwrite");
+  tx.objectStore(STORE_META).put(meta);
+  tx.objectStore(STORE_ROWS).put({
+    id: meta.id,
+    rows,
+    vendas,
+  } satisfies DatasetRows);
+  await transactionDone(tx);
+  return meta;
+};
+
+export const renameDataset = async (id: string, nome: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_META, "readwrite");
+  const store = tx.objectStore(STORE_META);
+  const meta = await requestToPromise<DatasetMeta | undefined>(store.get(id));
+  if (meta) store.put({ ...meta, nome });
+  await transactionDone(tx);
+};
+
+export const deleteDataset = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([STORE_META, STORE_ROWS], "readwrite");
+  tx.objectStore(STORE_META).delete(id);
+  tx.objectStore(STORE_ROWS).delete(id);
+  await transactionDone(tx);
+  if (getLastDatasetId() === id) setLastDatasetId(null);
+};
+
+// O último arquivo aberto é restaurado ao recarregar a página
+export const getLastDatasetId = () => localStorage.getItem(ULTIMO_DATASET_KEY);
+
+export const setLastDatasetId = (id: string | null) => {
+  if (id) localStorage.setItem(ULTIMO_DATASET_KEY, id);
+  else localStorage.removeItem(ULTIMO_DATASET_KEY);
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  CONFIG_GRAFICO_PRATOS_PADRAO,
+  montarGraficoPratos,
+  type ConfigGraficoPratos,
+  type ItemGraficoPratos,
+} from "./dishChart";
+
+const item = (
+  prato: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = ""
+): ItemGraficoPratos => ({ prato, qtd_prevista_media, nivel_movimento_prato });
+
+const itens = [
+  item("Salada", 12, "baixo"),
+  item("Feijoada", 45, "alto"),
+  item("Arroz", 30, "médio"),
+  item("Bife", 20, "alto"),
+];
+
+const montar = (config: Partial<ConfigGraficoPratos>) =>
+  montarGraficoPratos(
+    itens,
+    { ...CONFIG_GRAFICO_PRATOS_PADRAO, ...config },
+    "Outros",
+    "pt-BR"
+  );
+
+describe("montarGraficoPratos", () => {
+  it("mantém todos os pratos quando cabem no top", () => {
+    expect(montar({}).map((i) => i.prato)).toEqual([
+      "Feijoada",
+      "Arroz",
+      "Bife",
+      "Salada",
+    ]);
+  });
+
+  it("soma o que passa do top em Outros", () => {
+    expect(montar({ top: 2 })).toEqual([
+      item("Feijoada", 45, "alto"),
+      item("Arroz", 30, "médio"),
+      item("Outros", 32),
+    ]);
+  });
+
+  it("escolhe o top pela quantidade antes de ordenar por nome ou nível", () => {
+    expect(montar({ top: 3, ordem: "nome" }).map((i) => i.prato)).toEqual([
+      "Arroz",
+      "Bife",
+      "Feijoada",
+      "Outros",
+    ]);
+    expect(montar({ ordem: "nivel" }).map((i) => i.prato)).toEqual([
+      "Feijoada",
+      "Bife",
+      "Arroz",
+      "Salada",
+    ]);
+  });
+
+  it("restringe aos pratos selecionados e soma campos extras", () => {
+    const comOriginal = itens.map((i) => ({ ...i, qtd_original: 10 }));
+    const resultado = montarGraficoPratos(
+      comOriginal,
+      { ...CONFIG_GRAFICO_PRATOS_PADRAO, top: 1, selecionados: ["Salada", "Bife"] },
+      "Outros",
+      "pt-BR"
+    );
+    expect(resultado.map((i) => [i.prato, i.qtd_original])).toEqual([
+      ["Bife", 10],
+      ["Outros", 10],
+    ]);
+  });
+
+  it("retorna vazio para um dia sem pratos", () => {
+    expect(
+      montarGraficoPratos([], CONFIG_GRAFICO_PRATOS_PADRAO, "Outros", "pt-BR")
+    ).toEqual([]);
+  });
+});
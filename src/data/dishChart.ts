@@ -0,0 +1,88 @@
+import { NIVEIS_MOVIMENTO, type ChartDataItem } from "./schema";
+
+// Configuração do gráfico de pratos do dia (barras e pizza usam a mesma)
+
+export type OrdemPratos = "quantidade" | "nome" | "nivel";
+
+// "vertical" = colunas; "horizontal" = barras deitadas, melhor para nomes longos
+export type OrientacaoBarras = "vertical" | "horizontal";
+
+export interface ConfigGraficoPratos {
+  // Quantos pratos aparecem antes do grupo "Outros pratos"; 0 = todos
+  top: number;
+  ordem: OrdemPratos;
+  orientacao: OrientacaoBarras;
+  // Pratos escolhidos na busca; vazio = todos os pratos do dia
+  selecionados: string[];
+}
+
+export interface ItemGraficoPratos extends ChartDataItem {
+  prato: string;
+  qtd_prevista_media: number;
+  nivel_movimento_prato: string;
+}
+
+export const OPCOES_TOP_PRATOS = [5, 10, 15, 20, 30, 0];
+
+export const ORDENS_PRATOS: OrdemPratos[] = ["quantidade", "nome", "nivel"];
+
+export const ORIENTACOES: OrientacaoBarras[] = ["vertical", "horizontal"];
+
+export const CONFIG_GRAFICO_PRATOS_PADRAO: ConfigGraficoPratos = {
+  top: 10,
+  ordem: "quantidade",
+  orientacao: "vertical",
+  selecionados: [],
+};
+
+// Alto primeiro; sem nível por último
+const pesoNivel = (nivel: string) => {
+  const indice = NIVEIS_MOVIMENTO.indexOf(nivel);
+  return indice === -1 ? -1 : indice;
+};
+
+const comparadores: Record<
+  OrdemPratos,
+  (locale: string) => (a: ItemGraficoPratos, b: ItemGraficoPratos) => number
+> = {
+  quantidade: () => (a, b) => b.qtd_prevista_media - a.qtd_prevista_media,
+  nome: (locale) => (a, b) => a.prato.localeCompare(b.prato, locale),
+  nivel: () => (a, b) =>
+    pesoNivel(b.nivel_movimento_prato) - pesoNivel(a.nivel_movimento_prato) ||
+    b.qtd_prevista_media - a.qtd_prevista_media,
+};
+
+// Os N pratos de maior quantidade (entre os selecionados, se houver), na
+// ordem escolhida, e o resto somado em um item final `rotuloOutros`.
+// Campos numéricos extras (ex.: `qtd_original` do cenário) também são somados.
+export const montarGraficoPratos = <T extends ItemGraficoPratos>(
+  itens: T[],
+  config: ConfigGraficoPratos,
+  rotuloOutros: string,
+  locale: string
+): ItemGraficoPratos[] => {
+  const base =
+    config.selecionados.length > 0
+      ? itens.filter((i) => config.selecionados.includes(i.prato))
+      : itens;
+  const porQuantidade = base.slice().sort(comparadores.quantidade(locale));
+  const limite = config.top > 0 ? config.top : porQuantidade.length;
+  const principais = porQuantidade
+    .slice(0, limite)
+    .sort(comparadores[config.ordem](locale));
+  const resto = porQuantidade.slice(limite);
+  if (resto.length === 0) return principais;
+
+  const outros: ItemGraficoPratos = {
+    prato: rotuloOutros,
+    qtd_prevista_media: 0,
+    nivel_movimento_prato: "",
+  };
+  resto.forEach((item) =>
+    Object.entries(item).forEach(([campo, valor]) => {
+      if (typeof valor !== "number") return;
+      outros[campo] = Number(((Number(outros[campo]) || 0) + valor).toFixed(3));
+    })
+  );
+  return [...principais, outros];
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  LIMIAR_SIMILARIDADE,
+  adicionarAliases,
+  chaveNome,
+  normalizarPratos,
+  similaridade,
+  sugerirMesclas,
+} from "./dishNames";
+import type { Row, VendaRow } from "./schema";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  unidade = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato: "",
+  data: "",
+  unidade,
+});
+
+const venda = (prato: string, dia_semana: string, qtd_vendida: number): VendaRow => ({
+  prato,
+  dia_semana,
+  qtd_vendida,
+});
+
+describe("similaridade", () => {
+  it("ignora maiúsculas, acentos e espaços repetidos", () => {
+    expect(chaveNome("  Feijão   Tropeiro ")).toBe("feijao tropeiro");
+    expect(similaridade("Feijão Tropeiro", "feijao  tropeiro")).toBe(1);
+  });
+
+  it("mede a distância de edição sobre o nome mais longo", () => {
+    // Uma letra de diferença em 10
+    expect(similaridade("Strogonoff", "Estrogonof")).toBeCloseTo(0.8);
+    expect(similaridade("Arroz", "Feijão")).toBeLessThan(0.2);
+    expect(similaridade("", "")).toBe(1);
+  });
+});
+
+describe("sugerirMesclas", () => {
+  const rows = (...pratos: string[]) => pratos.map((p) => linha(p, "segunda", 1));
+
+  it("sugere nomes no limiar e ignora os que ficam logo abaixo", () => {
+    // 1 edição em 5 letras = 0,8 (no limiar); 1 em 4 = 0,75 (abaixo)
+    expect(similaridade("Pudim", "Pudin")).toBe(LIMIAR_SIMILARIDADE);
+    expect(similaridade("Bolo", "Bola")).toBeLessThan(LIMIAR_SIMILARIDADE);
+    expect(sugerirMesclas(rows("Pudim", "Pudim", "Pudin", "Bolo", "Bola"))).toEqual([
+      { canonico: "Pudim", variantes: ["Pudin"] },
+    ]);
+  });
+
+  it("o nome com mais linhas é o canônico e cada nome entra num só grupo", () => {
+    // "Moquecas" fica a 0,75 de "Moqueka"; perto de "Moqueca", que já foi
+    // agrupada, não abre um segundo grupo
+    expect(
+      sugerirMesclas(rows("Moqueca", "Moqueka", "Moqueka", "Moquecas", "Arroz"))
+    ).toEqual([{ canonico: "Moqueka", variantes: ["Moqueca"] }]);
+  });
+
+  it("aceita um limiar mais rígido", () => {
+    expect(sugerirMesclas(rows("Pudim", "Pudin"), 0.9)).toEqual([]);
+  });
+});
+
+describe("normalizarPratos", () => {
+  it("unifica grafias pela mais frequente e soma as linhas do mesmo dia", () => {
+    const { rows, renomeados } = normalizarPratos(
+      [
+        linha("Arroz Branco", "segunda", 10),
+        linha("arroz  branco", "segunda", 2.5),
+        linha("Arroz Branco", "terça", 8),
+      ],
+      [],
+      {}
+    );
+    expect(rows.map((r) => [r.prato, r.dia_semana, r.qtd_prevista_media])).toEqual([
+      ["Arroz Branco", "segunda", 12.5],
+      ["Arroz Branco", "terça", 8],
+    ]);
+    expect(renomeados).toEqual([
+      { de: "arroz  branco", para: "Arroz Branco", origem: "normalizacao" },
+    ]);
+  });
+
+  it("aplica os apelidos salvos também às vendas", () => {
+    const aliases = adicionarAliases({}, [{ canonico: "Pudim", variantes: ["Pudin"] }]);
+    expect(aliases).toEqual({ pudin: "Pudim" });
+    const { rows, vendas, renomeados } = normalizarPratos(
+      [linha("Pudin", "segunda", 3)],
+      [venda("pudin", "segunda", 2), venda("Pudin", "segunda", 1)],
+      aliases
+    );
+    expect(rows[0].prato).toBe("Pudim");
+    expect(vendas).toEqual([venda("Pudim", "segunda", 3)]);
+    expect(renomeados.map((r) => [r.de, r.origem])).toEqual([
+      ["Pudin", "apelido"],
+      ["pudin", "apelido"],
+    ]);
+  });
+
+  it("mantém linhas de unidades diferentes separadas", () => {
+    const { rows } = normalizarPratos(
+      [
+        linha("Arroz", "segunda", 10, "Centro"),
+        linha("arroz", "segunda", 5, "Norte"),
+      ],
+      [],
+      {}
+    );
+    expect(rows.map((r) => [r.prato, r.unidade, r.qtd_prevista_media])).toEqual([
+      ["Arroz", "Centro", 10],
+      ["Arroz", "Norte", 5],
+    ]);
+  });
+});
+
+describe("adicionarAliases", () => {
+  it("apelidos antigos passam a apontar para o novo nome", () => {
+    expect(
+      adicionarAliases({ pudin: "Pudim" }, [{ canonico: "Pudim de leite", variantes: ["Pudim"] }])
+    ).toEqual({ pudin: "Pudim de leite", pudim: "Pudim de leite" });
+  });
+});
@@ -0,0 +1,207 @@
+import { chaveDia } from "./calendar";
+import type { Row, VendaRow } from "./schema";
+import { semAcentos } from "./texto";
+
+// Apelidos confirmados pelo usuário: chave normalizada do nome -> nome canônico
+export type AliasesPratos = Record<string, string>;
+
+export type OrigemRenomeacao = "normalizacao" | "apelido";
+
+export interface Renomeacao {
+  de: string;
+  para: string;
+  origem: OrigemRenomeacao;
+}
+
+export interface NormalizacaoPratos {
+  rows: Row[];
+  vendas: VendaRow[];
+  renomeados: Renomeacao[];
+}
+
+// Nomes parecidos que provavelmente são o mesmo prato
+export interface SugestaoMescla {
+  canonico: string;
+  variantes: string[];
+}
+
+const STORAGE_KEY = "sabor-em-dados:apelidos-pratos";
+
+// Similaridade mínima (0 a 1) para sugerir que dois nomes são o mesmo prato
+export const LIMIAR_SIMILARIDADE = 0.8;
+
+// "Arroz  Branco " e "arroz branco" viram "arroz branco"
+export const chaveNome = (nome: string) =>
+  semAcentos(nome.toLowerCase()).replace(/\s+/g, " ").trim();
+
+// Só arruma os espaços; maiúsculas e acentos do arquivo são mantidos
+export const limparNome = (nome: string) => nome.replace(/\s+/g, " ").trim();
+
+export const loadAliases = (): AliasesPratos => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as AliasesPratos) : {};
+  } catch (error) {
+    console.error("Erro ao ler apelidos de pratos:", error);
+    return {};
+  }
+};
+
+export const saveAliases = (aliases: AliasesPratos) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+};
+
+export const adicionarAliases = (
+  aliases: AliasesPratos,
+  mesclas: SugestaoMescla[]
+): AliasesPratos => {
+  const novos = { ...aliases };
+  mesclas.forEach(({ canonico, variantes }) => {
+    // Apelidos antigos que apontavam para uma das variantes seguem o novo nome
+    Object.keys(novos).forEach((chave) => {
+      if (variantes.includes(novos[chave])) novos[chave] = canonico;
+    });
+    variantes.forEach((v) => (novos[chaveNome(v)] = canonico));
+  });
+  return novos;
+};
+
+const levenshtein = (a: string, b: string) => {
+  let anterior = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const atual = [i];
+    for (let j = 1; j <= b.length; j++) {
+      atual[j] = Math.min(
+        anterior[j] + 1,
+        atual[j - 1] + 1,
+        anterior[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    anterior = atual;
+  }
+  return anterior[b.length];
+};
+
+// 1 = nomes iguais depois da normalização; 0 = nada em comum
+export const similaridade = (a: string, b: string) => {
+  const x = chaveNome(a);
+  const y = chaveNome(b);
+  const maior = Math.max(x.length, y.length);
+  return maior === 0 ? 1 : 1 - levenshtein(x, y) / maior;
+};
+
+// Para cada grupo de nomes com a mesma chave, fica a grafia mais frequente
+const escolherCanonicos = (nomes: string[], aliases: AliasesPratos) => {
+  const contagem = new Map<string, Map<string, number>>();
+  nomes.forEach((nome) => {
+    const limpo = limparNome(nome);
+    const grupo = contagem.get(chaveNome(limpo)) ?? new Map<string, number>();
+    grupo.set(limpo, (grupo.get(limpo) ?? 0) + 1);
+    contagem.set(chaveNome(limpo), grupo);
+  });
+
+  const canonicos = new Map<string, { nome: string; origem: OrigemRenomeacao }>();
+  contagem.forEach((grupo, chave) => {
+    const apelido = aliases[chave];
+    const maisFrequente = Array.from(grupo.entries()).sort(
+      (a, b) => b[1] - a[1]
+    )[0][0];
+    canonicos.set(
+      chave,
+      apelido
+        ? { nome: apelido, origem: "apelido" }
+        : { nome: maisFrequente, origem: "normalizacao" }
+    );
+  });
+  return canonicos;
+};
+
+// Unifica grafias do mesmo prato e aplica os apelidos salvos. Linhas que
+// passam a ter o mesmo prato e dia são somadas (a quantidade estava dividida).
+export const normalizarPratos = (
+  rows: Row[],
+  vendas: VendaRow[],
+  aliases: AliasesPratos
+): NormalizacaoPratos => {
+  const canonicos = escolherCanonicos(
+    [...rows, ...vendas].map((r) => r.prato),
+    aliases
+  );
+  const renomeados = new Map<string, Renomeacao>();
+  const renomear = (prato: string) => {
+    const canonico = canonicos.get(chaveNome(prato))!;
+    if (canonico.nome !== prato && !renomeados.has(prato)) {
+      renomeados.set(prato, { de: prato, para: canonico.nome, origem: canonico.origem });
+    }
+    return canonico.nome;
+  };
+
+  const porChave = new Map<string, Row>();
+  rows.forEach((r) => {
+    const prato = renomear(r.prato);
+    // Cada unidade mantém a sua linha do prato no dia
+    const chave = `${r.unidade ?? ""}|${prato}|${chaveDia(r)}`;
+    const existente = porChave.get(chave);
+    if (existente) {
+      existente.qtd_prevista_media = Number(
+        (existente.qtd_prevista_media + r.qtd_prevista_media).toFixed(3)
+      );
+      existente.nivel_movimento_prato =
+        existente.nivel_movimento_prato || r.nivel_movimento_prato;
+    } else {
+      porChave.set(chave, { ...r, prato });
+    }
+  });
+
+  const vendasPorChave = new Map<string, VendaRow>();
+  vendas.forEach((v) => {
+    const prato = renomear(v.prato);
+    const chave = `${v.unidade ?? ""}|${prato}|${v.data || v.dia_semana}`;
+    const existente = vendasPorChave.get(chave);
+    if (existente) {
+      existente.qtd_vendida = Number(
+        (existente.qtd_vendida + v.qtd_vendida).toFixed(3)
+      );
+    } else {
+      vendasPorChave.set(chave, { ...v, prato });
+    }
+  });
+
+  return {
+    rows: Array.from(porChave.values()),
+    vendas: Array.from(vendasPorChave.values()),
+    renomeados: Array.from(renomeados.values()),
+  };
+};
+
+// Agrupa nomes parecidos (já normalizados). O nome com mais linhas é o
+// canônico sugerido.
+export const sugerirMesclas = (
+  rows: Row[],
+  limiar = LIMIAR_SIMILARIDADE
+): SugestaoMescla[] => {
+  const contagem = new Map<string, number>();
+  rows.forEach((r) => contagem.set(r.prato, (contagem.get(r.prato) ?? 0) + 1));
+
+  const nomes = Array.from(contagem.keys()).sort(
+    (a, b) => contagem.get(b)! - contagem.get(a)! || a.localeCompare(b, "pt-BR")
+  );
+  const agrupados = new Set<string>();
+  const sugestoes: SugestaoMescla[] = [];
+
+  nomes.forEach((nome) => {
+    if (agrupados.has(nome)) return;
+    const variantes = nomes.filter(
+      (outro) =>
+        outro !== nome &&
+        !agrupados.has(outro) &&
+        similaridade(nome, outro) >= limiar
+    );
+    if (variantes.length === 0) return;
+    agrupados.add(nome);
+    variantes.forEach((v) => agrupados.add(v));
+    sugestoes.push({ canonico: nome, variantes });
+  });
+
+  return sugestoes;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvTexto } from "./csvImport";
+import {
+  FORECAST_PADRAO,
+  parseHistorico,
+  preverBaseline,
+  resumirHistorico,
+  type ForecastSettings,
+  type HistoricoVenda,
+} from "./forecasting";
+
+const venda = (data: string, prato: string, qtd_vendida: number): HistoricoVenda => ({
+  data,
+  prato,
+  qtd_vendida,
+});
+
+// Quatro segundas seguidas (2025-03-03 é uma segunda-feira)
+const segundas = ["2025-03-03", "2025-03-10", "2025-03-17", "2025-03-24"];
+const historico = [10, 20, 30, 40].map((qtd, i) => venda(segundas[i], "Arroz", qtd));
+
+const prever = (settings: Partial<ForecastSettings>, vendas = historico) =>
+  preverBaseline(vendas, { ...FORECAST_PADRAO, ...settings })[0].qtd_prevista_media;
+
+describe("parseHistorico", () => {
+  it("reconhece as colunas, soma vendas repetidas e ordena por data", () => {
+    const { historico, erros } = parseHistorico(
+      parseCsvTexto(
+        "date;dish;quantity\n10/03/2025;Arroz;3,5\n03/03/2025;Arroz;2\n10/03/2025;Arroz;1,5\n"
+      )
+    );
+    expect(erros).toEqual([]);
+    expect(historico).toEqual([
+      venda("2025-03-03", "Arroz", 2),
+      venda("2025-03-10", "Arroz", 5),
+    ]);
+  });
+
+  it("aponta as colunas obrigatórias ausentes sem ler as linhas", () => {
+    const { historico, erros } = parseHistorico(parseCsvTexto("data,prato\n2025-03-03,Arroz\n"));
+    expect(historico).toEqual([]);
+    expect(erros).toEqual([
+      { linha: null, coluna: "qtd_vendida", motivo: "colunaObrigatoria", severidade: "erro" },
+    ]);
+  });
+
+  it("ignora linhas inválidas com o motivo e pula linhas vazias", () => {
+    const { historico, erros } = parseHistorico(
+      parseCsvTexto(
+        "data,prato,qtd_vendida\n2025-13-40,Arroz,1\n2025-03-03,,1\n,,\n2025-03-03,Arroz,-2\n2025-03-03,Feijão,4\n"
+      )
+    );
+    expect(historico).toEqual([venda("2025-03-03", "Feijão", 4)]);
+    expect(erros.map((e) => [e.linha, e.motivo])).toEqual([
+      [2, "dataInvalida"],
+      [3, "pratoVazio"],
+      [5, "qtdVendidaInvalida"],
+    ]);
+  });
+});
+
+describe("resumirHistorico", () => {
+  it("conta registros e pratos e guarda o período", () => {
+    expect(resumirHistorico([...historico, venda("2025-03-25", "Feijão", 1)])).toEqual({
+      registros: 5,
+      pratos: 2,
+      inicio: "2025-03-03",
+      fim: "2025-03-25",
+    });
+  });
+
+  it("não tem período sem registros", () => {
+    expect(resumirHistorico([])).toEqual({ registros: 0, pratos: 0, inicio: null, fim: null });
+  });
+});
+
+describe("preverBaseline", () => {
+  it("tira a média das últimas semanas", () => {
+    expect(prever({ modelo: "media_movel", semanas: 2 })).toBe(35);
+    expect(prever({ modelo: "media_movel", semanas: 10 })).toBe(25);
+  });
+
+  it("usa a mediana das últimas semanas", () => {
+    const comPico = [10, 50, 20, 30].map((qtd, i) => venda(segundas[i], "Arroz", qtd));
+    expect(prever({ modelo: "mediana", semanas: 3 }, comPico)).toBe(30);
+    expect(prever({ modelo: "mediana", semanas: 4 }, comPico)).toBe(25);
+  });
+
+  it("pondera a semana mais recente na média exponencial", () => {
+    // 10 -> 15 -> 22,5 -> 31,25
+    expect(prever({ modelo: "ewma", alpha: 0.5 })).toBe(31.25);
+    expect(prever({ modelo: "ewma", alpha: 1 })).toBe(40);
+  });
+
+  it("separa por prato e dia da semana, na ordem da semana", () => {
+    const rows = preverBaseline(
+      [...historico, venda("2025-03-05", "Feijão", 8), venda("2025-03-04", "Arroz", 6)],
+      FORECAST_PADRAO
+    );
+    expect(rows.map((r) => [r.prato, r.dia_semana, r.qtd_prevista_media])).toEqual([
+      ["Arroz", "segunda", 25],
+      ["Arroz", "terça", 6],
+      ["Feijão", "quarta", 8],
+    ]);
+    expect(rows[0]).toMatchObject({ nivel_movimento_prato: "", data: "", unidade: "" });
+  });
+
+  it("não conta como venda zero as semanas sem registro do prato", () => {
+    const comFalta = [venda(segundas[0], "Arroz", 10), venda(segundas[3], "Arroz", 20)];
+    expect(prever({ modelo: "media_movel", semanas: 4 }, comFalta)).toBe(15);
+  });
+});
@@ -0,0 +1,190 @@
+import type { ParseResult } from "papaparse";
+import { diaDaSemanaDe, parseData } from "./calendar";
+import { detectDecimal, encontrarColuna, parseNumero } from "./mapping";
+import { weekIndexes, type CsvRecord, type Row } from "./schema";
+import type { ImportIssue, MotivoIssue } from "./validation";
+
+// Uma venda registrada: quantas porções de um prato saíram em uma data
+export interface HistoricoVenda {
+  data: string;
+  prato: string;
+  qtd_vendida: number;
+}
+
+export interface HistoricoImport {
+  historico: HistoricoVenda[];
+  erros: ImportIssue[];
+}
+
+export type ModeloPrevisao = "media_movel" | "ewma" | "mediana";
+
+export interface ForecastSettings {
+  modelo: ModeloPrevisao;
+  // Quantas semanas mais recentes entram na média móvel e na mediana
+  semanas: number;
+  // Peso da observação mais recente na média exponencial (0 a 1)
+  alpha: number;
+}
+
+export interface ResumoHistorico {
+  registros: number;
+  pratos: number;
+  inicio: string | null;
+  fim: string | null;
+}
+
+// Nomes na interface: chaves `historico.modelo.*`
+export const MODELOS_PREVISAO = [
+  "media_movel",
+  "ewma",
+  "mediana",
+] as const satisfies readonly ModeloPrevisao[];
+
+export const FORECAST_PADRAO: ForecastSettings = {
+  modelo: "media_movel",
+  semanas: 4,
+  alpha: 0.5,
+};
+
+const COLUNAS_HISTORICO: Record<keyof HistoricoVenda, string[]> = {
+  data: ["data", "date", "dt", "data_venda"],
+  prato: ["prato", "item", "produto", "dish"],
+  qtd_vendida: ["qtd_vendida", "vendido", "vendas", "quantidade", "qtd", "quantity"],
+};
+
+export const parseHistorico = (
+  results: ParseResult<CsvRecord>
+): HistoricoImport => {
+  const colunas = results.meta.fields ?? [];
+  const erros: ImportIssue[] = [];
+  const historico: HistoricoVenda[] = [];
+
+  const mapa = {} as Record<keyof HistoricoVenda, string | null>;
+  (Object.keys(COLUNAS_HISTORICO) as (keyof HistoricoVenda)[]).forEach(
+    (campo) => {
+      mapa[campo] = encontrarColuna(colunas, COLUNAS_HISTORICO[campo]);
+      if (!mapa[campo]) {
+        erros.push({
+          linha: null,
+          coluna: campo,
+          motivo: "colunaObrigatoria",
+          severidade: "erro",
+        });
+      }
+    }
+  );
+  if (erros.length > 0) return { historico, erros };
+
+  const decimal = detectDecimal(results.data, mapa.qtd_vendida);
+  // Vendas do mesmo prato na mesma data (ex.: um registro por ticket) são somadas
+  const porChave = new Map<string, HistoricoVenda>();
+
+  results.data.forEach((r, index) => {
+    const linha = index + 2;
+    const dataBruta = (r[mapa.data!] ?? "").trim();
+    const prato = (r[mapa.prato!] ?? "").trim();
+    const qtdBruta = (r[mapa.qtd_vendida!] ?? "").trim();
+
+    if (!dataBruta && !prato && !qtdBruta) return;
+
+    const erro = (coluna: string, motivo: MotivoIssue, valor?: string) =>
+      erros.push({ linha, coluna, motivo, valor, severidade: "erro" });
+
+    const data = parseData(dataBruta);
+    if (!data) {
+      erro(mapa.data!, "dataInvalida", dataBruta);
+      return;
+    }
+    if (!prato) {
+      erro(mapa.prato!, "pratoVazio");
+      return;
+    }
+    const qtd = parseNumero(qtdBruta, decimal);
+    if (!qtdBruta || !Number.isFinite(qtd) || qtd < 0) {
+      erro(mapa.qtd_vendida!, "qtdVendidaInvalida", qtdBruta);
+      return;
+    }
+
+    const chave = `${prato}|${data}`;
+    const atual = porChave.get(chave);
+    if (atual) {
+      atual.qtd_vendida += qtd;
+    } else {
+      const venda = { data, prato, qtd_vendida: qtd };
+      porChave.set(chave, venda);
+      historico.push(venda);
+    }
+  });
+
+  historico.sort((a, b) => a.data.localeCompare(b.data));
+  return { historico, erros };
+};
+
+export const resumirHistorico = (
+  historico: HistoricoVenda[]
+): ResumoHistorico => ({
+  registros: historico.length,
+  pratos: new Set(historico.map((h) => h.prato)).size,
+  inicio: historico[0]?.data ?? null,
+  fim: historico[historico.length - 1]?.data ?? null,
+});
+
+const mediana = (valores: number[]) => {
+  const ordenados = [...valores].sort((a, b) => a - b);
+  const meio = Math.floor(ordenados.length / 2);
+  return ordenados.length % 2 === 1
+    ? ordenados[meio]
+    : (ordenados[meio - 1] + ordenados[meio]) / 2;
+};
+
+// Valores em ordem cronológica; o último é a semana mais recente
+const preverSerie = (valores: number[], settings: ForecastSettings) => {
+  const recentes = valores.slice(-Math.max(1, settings.semanas));
+  switch (settings.modelo) {
+    case "mediana":
+      return mediana(recentes);
+    case "ewma":
+      return valores
+        .slice(1)
+        .reduce(
+          (nivel, valor) => settings.alpha * valor + (1 - settings.alpha) * nivel,
+          valores[0]
+        );
+    default:
+      return recentes.reduce((acc, v) => acc + v, 0) / recentes.length;
+  }
+};
+
+// Previsão por prato e dia da semana no mesmo formato do CSV do notebook.
+// Só entram as datas em que o prato teve venda registrada: um dia sem registro
+// é tratado como prato fora do cardápio, não como venda zero.
+export const preverBaseline = (
+  historico: HistoricoVenda[],
+  settings: ForecastSettings
+): Row[] => {
+  const series = new Map<string, { prato: string; dia: string; valores: number[] }>();
+  [...historico]
+    .sort((a, b) => a.data.localeCompare(b.data))
+    .forEach((h) => {
+      const dia = diaDaSemanaDe(h.data);
+      const chave = `${h.prato}|${dia}`;
+      const serie = series.get(chave) ?? { prato: h.prato, dia, valores: [] };
+      serie.valores.push(h.qtd_vendida);
+      series.set(chave, serie);
+    });
+
+  return Array.from(series.values())
+    .map(({ prato, dia, valores }) => ({
+      prato,
+      dia_semana: dia,
+      qtd_prevista_media: Number(preverSerie(valores, settings).toFixed(3)),
+      nivel_movimento_prato: "",
+      data: "",
+      unidade: "",
+    }))
+    .sort(
+      (a, b) =>
+        weekIndexes[a.dia_semana] - weekIndexes[b.dia_semana] ||
+        a.prato.localeCompare(b.prato, "pt-BR")
+    );
+};
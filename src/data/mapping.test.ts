@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  assinaturaColunas,
+  detectDecimal,
+  encontrarColuna,
+  isFormatoPadrao,
+  parseNumero,
+  suggestMapping,
+} from "./mapping";
+
+describe("suggestMapping", () => {
+  it("reconhece o cabeçalho padrão do notebook", () => {
+    const colunas = ["prato", "dia_semana", "qtd_prevista_media", "nivel_movimento_prato"];
+    const mapping = suggestMapping(colunas);
+    expect(mapping).toMatchObject({
+      prato: "prato",
+      dia_semana: "dia_semana",
+      qtd_prevista_media: "qtd_prevista_media",
+      nivel_movimento_prato: "nivel_movimento_prato",
+      qtd_vendida: null,
+      data: null,
+      unidade: null,
+    });
+    expect(isFormatoPadrao(colunas, mapping)).toBe(true);
+  });
+
+  it("associa sinônimos em espanhol e não reutiliza colunas", () => {
+    const mapping = suggestMapping(["Plato", "Dia de la semana", "Cantidad", "Fecha"]);
+    expect(mapping.prato).toBe("Plato");
+    expect(mapping.dia_semana).toBe("Dia de la semana");
+    expect(mapping.qtd_prevista_media).toBe("Cantidad");
+    expect(mapping.data).toBe("Fecha");
+  });
+
+  it("reconhece a coluna de unidade", () => {
+    const colunas = ["prato", "dia_semana", "qtd_prevista_media", "unidade"];
+    expect(suggestMapping(colunas).unidade).toBe("unidade");
+    expect(isFormatoPadrao(colunas, suggestMapping(colunas))).toBe(true);
+    expect(suggestMapping(["Loja", "Item", "Dia", "Qtd"]).unidade).toBe("Loja");
+  });
+
+  it("deixa nulo o que não encontra", () => {
+    const mapping = suggestMapping(["prato", "observacao"]);
+    expect(mapping.qtd_prevista_media).toBeNull();
+    expect(isFormatoPadrao(["prato", "observacao"], mapping)).toBe(false);
+  });
+});
+
+describe("assinaturaColunas", () => {
+  it("ignora ordem, caixa e acentos das colunas", () => {
+    expect(assinaturaColunas(["Prato", "Dia Semana"])).toBe(
+      assinaturaColunas(["dia_semana", "prato"])
+    );
+  });
+});
+
+describe("encontrarColuna", () => {
+  it("acha a coluna ignorando caixa, acentos e espaços", () => {
+    expect(encontrarColuna(["Prato", " Preço "], ["preco", "valor"])).toBe(" Preço ");
+  });
+
+  it("retorna null quando nenhum nome aceito aparece", () => {
+    expect(encontrarColuna(["prato", "custo_total"], ["custo"])).toBeNull();
+  });
+});
+
+describe("parseNumero", () => {
+  it("lê vírgula decimal e separador de milhar brasileiro", () => {
+    expect(parseNumero("45,237", ",")).toBe(45.237);
+    expect(parseNumero("1.200,5", ",")).toBe(1200.5);
+    expect(parseNumero(" 12 ", ",")).toBe(12);
+  });
+
+  it("lê ponto decimal e separador de milhar americano", () => {
+    expect(parseNumero("45.237", ".")).toBe(45.237);
+    expect(parseNumero("1,200.5", ".")).toBe(1200.5);
+  });
+
+  it("retorna NaN quando o valor não segue o formato escolhido", () => {
+    expect(parseNumero("45,2", ".")).toBeNaN();
+    expect(parseNumero("1.200.5", ",")).toBeNaN();
+    expect(parseNumero("abc", ",")).toBeNaN();
+  });
+});
+
+describe("detectDecimal", () => {
+  it("escolhe vírgula quando algum valor só faz sentido assim", () => {
+    const dados = [{ qtd: "10" }, { qtd: "12,5" }];
+    expect(detectDecimal(dados, "qtd")).toBe(",");
+  });
+
+  it("mantém ponto para inteiros, pontos e coluna ausente", () => {
+    expect(detectDecimal([{ qtd: "10" }, { qtd: "12.5" }], "qtd")).toBe(".");
+    expect(detectDecimal([{ qtd: "12,5" }], null)).toBe(".");
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  CSV_COLUNA_DATA,
+  CSV_COLUNA_UNIDADE,
+  CSV_COLUNAS_NIVEL,
+  CSV_COLUNAS_OBRIGATORIAS,
+  CSV_COLUNAS_QUANTIDADE,
+  type CsvRecord,
+} from "./schema";
+import { semAcentos } from "./texto";
+
+// Campos de `Row` que podem receber uma coluna do arquivo
+export type MappedField =
+  | "prato"
+  | "dia_semana"
+  | "qtd_prevista_media"
+  | "nivel_movimento_prato"
+  | "qtd_vendida"
+  | "data"
+  | "unidade";
+
+export type ColumnMapping = Record<MappedField, string | null>;
+
+export type DecimalSeparator = "." | ",";
+
+// "" = detecção automática pelo Papa.parse
+export type CsvDelimiter = "" | "," | ";" | "\t" | "|";
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  decimal: DecimalSeparator;
+  delimiter: CsvDelimiter;
+}
+
+// O nome de cada campo na tela fica em `campo.*` nas mensagens
+interface CampoMapeavel {
+  campo: MappedField;
+  // O dia da semana deixa de ser obrigatório quando há coluna de data
+  // (ver `campoObrigatorio`)
+  obrigatorio: boolean;
+  // Nomes de coluna reconhecidos na sugestão automática, em ordem de prioridade
+  sinonimos: string[];
+}
+
+export const CAMPOS_MAPEAVEIS: CampoMapeavel[] = [
+  {
+    campo: "prato",
+    obrigatorio: true,
+    sinonimos: [
+      "prato",
+      "item",
+      "produto",
+      "dish",
+      "nome",
+      "descricao",
+      "product",
+      "plato",
+      "nombre",
+    ],
+  },
+  {
+    campo: "dia_semana",
+    obrigatorio: true,
+    sinonimos: [
+      "dia_semana",
+      "dia",
+      "weekday",
+      "day",
+      "dia_da_semana",
+      "day_of_week",
+      "dia_de_la_semana",
+    ],
+  },
+  {
+    campo: "qtd_prevista_media",
+    obrigatorio: true,
+    sinonimos: [
+      ...CSV_COLUNAS_QUANTIDADE,
+      "quantidade",
+      "qtd",
+      "qtde",
+      "quantity",
+      "qty",
+      "previsao",
+      "forecast",
+      "cantidad",
+      "pronostico",
+    ],
+  },
+  {
+    campo: "nivel_movimento_prato",
+    obrigatorio: false,
+    sinonimos: [...CSV_COLUNAS_NIVEL, "nivel", "movimento", "level", "movimiento"],
+  },
+  {
+    // Só é preenchido quando o arquivo traz previsão e venda lado a lado
+    campo: "qtd_vendida",
+    obrigatorio: false,
+    sinonimos: [
+      "qtd_vendida",
+      "vendido",
+      "vendas",
+      "realizado",
+      "actual",
+      "sales",
+      "sold",
+      "cantidad_vendida",
+      "ventas",
+    ],
+  },
+  {
+    // Data específica da previsão (AAAA-MM-DD ou DD/MM/AAAA)
+    campo: "data",
+    obrigatorio: false,
+    sinonimos: [CSV_COLUNA_DATA, "date", "dt", "data_previsao", "fecha"],
+  },
+  {
+    // Restaurante do grupo; sem ela o arquivo inteiro é uma unidade só
+    campo: "unidade",
+    obrigatorio: false,
+    sinonimos: [
+      CSV_COLUNA_UNIDADE,
+      "loja",
+      "restaurante",
+      "filial",
+      "unit",
+      "store",
+      "location",
+      "sucursal",
+      "tienda",
+    ],
+  },
+];
+
+export const campoObrigatorio = (campo: MappedField, mapping: ColumnMapping) =>
+  campo === "dia_semana"
+    ? !mapping.data
+    : CAMPOS_MAPEAVEIS.some((c) => c.campo === campo && c.obrigatorio);
+
+// `id` nomeia o delimitador nas mensagens (`delimitador.*`)
+export const DELIMITADORES = [
+  { valor: "", id: "auto" },
+  { valor: ",", id: "virgula" },
+  { valor: ";", id: "pontoVirgula" },
+  { valor: "\t", id: "tabulacao" },
+  { valor: "|", id: "barra" },
+] as const satisfies readonly { valor: CsvDelimiter; id: string }[];
+
+const normalizarColuna = (coluna: string) =>
+  semAcentos(coluna)
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+
+// Identifica um "perfil" de arquivo pelo conjunto de colunas do cabeçalho
+export const assinaturaColunas = (colunas: string[]) =>
+  colunas.map(normalizarColuna).sort().join("|");
+
+// Coluna do cabeçalho cujo nome, sem acentos nem maiúsculas, está entre os
+// aceitos. Usada pelos arquivos auxiliares (receitas, catálogo, histórico),
+// que não passam pelo assistente de mapeamento.
+export const encontrarColuna = (colunas: string[], nomes: string[]) =>
+  colunas.find((c) => nomes.includes(semAcentos(c.trim().toLowerCase()))) ??
+  null;
+
+// "qtd_total" contém o termo "qtd", mas "qtd_media" não contém "dia"
+const contemTermo = (coluna: string, sinonimo: string) => {
+  const normalizada = normalizarColuna(coluna);
+  return sinonimo.includes("_")
+    ? normalizada.includes(sinonimo)
+    : normalizada.split("_").includes(sinonimo);
+};
+
+export const suggestMapping = (colunas: string[]): ColumnMapping => {
+  const usadas = new Set<string>();
+  const mapping: ColumnMapping = {
+    prato: null,
+    dia_semana: null,
+    qtd_prevista_media: null,
+    nivel_movimento_prato: null,
+    qtd_vendida: null,
+    data: null,
+    unidade: null,
+  };
+
+  // Primeiro os nomes exatos de todos os campos, depois correspondências parciais
+  const tentativas = [
+    (c: string, s: string) => normalizarColuna(c) === s,
+    contemTermo,
+  ];
+  tentativas.forEach((corresponde) => {
+    CAMPOS_MAPEAVEIS.forEach(({ campo, sinonimos }) => {
+      if (mapping[campo]) return;
+      for (const sinonimo of sinonimos) {
+        const coluna = colunas.find(
+          (c) => !usadas.has(c) && corresponde(c, sinonimo)
+        );
+        if (coluna) {
+          usadas.add(coluna);
+          mapping[campo] = coluna;
+          return;
+        }
+      }
+    });
+  });
+
+  return mapping;
+};
+
+// Cabeçalho já no formato do notebook: dispensa a etapa de mapeamento
+export const isFormatoPadrao = (colunas: string[], mapping: ColumnMapping) =>
+  CSV_COLUNAS_OBRIGATORIAS.every((c) => colunas.includes(c)) &&
+  mapping.qtd_prevista_media !== null &&
+  CSV_COLUNAS_QUANTIDADE.includes(mapping.qtd_prevista_media) &&
+  colunas.every(
+    (c) =>
+      CSV_COLUNAS_OBRIGATORIAS.includes(c) ||
+      CSV_COLUNAS_QUANTIDADE.includes(c) ||
+      CSV_COLUNAS_NIVEL.includes(c) ||
+      c === CSV_COLUNA_DATA ||
+      c === CSV_COLUNA_UNIDADE
+  );
+
+const NUMERO_VIRGULA = /^-?(\d{1,3}(\.\d{3})+|\d*)(,\d+)?$/;
+const NUMERO_PONTO = /^-?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?$/;
+
+// Converte "45,237" / "1.200,5" (formato brasileiro) ou "45.237" / "1,200.5".
+// Retorna NaN para valores que não seguem o formato escolhido.
+export const parseNumero = (valor: string, decimal: DecimalSeparator) => {
+  const limpo = valor.trim().replace(/\s/g, "");
+  if (decimal === ",") {
+    if (!NUMERO_VIRGULA.test(limpo)) return NaN;
+    return Number(limpo.replace(/\./g, "").replace(",", "."));
+  }
+  if (!NUMERO_PONTO.test(limpo)) return NaN;
+  return Number(limpo.replace(/,/g, ""));
+};
+
+// Vírgula decimal é assumida quando algum valor só faz sentido nesse formato
+export const detectDecimal = (
+  dados: CsvRecord[],
+  coluna: string | null
+): DecimalSeparator => {
+  if (!coluna) return ".";
+  const usaVirgula = dados.some((r) => {
+    const valor = (r[coluna] ?? "").trim();
+    return /^-?\d+,\d+$/.test(valor) || /\d\.\d{3},\d/.test(valor);
+  });
+  return usaVirgula ? "," : ".";
+};
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import { diaDaSemanaDe } from "./calendar";
+import {
+  ajustarDataRegistro,
+  atualizarRegistro,
+  chaveRegistro,
+  dataDoRegistro,
+  dataServeParaDia,
+  limitesDoRegistro,
+  rechavearRegistros,
+  registroDe,
+  registrosDe,
+  resumirDesperdicio,
+  type LocalRegistro,
+  type RegistroDia,
+  type RegistrosPreparo,
+} from "./prepLog";
+import { PLAN_SETTINGS_PADRAO, planejarItem } from "./productionPlan";
+import type { Row } from "./schema";
+
+const linha = (prato: string, dia_semana: string, qtd_prevista_media: number): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato: "",
+  data: "",
+  unidade: "",
+});
+
+// Margem padrão de 10%: 20 previstos -> produzir 22
+const item = (prato: string, qtd: number) =>
+  planejarItem(linha(prato, "segunda", qtd), PLAN_SETTINGS_PADRAO);
+
+describe("dataDoRegistro", () => {
+  // 2025-03-05 é uma quarta-feira
+  const quarta = new Date(2025, 2, 5, 21, 30);
+
+  it("usa a própria data em arquivos com datas", () => {
+    expect(dataDoRegistro("2025-03-01", quarta)).toBe("2025-03-01");
+  });
+
+  it("volta até o último dia da semana correspondente", () => {
+    expect(dataDoRegistro("quarta", quarta)).toBe("2025-03-05");
+    expect(dataDoRegistro("segunda", quarta)).toBe("2025-03-03");
+    expect(dataDoRegistro("quinta", quarta)).toBe("2025-02-27");
+  });
+
+  it("confere a data escolhida com o dia do dashboard", () => {
+    expect(dataServeParaDia("2025-03-03", "segunda")).toBe(true);
+    expect(dataServeParaDia("2025-03-04", "segunda")).toBe(false);
+    expect(dataServeParaDia("2025-03-04", "2025-03-04")).toBe(true);
+  });
+
+  it("limita a escolha ao último ano, alinhada ao dia da semana", () => {
+    expect(limitesDoRegistro("segunda", quarta)).toEqual({
+      min: "2024-03-04",
+      max: "2025-03-03",
+    });
+  });
+
+  it("ajusta a data escolhida para o dia da semana e os limites", () => {
+    expect(ajustarDataRegistro("2025-02-24", "segunda", quarta)).toBe("2025-02-24");
+    // Quinta 27/02 volta para a segunda 24/02
+    expect(ajustarDataRegistro("2025-02-27", "segunda", quarta)).toBe("2025-02-24");
+    expect(ajustarDataRegistro("2025-03-05", "segunda", quarta)).toBe("2025-03-03");
+    expect(ajustarDataRegistro("2023-01-02", "segunda", quarta)).toBe("2024-03-04");
+  });
+});
+
+describe("atualizarRegistro", () => {
+  const local: LocalRegistro = { data: "2025-03-03", unidade: "" };
+
+  it("marca como feito com a sugestão como produzido", () => {
+    const registros = atualizarRegistro({}, local, item("Arroz", 20), {
+      feito: true,
+    });
+    expect(registroDe(registros, local)).toEqual({
+      data: "2025-03-03",
+      dia_semana: "segunda",
+      unidade: "",
+      pratos: {
+        Arroz: { previsto: 20, sugerido: 22, feito: true, produzido: 22, sobra: null },
+      },
+    });
+  });
+
+  it("mantém o produzido informado e registra a sobra", () => {
+    let registros = atualizarRegistro({}, local, item("Arroz", 20), {
+      produzido: 25,
+    });
+    registros = atualizarRegistro(registros, local, item("Arroz", 20), {
+      feito: true,
+      sobra: 3,
+    });
+    expect(registroDe(registros, local)?.pratos.Arroz).toMatchObject({
+      feito: true,
+      produzido: 25,
+      sobra: 3,
+    });
+  });
+
+  it("separa os registros por unidade", () => {
+    const centro = { ...local, unidade: "Centro" };
+    const registros = atualizarRegistro({}, centro, item("Arroz", 20), { feito: true });
+    expect(registroDe(registros, local)).toBeUndefined();
+    expect(registroDe(registros, centro)?.pratos.Arroz?.produzido).toBe(22);
+  });
+
+  it("o arquivo da semana seguinte continua o mesmo registro", () => {
+    let registros = atualizarRegistro({}, local, item("Arroz", 20), { feito: true });
+    // Nova previsão para a mesma data: o registro guarda a do último toque
+    registros = atualizarRegistro(registros, local, item("Arroz", 25), { sobra: 1 });
+    expect(registroDe(registros, local)?.pratos.Arroz).toMatchObject({
+      previsto: 25,
+      produzido: 22,
+      sobra: 1,
+    });
+  });
+
+  it("desmarcar limpa o produzido preenchido e remove o prato e o dia", () => {
+    const registros = atualizarRegistro({}, local, item("Arroz", 20), {
+      feito: true,
+    });
+    expect(
+      atualizarRegistro(registros, local, item("Arroz", 20), { feito: false })
+    ).toEqual({});
+  });
+
+  it("desmarcar mantém um produzido corrigido à mão", () => {
+    let registros = atualizarRegistro({}, local, item("Arroz", 20), {
+      feito: true,
+    });
+    registros = atualizarRegistro(registros, local, item("Arroz", 20), {
+      produzido: 25,
+    });
+    registros = atualizarRegistro(registros, local, item("Arroz", 20), {
+      feito: false,
+    });
+    expect(registroDe(registros, local)?.pratos.Arroz).toMatchObject({
+      feito: false,
+      produzido: 25,
+    });
+  });
+});
+
+describe("resumirDesperdicio", () => {
+  const dia = (
+    data: string,
+    unidade: string,
+    pratos: RegistroDia["pratos"]
+  ): RegistroDia => ({ data, dia_semana: diaDaSemanaDe(data), unidade, pratos });
+  const registros: RegistrosPreparo = Object.fromEntries(
+    [
+      dia("2025-03-03", "Centro", {
+        Arroz: { previsto: 20, sugerido: 22, feito: true, produzido: 22, sobra: 2 },
+        Feijão: { previsto: 10, sugerido: 11, feito: true, produzido: 12, sobra: 4 },
+      }),
+      dia("2025-03-10", "Centro", {
+        Arroz: { previsto: 20, sugerido: 22, feito: true, produzido: 18, sobra: 0 },
+        // Produzido sem fechamento: fica fora das somas
+        Feijão: { previsto: 10, sugerido: 11, feito: true, produzido: 11, sobra: null },
+      }),
+      dia("2025-03-07", "Norte", {
+        Arroz: { previsto: 30, sugerido: 33, feito: true, produzido: 30, sobra: 6 },
+      }),
+    ].map((d) => [chaveRegistro(d), d])
+  );
+  const relatorio = resumirDesperdicio(registrosDe(registros, ""));
+
+  it("filtra os dias pela unidade", () => {
+    expect(registrosDe(registros, "").map((d) => d.data)).toEqual([
+      "2025-03-03",
+      "2025-03-10",
+      "2025-03-07",
+    ]);
+    expect(registrosDe(registros, "Norte").map((d) => d.data)).toEqual(["2025-03-07"]);
+  });
+
+  it("registros salvos com o dataset na chave passam para a chave atual", () => {
+    const antigo = (dataset: string, pratos: RegistroDia["pratos"]) => ({
+      ...dia("2025-03-03", "Centro", pratos),
+      dataset,
+    });
+    const salvos: RegistrosPreparo = {
+      "d1|Centro|2025-03-03": antigo("d1", {
+        Arroz: { previsto: 20, sugerido: 22, feito: true, produzido: 22, sobra: 2 },
+      }),
+      "d2|Centro|2025-03-03": antigo("d2", {
+        Feijão: { previsto: 10, sugerido: 11, feito: true, produzido: 12, sobra: 4 },
+      }),
+    };
+    const registros = rechavearRegistros(salvos);
+    expect(Object.keys(registros)).toEqual(["Centro|2025-03-03"]);
+    expect(registros["Centro|2025-03-03"]).toEqual(
+      dia("2025-03-03", "Centro", {
+        ...salvos["d1|Centro|2025-03-03"]!.pratos,
+        ...salvos["d2|Centro|2025-03-03"]!.pratos,
+      })
+    );
+  });
+
+  it("agrupa por unidade", () => {
+    expect(relatorio.porUnidade.map((l) => [l.chave, l.produzido, l.sobra])).toEqual([
+      ["Centro", 52, 6],
+      ["Norte", 30, 6],
+    ]);
+  });
+
+  it("soma o total e calcula a sobra sobre o produzido", () => {
+    expect(relatorio.total).toMatchObject({
+      registros: 4,
+      previsto: 80,
+      produzido: 82,
+      sobra: 12,
+      diferenca: 2,
+    });
+    expect(relatorio.total.sobraPct).toBeCloseTo((12 / 82) * 100);
+    expect(relatorio.semFechamento).toBe(1);
+  });
+
+  it("agrupa por prato, do maior desperdício para o menor", () => {
+    expect(relatorio.porPrato.map((l) => [l.chave, l.sobra, l.produzido])).toEqual([
+      ["Arroz", 8, 70],
+      ["Feijão", 4, 12],
+    ]);
+  });
+
+  it("agrupa por dia da semana na ordem da semana", () => {
+    expect(relatorio.porDia.map((l) => [l.chave, l.sobra])).toEqual([
+      ["segunda", 6],
+      ["sexta", 6],
+    ]);
+  });
+
+  it("agrupa por semana começando na segunda-feira", () => {
+    expect(relatorio.porSemana.map((l) => [l.chave, l.produzido, l.sobra])).toEqual([
+      ["2025-03-03", 64, 12],
+      ["2025-03-10", 18, 0],
+    ]);
+    expect(relatorio.porSemana[1].sobraPct).toBe(0);
+  });
+});
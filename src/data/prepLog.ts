@@ -0,0 +1,265 @@
+import { diaDaSemanaDe, hojeIso, inicioDaSemana, isData, somarDias } from "./calendar";
+import type { PlanoItem } from "./productionPlan";
+import { weekIndexes } from "./schema";
+
+// Checklist de preparo e desperdício: o que a cozinha marcou como feito, quanto
+// produziu de fato e quanto sobrou no fechamento, guardado por data e unidade.
+// Não depende do arquivo aberto: cada semana chega num arquivo novo, e o
+// histórico de desperdício atravessa todos eles.
+
+export interface RegistroPrato {
+  // Previsão e sugestão no momento do registro; o arquivo pode mudar depois
+  previsto: number;
+  sugerido: number;
+  feito: boolean;
+  produzido: number | null;
+  // Porções que sobraram ou foram descartadas no fechamento
+  sobra: number | null;
+}
+
+export interface RegistroDia {
+  data: string;
+  dia_semana: string;
+  // Unidade registrada; vazio em arquivos sem coluna de unidade
+  unidade: string;
+  pratos: Record<string, RegistroPrato | undefined>;
+}
+
+// Onde o checklist é anotado
+export type LocalRegistro = Pick<RegistroDia, "data" | "unidade">;
+
+// Registros pela chave de chaveRegistro
+export type RegistrosPreparo = Record<string, RegistroDia | undefined>;
+
+export const chaveRegistro = ({ data, unidade }: LocalRegistro) =>
+  `${unidade}|${data}`;
+
+export const registroDe = (registros: RegistrosPreparo, local: LocalRegistro) =>
+  registros[chaveRegistro(local)];
+
+// Dias registrados de uma unidade ou de todas (unidade vazia)
+export const registrosDe = (registros: RegistrosPreparo, unidade: string) =>
+  Object.values(registros).filter(
+    (dia): dia is RegistroDia =>
+      dia !== undefined && (unidade === "" || dia.unidade === unidade)
+  );
+
+export type MudancaRegistro = Partial<
+  Pick<RegistroPrato, "feito" | "produzido" | "sobra">
+>;
+
+// Totais de um prato, dia da semana ou semana. Só entram os registros
+// fechados (produzido e sobra preenchidos).
+export interface LinhaDesperdicio {
+  chave: string;
+  registros: number;
+  previsto: number;
+  produzido: number;
+  sobra: number;
+  // Sobra / produzido em %; null sem produção
+  sobraPct: number | null;
+  // Produzido - previsto
+  diferenca: number;
+}
+
+export interface RelatorioDesperdicio {
+  total: LinhaDesperdicio;
+  porUnidade: LinhaDesperdicio[];
+  porPrato: LinhaDesperdicio[];
+  porDia: LinhaDesperdicio[];
+  // Chave = segunda-feira da semana
+  porSemana: LinhaDesperdicio[];
+  // Pratos produzidos ainda sem a sobra registrada
+  semFechamento: number;
+}
+
+const STORAGE_KEY = "sabor-em-dados:registros-preparo";
+
+// Registros salvos quando a chave também tinha o dataset passam para a chave
+// atual; o mesmo dia anotado com dois arquivos vira um registro só
+export const rechavearRegistros = (salvos: RegistrosPreparo): RegistrosPreparo => {
+  const registros: RegistrosPreparo = {};
+  Object.values(salvos).forEach((dia) => {
+    if (!dia) return;
+    const chave = chaveRegistro(dia);
+    registros[chave] = {
+      data: dia.data,
+      dia_semana: dia.dia_semana,
+      unidade: dia.unidade,
+      pratos: { ...registros[chave]?.pratos, ...dia.pratos },
+    };
+  });
+  return registros;
+};
+
+export const loadRegistros = (): RegistrosPreparo => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? rechavearRegistros(JSON.parse(salvo) as RegistrosPreparo) : {};
+  } catch (error) {
+    console.error("Erro ao ler registros de preparo:", error);
+    return {};
+  }
+};
+
+export const saveRegistros = (registros: RegistrosPreparo) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(registros));
+};
+
+// Data em que o dia do dashboard é registrado: a própria data, em arquivos com
+// datas, ou o último dia da semana correspondente até hoje (a sobra é anotada
+// no fechamento, depois do preparo)
+export const dataDoRegistro = (dia: string, agora: Date) => {
+  const hoje = hojeIso(agora);
+  if (isData(dia)) return dia;
+  if (!(dia in weekIndexes)) return hoje;
+  const atras = (weekIndexes[diaDaSemanaDe(hoje)] - weekIndexes[dia] + 7) % 7;
+  return somarDias(hoje, -atras);
+};
+
+// Até quantas semanas para trás o registro pode ser corrigido
+const SEMANAS_ANTERIORES = 52;
+
+// Datas aceitas para o dia do dashboard: da mais recente até hoje a um ano antes
+export const limitesDoRegistro = (dia: string, agora: Date) => {
+  const max = dataDoRegistro(dia, agora);
+  return { min: somarDias(max, -7 * SEMANAS_ANTERIORES), max };
+};
+
+// Leva a data escolhida para o mesmo dia da semana do dashboard (o último até
+// ela) e para dentro dos limites, em vez de descartar a escolha
+export const ajustarDataRegistro = (data: string, dia: string, agora: Date) => {
+  const { min, max } = limitesDoRegistro(dia, agora);
+  if (!(dia in weekIndexes) || data >= max) return max;
+  const atras = (weekIndexes[diaDaSemanaDe(data)] - weekIndexes[dia] + 7) % 7;
+  const ajustada = somarDias(data, -atras);
+  return ajustada < min ? min : ajustada;
+};
+
+// A data vale para o dia do dashboard? (mesma data ou mesmo dia da semana)
+export const dataServeParaDia = (data: string, dia: string) =>
+  isData(dia) ? data === dia : diaDaSemanaDe(data) === dia;
+
+// Aplica a mudança no prato do dia. Marcar como feito já preenche o produzido
+// com a sugestão, e desmarcar limpa esse valor se ninguém o alterou (um toque
+// sem querer não vira produção); um prato sem nada marcado sai do registro.
+export const atualizarRegistro = (
+  registros: RegistrosPreparo,
+  local: LocalRegistro,
+  item: PlanoItem,
+  mudanca: MudancaRegistro
+): RegistrosPreparo => {
+  const chave = chaveRegistro(local);
+  const dia = registros[chave] ?? {
+    ...local,
+    dia_semana: diaDaSemanaDe(local.data),
+    pratos: {},
+  };
+  const anterior = dia.pratos[item.row.prato];
+  const atualizado: RegistroPrato = {
+    feito: false,
+    produzido: null,
+    sobra: null,
+    ...anterior,
+    ...mudanca,
+    previsto: item.row.qtd_prevista_media,
+    sugerido: item.produzir,
+  };
+  if (mudanca.feito && atualizado.produzido === null) {
+    atualizado.produzido = item.produzir;
+  }
+  if (
+    mudanca.feito === false &&
+    mudanca.produzido === undefined &&
+    anterior?.feito &&
+    anterior.produzido === anterior.sugerido
+  ) {
+    atualizado.produzido = null;
+  }
+
+  const pratos = { ...dia.pratos, [item.row.prato]: atualizado };
+  if (!atualizado.feito && atualizado.produzido === null && atualizado.sobra === null) {
+    delete pratos[item.row.prato];
+  }
+  const resto = { ...registros };
+  if (Object.keys(pratos).length === 0) delete resto[chave];
+  else resto[chave] = { ...dia, pratos };
+  return resto;
+};
+
+const linhaVazia = (chave: string): LinhaDesperdicio => ({
+  chave,
+  registros: 0,
+  previsto: 0,
+  produzido: 0,
+  sobra: 0,
+  sobraPct: null,
+  diferenca: 0,
+});
+
+export const resumirDesperdicio = (dias: RegistroDia[]): RelatorioDesperdicio => {
+  const total = linhaVazia("total");
+  const porUnidade = new Map<string, LinhaDesperdicio>();
+  const porPrato = new Map<string, LinhaDesperdicio>();
+  const porDia = new Map<string, LinhaDesperdicio>();
+  const porSemana = new Map<string, LinhaDesperdicio>();
+  let semFechamento = 0;
+
+  const somar = (
+    mapa: Map<string, LinhaDesperdicio>,
+    chave: string,
+    registro: RegistroPrato
+  ) => {
+    let linha = mapa.get(chave);
+    if (!linha) {
+      linha = linhaVazia(chave);
+      mapa.set(chave, linha);
+    }
+    linha.registros += 1;
+    linha.previsto += registro.previsto;
+    linha.produzido += registro.produzido ?? 0;
+    linha.sobra += registro.sobra ?? 0;
+  };
+
+  dias.forEach((dia) => {
+    const semana = inicioDaSemana(dia.data);
+    Object.entries(dia.pratos).forEach(([prato, registro]) => {
+      if (!registro || registro.produzido === null) return;
+      if (registro.sobra === null) {
+        semFechamento += 1;
+        return;
+      }
+      somar(porUnidade, dia.unidade, registro);
+      somar(porPrato, prato, registro);
+      somar(porDia, dia.dia_semana, registro);
+      somar(porSemana, semana, registro);
+      total.registros += 1;
+      total.previsto += registro.previsto;
+      total.produzido += registro.produzido;
+      total.sobra += registro.sobra;
+    });
+  });
+
+  const finalizar = (linha: LinhaDesperdicio): LinhaDesperdicio => ({
+    ...linha,
+    sobraPct: linha.produzido > 0 ? (linha.sobra / linha.produzido) * 100 : null,
+    diferenca: linha.produzido - linha.previsto,
+  });
+
+  return {
+    total: finalizar(total),
+    porUnidade: Array.from(porUnidade.values(), finalizar).sort((a, b) =>
+      a.chave.localeCompare(b.chave)
+    ),
+    porPrato: Array.from(porPrato.values(), finalizar).sort(
+      (a, b) => b.sobra - a.sobra || a.chave.localeCompare(b.chave)
+    ),
+    porDia: Array.from(porDia.values(), finalizar).sort(
+      (a, b) => (weekIndexes[a.chave] ?? 8) - (weekIndexes[b.chave] ?? 8)
+    ),
+    porSemana: Array.from(porSemana.values(), finalizar).sort((a, b) =>
+      a.chave.localeCompare(b.chave)
+    ),
+    semFechamento,
+  };
+};
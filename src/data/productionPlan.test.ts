@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  PLAN_SETTINGS_PADRAO,
+  gerarPlano,
+  margemDoNivel,
+  planejarItem,
+  type PlanSettings,
+} from "./productionPlan";
+import type { Row } from "./schema";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  data = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data,
+  unidade: "",
+});
+
+const settings = (parcial: Partial<PlanSettings> = {}): PlanSettings => ({
+  ...PLAN_SETTINGS_PADRAO,
+  ...parcial,
+});
+
+describe("margemDoNivel", () => {
+  const comNiveis = settings({ margemPorNivel: { alto: 25, baixo: undefined } });
+
+  it("usa a margem do nível quando ela existe", () => {
+    expect(margemDoNivel(comNiveis, "alto")).toBe(25);
+  });
+
+  it("cai na margem global sem margem do nível ou com nível desconhecido", () => {
+    expect(margemDoNivel(comNiveis, "baixo")).toBe(10);
+    expect(margemDoNivel(comNiveis, "")).toBe(10);
+    expect(margemDoNivel(comNiveis, "enorme")).toBe(10);
+  });
+});
+
+describe("planejarItem", () => {
+  it("aplica a margem e arredonda para porções inteiras", () => {
+    const item = planejarItem(linha("Arroz", "segunda", 20.5), settings());
+    expect(item).toMatchObject({
+      margem: 10,
+      qtdComMargem: 22.55,
+      produzir: 23,
+      lote: null,
+      lotes: null,
+      limite: null,
+    });
+  });
+
+  it("não sobe uma porção por erro de ponto flutuante", () => {
+    // 10,909... * 1,1 dá 12,000000001 em ponto flutuante
+    const item = planejarItem(linha("Arroz", "segunda", 120 / 11), settings());
+    expect(item.produzir).toBe(12);
+  });
+
+  it("arredonda para o múltiplo do lote e conta os lotes", () => {
+    const item = planejarItem(
+      linha("Lasanha", "segunda", 20),
+      settings({ pratos: { Lasanha: { lote: 12 } } })
+    );
+    expect(item).toMatchObject({ produzir: 24, lote: 12, lotes: 2 });
+  });
+
+  it("sobe até o mínimo, respeitando o lote", () => {
+    const item = planejarItem(
+      linha("Lasanha", "segunda", 5),
+      settings({ pratos: { Lasanha: { lote: 12, minimo: 15 } } })
+    );
+    expect(item).toMatchObject({ produzir: 24, lotes: 2, limite: "mínimo" });
+  });
+
+  it("corta no máximo mesmo que quebre o lote", () => {
+    const item = planejarItem(
+      linha("Lasanha", "segunda", 40),
+      settings({ pratos: { Lasanha: { lote: 12, maximo: 30 } } })
+    );
+    expect(item).toMatchObject({ produzir: 30, lotes: 3, limite: "máximo" });
+  });
+
+  it("produz zero com previsão zero e sem mínimo", () => {
+    expect(planejarItem(linha("Arroz", "segunda", 0), settings()).produzir).toBe(0);
+  });
+});
+
+describe("gerarPlano", () => {
+  it("planeja cada linha com a margem do seu nível", () => {
+    const plano = gerarPlano(
+      [linha("Arroz", "segunda", 10, "alto"), linha("Salada", "segunda", 10, "baixo")],
+      settings({ margemPorNivel: { alto: 50, baixo: 0 } })
+    );
+    expect(plano.map((p) => [p.row.prato, p.produzir])).toEqual([
+      ["Arroz", 15],
+      ["Salada", 10],
+    ]);
+  });
+});
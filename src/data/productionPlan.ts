@@ -0,0 +1,94 @@
+import { NIVEIS_MOVIMENTO, type Row } from "./schema";
+
+// Ajustes de produção de um prato (todos opcionais)
+export interface PratoSettings {
+  // Tamanho do lote (ex.: assadeira com 12 porções); sem lote arredonda para porções inteiras
+  lote?: number;
+  minimo?: number;
+  maximo?: number;
+}
+
+export interface PlanSettings {
+  // Margem de segurança em % aplicada sobre a previsão
+  margemGlobal: number;
+  // Margem específica por nível de movimento; ausente = usa a global
+  margemPorNivel: Record<string, number | undefined>;
+  pratos: Record<string, PratoSettings | undefined>;
+}
+
+export interface PlanoItem {
+  row: Row;
+  margem: number;
+  qtdComMargem: number;
+  produzir: number;
+  lote: number | null;
+  lotes: number | null;
+  // Indica quando o mínimo ou o máximo do prato alterou o valor calculado
+  limite: "mínimo" | "máximo" | null;
+}
+
+const STORAGE_KEY = "sabor-em-dados:plano-producao";
+
+export const PLAN_SETTINGS_PADRAO: PlanSettings = {
+  margemGlobal: 10,
+  margemPorNivel: {},
+  pratos: {},
+};
+
+export const loadPlanSettings = (): PlanSettings => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    if (!salvo) return PLAN_SETTINGS_PADRAO;
+    return { ...PLAN_SETTINGS_PADRAO, ...(JSON.parse(salvo) as PlanSettings) };
+  } catch (error) {
+    console.error("Erro ao ler configurações do plano de produção:", error);
+    return PLAN_SETTINGS_PADRAO;
+  }
+};
+
+export const savePlanSettings = (settings: PlanSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const margemDoNivel = (settings: PlanSettings, nivel: string) =>
+  (NIVEIS_MOVIMENTO.includes(nivel)
+    ? settings.margemPorNivel[nivel]
+    : undefined) ?? settings.margemGlobal;
+
+// Evita que erros de ponto flutuante (12.000000001) subam uma porção inteira;
+// o max tira o -0 que a folga gera com previsão zero
+const arredondarParaCima = (valor: number, passo: number) =>
+  Math.max(0, Math.ceil(valor / passo - 1e-9) * passo);
+
+export const planejarItem = (row: Row, settings: PlanSettings): PlanoItem => {
+  const margem = margemDoNivel(settings, row.nivel_movimento_prato);
+  const { lote, minimo, maximo } = settings.pratos[row.prato] ?? {};
+  const qtdComMargem = row.qtd_prevista_media * (1 + margem / 100);
+  const passo = lote && lote > 0 ? lote : 1;
+
+  let produzir = arredondarParaCima(qtdComMargem, passo);
+  let limite: PlanoItem["limite"] = null;
+
+  if (minimo !== undefined && produzir < minimo) {
+    produzir = arredondarParaCima(minimo, passo);
+    limite = "mínimo";
+  }
+  // O máximo é um teto rígido (capacidade), mesmo que quebre o lote
+  if (maximo !== undefined && produzir > maximo) {
+    produzir = maximo;
+    limite = "máximo";
+  }
+
+  return {
+    row,
+    margem,
+    qtdComMargem: Number(qtdComMargem.toFixed(3)),
+    produzir,
+    lote: passo > 1 ? passo : null,
+    lotes: passo > 1 ? Math.ceil(produzir / passo) : null,
+    limite,
+  };
+};
+
+export const gerarPlano = (rows: Row[], settings: PlanSettings): PlanoItem[] =>
+  rows.map((r) => planejarItem(r, settings));
@@ -0,0 +1,51 @@
+import type { ImportOptions } from "./mapping";
+
+// Mapeamento salvo para um formato de arquivo (identificado pelo cabeçalho)
+export interface MappingProfile {
+  nome: string;
+  assinatura: string;
+  options: ImportOptions;
+  atualizadoEm: string;
+}
+
+const STORAGE_KEY = "sabor-em-dados:perfis-mapeamento";
+
+export const loadProfiles = (): MappingProfile[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as MappingProfile[]) : [];
+  } catch (error) {
+    console.error("Erro ao ler perfis de mapeamento:", error);
+    return [];
+  }
+};
+
+const persistProfiles = (perfis: MappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(perfis));
+};
+
+export const findProfile = (assinatura: string) =>
+  loadProfiles().find((p) => p.assinatura === assinatura) ?? null;
+
+// Um perfil por assinatura: salvar de novo substitui o anterior
+export const saveProfile = (
+  nome: string,
+  assinatura: string,
+  options: ImportOptions
+): MappingProfile => {
+  const perfil: MappingProfile = {
+    nome,
+    assinatura,
+    options,
+    atualizadoEm: new Date().toISOString(),
+  };
+  persistProfiles([
+    ...loadProfiles().filter((p) => p.assinatura !== assinatura),
+    perfil,
+  ]);
+  return perfil;
+};
+
+export const deleteProfile = (assinatura: string) => {
+  persistProfiles(loadProfiles().filter((p) => p.assinatura !== assinatura));
+};
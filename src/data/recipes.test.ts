@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvTexto } from "./csvImport";
+import {
+  explodirIngredientes,
+  formatarQuantidade,
+  normalizarUnidade,
+  parseRecipes,
+  type RecipeRow,
+} from "./recipes";
+import type { Row } from "./schema";
+
+const linha = (prato: string, dia_semana: string, qtd_prevista_media: number): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato: "",
+  data: "",
+  unidade: "",
+});
+
+const receita = (
+  prato: string,
+  ingrediente: string,
+  quantidade: number,
+  unidade: RecipeRow["unidade"]
+): RecipeRow => ({ prato, ingrediente, quantidade, unidade });
+
+describe("normalizarUnidade", () => {
+  it("aceita abreviações, plurais e acentos", () => {
+    expect(normalizarUnidade("Kg")).toEqual({ base: "g", fator: 1000 });
+    expect(normalizarUnidade(" Litros ")).toEqual({ base: "ml", fator: 1000 });
+    expect(normalizarUnidade("und.")).toEqual({ base: "unidade", fator: 1 });
+    expect(normalizarUnidade("xícara")).toBeNull();
+  });
+});
+
+describe("formatarQuantidade", () => {
+  it("passa para kg e l a partir de mil", () => {
+    expect(formatarQuantidade(1500, "g", "pt-BR")).toBe("1,5 kg");
+    expect(formatarQuantidade(800, "ml", "pt-BR")).toBe("800 ml");
+    expect(formatarQuantidade(2000, "ml", "en-US")).toBe("2 l");
+    expect(formatarQuantidade(3, "unidade", "pt-BR")).toBe("3 un");
+  });
+});
+
+describe("parseRecipes", () => {
+  it("converte as quantidades para a unidade base", () => {
+    const { receitas, erros } = parseRecipes(
+      parseCsvTexto(
+        "prato;ingrediente;quantidade;unidade\n" +
+          "Arroz;Arroz cru;0,08;kg\n" +
+          "Arroz;Óleo;5;ml\n" +
+          "Omelete;Ovo;2;un\n"
+      )
+    );
+    expect(erros).toEqual([]);
+    expect(receitas).toEqual([
+      receita("Arroz", "Arroz cru", 80, "g"),
+      receita("Arroz", "Óleo", 5, "ml"),
+      receita("Omelete", "Ovo", 2, "unidade"),
+    ]);
+  });
+
+  it("aponta a linha e o motivo de cada erro", () => {
+    const { receitas, erros } = parseRecipes(
+      parseCsvTexto(
+        "prato,ingrediente,quantidade,unidade\n" +
+          "Arroz,,80,g\n" +
+          "Arroz,Sal,-1,g\n" +
+          "Arroz,Alho,3,xícara\n" +
+          "Arroz,Cebola,20,g\n" +
+          "Arroz,cebola,10,g\n"
+      )
+    );
+    expect(receitas).toEqual([receita("Arroz", "Cebola", 20, "g")]);
+    expect(erros.map((e) => [e.linha, e.motivo])).toEqual([
+      [2, "ingredienteVazio"],
+      [3, "qtdPorcaoInvalida"],
+      [4, "unidadeDesconhecida"],
+      [6, "ingredienteRepetido"],
+    ]);
+  });
+
+  it("exige todas as colunas", () => {
+    const { erros } = parseRecipes(parseCsvTexto("prato,ingrediente\nArroz,Sal\n"));
+    expect(erros.map((e) => [e.coluna, e.motivo])).toEqual([
+      ["quantidade", "colunaObrigatoria"],
+      ["unidade", "colunaObrigatoria"],
+    ]);
+  });
+});
+
+describe("explodirIngredientes", () => {
+  const receitas = [
+    receita("Arroz", "Arroz cru", 80, "g"),
+    receita("Arroz", "Sal", 2, "g"),
+    receita("Feijoada", "Sal", 3, "g"),
+    // Mesmo ingrediente em outra unidade fica numa linha separada
+    receita("Feijoada", "Sal", 1, "unidade"),
+  ];
+  const rows = [
+    linha("Arroz", "segunda", 10),
+    linha("Feijoada", "sexta", 20),
+    linha("Moqueca", "sexta", 5),
+    linha("Arroz", "sexta", 5),
+  ];
+
+  it("soma cada ingrediente por dia e no total", () => {
+    const lista = explodirIngredientes(rows, receitas);
+    expect(lista.dias).toEqual(["segunda", "sexta"]);
+    expect(lista.itens.map((i) => [i.ingrediente, i.unidade, i.porDia, i.total])).toEqual([
+      ["Arroz cru", "g", { segunda: 800, sexta: 400 }, 1200],
+      ["Sal", "g", { segunda: 20, sexta: 70 }, 90],
+      ["Sal", "unidade", { sexta: 20 }, 20],
+    ]);
+    expect(lista.pratosSemReceita).toEqual(["Moqueca"]);
+  });
+
+  it("pode usar a quantidade a produzir em vez da previsão", () => {
+    const lista = explodirIngredientes(rows, receitas, (row) => row.qtd_prevista_media * 2);
+    expect(lista.itens[0].total).toBe(2400);
+  });
+});
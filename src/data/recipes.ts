@@ -0,0 +1,221 @@
+import type { ParseResult } from "papaparse";
+import { chaveDia, compararDias } from "./calendar";
+import { detectDecimal, encontrarColuna, parseNumero } from "./mapping";
+import type { CsvRecord, Row } from "./schema";
+import { semAcentos } from "./texto";
+import type { ImportIssue, MotivoIssue } from "./validation";
+
+// Unidades internas: massa em gramas, volume em mililitros e contagem
+export type UnidadeBase = "g" | "ml" | "unidade";
+
+// Ingrediente usado por uma porção de um prato, já na unidade base
+export interface RecipeRow {
+  prato: string;
+  ingrediente: string;
+  quantidade: number;
+  unidade: UnidadeBase;
+}
+
+export interface RecipeImport {
+  receitas: RecipeRow[];
+  erros: ImportIssue[];
+}
+
+export interface IngredienteTotal {
+  ingrediente: string;
+  unidade: UnidadeBase;
+  porDia: Record<string, number>;
+  total: number;
+}
+
+export interface ShoppingList {
+  itens: IngredienteTotal[];
+  dias: string[];
+  // Pratos da previsão que não têm receita cadastrada
+  pratosSemReceita: string[];
+}
+
+const STORAGE_KEY = "sabor-em-dados:receitas";
+
+const COLUNAS_RECEITA: Record<keyof RecipeRow, string[]> = {
+  prato: ["prato", "dish", "item"],
+  ingrediente: ["ingrediente", "ingredient", "insumo"],
+  quantidade: ["quantidade", "qtd_por_porcao", "qtd", "quantity"],
+  unidade: ["unidade", "unit", "un"],
+};
+
+// Fator de conversão para a unidade base
+const UNIDADES: Record<string, { base: UnidadeBase; fator: number }> = {
+  g: { base: "g", fator: 1 },
+  grama: { base: "g", fator: 1 },
+  gramas: { base: "g", fator: 1 },
+  kg: { base: "g", fator: 1000 },
+  quilo: { base: "g", fator: 1000 },
+  ml: { base: "ml", fator: 1 },
+  l: { base: "ml", fator: 1000 },
+  litro: { base: "ml", fator: 1000 },
+  litros: { base: "ml", fator: 1000 },
+  un: { base: "unidade", fator: 1 },
+  und: { base: "unidade", fator: 1 },
+  unid: { base: "unidade", fator: 1 },
+  unidade: { base: "unidade", fator: 1 },
+  unidades: { base: "unidade", fator: 1 },
+};
+
+export const normalizarUnidade = (unidade: string) =>
+  UNIDADES[semAcentos(unidade.trim().toLowerCase()).replace(/\.$/, "")] ??
+  null;
+
+// Exibe 1500 g como "1,5 kg" e 800 ml como "800 ml"
+export const formatarQuantidade = (
+  valor: number,
+  unidade: UnidadeBase,
+  locale: string
+) => {
+  const fmt = (v: number) => v.toLocaleString(locale, { maximumFractionDigits: 2 });
+  if (unidade === "g" && valor >= 1000) return `${fmt(valor / 1000)} kg`;
+  if (unidade === "ml" && valor >= 1000) return `${fmt(valor / 1000)} l`;
+  if (unidade === "unidade") return `${fmt(valor)} un`;
+  return `${fmt(valor)} ${unidade}`;
+};
+
+export const parseRecipes = (results: ParseResult<CsvRecord>): RecipeImport => {
+  const colunas = results.meta.fields ?? [];
+  const erros: ImportIssue[] = [];
+  const receitas: RecipeRow[] = [];
+
+  const mapa = {} as Record<keyof RecipeRow, string | null>;
+  (Object.keys(COLUNAS_RECEITA) as (keyof RecipeRow)[]).forEach((campo) => {
+    mapa[campo] = encontrarColuna(colunas, COLUNAS_RECEITA[campo]);
+    if (!mapa[campo]) {
+      erros.push({
+        linha: null,
+        coluna: campo,
+        motivo: "colunaObrigatoria",
+        severidade: "erro",
+      });
+    }
+  });
+  if (erros.length > 0) return { receitas, erros };
+
+  const decimal = detectDecimal(results.data, mapa.quantidade);
+  const vistos = new Set<string>();
+
+  results.data.forEach((r, index) => {
+    const linha = index + 2;
+    const prato = (r[mapa.prato!] ?? "").trim();
+    const ingrediente = (r[mapa.ingrediente!] ?? "").trim();
+    const qtdBruta = (r[mapa.quantidade!] ?? "").trim();
+    const unidadeBruta = (r[mapa.unidade!] ?? "").trim();
+
+    if (!prato && !ingrediente && !qtdBruta && !unidadeBruta) return;
+
+    const erro = (coluna: string, motivo: MotivoIssue, valor?: string) =>
+      erros.push({ linha, coluna, motivo, valor, severidade: "erro" });
+
+    if (!prato) {
+      erro(mapa.prato!, "pratoVazio");
+      return;
+    }
+    if (!ingrediente) {
+      erro(mapa.ingrediente!, "ingredienteVazio");
+      return;
+    }
+
+    const quantidade = parseNumero(qtdBruta, decimal);
+    if (!qtdBruta || !Number.isFinite(quantidade) || quantidade < 0) {
+      erro(mapa.quantidade!, "qtdPorcaoInvalida", qtdBruta);
+      return;
+    }
+
+    const unidade = normalizarUnidade(unidadeBruta);
+    if (!unidade) {
+      erro(mapa.unidade!, "unidadeDesconhecida", unidadeBruta);
+      return;
+    }
+
+    const chave = `${prato}|${ingrediente.toLowerCase()}`;
+    if (vistos.has(chave)) {
+      erro(mapa.ingrediente!, "ingredienteRepetido", ingrediente);
+      return;
+    }
+    vistos.add(chave);
+
+    receitas.push({
+      prato,
+      ingrediente,
+      quantidade: quantidade * unidade.fator,
+      unidade: unidade.base,
+    });
+  });
+
+  return { receitas, erros };
+};
+
+export const loadRecipes = (): RecipeRow[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as RecipeRow[]) : [];
+  } catch (error) {
+    console.error("Erro ao ler receitas:", error);
+    return [];
+  }
+};
+
+export const saveRecipes = (receitas: RecipeRow[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(receitas));
+};
+
+// Multiplica a quantidade de cada prato/dia pela receita e soma por ingrediente.
+// `quantidade` permite usar a previsão crua ou a quantidade a produzir.
+export const explodirIngredientes = (
+  rows: Row[],
+  receitas: RecipeRow[],
+  quantidade: (row: Row) => number = (row) => row.qtd_prevista_media
+): ShoppingList => {
+  const porPrato = new Map<string, RecipeRow[]>();
+  receitas.forEach((r) => {
+    const lista = porPrato.get(r.prato) ?? [];
+    lista.push(r);
+    porPrato.set(r.prato, lista);
+  });
+
+  const itens = new Map<string, IngredienteTotal>();
+  const semReceita = new Set<string>();
+  const dias = new Set<string>();
+
+  rows.forEach((row) => {
+    const dia = chaveDia(row);
+    dias.add(dia);
+    const receita = porPrato.get(row.prato);
+    if (!receita) {
+      semReceita.add(row.prato);
+      return;
+    }
+    const porcoes = quantidade(row);
+    receita.forEach((r) => {
+      // O mesmo ingrediente pode aparecer em g num prato e em unidade em outro
+      const chave = `${r.ingrediente.toLowerCase()}|${r.unidade}`;
+      const item = itens.get(chave) ?? {
+        ingrediente: r.ingrediente,
+        unidade: r.unidade,
+        porDia: {},
+        total: 0,
+      };
+      const valor = r.quantidade * porcoes;
+      item.porDia[dia] = (item.porDia[dia] ?? 0) + valor;
+      item.total += valor;
+      itens.set(chave, item);
+    });
+  });
+
+  return {
+    itens: Array.from(itens.values()).sort((a, b) =>
+      a.ingrediente.localeCompare(b.ingrediente, "pt-BR")
+    ),
+    dias: Array.from(dias).sort(compararDias),
+    pratosSemReceita: Array.from(semReceita).sort((a, b) =>
+      a.localeCompare(b, "pt-BR")
+    ),
+  };
+};
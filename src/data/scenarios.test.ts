@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  aplicarCenario,
+  chaveLinha,
+  deltasCenario,
+  type AjusteCenario,
+  type Cenario,
+} from "./scenarios";
+import type { Row } from "./schema";
+
+const linha = (
+  prato: string,
+  dia_semana: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  data = ""
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data,
+  unidade: "",
+});
+
+const cenario = (parcial: Partial<Cenario>): Cenario => ({
+  id: "c1",
+  nome: "Chuva",
+  ajustes: [],
+  adicionados: [],
+  removidos: [],
+  ...parcial,
+});
+
+const ajuste = (
+  tipo: AjusteCenario["tipo"],
+  valor: number,
+  prato: string | null = null,
+  dia: string | null = null
+): AjusteCenario => ({ id: `${tipo}${valor}`, prato, dia, tipo, valor });
+
+const rows = [
+  linha("Arroz", "segunda", 20),
+  linha("Feijão", "segunda", 10),
+  linha("Arroz", "sexta", 30),
+];
+
+const quantidades = (resultado: ReturnType<typeof aplicarCenario>) =>
+  resultado.map((r) => [chaveLinha(r), r.qtd_prevista_media]);
+
+describe("aplicarCenario", () => {
+  it("aplica um percentual só no dia escolhido", () => {
+    const resultado = aplicarCenario(
+      rows,
+      cenario({ ajustes: [ajuste("percentual", -20, null, "sexta")] })
+    );
+    expect(quantidades(resultado)).toEqual([
+      ["Arroz|segunda", 20],
+      ["Feijão|segunda", 10],
+      ["Arroz|sexta", 24],
+    ]);
+    // Linhas sem ajuste são as mesmas do arquivo
+    expect(resultado[0]).toBe(rows[0]);
+  });
+
+  it("soma porções a um prato e nunca deixa a previsão negativa", () => {
+    const resultado = aplicarCenario(
+      rows,
+      cenario({
+        ajustes: [ajuste("absoluto", 5, "Arroz"), ajuste("absoluto", -50, "Feijão")],
+      })
+    );
+    expect(quantidades(resultado)).toEqual([
+      ["Arroz|segunda", 25],
+      ["Feijão|segunda", 0],
+      ["Arroz|sexta", 35],
+    ]);
+  });
+
+  it("encadeia os ajustes na ordem em que foram criados", () => {
+    const resultado = aplicarCenario(
+      [linha("Arroz", "segunda", 10)],
+      cenario({ ajustes: [ajuste("absoluto", 10), ajuste("percentual", 50)] })
+    );
+    expect(resultado[0].qtd_prevista_media).toBe(30);
+  });
+
+  it("remove pratos e ajusta também os pratos adicionados", () => {
+    const resultado = aplicarCenario(
+      rows,
+      cenario({
+        removidos: ["Feijão"],
+        adicionados: [{ prato: "Moqueca", dia: "sexta", qtd: 10 }],
+        ajustes: [ajuste("percentual", -20, null, "sexta")],
+      })
+    );
+    expect(quantidades(resultado)).toEqual([
+      ["Arroz|segunda", 20],
+      ["Arroz|sexta", 24],
+      ["Moqueca|sexta", 8],
+    ]);
+  });
+
+  it("adicionar um prato que já existe no dia substitui a quantidade", () => {
+    const resultado = aplicarCenario(
+      rows,
+      cenario({ adicionados: [{ prato: "Arroz", dia: "segunda", qtd: 50 }] })
+    );
+    expect(resultado).toHaveLength(3);
+    expect(resultado[0].qtd_prevista_media).toBe(50);
+  });
+
+  it("em arquivos com datas, o prato adicionado recebe data e dia da semana", () => {
+    const resultado = aplicarCenario(
+      [linha("Arroz", "segunda", 20, "", "2025-03-03")],
+      cenario({ adicionados: [{ prato: "Moqueca", dia: "2025-03-07", qtd: 12 }] })
+    );
+    expect(resultado[1]).toMatchObject({
+      prato: "Moqueca",
+      dia_semana: "sexta",
+      data: "2025-03-07",
+    });
+  });
+});
+
+describe("deltasCenario", () => {
+  it("compara cada prato + dia com a previsão original", () => {
+    const ajustado = aplicarCenario(
+      rows,
+      cenario({
+        adicionados: [{ prato: "Moqueca", dia: "sexta", qtd: 10 }],
+        ajustes: [ajuste("percentual", 10, "Arroz")],
+      })
+    );
+    const deltas = deltasCenario(rows, ajustado);
+    expect(deltas.get("Arroz|segunda")).toEqual({ original: 20, delta: 2 });
+    expect(deltas.get("Feijão|segunda")).toEqual({ original: 10, delta: 0 });
+    expect(deltas.get("Moqueca|sexta")).toEqual({ original: null, delta: 10 });
+  });
+});
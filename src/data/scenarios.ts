@@ -0,0 +1,127 @@
+import { chaveDia, diaDaSemanaDe, isData } from "./calendar";
+import type { Row } from "./schema";
+
+export type TipoAjuste = "percentual" | "absoluto";
+
+// Ajuste sobre a previsão; prato ou dia nulos valem para todos
+export interface AjusteCenario {
+  id: string;
+  prato: string | null;
+  dia: string | null;
+  tipo: TipoAjuste;
+  valor: number;
+}
+
+// Prato que não está na previsão (ou que substitui um removido) em um dia
+export interface PratoAdicionado {
+  prato: string;
+  dia: string;
+  qtd: number;
+}
+
+export interface Cenario {
+  id: string;
+  nome: string;
+  ajustes: AjusteCenario[];
+  adicionados: PratoAdicionado[];
+  removidos: string[];
+}
+
+// Quantidade original e diferença de cada prato + dia no cenário
+export interface DeltaCenario {
+  original: number | null;
+  delta: number;
+}
+
+const STORAGE_KEY = "sabor-em-dados:cenarios";
+
+export const loadCenarios = (): Cenario[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as Cenario[]) : [];
+  } catch (error) {
+    console.error("Erro ao ler cenários:", error);
+    return [];
+  }
+};
+
+export const saveCenarios = (cenarios: Cenario[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cenarios));
+};
+
+export const novoCenario = (nome: string): Cenario => ({
+  id: crypto.randomUUID(),
+  nome,
+  ajustes: [],
+  adicionados: [],
+  removidos: [],
+});
+
+export const chaveLinha = (row: Row) => `${row.prato}|${chaveDia(row)}`;
+
+const aplicarAjuste = (qtd: number, ajuste: AjusteCenario) =>
+  Math.max(
+    0,
+    ajuste.tipo === "percentual" ? qtd * (1 + ajuste.valor / 100) : qtd + ajuste.valor
+  );
+
+// Remove, adiciona e por fim ajusta, na ordem em que os ajustes foram criados;
+// assim um "−20% na sexta" também vale para o prato novo daquele dia
+export const aplicarCenario = (rows: Row[], cenario: Cenario): Row[] => {
+  const removidos = new Set(cenario.removidos);
+  const resultado = rows.filter((r) => !removidos.has(r.prato));
+
+  cenario.adicionados.forEach(({ prato, dia, qtd }) => {
+    const novo: Row = {
+      prato,
+      dia_semana: isData(dia) ? diaDaSemanaDe(dia) : dia,
+      qtd_prevista_media: qtd,
+      nivel_movimento_prato: "",
+      data: isData(dia) ? dia : "",
+      unidade: "",
+    };
+    const index = resultado.findIndex(
+      (r) => r.prato === prato && chaveDia(r) === dia
+    );
+    if (index >= 0) {
+      resultado[index] = { ...resultado[index], qtd_prevista_media: qtd };
+    } else {
+      resultado.push(novo);
+    }
+  });
+
+  return resultado.map((r) => {
+    const qtd = cenario.ajustes
+      .filter(
+        (a) =>
+          (a.prato === null || a.prato === r.prato) &&
+          (a.dia === null || a.dia === chaveDia(r))
+      )
+      .reduce(aplicarAjuste, r.qtd_prevista_media);
+    return qtd === r.qtd_prevista_media
+      ? r
+      : { ...r, qtd_prevista_media: Number(qtd.toFixed(3)) };
+  });
+};
+
+// Diferenças por prato + dia entre o cenário e a previsão original
+export const deltasCenario = (
+  original: Row[],
+  cenario: Row[]
+): Map<string, DeltaCenario> => {
+  const porChave = new Map(
+    original.map((r) => [chaveLinha(r), r.qtd_prevista_media])
+  );
+  return new Map(
+    cenario.map((r) => {
+      const anterior = porChave.get(chaveLinha(r)) ?? null;
+      return [
+        chaveLinha(r),
+        {
+          original: anterior,
+          delta: Number((r.qtd_prevista_media - (anterior ?? 0)).toFixed(3)),
+        },
+      ];
+    })
+  );
+};
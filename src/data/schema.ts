@@ -0,0 +1,55 @@
+// Tipos e constantes compartilhados entre a importação do CSV e o dashboard
+
+export type ChartDataItem = {
+  [key: string]: string | number;
+};
+
+// Linha crua vinda do CSV, indexada pelos nomes do cabeçalho do arquivo
+// (que podem não seguir o formato padrão; ver `mapping.ts`)
+export type CsvRecord = Record<string, string | undefined>;
+
+// Linha já tratada para o estado da aplicação
+export interface Row extends ChartDataItem {
+  prato: string;
+  dia_semana: string;
+  qtd_prevista_media: number;
+  nivel_movimento_prato: string;
+  // Data ISO (AAAA-MM-DD) quando o arquivo tem a coluna `data`; "" caso contrário.
+  // Datasets salvos antes da coluna existir não têm o campo.
+  data: string;
+  // Restaurante/unidade quando o arquivo tem a coluna `unidade` ou veio da
+  // combinação de vários datasets; "" caso contrário (ver `units.ts`).
+  // Também ausente em datasets salvos antes da coluna existir.
+  unidade: string;
+}
+
+// Quantidade realmente vendida de um prato no dia, usada na comparação com
+// a previsão. Vem de uma coluna extra do mesmo arquivo ou de outro arquivo.
+export interface VendaRow {
+  prato: string;
+  dia_semana: string;
+  qtd_vendida: number;
+  data?: string;
+  unidade?: string;
+}
+
+export const weekIndexes: Record<string, number> = {
+  segunda: 1,
+  terça: 2,
+  quarta: 3,
+  quinta: 4,
+  sexta: 5,
+  sábado: 6,
+  domingo: 7,
+};
+
+export const NIVEIS_MOVIMENTO = ["baixo", "médio", "alto"];
+
+export const NIVEL_NAO_DEFINIDO = "não definido";
+
+// Colunas conhecidas pelo importador (ver README)
+export const CSV_COLUNAS_OBRIGATORIAS = ["prato", "dia_semana"];
+export const CSV_COLUNAS_QUANTIDADE = ["qtd_prevista_media", "qtd_vendida"];
+export const CSV_COLUNAS_NIVEL = ["nivel_movimento_prato", "nivel_movimento"];
+export const CSV_COLUNA_DATA = "data";
+export const CSV_COLUNA_UNIDADE = "unidade";
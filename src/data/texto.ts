@@ -0,0 +1,4 @@
+// Utilitários de texto usados na importação
+
+export const semAcentos = (valor: string) =>
+  valor.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { PLAN_SETTINGS_PADRAO } from "./productionPlan";
+import type { Row } from "./schema";
+import {
+  TODAS_UNIDADES,
+  combinarComoUnidades,
+  compararUnidades,
+  consolidarUnidades,
+  consolidarVendas,
+  rowsDaUnidade,
+  unidadesDe,
+} from "./units";
+
+const linha = (
+  unidade: string,
+  prato: string,
+  qtd_prevista_media: number,
+  nivel_movimento_prato = "",
+  dia_semana = "segunda"
+): Row => ({
+  prato,
+  dia_semana,
+  qtd_prevista_media,
+  nivel_movimento_prato,
+  data: "",
+  unidade,
+});
+
+const rows: Row[] = [
+  linha("Praia", "Feijoada", 10.5, "alto"),
+  linha("Centro", "Feijoada", 20, "alto"),
+  linha("Centro", "Salada", 8, "baixo"),
+  linha("Praia", "Salada", 4, "médio"),
+  linha("Centro", "Salada", 6, "", "terça"),
+];
+
+describe("unidadesDe", () => {
+  it("lista as unidades em ordem alfabética, sem a vazia", () => {
+    expect(unidadesDe(rows)).toEqual(["Centro", "Praia"]);
+    expect(unidadesDe([linha("", "Feijoada", 1)])).toEqual([]);
+  });
+});
+
+describe("consolidarUnidades", () => {
+  it("soma prato + dia e mantém o nível só quando as unidades concordam", () => {
+    expect(consolidarUnidades(rows)).toEqual([
+      linha("", "Feijoada", 30.5, "alto"),
+      linha("", "Salada", 12, ""),
+      linha("", "Salada", 6, "", "terça"),
+    ]);
+  });
+
+  it("devolve o próprio array quando não há unidades", () => {
+    const semUnidade = [linha("", "Feijoada", 1)];
+    expect(consolidarUnidades(semUnidade)).toBe(semUnidade);
+  });
+
+  it("trata datasets antigos sem o campo como sem unidade", () => {
+    const antigo = [{ prato: "Feijoada", dia_semana: "segunda" }] as unknown as Row[];
+    expect(consolidarUnidades(antigo)).toBe(antigo);
+  });
+});
+
+describe("consolidarVendas", () => {
+  it("soma as vendas das unidades", () => {
+    expect(
+      consolidarVendas([
+        { prato: "Feijoada", dia_semana: "segunda", qtd_vendida: 9, unidade: "Centro" },
+        { prato: "Feijoada", dia_semana: "segunda", qtd_vendida: 3, unidade: "Praia" },
+      ])
+    ).toEqual([
+      { prato: "Feijoada", dia_semana: "segunda", qtd_vendida: 12, unidade: "" },
+    ]);
+  });
+});
+
+describe("rowsDaUnidade", () => {
+  it("filtra uma unidade ou consolida todas", () => {
+    expect(rowsDaUnidade(rows, "Praia").map((r) => r.prato)).toEqual([
+      "Feijoada",
+      "Salada",
+    ]);
+    expect(rowsDaUnidade(rows, TODAS_UNIDADES)).toHaveLength(3);
+  });
+});
+
+describe("combinarComoUnidades", () => {
+  it("usa o nome do dataset só nas linhas sem unidade", () => {
+    const combinado = combinarComoUnidades([
+      { unidade: "Centro", data: { rows: [linha("", "Feijoada", 1)], vendas: [] } },
+      {
+        unidade: "Grupo Sul",
+        data: {
+          rows: [linha("Praia", "Feijoada", 2)],
+          vendas: [{ prato: "Feijoada", dia_semana: "segunda", qtd_vendida: 2 }],
+        },
+      },
+    ]);
+    expect(combinado.rows.map((r) => r.unidade)).toEqual(["Centro", "Praia"]);
+    expect(combinado.vendas[0].unidade).toBe("Grupo Sul");
+  });
+});
+
+describe("compararUnidades", () => {
+  it("põe as unidades lado a lado com o preparo de cada uma", () => {
+    const settings = { ...PLAN_SETTINGS_PADRAO, margemGlobal: 0 };
+    const comparacao = compararUnidades(rows, "segunda", settings);
+    expect(comparacao.map((c) => c.prato)).toEqual(["Feijoada", "Salada"]);
+    expect(comparacao[0].totalPrevisto).toBe(30.5);
+    // Cada cozinha arredonda a sua parte: 11 + 20
+    expect(comparacao[0].porUnidade.Praia?.item.produzir).toBe(11);
+    expect(comparacao[0].totalProduzir).toBe(31);
+    expect(compararUnidades(rows, "terça", settings)[0].porUnidade.Praia).toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { chaveDia } from "./calendar";
+import type { DatasetData } from "./datasetStore";
+import { planejarItem, type PlanSettings, type PlanoItem } from "./productionPlan";
+import type { Row, VendaRow } from "./schema";
+
+// Grupos com vários restaurantes: cada linha pode trazer a unidade de origem.
+// O dashboard mostra uma unidade por vez ou todas somadas ("consolidado").
+
+// Valor do seletor para todas as unidades somadas
+export const TODAS_UNIDADES = "";
+
+// Uma unidade da comparação lado a lado, com a linha e o preparo dela
+export interface CelulaUnidade {
+  row: Row;
+  item: PlanoItem;
+}
+
+// Um prato no dia escolhido, com a previsão de cada unidade
+export interface ComparacaoUnidade {
+  prato: string;
+  porUnidade: Record<string, CelulaUnidade | undefined>;
+  totalPrevisto: number;
+  totalProduzir: number;
+}
+
+// Datasets salvos antes da coluna existir não têm o campo
+export const unidadeDe = (r: { unidade?: string }) => r.unidade ?? "";
+
+export const unidadesDe = (rows: Row[]) =>
+  Array.from(new Set(rows.map(unidadeDe)))
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b, "pt-BR"));
+
+const arredondar = (valor: number) => Number(valor.toFixed(3));
+
+// Soma as unidades em uma linha por prato + dia. O nível de movimento só é
+// mantido quando todas as unidades concordam; senão fica para a classificação.
+export const consolidarUnidades = (rows: Row[]): Row[] => {
+  if (!rows.some((r) => unidadeDe(r))) return rows;
+  const porChave = new Map<string, Row>();
+  rows.forEach((r) => {
+    const chave = `${r.prato}|${chaveDia(r)}`;
+    const atual = porChave.get(chave);
+    if (!atual) {
+      porChave.set(chave, { ...r, unidade: TODAS_UNIDADES });
+      return;
+    }
+    porChave.set(chave, {
+      ...atual,
+      qtd_prevista_media: arredondar(atual.qtd_prevista_media + r.qtd_prevista_media),
+      nivel_movimento_prato:
+        atual.nivel_movimento_prato === r.nivel_movimento_prato
+          ? atual.nivel_movimento_prato
+          : "",
+    });
+  });
+  return Array.from(porChave.values());
+};
+
+export const consolidarVendas = (vendas: VendaRow[]): VendaRow[] => {
+  if (!vendas.some((v) => unidadeDe(v))) return vendas;
+  const porChave = new Map<string, VendaRow>();
+  vendas.forEach((v) => {
+    const chave = `${v.prato}|${chaveDia(v)}`;
+    const atual = porChave.get(chave);
+    porChave.set(
+      chave,
+      atual
+        ? { ...atual, qtd_vendida: arredondar(atual.qtd_vendida + v.qtd_vendida) }
+        : { ...v, unidade: TODAS_UNIDADES }
+    );
+  });
+  return Array.from(porChave.values());
+};
+
+// Linhas de uma unidade ou, com `TODAS_UNIDADES`, o consolidado do grupo.
+// Sem unidades no arquivo devolve o próprio array.
+export const rowsDaUnidade = (rows: Row[], unidade: string) =>
+  unidade === TODAS_UNIDADES
+    ? consolidarUnidades(rows)
+    : rows.filter((r) => unidadeDe(r) === unidade);
+
+export const vendasDaUnidade = (vendas: VendaRow[], unidade: string) =>
+  unidade === TODAS_UNIDADES
+    ? consolidarVendas(vendas)
+    : vendas.filter((v) => unidadeDe(v) === unidade);
+
+// Junta vários datasets da biblioteca em um só, um por unidade. Linhas que
+// já têm unidade a mantêm; as demais recebem o nome do dataset.
+export const combinarComoUnidades = (
+  partes: { unidade: string; data: DatasetData }[]
+): DatasetData => ({
+  rows: partes.flatMap(({ unidade, data }) =>
+    data.rows.map((r) => ({ ...r, unidade: unidadeDe(r) || unidade }))
+  ),
+  vendas: partes.flatMap(({ unidade, data }) =>
+    data.vendas.map((v) => ({ ...v, unidade: unidadeDe(v) || unidade }))
+  ),
+});
+
+// Mesmo prato e dia em cada unidade, lado a lado, do maior total para o menor
+export const compararUnidades = (
+  rows: Row[],
+  dia: string,
+  settings: PlanSettings
+): ComparacaoUnidade[] => {
+  const porPrato = new Map<string, ComparacaoUnidade>();
+  rows.forEach((r) => {
+    const unidade = unidadeDe(r);
+    if (!unidade || chaveDia(r) !== dia) return;
+    const linha = porPrato.get(r.prato) ?? {
+      prato: r.prato,
+      porUnidade: {},
+      totalPrevisto: 0,
+      totalProduzir: 0,
+    };
+    const item = planejarItem(r, settings);
+    linha.porUnidade[unidade] = { row: r, item };
+    linha.totalPrevisto = arredondar(linha.totalPrevisto + r.qtd_prevista_media);
+    linha.totalProduzir += item.produzir;
+    porPrato.set(r.prato, linha);
+  });
+  return Array.from(porPrato.values()).sort(
+    (a, b) =>
+      b.totalPrevisto - a.totalPrevisto || a.prato.localeCompare(b.prato, "pt-BR")
+  );
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { opcoesSugeridas, parseCsvTexto } from "./csvImport";
+import { normalizarDia, normalizarNivel, validateCsv } from "./validation";
+
+// Valida um CSV em texto com o mapeamento sugerido, como no envio de arquivo
+const validar = (texto: string) => {
+  const results = parseCsvTexto(texto);
+  return validateCsv(results, "teste.csv", opcoesSugeridas(results, ""));
+};
+
+describe("normalizarDia", () => {
+  it("aceita variações digitadas à mão", () => {
+    expect(normalizarDia("Terca")).toBe("terça");
+    expect(normalizarDia("sexta-feira")).toBe("sexta");
+    expect(normalizarDia("Seg.")).toBe("segunda");
+  });
+
+  it("aceita nomes em inglês e espanhol", () => {
+    expect(normalizarDia("Monday")).toBe("segunda");
+    expect(normalizarDia("miércoles")).toBe("quarta");
+    expect(normalizarDia("sun")).toBe("domingo");
+  });
+
+  it("retorna null para dias desconhecidos", () => {
+    expect(normalizarDia("feriado")).toBeNull();
+  });
+});
+
+describe("normalizarNivel", () => {
+  it("traduz os níveis e trata vazio como não definido", () => {
+    expect(normalizarNivel("High")).toBe("alto");
+    expect(normalizarNivel("medio")).toBe("médio");
+    expect(normalizarNivel("")).toBe("");
+    expect(normalizarNivel("sin definir")).toBe("");
+    expect(normalizarNivel("altíssimo")).toBeNull();
+  });
+});
+
+describe("validateCsv", () => {
+  it("aceita o formato padrão", () => {
+    const report = validar(
+      "prato,dia_semana,qtd_prevista_media,nivel_movimento_prato\n" +
+        "Feijoada,sábado,45.237,alto\n" +
+        "Salada,segunda,12,baixo\n"
+    );
+    expect(report.errosCabecalho).toEqual([]);
+    expect(report.rejeitadas).toEqual([]);
+    expect(report.aceitas).toEqual([
+      {
+        prato: "Feijoada",
+        dia_semana: "sábado",
+        qtd_prevista_media: 45.237,
+        nivel_movimento_prato: "alto",
+        data: "",
+        unidade: "",
+      },
+      {
+        prato: "Salada",
+        dia_semana: "segunda",
+        qtd_prevista_media: 12,
+        nivel_movimento_prato: "baixo",
+        data: "",
+        unidade: "",
+      },
+    ]);
+  });
+
+  it("lê quantidades com vírgula decimal em arquivos com ponto e vírgula", () => {
+    const report = validar(
+      "prato;dia_semana;qtd_prevista_media\n" +
+        "Feijoada;sábado;45,237\n" +
+        "Moqueca;domingo;1.200,5\n"
+    );
+    expect(report.options.decimal).toBe(",");
+    expect(report.aceitas.map((r) => r.qtd_prevista_media)).toEqual([45.237, 1200.5]);
+  });
+
+  it("bloqueia o arquivo quando falta uma coluna obrigatória", () => {
+    const report = validar("prato,nivel_movimento_prato\nFeijoada,alto\n");
+    expect(report.errosCabecalho.length).toBeGreaterThan(0);
+    expect(report.errosCabecalho.map((e) => e.coluna)).toContain(
+      "qtd_prevista_media"
+    );
+    expect(report.aceitas).toEqual([]);
+    expect(report.totalLinhas).toBe(1);
+  });
+
+  it("rejeita linhas com dia vazio ou desconhecido", () => {
+    const report = validar(
+      "prato,dia_semana,qtd_prevista_media\n" +
+        "Feijoada,,10\n" +
+        "Salada,feriado,5\n" +
+        "Moqueca,domingo,8\n"
+    );
+    expect(report.aceitas.map((r) => r.prato)).toEqual(["Moqueca"]);
+    expect(report.rejeitadas).toMatchObject([
+      { linha: 2, motivos: [{ motivo: "diaVazio" }] },
+      {
+        linha: 3,
+        motivos: [{ motivo: "diaDesconhecido", valor: "feriado" }],
+      },
+    ]);
+  });
+
+  it("ignora linhas em branco sem mudar a numeração", () => {
+    const report = validar(
+      "prato,dia_semana,qtd_prevista_media\n" +
+        "Feijoada,sábado,10\n" +
+        ",,\n" +
+        "\n" +
+        "Salada,segunda,x\n"
+    );
+    expect(report.totalLinhas).toBe(2);
+    expect(report.rejeitadas).toMatchObject([
+      { linha: 5, motivos: [{ motivo: "qtdNaoNumerica" }] },
+    ]);
+  });
+
+  it("rejeita quantidades negativas e combinações duplicadas", () => {
+    const report = validar(
+      "prato,dia_semana,qtd_prevista_media\n" +
+        "Feijoada,sábado,10\n" +
+        "Feijoada,Saturday,12\n" +
+        "Salada,segunda,-1\n"
+    );
+    expect(report.aceitas).toHaveLength(1);
+    expect(report.rejeitadas.map((r) => r.linha)).toEqual([3, 4]);
+    expect(report.rejeitadas[0].motivos[0]).toMatchObject({
+      motivo: "duplicada",
+      params: { linha: 2 },
+    });
+    expect(report.rejeitadas[1].motivos[0].motivo).toBe("qtdNegativa");
+  });
+
+  it("permite o mesmo prato + dia em unidades diferentes", () => {
+    const report = validar(
+      "unidade,prato,dia_semana,qtd_prevista_media\n" +
+        "Centro,Feijoada,sábado,10\n" +
+        "Praia,Feijoada,sábado,12\n" +
+        "Centro,Feijoada,sábado,8\n"
+    );
+    expect(report.aceitas.map((r) => r.unidade)).toEqual(["Centro", "Praia"]);
+    expect(report.rejeitadas.map((r) => r.linha)).toEqual([4]);
+  });
+
+  it("usa o dia da data e avisa quando a coluna de dia diverge", () => {
+    const report = validar(
+      "prato,dia_semana,qtd_prevista_media,data\n" +
+        "Feijoada,segunda,10,04/03/2025\n" +
+        "Salada,terça,5,31/02/2025\n"
+    );
+    expect(report.aceitas).toMatchObject([
+      { prato: "Feijoada", dia_semana: "terça", data: "2025-03-04" },
+    ]);
+    expect(
+      report.avisos.find((a) => a.linha === 2 && a.valor === "segunda")
+    ).toMatchObject({ motivo: "diaNaoConfere", params: { dia: "terça" } });
+    expect(report.rejeitadas[0].motivos[0].coluna).toBe("data");
+  });
+
+  it("trata nível desconhecido como aviso, sem rejeitar a linha", () => {
+    const report = validar(
+      "prato,dia_semana,qtd_prevista_media,nivel_movimento_prato\n" +
+        "Feijoada,sábado,10,altíssimo\n"
+    );
+    expect(report.aceitas[0].nivel_movimento_prato).toBe("");
+    expect(report.avisos).toMatchObject([{ linha: 2, valor: "altíssimo" }]);
+  });
+});
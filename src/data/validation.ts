@@ -0,0 +1,397 @@
+import type { ParseError, ParseResult } from "papaparse";
+import { diaDaSemanaDe, parseData } from "./calendar";
+import {
+  CAMPOS_MAPEAVEIS,
+  campoObrigatorio,
+  parseNumero,
+  type ImportOptions,
+  type MappedField,
+} from "./mapping";
+import { NOMES_DIA, NOMES_NIVEL } from "../i18n/languages";
+import {
+  NIVEL_NAO_DEFINIDO,
+  type CsvRecord,
+  type Row,
+  type VendaRow,
+} from "./schema";
+import { semAcentos } from "./texto";
+
+export type IssueSeverity = "erro" | "aviso";
+
+// Motivos dos problemas de importação (deste arquivo e dos importadores de
+// catálogo, receitas e histórico); o texto fica em `motivo.*` nas mensagens
+export type MotivoIssue =
+  | "colunaMapeadaAusente"
+  | "campoSemColuna"
+  | "colunaRepetida"
+  | "colunaNaoMapeada"
+  | "colunaObrigatoria"
+  | "linhaCurta"
+  | "linhaLonga"
+  | "aspas"
+  | "erroLeitura"
+  | "pratoVazio"
+  | "pratoRepetido"
+  | "dataVazia"
+  | "dataInvalida"
+  | "diaVazio"
+  | "diaDesconhecido"
+  | "diaNaoConfere"
+  | "qtdVazia"
+  | "qtdNaoNumerica"
+  | "qtdNegativa"
+  | "nivelDesconhecido"
+  | "vendaInvalida"
+  | "duplicada"
+  | "categoriaDesconhecida"
+  | "custoInvalido"
+  | "precoInvalido"
+  | "ingredienteVazio"
+  | "ingredienteRepetido"
+  | "qtdPorcaoInvalida"
+  | "unidadeDesconhecida"
+  | "qtdVendidaInvalida";
+
+// Problema encontrado na validação. `linha` segue a numeração do arquivo
+// (cabeçalho = linha 1) e fica nula quando o problema é do arquivo inteiro.
+export interface ImportIssue {
+  linha: number | null;
+  coluna: string | null;
+  motivo: MotivoIssue;
+  // Valores do texto do motivo; `dia` é uma chave interna de dia da semana
+  params?: Record<string, string | number>;
+  // Campo do mapeamento citado no motivo
+  campo?: MappedField;
+  valor?: string;
+  severidade: IssueSeverity;
+}
+
+export interface RejectedRow {
+  linha: number;
+  prato: string;
+  dia_semana: string;
+  motivos: ImportIssue[];
+}
+
+export interface ImportReport {
+  fileName: string;
+  colunas: string[];
+  options: ImportOptions;
+  // Nome do perfil de mapeamento salvo aplicado automaticamente, se houver
+  perfil: string | null;
+  totalLinhas: number;
+  aceitas: Row[];
+  // Vendas reais das linhas aceitas, quando há coluna mapeada para isso
+  vendas: VendaRow[];
+  rejeitadas: RejectedRow[];
+  avisos: ImportIssue[];
+  // Erros no cabeçalho impedem o aproveitamento de qualquer linha
+  errosCabecalho: ImportIssue[];
+}
+
+const simplificar = (valor: string) => semAcentos(valor.trim().toLowerCase());
+
+// Nome simplificado (em qualquer idioma suportado) -> chave interna
+const DIAS_RECONHECIDOS = new Map<string, string>();
+Object.values(NOMES_DIA).forEach((nomes) =>
+  Object.entries(nomes).forEach(([chave, nome]) => {
+    DIAS_RECONHECIDOS.set(simplificar(nome), chave);
+    // Abreviações de três letras ("seg", "mon", "lun") não se repetem entre
+    // dias diferentes nos três idiomas
+    DIAS_RECONHECIDOS.set(simplificar(nome).slice(0, 3), chave);
+  })
+);
+
+const NIVEIS_RECONHECIDOS = new Map<string, string>();
+Object.values(NOMES_NIVEL).forEach((nomes) =>
+  Object.entries(nomes).forEach(([chave, nome]) =>
+    NIVEIS_RECONHECIDOS.set(
+      simplificar(nome),
+      chave === NIVEL_NAO_DEFINIDO ? "" : chave
+    )
+  )
+);
+
+// Aceita variações comuns digitadas à mão ("Terca", "sexta-feira", "Seg.")
+// e os nomes em inglês e espanhol ("Monday", "miércoles")
+export const normalizarDia = (valor: string): string | null => {
+  const limpo = simplificar(valor).replace(/-feira$/, "").replace(/\.$/, "");
+  return DIAS_RECONHECIDOS.get(limpo) ?? null;
+};
+
+// "" ou "não definido" (em qualquer idioma) ficam vazios; valores
+// desconhecidos retornam null
+export const normalizarNivel = (valor: string): string | null => {
+  const limpo = simplificar(valor);
+  if (!limpo) return "";
+  return NIVEIS_RECONHECIDOS.get(limpo) ?? null;
+};
+
+const isLinhaVazia = (r: CsvRecord) =>
+  Object.values(r).every((v) =>
+    Array.isArray(v) ? v.every((x) => !String(x).trim()) : !String(v ?? "").trim()
+  );
+
+const descreverErroPapa = (
+  erro: ParseError
+): Pick<ImportIssue, "motivo" | "params"> => {
+  switch (erro.code) {
+    case "TooFewFields":
+      return { motivo: "linhaCurta" };
+    case "TooManyFields":
+      return { motivo: "linhaLonga" };
+    case "MissingQuotes":
+    case "InvalidQuotes":
+      return { motivo: "aspas" };
+    default:
+      return { motivo: "erroLeitura", params: { mensagem: erro.message } };
+  }
+};
+
+const validarCabecalho = (
+  colunas: string[],
+  { mapping }: ImportOptions
+): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+
+  CAMPOS_MAPEAVEIS.forEach(({ campo }) => {
+    const coluna = mapping[campo] ?? null;
+    if (coluna && !colunas.includes(coluna)) {
+      issues.push({
+        linha: null,
+        coluna,
+        motivo: "colunaMapeadaAusente",
+        campo,
+        severidade: "erro",
+      });
+    } else if (!coluna && campoObrigatorio(campo, mapping)) {
+      issues.push({
+        linha: null,
+        coluna: campo,
+        motivo: "campoSemColuna",
+        campo,
+        severidade: "erro",
+      });
+    }
+  });
+
+  const mapeadas = Object.values(mapping);
+  mapeadas
+    .filter((c, index) => c && mapeadas.indexOf(c) !== index)
+    .forEach((coluna) => {
+      issues.push({
+        linha: null,
+        coluna,
+        motivo: "colunaRepetida",
+        severidade: "erro",
+      });
+    });
+
+  colunas
+    .filter((c) => !mapeadas.includes(c))
+    .forEach((coluna) => {
+      issues.push({
+        linha: null,
+        coluna,
+        motivo: "colunaNaoMapeada",
+        severidade: "aviso",
+      });
+    });
+
+  return issues;
+};
+
+export const validateCsv = (
+  results: ParseResult<CsvRecord>,
+  fileName: string,
+  options: ImportOptions,
+  perfil: string | null = null
+): ImportReport => {
+  const colunas = results.meta.fields ?? [];
+  const cabecalho = validarCabecalho(colunas, options);
+
+  const report: ImportReport = {
+    fileName,
+    colunas,
+    options,
+    perfil,
+    totalLinhas: 0,
+    aceitas: [],
+    vendas: [],
+    rejeitadas: [],
+    avisos: cabecalho.filter((i) => i.severidade === "aviso"),
+    errosCabecalho: cabecalho.filter((i) => i.severidade === "erro"),
+  };
+
+  const dados = results.data ?? [];
+  const linhasVazias = new Set<number>();
+  dados.forEach((r, index) => {
+    if (isLinhaVazia(r)) linhasVazias.add(index);
+  });
+  report.totalLinhas = dados.length - linhasVazias.size;
+
+  if (report.errosCabecalho.length > 0) return report;
+
+  // Erros estruturais do Papa.parse, indexados pela linha de dados
+  const errosPapa = new Map<number, ImportIssue[]>();
+  (results.errors ?? []).forEach((erro) => {
+    if (erro.row === undefined || linhasVazias.has(erro.row)) return;
+    const lista = errosPapa.get(erro.row) ?? [];
+    lista.push({
+      linha: erro.row + 2,
+      coluna: null,
+      ...descreverErroPapa(erro),
+      severidade: erro.code === "TooManyFields" ? "aviso" : "erro",
+    });
+    errosPapa.set(erro.row, lista);
+  });
+
+  const { mapping, decimal } = options;
+  const colunaPrato = mapping.prato!;
+  const colunaDia = mapping.dia_semana;
+  const colunaQtd = mapping.qtd_prevista_media!;
+  const colunaNivel = mapping.nivel_movimento_prato;
+  // Perfis salvos antes da comparação com vendas não têm este campo
+  const colunaVenda = mapping.qtd_vendida ?? null;
+  const colunaData = mapping.data ?? null;
+  const colunaUnidade = mapping.unidade ?? null;
+  const vistos = new Map<string, number>();
+
+  dados.forEach((r, index) => {
+    if (linhasVazias.has(index)) return;
+
+    const linha = index + 2;
+    const issues: ImportIssue[] = [...(errosPapa.get(index) ?? [])];
+    const erro = (
+      coluna: string,
+      motivo: MotivoIssue,
+      valor?: string,
+      params?: ImportIssue["params"]
+    ) => issues.push({ linha, coluna, motivo, params, valor, severidade: "erro" });
+
+    const prato = (r[colunaPrato] ?? "").trim();
+    const diaBruto = colunaDia ? (r[colunaDia] ?? "").trim() : "";
+    const dataBruta = colunaData ? (r[colunaData] ?? "").trim() : "";
+    const qtdBruta = (r[colunaQtd] ?? "").trim();
+    const nivelBruto = colunaNivel ? (r[colunaNivel] ?? "").trim() : "";
+    const unidade = colunaUnidade ? (r[colunaUnidade] ?? "").trim() : "";
+
+    if (!prato) erro(colunaPrato, "pratoVazio");
+
+    let dia: string | null = null;
+    let data = "";
+    if (dataBruta) {
+      // Com data, o dia da semana vem dela; a coluna de dia só é conferida
+      data = parseData(dataBruta) ?? "";
+      if (!data) {
+        erro(colunaData!, "dataInvalida", dataBruta);
+      } else {
+        dia = diaDaSemanaDe(data);
+        if (diaBruto && normalizarDia(diaBruto) !== dia) {
+          issues.push({
+            linha,
+            coluna: colunaDia,
+            motivo: "diaNaoConfere",
+            params: { dia },
+            valor: diaBruto,
+            severidade: "aviso",
+          });
+        }
+      }
+    } else if (!diaBruto) {
+      erro(
+        colunaDia ?? colunaData!,
+        colunaDia ? "diaVazio" : "dataVazia"
+      );
+    } else {
+      dia = normalizarDia(diaBruto);
+      if (!dia) erro(colunaDia!, "diaDesconhecido", diaBruto);
+    }
+
+    const qtd = parseNumero(qtdBruta, decimal);
+    if (!qtdBruta) {
+      erro(colunaQtd, "qtdVazia");
+    } else if (!Number.isFinite(qtd)) {
+      erro(colunaQtd, "qtdNaoNumerica", qtdBruta);
+    } else if (qtd < 0) {
+      erro(colunaQtd, "qtdNegativa", qtdBruta);
+    }
+
+    let nivel = normalizarNivel(nivelBruto);
+    if (nivel === null) {
+      issues.push({
+        linha,
+        coluna: colunaNivel,
+        motivo: "nivelDesconhecido",
+        valor: nivelBruto,
+        severidade: "aviso",
+      });
+      nivel = "";
+    }
+
+    let venda: number | null = null;
+    const vendaBruta = colunaVenda ? (r[colunaVenda] ?? "").trim() : "";
+    if (colunaVenda && vendaBruta) {
+      venda = parseNumero(vendaBruta, decimal);
+      if (!Number.isFinite(venda) || venda < 0) {
+        issues.push({
+          linha,
+          coluna: colunaVenda,
+          motivo: "vendaInvalida",
+          valor: vendaBruta,
+          severidade: "aviso",
+        });
+        venda = null;
+      }
+    }
+
+    // Com datas, o mesmo prato pode aparecer em várias segundas-feiras; com
+    // unidades, no mesmo dia em cada restaurante
+    const chave = `${unidade}|${prato}|${data || dia}`;
+    if (prato && dia) {
+      const primeira = vistos.get(chave);
+      if (primeira !== undefined) {
+        erro(
+          colunaPrato,
+          "duplicada",
+          unidade ? `${prato} / ${data || dia} / ${unidade}` : `${prato} / ${data || dia}`,
+          { linha: primeira }
+        );
+      }
+    }
+
+    const erros = issues.filter((i) => i.severidade === "erro");
+    report.avisos.push(...issues.filter((i) => i.severidade === "aviso"));
+
+    if (erros.length > 0) {
+      report.rejeitadas.push({
+        linha,
+        prato,
+        dia_semana: dataBruta || diaBruto,
+        motivos: erros,
+      });
+      return;
+    }
+
+    vistos.set(chave, linha);
+    report.aceitas.push({
+      prato,
+      dia_semana: dia!,
+      qtd_prevista_media: Number(qtd.toFixed(3)),
+      nivel_movimento_prato: nivel,
+      data,
+      unidade,
+    });
+    if (venda !== null) {
+      report.vendas.push({
+        prato,
+        dia_semana: dia!,
+        qtd_vendida: Number(venda.toFixed(3)),
+        data,
+        unidade,
+      });
+    }
+  });
+
+  return report;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  VIEW_STATE_PADRAO,
+  escreverEstadoUrl,
+  lerEstadoUrl,
+  ordemParaTexto,
+  textoParaOrdem,
+} from "./viewState";
+
+describe("escreverEstadoUrl", () => {
+  it("deixa de fora os valores padrão", () => {
+    expect(escreverEstadoUrl(VIEW_STATE_PADRAO)).toBe("");
+  });
+
+  it("ida e volta preserva o estado", () => {
+    const estado = {
+      ...VIEW_STATE_PADRAO,
+      dataset: "abc",
+      dia: "2025-03-04",
+      unidade: "Centro",
+      visao: "unidades" as const,
+      grafico: "pie" as const,
+      nivel: "alto",
+      topPratos: 0,
+      orientacao: "horizontal" as const,
+    };
+    const query = escreverEstadoUrl(estado);
+    expect(query).toContain("top=0");
+    expect({ ...VIEW_STATE_PADRAO, ...lerEstadoUrl(`?${query}`) }).toEqual(estado);
+  });
+});
+
+describe("pratos escolhidos", () => {
+  it("vão um por parâmetro, mesmo com vírgula no nome", () => {
+    const estado = {
+      ...VIEW_STATE_PADRAO,
+      dia: "sexta",
+      pratos: ["Pizza margherita", "Pizza de calabresa, cebola"],
+    };
+    const query = escreverEstadoUrl(estado);
+    expect(new URLSearchParams(query).getAll("pratos")).toEqual(estado.pratos);
+    expect(lerEstadoUrl(`?${query}`)).toEqual({ dia: "sexta", pratos: estado.pratos });
+  });
+
+  it("sem seleção, ficam fora da URL", () => {
+    expect(escreverEstadoUrl({ ...VIEW_STATE_PADRAO, pratos: [] })).toBe("");
+    expect(lerEstadoUrl("?pratos=")).toEqual({});
+  });
+});
+
+describe("lerEstadoUrl", () => {
+  it("ignora parâmetros inválidos", () => {
+    expect(
+      lerEstadoUrl("?grafico=linha&visao=outra&top=7&barras=diagonal&dia=")
+    ).toEqual({});
+  });
+});
+
+describe("ordemParaTexto", () => {
+  it("converte a ordem da semana nos dois sentidos", () => {
+    expect(ordemParaTexto({ coluna: "prato", desc: true })).toBe("-prato");
+    expect(textoParaOrdem("segunda")).toEqual({ coluna: "segunda", desc: false });
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  CONFIG_GRAFICO_PRATOS_PADRAO,
+  OPCOES_TOP_PRATOS,
+  ORDENS_PRATOS,
+  ORIENTACOES,
+  type OrdemPratos,
+  type OrientacaoBarras,
+} from "./dishChart";
+import { ORDEM_TOTAL, type PivotOrdem } from "./weeklyPivot";
+
+// Estado de visualização do dashboard: vai para a URL (link compartilhável)
+// e para as visões salvas
+
+export type ChartType = "bar" | "pie";
+
+export type Agrupamento = "prato" | "categoria";
+
+export type ViewMode =
+  | "previsao"
+  | "semana"
+  | "calendario"
+  | "comparacao"
+  | "compras"
+  | "financeiro"
+  | "unidades"
+  | "diferencas"
+  | "desperdicio";
+
+export type EscopoNivel = "dia" | "semana";
+
+export interface ViewState {
+  // Arquivo da biblioteca (IndexedDB deste navegador)
+  dataset: string | null;
+  // Dia da semana ou data ISO
+  dia: string;
+  // Unidade (restaurante) aberta; "" = todas somadas
+  unidade: string;
+  grafico: ChartType;
+  visao: ViewMode;
+  agrupamento: Agrupamento;
+  escopoNivel: EscopoNivel;
+  // Filtro de nível de movimento clicado no gráfico
+  nivel: string | null;
+  cenario: string | null;
+  // Ordenação do mapa da semana: coluna, com "-" na frente se decrescente
+  ordemSemana: string;
+  // Gráfico de pratos: top N (0 = todos), ordem e orientação das barras
+  topPratos: number;
+  ordemPratos: OrdemPratos;
+  orientacao: OrientacaoBarras;
+  // Pratos escolhidos na busca do gráfico; vazio = todos
+  pratos: string[];
+}
+
+export interface VisaoSalva {
+  id: string;
+  nome: string;
+  estado: ViewState;
+}
+
+const STORAGE_KEY = "sabor-em-dados:visoes-salvas";
+
+const GRAFICOS: ChartType[] = ["bar", "pie"];
+const AGRUPAMENTOS: Agrupamento[] = ["prato", "categoria"];
+const VISOES: ViewMode[] = [
+  "previsao",
+  "semana",
+  "calendario",
+  "comparacao",
+  "compras",
+  "financeiro",
+  "unidades",
+  "diferencas",
+  "desperdicio",
+];
+const ESCOPOS: EscopoNivel[] = ["dia", "semana"];
+
+export const VIEW_STATE_PADRAO: ViewState = {
+  dataset: null,
+  dia: "",
+  unidade: "",
+  grafico: "bar",
+  visao: "previsao",
+  agrupamento: "prato",
+  escopoNivel: "dia",
+  nivel: null,
+  cenario: null,
+  ordemSemana: `-${ORDEM_TOTAL}`,
+  topPratos: CONFIG_GRAFICO_PRATOS_PADRAO.top,
+  ordemPratos: CONFIG_GRAFICO_PRATOS_PADRAO.ordem,
+  orientacao: CONFIG_GRAFICO_PRATOS_PADRAO.orientacao,
+  pratos: CONFIG_GRAFICO_PRATOS_PADRAO.selecionados,
+};
+
+// Nome curto de cada campo na query string
+const PARAMETROS: Record<keyof ViewState, string> = {
+  dataset: "arquivo",
+  dia: "dia",
+  unidade: "unidade",
+  grafico: "grafico",
+  visao: "visao",
+  agrupamento: "agrupar",
+  escopoNivel: "escopo",
+  nivel: "nivel",
+  cenario: "cenario",
+  ordemSemana: "ordem",
+  topPratos: "top",
+  ordemPratos: "ordenar",
+  orientacao: "barras",
+  pratos: "pratos",
+};
+
+const escolher = <T extends string>(valor: string | null, opcoes: T[]) =>
+  opcoes.find((o) => o === valor);
+
+// Só devolve os campos presentes e válidos; o resto fica como está na tela
+export const lerEstadoUrl = (search: string): Partial<ViewState> => {
+  const params = new URLSearchParams(search);
+  const ler = (campo: keyof ViewState) => params.get(PARAMETROS[campo]);
+  const estado: Partial<ViewState> = {};
+
+  if (ler("dataset")) estado.dataset = ler("dataset");
+  if (ler("dia")) estado.dia = ler("dia")!;
+  if (ler("unidade")) estado.unidade = ler("unidade")!;
+  if (ler("nivel")) estado.nivel = ler("nivel");
+  if (ler("cenario")) estado.cenario = ler("cenario");
+  if (ler("ordemSemana")) estado.ordemSemana = ler("ordemSemana")!;
+  const grafico = escolher(ler("grafico"), GRAFICOS);
+  if (grafico) estado.grafico = grafico;
+  const visao = escolher(ler("visao"), VISOES);
+  if (visao) estado.visao = visao;
+  const agrupamento = escolher(ler("agrupamento"), AGRUPAMENTOS);
+  if (agrupamento) estado.agrupamento = agrupamento;
+  const escopo = escolher(ler("escopoNivel"), ESCOPOS);
+  if (escopo) estado.escopoNivel = escopo;
+  const top = ler("topPratos");
+  if (top && OPCOES_TOP_PRATOS.includes(Number(top))) estado.topPratos = Number(top);
+  const ordemPratos = escolher(ler("ordemPratos"), ORDENS_PRATOS);
+  if (ordemPratos) estado.ordemPratos = ordemPratos;
+  const orientacao = escolher(ler("orientacao"), ORIENTACOES);
+  if (orientacao) estado.orientacao = orientacao;
+  // Um parâmetro por prato: nomes podem ter vírgula
+  const pratos = params.getAll(PARAMETROS.pratos).filter(Boolean);
+  if (pratos.length > 0) estado.pratos = pratos;
+
+  return estado;
+};
+
+// Valores iguais ao padrão ficam fora da URL para o link ficar curto
+export const escreverEstadoUrl = (estado: ViewState) => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAMETROS) as (keyof ViewState)[]).forEach((campo) => {
+    const valor = estado[campo];
+    if (Array.isArray(valor)) {
+      valor.forEach((v) => params.append(PARAMETROS[campo], v));
+      return;
+    }
+    // 0 é um valor válido (top = todos os pratos)
+    if (valor !== null && valor !== "" && valor !== VIEW_STATE_PADRAO[campo]) {
+      params.set(PARAMETROS[campo], String(valor));
+    }
+  });
+  return params.toString();
+};
+
+export const ordemParaTexto = ({ coluna, desc }: PivotOrdem) =>
+  `${desc ? "-" : ""}${coluna}`;
+
+export const textoParaOrdem = (texto: string): PivotOrdem =>
+  texto.startsWith("-")
+    ? { coluna: texto.slice(1), desc: true }
+    : { coluna: texto, desc: false };
+
+export const loadVisoes = (): VisaoSalva[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? (JSON.parse(salvo) as VisaoSalva[]) : [];
+  } catch (error) {
+    console.error("Erro ao ler visões salvas:", error);
+    return [];
+  }
+};
+
+export const saveVisoes = (visoes: VisaoSalva[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(visoes));
+};
@@ -0,0 +1,115 @@
+import { chaveDia, compararDias, rotuloDia } from "./calendar";
+import type { ChartDataItem, Row } from "./schema";
+
+// Linha da matriz prato x dia; `null` = prato sem previsão naquele dia
+export interface PivotPrato {
+  prato: string;
+  porDia: Record<string, number | null>;
+  total: number;
+}
+
+export interface PivotSemana {
+  dias: string[];
+  pratos: PivotPrato[];
+  totaisPorDia: Record<string, number>;
+  totalGeral: number;
+  // Maior valor de uma célula, usado para a escala de cores
+  maximo: number;
+}
+
+// Coluna usada para ordenar a tabela: prato, total ou um dia da semana
+export type PivotOrdem = { coluna: string; desc: boolean };
+
+export const ORDEM_PRATO = "prato";
+export const ORDEM_TOTAL = "total";
+
+const ROTULO_OUTROS = "Outros pratos";
+
+export const pivotSemana = (rows: Row[]): PivotSemana => {
+  const dias = Array.from(new Set(rows.map(chaveDia))).sort(compararDias);
+
+  const porPrato = new Map<string, PivotPrato>();
+  const totaisPorDia: Record<string, number> = {};
+  dias.forEach((dia) => (totaisPorDia[dia] = 0));
+  let maximo = 0;
+
+  rows.forEach((r) => {
+    const item = porPrato.get(r.prato) ?? {
+      prato: r.prato,
+      porDia: Object.fromEntries(dias.map((dia) => [dia, null])),
+      total: 0,
+    };
+    const dia = chaveDia(r);
+    item.porDia[dia] = r.qtd_prevista_media;
+    item.total += r.qtd_prevista_media;
+    totaisPorDia[dia] += r.qtd_prevista_media;
+    maximo = Math.max(maximo, r.qtd_prevista_media);
+    porPrato.set(r.prato, item);
+  });
+
+  const pratos = Array.from(porPrato.values());
+  return {
+    dias,
+    pratos: ordenarPivot(pratos, { coluna: ORDEM_TOTAL, desc: true }),
+    totaisPorDia,
+    totalGeral: pratos.reduce((acc, p) => acc + p.total, 0),
+    maximo,
+  };
+};
+
+export const ordenarPivot = (
+  pratos: PivotPrato[],
+  ordem: PivotOrdem
+): PivotPrato[] => {
+  const sinal = ordem.desc ? -1 : 1;
+  const valor = (p: PivotPrato) =>
+    ordem.coluna === ORDEM_TOTAL ? p.total : p.porDia[ordem.coluna] ?? -1;
+
+  return [...pratos].sort((a, b) =>
+    ordem.coluna === ORDEM_PRATO
+      ? sinal * a.prato.localeCompare(b.prato, "pt-BR")
+      : sinal * (valor(a) - valor(b)) || a.prato.localeCompare(b.prato, "pt-BR")
+  );
+};
+
+// Intensidade de 0 a 1 para pintar a célula do heatmap
+export const intensidade = (valor: number | null, maximo: number) =>
+  valor === null || maximo <= 0 ? 0 : valor / maximo;
+
+// Dados do gráfico empilhado: uma barra por dia, um segmento por prato.
+// Só os `limite` pratos de maior total aparecem; o resto vira `rotuloOutros`.
+export const dadosEmpilhados = (
+  pivot: PivotSemana,
+  limite = 10,
+  rotulo: (dia: string) => string = rotuloDia,
+  rotuloOutros = ROTULO_OUTROS
+): { dados: ChartDataItem[]; series: string[] } => {
+  const principais = pivot.pratos
+    .slice()
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limite);
+  const temOutros = pivot.pratos.length > principais.length;
+  const nomes = new Set(principais.map((p) => p.prato));
+
+  const dados = pivot.dias.map((dia) => {
+    const item: ChartDataItem = { dia_semana: rotulo(dia) };
+    principais.forEach((p) => {
+      item[p.prato] = p.porDia[dia] ?? 0;
+    });
+    if (temOutros) {
+      const outros = pivot.pratos
+        .filter((p) => !nomes.has(p.prato))
+        .reduce((acc, p) => acc + (p.porDia[dia] ?? 0), 0);
+      item[rotuloOutros] = Number(outros.toFixed(3));
+    }
+    return item;
+  });
+
+  return {
+    dados,
+    series: [
+      ...principais.map((p) => p.prato),
+      ...(temOutros ? [rotuloOutros] : []),
+    ],
+  };
+};
@@ -0,0 +1,76 @@
+import { downloadBlob } from "./files";
+
+// Exporta o SVG gerado pelo Recharts. A legenda é HTML e fica de fora; o
+// fundo é desenhado explicitamente para o arquivo não sair transparente.
+
+const FUNDO_PADRAO = "#020617";
+
+const serializarGrafico = (container: HTMLElement, fundo: string) => {
+  const svg = container.querySelector<SVGSVGElement>(".recharts-wrapper > svg");
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+  rect.setAttribute("width", "100%");
+  rect.setAttribute("height", "100%");
+  rect.setAttribute("fill", fundo);
+  clone.insertBefore(rect, clone.firstChild);
+
+  return {
+    conteudo: new XMLSerializer().serializeToString(clone),
+    width,
+    height,
+  };
+};
+
+export const exportarSvg = (
+  container: HTMLElement,
+  fileName: string,
+  fundo = FUNDO_PADRAO
+) => {
+  const grafico = serializarGrafico(container, fundo);
+  if (!grafico) return;
+  downloadBlob(
+    new Blob([grafico.conteudo], { type: "image/svg+xml;charset=utf-8" }),
+    fileName
+  );
+};
+
+export const exportarPng = (
+  container: HTMLElement,
+  fileName: string,
+  fundo = FUNDO_PADRAO,
+  escala = 2
+): Promise<void> => {
+  const grafico = serializarGrafico(container, fundo);
+  if (!grafico) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const imagem = new Image();
+    imagem.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = grafico.width * escala;
+      canvas.height = grafico.height * escala;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D indisponível"));
+        return;
+      }
+      ctx.scale(escala, escala);
+      ctx.drawImage(imagem, 0, 0);
+      canvas.toBlob((blob) => {
+        if (blob) downloadBlob(blob, fileName);
+        resolve();
+      }, "image/png");
+    };
+    imagem.onerror = () => reject(new Error("Falha ao renderizar o gráfico"));
+    imagem.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+      grafico.conteudo
+    )}`;
+  });
+};
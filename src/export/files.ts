@@ -0,0 +1,42 @@
+import Papa from "papaparse";
+import writeXlsxFile from "write-excel-file/browser";
+import type { TabelaExport } from "./tables";
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Mantém o mesmo formato do CSV de entrada (vírgula e ponto decimal); o BOM
+// faz o Excel reconhecer os acentos em UTF-8
+export const exportarCsv = (tabela: TabelaExport, fileName: string) => {
+  const csv = Papa.unparse({
+    fields: tabela.colunas,
+    data: tabela.linhas.map((linha) => linha.map((v) => v ?? "")),
+  });
+  downloadBlob(
+    new Blob(["\ufeff", csv], { type: "text/csv;charset=utf-8" }),
+    fileName
+  );
+};
+
+// Cada tabela vira uma aba da planilha
+export const exportarXlsx = (tabelas: TabelaExport[], fileName: string) =>
+  writeXlsxFile(
+    tabelas.map((tabela) => ({
+      // O Excel limita o nome da aba a 31 caracteres
+      sheet: tabela.nome.slice(0, 31),
+      stickyRowsCount: 1,
+      columns: tabela.colunas.map((c) => ({ width: Math.max(12, c.length + 2) })),
+      data: [
+        tabela.colunas.map((c) => ({ value: c, fontWeight: "bold" as const })),
+        ...tabela.linhas,
+      ],
+    }))
+  ).toFile(fileName);
@@ -0,0 +1,133 @@
+import { chaveDia, compararDias } from "../data/calendar";
+import type { DiffLinha } from "../data/datasetDiff";
+import type { LinhaDesperdicio } from "../data/prepLog";
+import type { PlanoItem } from "../data/productionPlan";
+import { NIVEL_NAO_DEFINIDO } from "../data/schema";
+import type { ComparacaoUnidade } from "../data/units";
+
+// Tabela genérica usada pelos exportadores de CSV e XLSX
+export interface TabelaExport {
+  nome: string;
+  colunas: string[];
+  linhas: (string | number | null)[][];
+}
+
+// Ordena o plano da semana por dia e, dentro do dia, pela quantidade prevista
+export const ordenarPlanoSemana = (plano: PlanoItem[]) =>
+  [...plano].sort(
+    (a, b) =>
+      compararDias(chaveDia(a.row), chaveDia(b.row)) ||
+      b.row.qtd_prevista_media - a.row.qtd_prevista_media
+  );
+
+export const tabelaProducao = (
+  nome: string,
+  plano: PlanoItem[]
+): TabelaExport => ({
+  nome,
+  colunas: [
+    "prato",
+    "data",
+    "dia_semana",
+    "qtd_prevista_media",
+    "margem_pct",
+    "qtd_com_margem",
+    "produzir",
+    "lote",
+    "lotes",
+    "nivel_movimento_prato",
+  ],
+  linhas: plano.map((p) => [
+    p.row.prato,
+    p.row.data || null,
+    p.row.dia_semana,
+    p.row.qtd_prevista_media,
+    p.margem,
+    p.qtdComMargem,
+    p.produzir,
+    p.lote,
+    p.lotes,
+    p.row.nivel_movimento_prato || NIVEL_NAO_DEFINIDO,
+  ]),
+});
+
+export const tabelaNivelMovimento = (
+  nome: string,
+  dados: { nivel: string; quantidade: number; porcoes: number }[]
+): TabelaExport => ({
+  nome,
+  colunas: ["nivel_movimento", "combinacoes_prato_dia", "porcoes_previstas"],
+  linhas: dados.map((d) => [d.nivel, d.quantidade, d.porcoes]),
+});
+
+// Uma linha por unidade + prato, no mesmo formato da tabela de produção
+export const tabelaUnidades = (
+  nome: string,
+  comparacao: ComparacaoUnidade[],
+  unidades: string[]
+): TabelaExport => ({
+  nome,
+  colunas: ["unidade", ...tabelaProducao(nome, []).colunas],
+  linhas: unidades.flatMap((unidade) =>
+    tabelaProducao(
+      nome,
+      comparacao.flatMap((c) => {
+        const celula = c.porUnidade[unidade];
+        return celula ? [celula.item] : [];
+      })
+    ).linhas.map((linha) => [unidade, ...linha])
+  ),
+});
+
+export const tabelaDiff = (nome: string, diff: DiffLinha[]): TabelaExport => ({
+  nome,
+  colunas: [
+    "prato",
+    "dia_semana",
+    "mudanca",
+    "qtd_anterior",
+    "qtd_atual",
+    "variacao",
+    "variacao_pct",
+    "nivel_anterior",
+    "nivel_atual",
+  ],
+  linhas: diff.map((l) => [
+    l.prato,
+    l.dia_semana,
+    l.tipo,
+    l.anterior,
+    l.atual,
+    l.delta,
+    l.deltaPct,
+    l.anterior === null ? null : l.nivelAnterior || NIVEL_NAO_DEFINIDO,
+    l.atual === null ? null : l.nivelAtual || NIVEL_NAO_DEFINIDO,
+  ]),
+});
+
+// Relatório de desperdício: uma linha por prato (ou dia / semana)
+export const tabelaDesperdicio = (
+  nome: string,
+  coluna: string,
+  linhas: LinhaDesperdicio[]
+): TabelaExport => ({
+  nome,
+  colunas: [
+    coluna,
+    "registros",
+    "qtd_prevista_media",
+    "produzido",
+    "produzido_menos_previsto",
+    "sobra",
+    "sobra_pct",
+  ],
+  linhas: linhas.map((l) => [
+    l.chave,
+    l.registros,
+    l.previsto,
+    l.produzido,
+    l.diferenca,
+    l.sobra,
+    l.sobraPct,
+  ]),
+});
@@ -0,0 +1,24 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { I18nContext, criarI18n } from "./context";
+import { loadIdioma, localeDe, saveIdioma, type Idioma } from "./languages";
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [idioma, setIdioma] = useState<Idioma>(loadIdioma);
+
+  useEffect(() => {
+    document.documentElement.lang = localeDe(idioma);
+  }, [idioma]);
+
+  const valor = useMemo(
+    () =>
+      criarI18n(idioma, (novo) => {
+        setIdioma(novo);
+        saveIdioma(novo);
+      }),
+    [idioma]
+  );
+
+  return <I18nContext.Provider value={valor}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,53 @@
+import { createContext, useContext } from "react";
+import {
+  IDIOMA_PADRAO,
+  formatarNumero,
+  localeDe,
+  rotuloCategoriaEm,
+  rotuloDiaEm,
+  rotuloNivelEm,
+  type Idioma,
+} from "./languages";
+import { traduzir, type ChaveMensagem } from "./messages";
+import type { ImportIssue } from "../data/validation";
+
+export interface I18n {
+  idioma: Idioma;
+  locale: string;
+  setIdioma: (idioma: Idioma) => void;
+  t: (chave: ChaveMensagem, params?: Record<string, string | number>) => string;
+  numero: (valor: number, casas?: number, minimo?: number) => string;
+  rotuloDia: (chave: string) => string;
+  rotuloNivel: (nivel: string) => string;
+  // Categoria do catálogo; vazia vira "sem categoria"
+  rotuloCategoria: (categoria: string) => string;
+  // Texto do motivo de um problema de importação, sem o valor lido
+  motivo: (issue: ImportIssue) => string;
+}
+
+export const criarI18n = (
+  idioma: Idioma,
+  setIdioma: (idioma: Idioma) => void
+): I18n => ({
+  idioma,
+  locale: localeDe(idioma),
+  setIdioma,
+  t: (chave, params) => traduzir(idioma, chave, params),
+  numero: (valor, casas, minimo) => formatarNumero(valor, idioma, casas, minimo),
+  rotuloDia: (chave) => rotuloDiaEm(chave, idioma),
+  rotuloNivel: (nivel) => rotuloNivelEm(nivel, idioma),
+  rotuloCategoria: (categoria) => rotuloCategoriaEm(categoria, idioma),
+  motivo: ({ motivo, params = {}, campo }) =>
+    traduzir(idioma, `motivo.${motivo}`, {
+      ...params,
+      ...(campo && { campo: traduzir(idioma, `campo.${campo}`) }),
+      ...(params.dia !== undefined && { dia: rotuloDiaEm(String(params.dia), idioma) }),
+    }),
+});
+
+// Fora do provider (ex.: testes de componente) a tela fica em português
+export const I18nContext = createContext<I18n>(
+  criarI18n(IDIOMA_PADRAO, () => {})
+);
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,154 @@
+import { diaDaSemanaDe, isData } from "../data/calendar";
+import { SEM_CATEGORIA } from "../data/catalog";
+import { NIVEL_NAO_DEFINIDO } from "../data/schema";
+
+// Idiomas da interface. Os dados continuam com as chaves internas em
+// português (`weekIndexes`, `NIVEIS_MOVIMENTO`); só a exibição é traduzida.
+
+export type Idioma = "pt" | "en" | "es";
+
+export interface OpcaoIdioma {
+  id: Idioma;
+  label: string;
+  // Locale usado na formatação de números e datas
+  locale: string;
+}
+
+export const IDIOMAS: OpcaoIdioma[] = [
+  { id: "pt", label: "Português", locale: "pt-BR" },
+  { id: "en", label: "English", locale: "en-US" },
+  { id: "es", label: "Español", locale: "es-AR" },
+];
+
+const STORAGE_KEY = "sabor-em-dados:idioma";
+
+export const IDIOMA_PADRAO: Idioma = "pt";
+
+// Chave interna do dia da semana -> nome no idioma
+export const NOMES_DIA: Record<Idioma, Record<string, string>> = {
+  pt: {
+    segunda: "segunda",
+    terça: "terça",
+    quarta: "quarta",
+    quinta: "quinta",
+    sexta: "sexta",
+    sábado: "sábado",
+    domingo: "domingo",
+  },
+  en: {
+    segunda: "Monday",
+    terça: "Tuesday",
+    quarta: "Wednesday",
+    quinta: "Thursday",
+    sexta: "Friday",
+    sábado: "Saturday",
+    domingo: "Sunday",
+  },
+  es: {
+    segunda: "lunes",
+    terça: "martes",
+    quarta: "miércoles",
+    quinta: "jueves",
+    sexta: "viernes",
+    sábado: "sábado",
+    domingo: "domingo",
+  },
+};
+
+// Nível de movimento interno (e "não definido") -> nome no idioma
+export const NOMES_NIVEL: Record<Idioma, Record<string, string>> = {
+  pt: {
+    baixo: "baixo",
+    médio: "médio",
+    alto: "alto",
+    [NIVEL_NAO_DEFINIDO]: NIVEL_NAO_DEFINIDO,
+  },
+  en: {
+    baixo: "low",
+    médio: "medium",
+    alto: "high",
+    [NIVEL_NAO_DEFINIDO]: "not defined",
+  },
+  es: {
+    baixo: "bajo",
+    médio: "medio",
+    alto: "alto",
+    [NIVEL_NAO_DEFINIDO]: "sin definir",
+  },
+};
+
+// Categoria do catálogo (e "sem categoria") -> nome no idioma
+export const NOMES_CATEGORIA: Record<Idioma, Record<string, string>> = {
+  pt: {
+    proteína: "proteína",
+    acompanhamento: "acompanhamento",
+    salada: "salada",
+    sobremesa: "sobremesa",
+    [SEM_CATEGORIA]: SEM_CATEGORIA,
+  },
+  en: {
+    proteína: "protein",
+    acompanhamento: "side dish",
+    salada: "salad",
+    sobremesa: "dessert",
+    [SEM_CATEGORIA]: "no category",
+  },
+  es: {
+    proteína: "proteína",
+    acompanhamento: "guarnición",
+    salada: "ensalada",
+    sobremesa: "postre",
+    [SEM_CATEGORIA]: "sin categoría",
+  },
+};
+
+const isIdioma = (valor: string | null): valor is Idioma =>
+  IDIOMAS.some((i) => i.id === valor);
+
+export const localeDe = (idioma: Idioma) =>
+  IDIOMAS.find((i) => i.id === idioma)!.locale;
+
+// Sem escolha salva, segue o idioma do navegador quando ele é suportado
+export const loadIdioma = (): Idioma => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    if (isIdioma(salvo)) return salvo;
+  } catch (error) {
+    console.error("Erro ao ler idioma:", error);
+  }
+  const navegador = navigator.language.slice(0, 2).toLowerCase();
+  return isIdioma(navegador) ? navegador : IDIOMA_PADRAO;
+};
+
+export const saveIdioma = (idioma: Idioma) => {
+  localStorage.setItem(STORAGE_KEY, idioma);
+};
+
+// `casas` é o máximo de casas decimais; `minimo` permite omitir zeros à direita
+export const formatarNumero = (
+  valor: number,
+  idioma: Idioma,
+  casas = 0,
+  minimo = casas
+) =>
+  valor.toLocaleString(localeDe(idioma), {
+    minimumFractionDigits: minimo,
+    maximumFractionDigits: casas,
+  });
+
+// "04/03 (terça)" em português, "03/04 (Tuesday)" em inglês; dias da semana
+// sem data viram só o nome traduzido
+export const rotuloDiaEm = (chave: string, idioma: Idioma) => {
+  if (!isData(chave)) return NOMES_DIA[idioma][chave] ?? chave;
+  const data = new Date(`${chave}T00:00:00Z`).toLocaleDateString(
+    localeDe(idioma),
+    { day: "2-digit", month: "2-digit", timeZone: "UTC" }
+  );
+  return `${data} (${NOMES_DIA[idioma][diaDaSemanaDe(chave)]})`;
+};
+
+export const rotuloNivelEm = (nivel: string, idioma: Idioma) =>
+  NOMES_NIVEL[idioma][nivel || NIVEL_NAO_DEFINIDO] ?? nivel;
+
+export const rotuloCategoriaEm = (categoria: string, idioma: Idioma) =>
+  NOMES_CATEGORIA[idioma][categoria || SEM_CATEGORIA] ?? categoria;
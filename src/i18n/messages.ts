@@ -0,0 +1,1705 @@
+import type { Idioma } from "./languages";
+
+// Textos da tela principal. `{nome}` é substituído pelo parâmetro de mesmo
+// nome em `t()`. O português é a referência: os outros idiomas precisam ter
+// exatamente as mesmas chaves.
+
+const pt = {
+  "app.titulo": "Dashboard de Previsão de Pratos",
+  "app.introAntes": "Faça upload do arquivo CSV gerado no Colab (por exemplo:",
+  "app.introDepois": ") para visualizar as previsões por prato e dia da semana.",
+  "app.idioma": "Idioma",
+  "app.tema": "Tema",
+  "app.paleta": "Cores dos gráficos",
+  "tema.escuro": "Escuro",
+  "tema.claro": "Claro",
+  "tema.altoContraste": "Alto contraste",
+  "paleta.padrao": "Paleta padrão",
+  "paleta.daltonismo": "Segura para daltonismo",
+  "app.arquivoCsv": "Arquivo CSV:",
+  "app.cliqueParaSelecionar": "(clique para selecionar)",
+  "app.semDados":
+    "Nenhum dado carregado ainda. Faça upload de um arquivo CSV para ver os gráficos.",
+
+  "importacao.titulo": "Relatório de importação: {nome}",
+  "importacao.perfil": "Mapeamento salvo \"{nome}\" aplicado automaticamente.",
+  "importacao.cabecalhoInvalido":
+    "O cabeçalho do arquivo não segue o formato esperado, então nenhuma linha foi importada. Colunas encontradas:",
+  "importacao.nenhumaColuna": "(nenhuma)",
+  "importacao.lidas": "{n} linhas lidas:",
+  "importacao.aceitas": "{n} aceitas",
+  "importacao.e": "e",
+  "importacao.rejeitadas": "{n} rejeitadas",
+  "importacao.comAvisos": ", com {n} aviso(s)",
+  "importacao.linha": "Linha",
+  "importacao.linhaN": "Linha {n}",
+  "importacao.cabecalho": "Cabeçalho",
+  "importacao.prato": "Prato",
+  "importacao.dia": "Dia",
+  "importacao.coluna": "Coluna",
+  "importacao.motivo": "Motivo",
+  "importacao.avisos": "Avisos ({n})",
+  "importacao.restantes": "… e mais {n} não exibidas.",
+  "importacao.unificados": "Nomes de pratos unificados ({n})",
+  "importacao.apelidoSalvo": "apelido salvo",
+  "importacao.sugestoes":
+    "Nomes parecidos que podem ser o mesmo prato. Marque os que devem ser unificados; a escolha fica salva e vale para os próximos arquivos.",
+  "importacao.unificar": "Unificar",
+  "importacao.nomesEncontrados": "Nomes encontrados",
+  "importacao.usarNome": "Usar o nome",
+  "importacao.linhasAceitas": "Linhas aceitas ({n})",
+  "importacao.carregar": "Carregar {n} linhas aceitas",
+  "importacao.ajustarMapeamento": "Ajustar mapeamento de colunas",
+  "importacao.descartar": "Descartar arquivo",
+
+  "mapeamento.titulo": "Mapeamento de colunas: {nome}",
+  "mapeamento.descricao":
+    "O cabeçalho deste arquivo não está no formato padrão. Indique qual coluna corresponde a cada campo do dashboard; as sugestões foram preenchidas automaticamente a partir dos nomes das colunas.",
+  "mapeamento.delimitador": "Delimitador",
+  "mapeamento.decimal": "Separador decimal",
+  "mapeamento.decimalPonto": "Ponto (45.237)",
+  "mapeamento.decimalVirgula": "Vírgula (45,237)",
+  "mapeamento.naoUsar": "(não usar)",
+  "mapeamento.previa": "Prévia das primeiras linhas com o mapeamento atual:",
+  "mapeamento.invalido": "inválido",
+  "mapeamento.lembrar": "Lembrar este mapeamento para arquivos com as mesmas colunas, como",
+  "mapeamento.nomePerfil": "Nome do perfil (ex.: Export PDV)",
+  "mapeamento.faltando": "Campos obrigatórios sem coluna: {campos}.",
+  "mapeamento.aplicar": "Aplicar mapeamento",
+  "delimitador.auto": "Automático",
+  "delimitador.virgula": "Vírgula (,)",
+  "delimitador.pontoVirgula": "Ponto e vírgula (;)",
+  "delimitador.tabulacao": "Tabulação",
+  "delimitador.barra": "Barra vertical (|)",
+
+  "campo.prato": "Prato",
+  "campo.dia_semana": "Dia da semana",
+  "campo.qtd_prevista_media": "Quantidade",
+  "campo.nivel_movimento_prato": "Nível de movimento",
+  "campo.qtd_vendida": "Quantidade vendida (real)",
+  "campo.data": "Data",
+  "campo.unidade": "Unidade (restaurante)",
+
+  "motivo.colunaMapeadaAusente": "Coluna mapeada para \"{campo}\" não existe no cabeçalho",
+  "motivo.campoSemColuna": "Nenhuma coluna do arquivo foi associada a \"{campo}\"",
+  "motivo.colunaRepetida": "A mesma coluna foi associada a mais de um campo",
+  "motivo.colunaNaoMapeada": "Coluna não mapeada (será ignorada)",
+  "motivo.colunaObrigatoria": "Coluna obrigatória ausente no cabeçalho",
+  "motivo.linhaCurta": "Linha com menos colunas que o cabeçalho",
+  "motivo.linhaLonga": "Linha com mais colunas que o cabeçalho (valores extras ignorados)",
+  "motivo.aspas": "Aspas malformadas no campo",
+  "motivo.erroLeitura": "Erro de leitura: {mensagem}",
+  "motivo.pratoVazio": "Prato não informado",
+  "motivo.pratoRepetido": "Prato repetido no catálogo",
+  "motivo.dataVazia": "Data não informada",
+  "motivo.dataInvalida": "Data inválida (use AAAA-MM-DD ou DD/MM/AAAA)",
+  "motivo.diaVazio": "Dia da semana não informado",
+  "motivo.diaDesconhecido": "Dia da semana desconhecido",
+  "motivo.diaNaoConfere": "Dia da semana não corresponde à data (usado \"{dia}\")",
+  "motivo.qtdVazia": "Quantidade não informada",
+  "motivo.qtdNaoNumerica": "Quantidade não numérica",
+  "motivo.qtdNegativa": "Quantidade negativa",
+  "motivo.nivelDesconhecido": "Nível de movimento desconhecido (tratado como não definido)",
+  "motivo.vendaInvalida": "Quantidade vendida inválida (ignorada na comparação)",
+  "motivo.duplicada": "Combinação prato + dia duplicada (primeira ocorrência na linha {linha})",
+  "motivo.categoriaDesconhecida": "Categoria desconhecida (use {categorias})",
+  "motivo.custoInvalido": "Custo por porção inválido",
+  "motivo.precoInvalido": "Preço por porção inválido",
+  "motivo.ingredienteVazio": "Ingrediente não informado",
+  "motivo.ingredienteRepetido": "Ingrediente repetido para o mesmo prato",
+  "motivo.qtdPorcaoInvalida": "Quantidade por porção inválida",
+  "motivo.unidadeDesconhecida": "Unidade desconhecida (use g, kg, ml, l ou unidade)",
+  "motivo.qtdVendidaInvalida": "Quantidade vendida inválida",
+
+  "erro.lerCsv": "Erro ao ler o arquivo CSV.",
+  "leitura.lendo": "Lendo {nome}…",
+  "leitura.linhas": "{n} linhas lidas",
+  "leitura.cancelar": "Cancelar leitura",
+  "erro.abrirArquivo": "Erro ao abrir o arquivo salvo.",
+  "erro.visaoSemArquivo": "O arquivo desta visão não está mais na biblioteca.",
+  "erro.xlsx": "Não foi possível gerar a planilha XLSX.",
+
+  "filtro.data": "Data:",
+  "filtro.diaSemana": "Dia da semana:",
+  "filtro.unidade": "Unidade:",
+  "filtro.todasUnidades": "Todas (consolidado)",
+  "filtro.visualizacao": "Visualização:",
+  "visao.previsao": "Previsão",
+  "visao.semana": "Visão da semana",
+  "visao.calendario": "Calendário",
+  "visao.comparacao": "Previsto x vendido",
+  "visao.compras": "Lista de compras",
+  "visao.financeiro": "Cardápio e finanças",
+  "visao.unidades": "Comparar unidades",
+  "visao.diferencas": "Mudanças entre rodadas",
+  "visao.desperdicio": "Preparo e desperdício",
+
+  "fonte.arquivo": "Coluna de vendas do próprio arquivo",
+  "fonte.dataset": "Arquivo: {nome}",
+
+  "grafico.tipo": "Tipo de gráfico:",
+  "grafico.bar": "Barras",
+  "grafico.pie": "Pizza",
+  "grafico.agruparPor": "Agrupar por:",
+  "grafico.papel": "gráfico",
+  "grafico.instrucoes": "Use as setas para percorrer os itens, Home e End para ir ao primeiro e ao último.",
+  "grafico.instrucoesAtivar": "Enter ou espaço seleciona o item.",
+  "grafico.posicao": "{atual} de {total}",
+  "grafico.verTabela": "Ver dados em tabela",
+  "agrupamento.prato": "Prato",
+  "agrupamento.categoria": "Categoria do catálogo",
+
+  "pratos.tituloPrato": "Quantidade prevista por prato ({dia})",
+  "pratos.tituloCategoria": "Quantidade prevista por categoria ({dia})",
+  "pratos.descricao":
+    "Mostra a quantidade média prevista para cada prato no dia da semana selecionado.",
+  "pratos.previsaoOriginal": "Previsão original",
+  "pratos.cenario": "Cenário",
+  "pratos.qtdPrevista": "Qtd. prevista",
+  "pratos.outros": "Outros pratos",
+
+  "pratosGrafico.mostrar": "Mostrar:",
+  "pratosGrafico.top": "Top {n}",
+  "pratosGrafico.todos": "Todos os pratos",
+  "pratosGrafico.ordenar": "Ordenar por:",
+  "pratosGrafico.orientacao": "Barras:",
+  "pratosGrafico.buscar": "Buscar prato...",
+  "pratosGrafico.selecionados": "Só os pratos escolhidos:",
+  "pratosGrafico.remover": "Remover {prato}",
+  "pratosGrafico.limparSelecao": "Mostrar todos",
+  "pratosGrafico.dica":
+    "Clique em uma barra ou fatia para destacar o prato na sugestão de preparo e no mapa da semana.",
+  "pratosGrafico.destacando": "Destacando",
+  "pratosGrafico.limparDestaque": "Limpar destaque",
+  "ordemPratos.quantidade": "Quantidade",
+  "ordemPratos.nome": "Nome",
+  "ordemPratos.nivel": "Nível de movimento",
+  "orientacao.vertical": "Verticais",
+  "orientacao.horizontal": "Horizontais",
+
+  "nivel.tituloDia": "Nível de movimento ({dia})",
+  "nivel.tituloSemana": "Nível de movimento (semana)",
+  "nivel.escopoDia": "Dia selecionado",
+  "nivel.escopoSemana": "Semana inteira",
+  "nivel.descricao":
+    "Quantas combinações prato + dia foram classificadas como baixo, médio ou alto movimento e quantas porções cada nível representa. Clique em um nível para filtrar o gráfico de pratos e a sugestão de preparo.",
+  "nivel.origem": "Origem dos níveis:",
+  "nivel.combinacoesSerie": "Qtde. de combinações",
+  "nivel.porcoes": "Porções previstas",
+  "nivel.nivel": "Nível",
+  "nivel.combinacoes": "Combinações",
+  "nivel.pctPorcoes": "% das porções",
+  "nivel.filtroAtivo": "Mostrando apenas pratos de nível",
+  "nivel.limparFiltro": "Limpar filtro",
+
+  "origem.arquivo": "Arquivo",
+  "origem.tercis_dia": "Tercis por dia",
+  "origem.tercis_semana": "Tercis da semana",
+  "origem.limites": "Limites definidos",
+
+  "preparo.titulo": "Sugestão de preparo para {dia}",
+  "preparo.feriado": "{nome}: previsão multiplicada por {valor}.",
+  "preparo.descricao":
+    "Quantidades a produzir no dia selecionado: a previsão recebe a margem de segurança e é arredondada para porções inteiras ou para o lote de cada prato. Marque cada prato feito com a quantidade produzida e, no fechamento, anote a sobra.",
+  "preparo.exportar": "Exportar:",
+  "preparo.csvDia": "CSV do dia",
+  "preparo.csvSemana": "CSV da semana",
+  "preparo.xlsx": "XLSX (dia, semana e níveis)",
+  "preparo.folha": "Folha da cozinha / PDF:",
+  "preparo.imprimirDia": "Imprimir dia",
+  "preparo.imprimirSemana": "Imprimir semana",
+  "preparo.semDados": "Não há dados disponíveis para o dia selecionado.",
+  "preparo.prato": "Prato",
+  "preparo.qtdPrevista": "Qtd. prevista (porções)",
+  "preparo.deltaCenario": "Δ cenário",
+  "preparo.margem": "Margem",
+  "preparo.produzir": "Produzir (porções)",
+  "preparo.nivel": "Nível de movimento",
+  "preparo.comMargem": "{valor} com margem",
+  "preparo.calculado": "Calculado: {origem}",
+  "preparo.calc": "(calc.)",
+  "preparo.limiteMinimo": "mínimo",
+  "preparo.limiteMaximo": "máximo",
+  "preparo.financeiro":
+    "Receita prevista {receita} · custo de insumos {custo} · margem {margem}",
+  "preparo.foraCatalogo": "{valor} porções de pratos fora do catálogo",
+  "preparo.retirados": "Retirados neste cenário:",
+  "preparo.folhaTitulo": "Folha de produção",
+  "preparo.feito": "Feito",
+  "preparo.produzido": "Produzido",
+  "preparo.sobra": "Sobra",
+  "preparo.marcarFeito": "Marcar {prato} como feito",
+  "preparo.registroData": "Registro de",
+  "preparo.registroResumo": "{feitos} de {total} pratos feitos · {produzido} porções produzidas",
+  "preparo.registroSobra": "sobra de {sobra} porções ({pct}%)",
+  "preparo.registroUnidade": "Escolha uma unidade para marcar o que foi feito, produzido e a sobra.",
+
+  "unidades.semDados": "Nenhuma unidade tem previsão para {dia}.",
+  "unidades.titulo": "Previsão por unidade ({dia})",
+  "unidades.descricao": "Porções previstas de cada prato em cada unidade",
+  "unidades.descricaoTop": "(os {n} pratos de maior volume somando as unidades)",
+  "unidades.dica": "Clique em uma barra para destacar o prato.",
+  "unidades.preparoTitulo": "Preparo por unidade",
+  "unidades.preparoDescricao":
+    "Quantidade a produzir em cada cozinha (previsão com margem, lotes e limites de cada prato); a previsão aparece entre parênteses. \"—\" indica que o prato não está no cardápio da unidade neste dia.",
+  "unidades.exportarCsv": "Exportar CSV",
+  "unidades.prato": "Prato",
+  "unidades.total": "Total",
+  "unidades.totalUnidade": "Total da unidade",
+
+  "diff.rodadaAnterior": "Rodada anterior:",
+  "diff.rodadaAtual": "Rodada atual:",
+  "diff.escolhaArquivo": "Escolha um arquivo",
+  "diff.inverter": "Inverter",
+  "diff.inverterAjuda": "Trocar a rodada anterior pela atual",
+  "diff.escolhaDois":
+    "Escolha dois arquivos da biblioteca para ver o que mudou de uma previsão para a outra.",
+  "diff.escolhaDiferentes": "Escolha dois arquivos diferentes.",
+  "diff.carregando": "Carregando arquivos…",
+  "diff.novos": "Pratos novos",
+  "diff.novosAjuda": "Combinações prato + dia que só existem na rodada atual",
+  "diff.retirados": "Pratos retirados",
+  "diff.retiradosAjuda": "Combinações prato + dia que só existiam na rodada anterior",
+  "diff.alterados": "Quantidades alteradas",
+  "diff.alteradosAjuda": "Combinações presentes nas duas rodadas com previsão diferente",
+  "diff.mudancasNivel": "Mudanças de nível",
+  "diff.mudancasNivelAjuda":
+    "Combinações cujo nível de movimento mudou (ex.: {de} → {para})",
+  "diff.porcoesSemana": "Porções na semana",
+  "diff.porcoesSemanaAjuda": "Rodada anterior: {valor} porções",
+  "diff.maioresVariacoes": "Maiores variações ({dia})",
+  "diff.semVariacoes": "Nenhuma previsão mudou neste dia.",
+  "diff.variacaoItem": "{prato}: {valor} porções",
+  "diff.variacao": "Variação",
+  "diff.variacaoPorcoes": "Variação (porções)",
+  "diff.oQueMudou": "O que mudou",
+  "diff.exportarCsv": "Exportar CSV",
+  "diff.filtro.todos": "Todas as mudanças",
+  "diff.filtro.alterado": "Quantidade alterada",
+  "diff.filtro.adicionado": "Pratos novos",
+  "diff.filtro.removido": "Pratos retirados",
+  "diff.filtro.nivel": "Nível de movimento alterado",
+  "diff.soDia": "Só {dia}",
+  "diff.semMudancas": "Nenhuma mudança com este filtro.",
+  "diff.ordenar": "Clique para ordenar",
+  "diff.prato": "Prato",
+  "diff.dia": "Dia",
+  "diff.anterior": "Anterior",
+  "diff.atual": "Atual",
+  "diff.deltaPorcoes": "Δ porções",
+  "diff.nivel": "Nível",
+  "diff.tipo.adicionado": "novo",
+  "diff.tipo.removido": "retirado",
+  "diff.limite": "Mostrando {n} de {total} mudanças; a exportação em CSV traz todas.",
+
+  "desperdicio.vazio":
+    "Ainda não há fechamentos registrados. Na sugestão de preparo da visão {visao}, marque os pratos feitos com a quantidade produzida e anote a sobra no fim do dia; cada data fica salva neste navegador.",
+  "desperdicio.vazioSemFechamento": "{n} prato(s) já têm produção, mas ainda sem a sobra.",
+  "desperdicio.semFechamento":
+    "{n} prato(s) com produção registrada ainda sem a sobra ficam fora do relatório.",
+  "desperdicio.produzidas": "Porções produzidas",
+  "desperdicio.produzidasAjuda": "{n} pratos fechados (prato + data)",
+  "desperdicio.previsao": "Previsão",
+  "desperdicio.previsaoAjuda": "Soma de qtd_prevista_media nos mesmos pratos e datas",
+  "desperdicio.produzidoPrevisto": "Produzido x previsto",
+  "desperdicio.produzidoPrevistoAjuda": "Porções produzidas além (+) ou aquém (−) da previsão",
+  "desperdicio.sobraAjuda":
+    "Porções que sobraram ou foram descartadas, e a parte do produzido que elas representam",
+  "desperdicio.semanas": "Semana a semana",
+  "desperdicio.graficoTitulo": "Produção e sobra semana a semana",
+  "desperdicio.graficoItem": "Semana de {semana}: {produzido} produzidas, {sobra} de sobra ({pct})",
+  "desperdicio.semana": "Semana",
+  "desperdicio.registros": "Registros",
+  "desperdicio.previsto": "Previsto",
+  "desperdicio.produzido": "Produzido",
+  "desperdicio.delta": "Δ previsto",
+  "desperdicio.deltaAjuda": "Produzido menos a previsão (qtd_prevista_media)",
+  "desperdicio.sobra": "Sobra",
+  "desperdicio.pctProduzido": "% do produzido",
+  "desperdicio.pctSobra": "% sobra",
+  "desperdicio.porUnidade": "Por unidade",
+  "desperdicio.unidade": "Unidade",
+  "desperdicio.porDia": "Por dia da semana",
+  "desperdicio.dia": "Dia",
+  "desperdicio.porPrato": "Por prato (mais sobra primeiro)",
+  "desperdicio.prato": "Prato",
+  "desperdicio.exportarCsv": "Exportar CSV",
+
+  "cenario.adicionado": "Prato adicionado no cenário",
+  "cenario.original": "Original: {valor}",
+  "cenario.novo": "novo",
+  "cozinha.abrir": "Modo cozinha",
+  "cozinha.titulo": "Produção de hoje",
+  "cozinha.sair": "Sair",
+  "cozinha.semPrevisao": "O arquivo aberto não tem previsão para hoje ({dia}).",
+  "cozinha.previsto": "previsto {valor}",
+  "cozinha.lotes": "{lotes} lotes de {lote}",
+  "cozinha.total": "Total: {valor} porções",
+  "catalogo.arquivo": "Catálogo de pratos (CSV):",
+  "catalogo.colunas": "colunas prato, categoria ({categorias}), custo e preco por porção",
+  "catalogo.resumo":
+    "{n} pratos no catálogo. Importar um arquivo substitui o catálogo atual.",
+  "catalogo.vazio":
+    "Nenhum prato cadastrado ainda. Importe um CSV ou preencha a tabela abaixo.",
+  "catalogo.confirmarLimpar": "Remover todo o catálogo de pratos?",
+  "catalogo.limpar": "Limpar catálogo",
+  "catalogo.erros": "{n} linha(s) do catálogo ignorada(s)",
+  "catalogo.projecao": "Projeção financeira da semana",
+  "catalogo.baseCusto": "Custo de insumos sobre:",
+  "catalogo.basePrevisao": "Previsão de vendas",
+  "catalogo.baseProducao": "Plano de produção (com margem)",
+  "catalogo.semCatalogo": "Pratos sem catálogo (fora da receita e do custo): {pratos}.",
+  "catalogo.graficoTitulo": "Receita, custo de insumos e margem por dia",
+  "catalogo.graficoItem": "{dia}: receita {receita}, custo {custo}, margem {margem}",
+  "catalogo.receita": "Receita",
+  "catalogo.custoInsumos": "Custo de insumos",
+  "catalogo.custo": "Custo",
+  "catalogo.margem": "Margem",
+  "catalogo.margemPct": "Margem %",
+  "catalogo.dia": "Dia",
+  "catalogo.porcoes": "Porções",
+  "catalogo.semana": "Semana",
+  "catalogo.porCategoria": "Semana por categoria",
+  "catalogo.categoria": "Categoria",
+  "catalogo.titulo": "Catálogo de pratos",
+  "catalogo.descricao":
+    "Valores por porção. Pratos da previsão que ainda não estão no catálogo aparecem primeiro, destacados; preencher qualquer campo cadastra o prato.",
+  "catalogo.prato": "Prato",
+  "catalogo.custoReais": "Custo (R$)",
+  "catalogo.precoReais": "Preço (R$)",
+  "catalogo.foraCatalogo": "fora do catálogo",
+  "catalogo.remover": "Remover",
+  "compras.arquivo": "Arquivo de receitas (CSV):",
+  "compras.colunas":
+    "colunas prato, ingrediente, quantidade (por porção) e unidade (g, kg, ml, l ou unidade)",
+  "compras.resumo": "{ingredientes} ingredientes cadastrados em {pratos} pratos.",
+  "compras.vazio": "Nenhuma receita cadastrada ainda.",
+  "compras.confirmarLimpar": "Remover todas as receitas cadastradas?",
+  "compras.limpar": "Remover receitas",
+  "compras.erros": "{n} linha(s) do arquivo de receitas ignorada(s)",
+  "compras.periodo": "Período:",
+  "compras.diaSelecionado": "Dia selecionado ({dia})",
+  "compras.semanaInteira": "Semana inteira",
+  "compras.base": "Quantidade de pratos:",
+  "compras.basePrevisao": "Previsão",
+  "compras.tituloDia": "Lista de compras para {dia}",
+  "compras.tituloSemana": "Lista de compras da semana",
+  "compras.semReceita": "Pratos sem receita (não entram na lista): {pratos}.",
+  "compras.semItens":
+    "Importe um arquivo de receitas para calcular os ingredientes necessários.",
+  "compras.ingrediente": "Ingrediente",
+  "compras.total": "Total",
+  "historico.titulo": "Gerar previsão a partir do histórico de vendas",
+  "historico.descricao":
+    "CSV com as colunas data, prato e qtd_vendida (uma linha por prato e data). A previsão é calculada no navegador, por prato e dia da semana, e salva na biblioteca como um arquivo novo.",
+  "historico.erros": "{n} problema(s) no histórico",
+  "historico.resumo": "{registros} registros de {pratos} pratos, de {inicio} a {fim}.",
+  "historico.modelo": "Modelo",
+  "historico.modelo.media_movel": "Média móvel do dia da semana",
+  "historico.modelo.ewma": "Média exponencial (EWMA)",
+  "historico.modelo.mediana": "Mediana das últimas semanas",
+  "historico.alpha": "Peso da semana mais recente",
+  "historico.semanas": "Últimas semanas",
+  "historico.gerar": "Gerar previsão",
+  "calendario.feriados": "Feriados e eventos especiais ({n})",
+  "calendario.feriadosAjuda":
+    "O multiplicador é aplicado à previsão de todos os pratos na data (ex.: {exemplo} = 50% a mais; 0 = restaurante fechado).",
+  "calendario.data": "Data",
+  "calendario.nome": "Nome",
+  "calendario.nomeExemplo": "Ex.: Dia das Mães",
+  "calendario.multiplicador": "Multiplicador",
+  "calendario.adicionar": "Adicionar",
+  "calendario.remover": "Remover",
+  "calendario.semDatas":
+    "O arquivo aberto não tem a coluna data; o calendário só fica disponível para previsões com datas específicas (AAAA-MM-DD ou DD/MM/AAAA).",
+  "calendario.anterior": "Anterior",
+  "calendario.proximo": "Próximo",
+  "calendario.legenda":
+    "Total de porções previstas por data (já com os multiplicadores de feriados). Clique em uma data para abrir a previsão do dia.",
+  "comparacao.fonte": "Vendas reais:",
+  "comparacao.semVendas":
+    "Nenhuma venda real disponível. Importe um arquivo com as colunas de previsão e de venda (ex.: qtd_prevista_media e qtd_vendida) ou um segundo arquivo só com as vendas e selecione-o acima.",
+  "comparacao.pares": "{n} combinações prato + dia com previsão e venda.",
+  "comparacao.semVenda": "{n} sem venda registrada.",
+  "comparacao.semPrevisao": "{n} vendas sem previsão correspondente.",
+  "comparacao.mae": "MAE (porções)",
+  "comparacao.maeAjuda": "Erro absoluto médio entre previsto e vendido",
+  "comparacao.mapeAjuda": "Erro percentual absoluto médio (ignora vendas zeradas)",
+  "comparacao.vies": "Viés",
+  "comparacao.viesPorcoes": "Viés (porções)",
+  "comparacao.viesAjuda": "Média de previsto - vendido: positivo indica superestimação",
+  "comparacao.graficoTitulo": "Previsto x vendido por prato ({dia})",
+  "comparacao.graficoItem": "{prato}: previsto {previsto}, vendido {vendido}",
+  "comparacao.diaSemVenda": "Não há combinações com venda para o dia selecionado.",
+  "comparacao.prato": "Prato",
+  "comparacao.previsto": "Previsto",
+  "comparacao.vendido": "Vendido",
+  "comparacao.porDia": "Erro por dia da semana",
+  "comparacao.dia": "Dia",
+  "comparacao.porPrato": "Erro por prato",
+  "comparacao.porPratoAjuda":
+    "Pratos em laranja são superestimados e em azul subestimados pelo modelo em pelo menos 75% dos dias. Ordenado pelo tamanho do viés.",
+  "comparacao.combinacoes": "Combinações",
+  "comparacao.diasAcimaAbaixo": "Dias acima / abaixo",
+  "comparacao.tendencia": "Tendência",
+  "comparacao.tendencia.superestima": "Superestima",
+  "comparacao.tendencia.subestima": "Subestima",
+  "semana.mapa": "Mapa da semana (prato x dia)",
+  "semana.mapaAjuda":
+    "Quantidade prevista de cada prato em cada dia; quanto mais forte o azul, maior a previsão. Clique em uma célula para abrir o dia na visão de previsão.",
+  "semana.ordenar": "Clique para ordenar",
+  "semana.destacar": "Clique para destacar o prato",
+  "semana.prato": "Prato",
+  "semana.total": "Total",
+  "semana.totalDia": "Total do dia",
+  "semana.grafico": "Porções previstas por dia",
+  "semana.graficoAjuda":
+    "Total previsto em cada dia, dividido pelos pratos de maior volume na semana. Clique em uma barra para abrir o dia.",
+  "semana.graficoItem": "{dia}: {valor} porções",
+  "cenario.titulo": "Cenários (e se...?)",
+  "cenario.ativo": "ativo: {nome}",
+  "cenario.descricao":
+    "Ajuste a previsão sem alterar o arquivo (ex.: chuva na sexta, −20%; um prato novo no lugar de outro). Com um cenário ativo, todos os gráficos, o plano de produção e as exportações usam os números ajustados.",
+  "cenario.mostrar": "Mostrar",
+  "cenario.previsaoOriginal": "Previsão original",
+  "cenario.nome": "Nome do cenário",
+  "cenario.nomePadrao": "Cenário {n}",
+  "cenario.criar": "Novo cenário",
+  "cenario.excluir": "Excluir",
+  "cenario.confirmarExcluir": "Excluir o cenário \"{nome}\"?",
+  "cenario.ajustes": "Ajustes",
+  "cenario.ajuste": "Ajuste",
+  "cenario.ajustePorcoes": "{valor} porções",
+  "cenario.prato": "Prato",
+  "cenario.dia": "Dia",
+  "cenario.todos": "Todos",
+  "cenario.todosPratos": "Todos os pratos",
+  "cenario.todosDias": "Todos os dias",
+  "cenario.tipo": "Tipo",
+  "cenario.tipo.percentual": "Percentual (%)",
+  "cenario.tipo.absoluto": "Porções (+/−)",
+  "cenario.valor": "Valor",
+  "cenario.adicionarAjuste": "Adicionar ajuste",
+  "cenario.remover": "Remover",
+  "cenario.removidos": "Pratos retirados do cardápio",
+  "cenario.escolhaPrato": "Escolha um prato",
+  "cenario.retirar": "Retirar",
+  "cenario.restaurar": "Restaurar",
+  "cenario.adicionados": "Pratos adicionados",
+  "cenario.pratoExemplo": "Ex.: Moqueca",
+  "cenario.porcoes": "Porções",
+  "cenario.adicionarPrato": "Adicionar prato",
+  "folha.impressoEm": "Impresso em {data}",
+  "folha.prato": "Prato",
+  "folha.previsto": "Previsto",
+  "folha.produzir": "Produzir",
+  "folha.lotes": "Lotes",
+  "folha.movimento": "Movimento",
+  "folha.feito": "Feito",
+  "folha.total": "Total",
+  "apelidos.titulo": "Apelidos de pratos ({n})",
+  "apelidos.descricao":
+    "Aplicados automaticamente nas próximas importações. Remover um apelido não altera os arquivos já salvos na biblioteca.",
+  "apelidos.nomeArquivo": "Nome no arquivo",
+  "apelidos.vira": "Vira",
+  "apelidos.remover": "Remover",
+  "exportar.erroPng": "Não foi possível exportar o gráfico como PNG.",
+  "exportar.baixar": "Baixar o gráfico em {formato}",
+  "classificacao.titulo": "Classificação automática de nível",
+  "classificacao.doArquivo":
+    "O arquivo já traz o nível de movimento. Linhas sem nível recebem o nível calculado; marque a opção abaixo para substituir todos e comparar.",
+  "classificacao.calculado":
+    "O arquivo não traz o nível de movimento, então ele é calculado a partir da quantidade prevista.",
+  "classificacao.estrategia": "Estratégia",
+  "classificacao.estrategia.tercis_dia": "Tercis por dia",
+  "classificacao.estrategia.tercis_semana": "Tercis da semana",
+  "classificacao.estrategia.limites": "Limites definidos",
+  "classificacao.limiteBaixo": "Baixo até (porções)",
+  "classificacao.limiteAlto": "Alto a partir de (porções)",
+  "classificacao.sobrescrever": "Substituir os níveis do arquivo pelos calculados",
+  "classificacao.limitesInvalidos":
+    "O limite de alto deve ser maior que o de baixo; com os valores atuais nenhum prato fica em médio.",
+  "classificacao.concordancia": "Concordância entre arquivo e cálculo:",
+  "classificacao.concordanciaTotal": "({iguais} de {total} combinações)",
+  "classificacao.matriz": "Arquivo \\ Calculado",
+  "biblioteca.titulo": "Arquivos salvos ({n})",
+  "biblioteca.confirmarExcluir": "Excluir \"{nome}\" da biblioteca?",
+  "biblioteca.nome": "Nome",
+  "biblioteca.enviadoEm": "Enviado em",
+  "biblioteca.linhas": "Linhas",
+  "biblioteca.marcar": "Marcar para combinar como unidades",
+  "biblioteca.aberto": "Aberto",
+  "biblioteca.abrir": "Abrir",
+  "biblioteca.renomear": "Renomear",
+  "biblioteca.excluir": "Excluir",
+  "biblioteca.combinarAjuda":
+    "Um arquivo por restaurante? Marque dois ou mais para abri-los juntos, cada um como uma unidade.",
+  "biblioteca.combinar": "Combinar como unidades",
+  "biblioteca.combinarN": "Combinar {n} como unidades",
+  "visoes.titulo": "Visões salvas ({n})",
+  "visoes.descricao":
+    "O endereço da página guarda o arquivo, o dia, o tipo de gráfico e os filtros abertos. Como os arquivos ficam na biblioteca deste navegador, em outro computador o link abre o último arquivo usado lá, no mesmo dia e com os mesmos gráficos.",
+  "visoes.copieLink": "Copie o link desta visão:",
+  "visoes.arquivoAusente": "arquivo não encontrado",
+  "visoes.copiado": "Link copiado!",
+  "visoes.copiar": "Copiar link desta visão",
+  "visoes.nomeExemplo": "Ex.: Sexta em pizza",
+  "visoes.salvar": "Salvar visão atual",
+  "visoes.visao": "Visão",
+  "visoes.arquivo": "Arquivo",
+  "visoes.dia": "Dia",
+  "visoes.abrir": "Abrir",
+  "visoes.excluir": "Excluir",
+  "configPlano.titulo": "Configurar plano de produção",
+  "configPlano.margemGlobal": "Margem global",
+  "configPlano.margemNivel": "Margem {nivel}",
+  "configPlano.margemNivelAria": "Margem para nível {nivel}",
+  "configPlano.confirmarRestaurar":
+    "Restaurar as configurações padrão do plano de produção?",
+  "configPlano.restaurar": "Restaurar padrão",
+  "configPlano.porPrato":
+    "Por prato: o lote arredonda a produção para múltiplos do seu tamanho (sem lote, arredonda para porções inteiras); mínimo e máximo limitam o resultado.",
+  "configPlano.prato": "Prato",
+  "configPlano.lote": "Lote",
+  "configPlano.minimo": "Mínimo",
+  "configPlano.maximo": "Máximo",
+  "configPlano.campoDe": "{campo} de {prato}",
+};
+
+export type ChaveMensagem = keyof typeof pt;
+
+type Mensagens = Record<ChaveMensagem, string>;
+
+const en: Mensagens = {
+  "app.titulo": "Dish Forecast Dashboard",
+  "app.introAntes": "Upload the CSV file generated in Colab (for example:",
+  "app.introDepois": ") to see the forecasts by dish and weekday.",
+  "app.idioma": "Language",
+  "app.tema": "Theme",
+  "app.paleta": "Chart colors",
+  "tema.escuro": "Dark",
+  "tema.claro": "Light",
+  "tema.altoContraste": "High contrast",
+  "paleta.padrao": "Default palette",
+  "paleta.daltonismo": "Colorblind-safe",
+  "app.arquivoCsv": "CSV file:",
+  "app.cliqueParaSelecionar": "(click to choose)",
+  "app.semDados": "No data loaded yet. Upload a CSV file to see the charts.",
+
+  "importacao.titulo": "Import report: {nome}",
+  "importacao.perfil": "Saved mapping \"{nome}\" applied automatically.",
+  "importacao.cabecalhoInvalido":
+    "The file header does not follow the expected format, so no rows were imported. Columns found:",
+  "importacao.nenhumaColuna": "(none)",
+  "importacao.lidas": "{n} rows read:",
+  "importacao.aceitas": "{n} accepted",
+  "importacao.e": "and",
+  "importacao.rejeitadas": "{n} rejected",
+  "importacao.comAvisos": ", with {n} warning(s)",
+  "importacao.linha": "Row",
+  "importacao.linhaN": "Row {n}",
+  "importacao.cabecalho": "Header",
+  "importacao.prato": "Dish",
+  "importacao.dia": "Day",
+  "importacao.coluna": "Column",
+  "importacao.motivo": "Reason",
+  "importacao.avisos": "Warnings ({n})",
+  "importacao.restantes": "… and {n} more not shown.",
+  "importacao.unificados": "Dish names merged ({n})",
+  "importacao.apelidoSalvo": "saved alias",
+  "importacao.sugestoes":
+    "Similar names that may be the same dish. Tick the ones to merge; the choice is saved and applies to the next files.",
+  "importacao.unificar": "Merge",
+  "importacao.nomesEncontrados": "Names found",
+  "importacao.usarNome": "Use the name",
+  "importacao.linhasAceitas": "Accepted rows ({n})",
+  "importacao.carregar": "Load {n} accepted rows",
+  "importacao.ajustarMapeamento": "Adjust column mapping",
+  "importacao.descartar": "Discard file",
+
+  "mapeamento.titulo": "Column mapping: {nome}",
+  "mapeamento.descricao":
+    "This file's header is not in the standard format. Pick which column matches each dashboard field; the suggestions were filled in automatically from the column names.",
+  "mapeamento.delimitador": "Delimiter",
+  "mapeamento.decimal": "Decimal separator",
+  "mapeamento.decimalPonto": "Point (45.237)",
+  "mapeamento.decimalVirgula": "Comma (45,237)",
+  "mapeamento.naoUsar": "(do not use)",
+  "mapeamento.previa": "Preview of the first rows with the current mapping:",
+  "mapeamento.invalido": "invalid",
+  "mapeamento.lembrar": "Remember this mapping for files with the same columns, as",
+  "mapeamento.nomePerfil": "Profile name (e.g. POS export)",
+  "mapeamento.faltando": "Required fields without a column: {campos}.",
+  "mapeamento.aplicar": "Apply mapping",
+  "delimitador.auto": "Automatic",
+  "delimitador.virgula": "Comma (,)",
+  "delimitador.pontoVirgula": "Semicolon (;)",
+  "delimitador.tabulacao": "Tab",
+  "delimitador.barra": "Vertical bar (|)",
+
+  "campo.prato": "Dish",
+  "campo.dia_semana": "Weekday",
+  "campo.qtd_prevista_media": "Quantity",
+  "campo.nivel_movimento_prato": "Traffic level",
+  "campo.qtd_vendida": "Quantity sold (actual)",
+  "campo.data": "Date",
+  "campo.unidade": "Unit (restaurant)",
+
+  "motivo.colunaMapeadaAusente": "Column mapped to \"{campo}\" is not in the header",
+  "motivo.campoSemColuna": "No column of the file was mapped to \"{campo}\"",
+  "motivo.colunaRepetida": "The same column was mapped to more than one field",
+  "motivo.colunaNaoMapeada": "Unmapped column (will be ignored)",
+  "motivo.colunaObrigatoria": "Required column missing from the header",
+  "motivo.linhaCurta": "Row with fewer columns than the header",
+  "motivo.linhaLonga": "Row with more columns than the header (extra values ignored)",
+  "motivo.aspas": "Malformed quotes in the field",
+  "motivo.erroLeitura": "Read error: {mensagem}",
+  "motivo.pratoVazio": "Dish missing",
+  "motivo.pratoRepetido": "Dish repeated in the catalog",
+  "motivo.dataVazia": "Date missing",
+  "motivo.dataInvalida": "Invalid date (use YYYY-MM-DD or DD/MM/YYYY)",
+  "motivo.diaVazio": "Weekday missing",
+  "motivo.diaDesconhecido": "Unknown weekday",
+  "motivo.diaNaoConfere": "Weekday does not match the date (used \"{dia}\")",
+  "motivo.qtdVazia": "Quantity missing",
+  "motivo.qtdNaoNumerica": "Quantity is not a number",
+  "motivo.qtdNegativa": "Negative quantity",
+  "motivo.nivelDesconhecido": "Unknown traffic level (treated as not defined)",
+  "motivo.vendaInvalida": "Invalid quantity sold (ignored in the comparison)",
+  "motivo.duplicada": "Duplicate dish + day combination (first seen on row {linha})",
+  "motivo.categoriaDesconhecida": "Unknown category (use {categorias})",
+  "motivo.custoInvalido": "Invalid cost per serving",
+  "motivo.precoInvalido": "Invalid price per serving",
+  "motivo.ingredienteVazio": "Ingredient missing",
+  "motivo.ingredienteRepetido": "Ingredient repeated for the same dish",
+  "motivo.qtdPorcaoInvalida": "Invalid quantity per serving",
+  "motivo.unidadeDesconhecida": "Unknown unit (use g, kg, ml, l or unidade)",
+  "motivo.qtdVendidaInvalida": "Invalid quantity sold",
+
+  "erro.lerCsv": "Could not read the CSV file.",
+  "leitura.lendo": "Reading {nome}…",
+  "leitura.linhas": "{n} rows read",
+  "leitura.cancelar": "Cancel reading",
+  "erro.abrirArquivo": "Could not open the saved file.",
+  "erro.visaoSemArquivo": "The file of this view is no longer in the library.",
+  "erro.xlsx": "Could not create the XLSX spreadsheet.",
+
+  "filtro.data": "Date:",
+  "filtro.diaSemana": "Weekday:",
+  "filtro.unidade": "Location:",
+  "filtro.todasUnidades": "All (combined)",
+  "filtro.visualizacao": "View:",
+  "visao.previsao": "Forecast",
+  "visao.semana": "Week overview",
+  "visao.calendario": "Calendar",
+  "visao.comparacao": "Forecast vs. sold",
+  "visao.compras": "Shopping list",
+  "visao.financeiro": "Menu and finances",
+  "visao.unidades": "Compare locations",
+  "visao.diferencas": "Changes between runs",
+  "visao.desperdicio": "Prep and waste",
+
+  "fonte.arquivo": "Sales column of this file",
+  "fonte.dataset": "File: {nome}",
+
+  "grafico.tipo": "Chart type:",
+  "grafico.bar": "Bars",
+  "grafico.pie": "Pie",
+  "grafico.agruparPor": "Group by:",
+  "grafico.papel": "chart",
+  "grafico.instrucoes": "Use the arrow keys to move through the items, Home and End to jump to the first and last.",
+  "grafico.instrucoesAtivar": "Enter or space selects the item.",
+  "grafico.posicao": "{atual} of {total}",
+  "grafico.verTabela": "Show data as a table",
+  "agrupamento.prato": "Dish",
+  "agrupamento.categoria": "Catalog category",
+
+  "pratos.tituloPrato": "Forecast quantity by dish ({dia})",
+  "pratos.tituloCategoria": "Forecast quantity by category ({dia})",
+  "pratos.descricao":
+    "Shows the average forecast quantity of each dish on the selected weekday.",
+  "pratos.previsaoOriginal": "Original forecast",
+  "pratos.cenario": "Scenario",
+  "pratos.qtdPrevista": "Forecast qty.",
+  "pratos.outros": "Other dishes",
+
+  "pratosGrafico.mostrar": "Show:",
+  "pratosGrafico.top": "Top {n}",
+  "pratosGrafico.todos": "All dishes",
+  "pratosGrafico.ordenar": "Sort by:",
+  "pratosGrafico.orientacao": "Bars:",
+  "pratosGrafico.buscar": "Search dish...",
+  "pratosGrafico.selecionados": "Only the chosen dishes:",
+  "pratosGrafico.remover": "Remove {prato}",
+  "pratosGrafico.limparSelecao": "Show all",
+  "pratosGrafico.dica":
+    "Click a bar or slice to highlight the dish in the prep suggestion and in the week map.",
+  "pratosGrafico.destacando": "Highlighting",
+  "pratosGrafico.limparDestaque": "Clear highlight",
+  "ordemPratos.quantidade": "Quantity",
+  "ordemPratos.nome": "Name",
+  "ordemPratos.nivel": "Traffic level",
+  "orientacao.vertical": "Vertical",
+  "orientacao.horizontal": "Horizontal",
+
+  "nivel.tituloDia": "Traffic level ({dia})",
+  "nivel.tituloSemana": "Traffic level (week)",
+  "nivel.escopoDia": "Selected day",
+  "nivel.escopoSemana": "Whole week",
+  "nivel.descricao":
+    "How many dish + day combinations were classified as low, medium or high traffic and how many servings each level represents. Click a level to filter the dish chart and the prep suggestion.",
+  "nivel.origem": "Level source:",
+  "nivel.combinacoesSerie": "No. of combinations",
+  "nivel.porcoes": "Forecast servings",
+  "nivel.nivel": "Level",
+  "nivel.combinacoes": "Combinations",
+  "nivel.pctPorcoes": "% of servings",
+  "nivel.filtroAtivo": "Showing only dishes with level",
+  "nivel.limparFiltro": "Clear filter",
+
+  "origem.arquivo": "File",
+  "origem.tercis_dia": "Terciles per day",
+  "origem.tercis_semana": "Week terciles",
+  "origem.limites": "Custom thresholds",
+
+  "preparo.titulo": "Prep suggestion for {dia}",
+  "preparo.feriado": "{nome}: forecast multiplied by {valor}.",
+  "preparo.descricao":
+    "Quantities to produce on the selected day: the forecast gets the safety margin and is rounded up to whole servings or to each dish's batch size. Tick each dish once it is made, with the quantity produced, and record the leftovers at closing.",
+  "preparo.exportar": "Export:",
+  "preparo.csvDia": "Day CSV",
+  "preparo.csvSemana": "Week CSV",
+  "preparo.xlsx": "XLSX (day, week and levels)",
+  "preparo.folha": "Kitchen sheet / PDF:",
+  "preparo.imprimirDia": "Print day",
+  "preparo.imprimirSemana": "Print week",
+  "preparo.semDados": "There is no data for the selected day.",
+  "preparo.prato": "Dish",
+  "preparo.qtdPrevista": "Forecast qty. (servings)",
+  "preparo.deltaCenario": "Δ scenario",
+  "preparo.margem": "Margin",
+  "preparo.produzir": "Produce (servings)",
+  "preparo.nivel": "Traffic level",
+  "preparo.comMargem": "{valor} with margin",
+  "preparo.calculado": "Calculated: {origem}",
+  "preparo.calc": "(calc.)",
+  "preparo.limiteMinimo": "minimum",
+  "preparo.limiteMaximo": "maximum",
+  "preparo.financeiro":
+    "Forecast revenue {receita} · ingredient cost {custo} · margin {margem}",
+  "preparo.foraCatalogo": "{valor} servings of dishes not in the catalog",
+  "preparo.retirados": "Removed in this scenario:",
+  "preparo.folhaTitulo": "Production sheet",
+  "preparo.feito": "Done",
+  "preparo.produzido": "Produced",
+  "preparo.sobra": "Leftover",
+  "preparo.marcarFeito": "Mark {prato} as done",
+  "preparo.registroData": "Log for",
+  "preparo.registroResumo": "{feitos} of {total} dishes done · {produzido} servings produced",
+  "preparo.registroSobra": "{sobra} servings left over ({pct}%)",
+  "preparo.registroUnidade": "Pick a unit to log what was done, produced and left over.",
+
+  "unidades.semDados": "No unit has a forecast for {dia}.",
+  "unidades.titulo": "Forecast by unit ({dia})",
+  "unidades.descricao": "Forecast servings of each dish in each unit",
+  "unidades.descricaoTop": "(the {n} dishes with the highest volume across units)",
+  "unidades.dica": "Click a bar to highlight the dish.",
+  "unidades.preparoTitulo": "Prep by unit",
+  "unidades.preparoDescricao":
+    "Quantity to produce in each kitchen (forecast with margin, batches and limits of each dish); the forecast is shown in parentheses. \"—\" means the dish is not on the unit's menu on this day.",
+  "unidades.exportarCsv": "Export CSV",
+  "unidades.prato": "Dish",
+  "unidades.total": "Total",
+  "unidades.totalUnidade": "Unit total",
+
+  "diff.rodadaAnterior": "Previous run:",
+  "diff.rodadaAtual": "Current run:",
+  "diff.escolhaArquivo": "Choose a file",
+  "diff.inverter": "Swap",
+  "diff.inverterAjuda": "Swap the previous run with the current one",
+  "diff.escolhaDois":
+    "Choose two files from the library to see what changed from one forecast to the other.",
+  "diff.escolhaDiferentes": "Choose two different files.",
+  "diff.carregando": "Loading files…",
+  "diff.novos": "New dishes",
+  "diff.novosAjuda": "Dish + day combinations that only exist in the current run",
+  "diff.retirados": "Removed dishes",
+  "diff.retiradosAjuda": "Dish + day combinations that only existed in the previous run",
+  "diff.alterados": "Changed quantities",
+  "diff.alteradosAjuda": "Combinations present in both runs with a different forecast",
+  "diff.mudancasNivel": "Level changes",
+  "diff.mudancasNivelAjuda":
+    "Combinations whose traffic level changed (e.g. {de} → {para})",
+  "diff.porcoesSemana": "Servings in the week",
+  "diff.porcoesSemanaAjuda": "Previous run: {valor} servings",
+  "diff.maioresVariacoes": "Largest changes ({dia})",
+  "diff.semVariacoes": "No forecast changed on this day.",
+  "diff.variacaoItem": "{prato}: {valor} servings",
+  "diff.variacao": "Change",
+  "diff.variacaoPorcoes": "Change (servings)",
+  "diff.oQueMudou": "What changed",
+  "diff.exportarCsv": "Export CSV",
+  "diff.filtro.todos": "All changes",
+  "diff.filtro.alterado": "Quantity changed",
+  "diff.filtro.adicionado": "New dishes",
+  "diff.filtro.removido": "Removed dishes",
+  "diff.filtro.nivel": "Traffic level changed",
+  "diff.soDia": "Only {dia}",
+  "diff.semMudancas": "No changes with this filter.",
+  "diff.ordenar": "Click to sort",
+  "diff.prato": "Dish",
+  "diff.dia": "Day",
+  "diff.anterior": "Previous",
+  "diff.atual": "Current",
+  "diff.deltaPorcoes": "Δ servings",
+  "diff.nivel": "Level",
+  "diff.tipo.adicionado": "new",
+  "diff.tipo.removido": "removed",
+  "diff.limite": "Showing {n} of {total} changes; the CSV export has all of them.",
+
+  "desperdicio.vazio":
+    "No closing records yet. In the prep suggestion of the {visao} view, tick the dishes done with the quantity produced and log the leftovers at the end of the day; each date is saved in this browser.",
+  "desperdicio.vazioSemFechamento": "{n} dish(es) have production logged but no leftovers yet.",
+  "desperdicio.semFechamento":
+    "{n} dish(es) with production logged but no leftovers yet are left out of the report.",
+  "desperdicio.produzidas": "Servings produced",
+  "desperdicio.produzidasAjuda": "{n} closed dishes (dish + date)",
+  "desperdicio.previsao": "Forecast",
+  "desperdicio.previsaoAjuda": "Sum of qtd_prevista_media for the same dishes and dates",
+  "desperdicio.produzidoPrevisto": "Produced vs forecast",
+  "desperdicio.produzidoPrevistoAjuda": "Servings produced above (+) or below (−) the forecast",
+  "desperdicio.sobraAjuda":
+    "Servings left over or thrown away, and the share of production they represent",
+  "desperdicio.semanas": "Week by week",
+  "desperdicio.graficoTitulo": "Production and leftovers week by week",
+  "desperdicio.graficoItem": "Week of {semana}: {produzido} produced, {sobra} left over ({pct})",
+  "desperdicio.semana": "Week",
+  "desperdicio.registros": "Records",
+  "desperdicio.previsto": "Forecast",
+  "desperdicio.produzido": "Produced",
+  "desperdicio.delta": "Δ forecast",
+  "desperdicio.deltaAjuda": "Produced minus the forecast (qtd_prevista_media)",
+  "desperdicio.sobra": "Leftovers",
+  "desperdicio.pctProduzido": "% of produced",
+  "desperdicio.pctSobra": "% leftovers",
+  "desperdicio.porUnidade": "By unit",
+  "desperdicio.unidade": "Unit",
+  "desperdicio.porDia": "By weekday",
+  "desperdicio.dia": "Day",
+  "desperdicio.porPrato": "By dish (most leftovers first)",
+  "desperdicio.prato": "Dish",
+  "desperdicio.exportarCsv": "Export CSV",
+
+  "cenario.adicionado": "Dish added in the scenario",
+  "cenario.original": "Original: {valor}",
+  "cenario.novo": "new",
+  "cozinha.abrir": "Kitchen mode",
+  "cozinha.titulo": "Today's production",
+  "cozinha.sair": "Exit",
+  "cozinha.semPrevisao": "The open file has no forecast for today ({dia}).",
+  "cozinha.previsto": "forecast {valor}",
+  "cozinha.lotes": "{lotes} batches of {lote}",
+  "cozinha.total": "Total: {valor} portions",
+  "catalogo.arquivo": "Dish catalog (CSV):",
+  "catalogo.colunas":
+    "columns prato, categoria ({categorias}), custo and preco per portion",
+  "catalogo.resumo":
+    "{n} dishes in the catalog. Importing a file replaces the current catalog.",
+  "catalogo.vazio": "No dishes yet. Import a CSV or fill in the table below.",
+  "catalogo.confirmarLimpar": "Remove the whole dish catalog?",
+  "catalogo.limpar": "Clear catalog",
+  "catalogo.erros": "{n} catalog row(s) skipped",
+  "catalogo.projecao": "Weekly financial projection",
+  "catalogo.baseCusto": "Ingredient cost based on:",
+  "catalogo.basePrevisao": "Sales forecast",
+  "catalogo.baseProducao": "Production plan (with margin)",
+  "catalogo.semCatalogo":
+    "Dishes not in the catalog (left out of revenue and cost): {pratos}.",
+  "catalogo.graficoTitulo": "Revenue, ingredient cost and margin by day",
+  "catalogo.graficoItem": "{dia}: revenue {receita}, cost {custo}, margin {margem}",
+  "catalogo.receita": "Revenue",
+  "catalogo.custoInsumos": "Ingredient cost",
+  "catalogo.custo": "Cost",
+  "catalogo.margem": "Margin",
+  "catalogo.margemPct": "Margin %",
+  "catalogo.dia": "Day",
+  "catalogo.porcoes": "Portions",
+  "catalogo.semana": "Week",
+  "catalogo.porCategoria": "Week by category",
+  "catalogo.categoria": "Category",
+  "catalogo.titulo": "Dish catalog",
+  "catalogo.descricao":
+    "Values per portion. Forecast dishes not yet in the catalog come first, highlighted; filling in any field adds the dish.",
+  "catalogo.prato": "Dish",
+  "catalogo.custoReais": "Cost (R$)",
+  "catalogo.precoReais": "Price (R$)",
+  "catalogo.foraCatalogo": "not in catalog",
+  "catalogo.remover": "Remove",
+  "compras.arquivo": "Recipe file (CSV):",
+  "compras.colunas":
+    "columns prato, ingrediente, quantidade (per portion) and unidade (g, kg, ml, l or unidade)",
+  "compras.resumo": "{ingredientes} ingredients registered across {pratos} dishes.",
+  "compras.vazio": "No recipes yet.",
+  "compras.confirmarLimpar": "Remove all recipes?",
+  "compras.limpar": "Remove recipes",
+  "compras.erros": "{n} recipe file row(s) skipped",
+  "compras.periodo": "Period:",
+  "compras.diaSelecionado": "Selected day ({dia})",
+  "compras.semanaInteira": "Whole week",
+  "compras.base": "Dish quantities:",
+  "compras.basePrevisao": "Forecast",
+  "compras.tituloDia": "Shopping list for {dia}",
+  "compras.tituloSemana": "Shopping list for the week",
+  "compras.semReceita": "Dishes without a recipe (left out of the list): {pratos}.",
+  "compras.semItens": "Import a recipe file to work out the ingredients you need.",
+  "compras.ingrediente": "Ingredient",
+  "compras.total": "Total",
+  "historico.titulo": "Build a forecast from sales history",
+  "historico.descricao":
+    "CSV with the columns data, prato and qtd_vendida (one row per dish and date). The forecast is computed in the browser, per dish and weekday, and saved to the library as a new file.",
+  "historico.erros": "{n} problem(s) in the history",
+  "historico.resumo": "{registros} records for {pratos} dishes, from {inicio} to {fim}.",
+  "historico.modelo": "Model",
+  "historico.modelo.media_movel": "Weekday moving average",
+  "historico.modelo.ewma": "Exponential average (EWMA)",
+  "historico.modelo.mediana": "Median of recent weeks",
+  "historico.alpha": "Weight of the latest week",
+  "historico.semanas": "Recent weeks",
+  "historico.gerar": "Build forecast",
+  "calendario.feriados": "Holidays and special events ({n})",
+  "calendario.feriadosAjuda":
+    "The multiplier is applied to the forecast of every dish on that date (e.g. {exemplo} = 50% more; 0 = restaurant closed).",
+  "calendario.data": "Date",
+  "calendario.nome": "Name",
+  "calendario.nomeExemplo": "E.g. Mother's Day",
+  "calendario.multiplicador": "Multiplier",
+  "calendario.adicionar": "Add",
+  "calendario.remover": "Remove",
+  "calendario.semDatas":
+    "The open file has no data column; the calendar is only available for forecasts with specific dates (YYYY-MM-DD or DD/MM/YYYY).",
+  "calendario.anterior": "Previous",
+  "calendario.proximo": "Next",
+  "calendario.legenda":
+    "Total forecast portions by date (holiday multipliers already applied). Click a date to open that day's forecast.",
+  "comparacao.fonte": "Actual sales:",
+  "comparacao.semVendas":
+    "No actual sales available. Import a file with forecast and sales columns (e.g. qtd_prevista_media and qtd_vendida), or a second file with only the sales, and select it above.",
+  "comparacao.pares": "{n} dish + day combinations with forecast and sales.",
+  "comparacao.semVenda": "{n} without recorded sales.",
+  "comparacao.semPrevisao": "{n} sales with no matching forecast.",
+  "comparacao.mae": "MAE (portions)",
+  "comparacao.maeAjuda": "Mean absolute error between forecast and sold",
+  "comparacao.mapeAjuda": "Mean absolute percentage error (ignores zero sales)",
+  "comparacao.vies": "Bias",
+  "comparacao.viesPorcoes": "Bias (portions)",
+  "comparacao.viesAjuda": "Mean of forecast - sold: positive means overestimation",
+  "comparacao.graficoTitulo": "Forecast vs. sold by dish ({dia})",
+  "comparacao.graficoItem": "{prato}: forecast {previsto}, sold {vendido}",
+  "comparacao.diaSemVenda": "No combinations with sales for the selected day.",
+  "comparacao.prato": "Dish",
+  "comparacao.previsto": "Forecast",
+  "comparacao.vendido": "Sold",
+  "comparacao.porDia": "Error by weekday",
+  "comparacao.dia": "Day",
+  "comparacao.porPrato": "Error by dish",
+  "comparacao.porPratoAjuda":
+    "Dishes in orange are overestimated and in blue underestimated by the model on at least 75% of days. Sorted by the size of the bias.",
+  "comparacao.combinacoes": "Combinations",
+  "comparacao.diasAcimaAbaixo": "Days over / under",
+  "comparacao.tendencia": "Trend",
+  "comparacao.tendencia.superestima": "Overestimates",
+  "comparacao.tendencia.subestima": "Underestimates",
+  "semana.mapa": "Week map (dish x day)",
+  "semana.mapaAjuda":
+    "Forecast quantity of each dish on each day; the stronger the blue, the higher the forecast. Click a cell to open that day in the forecast view.",
+  "semana.ordenar": "Click to sort",
+  "semana.destacar": "Click to highlight the dish",
+  "semana.prato": "Dish",
+  "semana.total": "Total",
+  "semana.totalDia": "Day total",
+  "semana.grafico": "Forecast portions by day",
+  "semana.graficoAjuda":
+    "Total forecast for each day, split by the week's highest-volume dishes. Click a bar to open the day.",
+  "semana.graficoItem": "{dia}: {valor} portions",
+  "cenario.titulo": "Scenarios (what if...?)",
+  "cenario.ativo": "active: {nome}",
+  "cenario.descricao":
+    "Adjust the forecast without changing the file (e.g. rain on Friday, −20%; a new dish replacing another). With a scenario active, every chart, the production plan and the exports use the adjusted numbers.",
+  "cenario.mostrar": "Show",
+  "cenario.previsaoOriginal": "Original forecast",
+  "cenario.nome": "Scenario name",
+  "cenario.nomePadrao": "Scenario {n}",
+  "cenario.criar": "New scenario",
+  "cenario.excluir": "Delete",
+  "cenario.confirmarExcluir": "Delete the scenario \"{nome}\"?",
+  "cenario.ajustes": "Adjustments",
+  "cenario.ajuste": "Adjustment",
+  "cenario.ajustePorcoes": "{valor} portions",
+  "cenario.prato": "Dish",
+  "cenario.dia": "Day",
+  "cenario.todos": "All",
+  "cenario.todosPratos": "All dishes",
+  "cenario.todosDias": "All days",
+  "cenario.tipo": "Type",
+  "cenario.tipo.percentual": "Percentage (%)",
+  "cenario.tipo.absoluto": "Portions (+/−)",
+  "cenario.valor": "Value",
+  "cenario.adicionarAjuste": "Add adjustment",
+  "cenario.remover": "Remove",
+  "cenario.removidos": "Dishes taken off the menu",
+  "cenario.escolhaPrato": "Pick a dish",
+  "cenario.retirar": "Take off",
+  "cenario.restaurar": "Restore",
+  "cenario.adicionados": "Added dishes",
+  "cenario.pratoExemplo": "E.g. Moqueca",
+  "cenario.porcoes": "Portions",
+  "cenario.adicionarPrato": "Add dish",
+  "folha.impressoEm": "Printed on {data}",
+  "folha.prato": "Dish",
+  "folha.previsto": "Forecast",
+  "folha.produzir": "Make",
+  "folha.lotes": "Batches",
+  "folha.movimento": "Traffic",
+  "folha.feito": "Done",
+  "folha.total": "Total",
+  "apelidos.titulo": "Dish aliases ({n})",
+  "apelidos.descricao":
+    "Applied automatically on future imports. Removing an alias does not change files already saved in the library.",
+  "apelidos.nomeArquivo": "Name in the file",
+  "apelidos.vira": "Becomes",
+  "apelidos.remover": "Remove",
+  "exportar.erroPng": "Could not export the chart as PNG.",
+  "exportar.baixar": "Download the chart as {formato}",
+  "classificacao.titulo": "Automatic level classification",
+  "classificacao.doArquivo":
+    "The file already has the traffic level. Rows without a level get the calculated one; tick the option below to replace them all and compare.",
+  "classificacao.calculado":
+    "The file has no traffic level, so it is calculated from the forecast quantity.",
+  "classificacao.estrategia": "Strategy",
+  "classificacao.estrategia.tercis_dia": "Terciles per day",
+  "classificacao.estrategia.tercis_semana": "Terciles of the week",
+  "classificacao.estrategia.limites": "Set thresholds",
+  "classificacao.limiteBaixo": "Low up to (portions)",
+  "classificacao.limiteAlto": "High from (portions)",
+  "classificacao.sobrescrever": "Replace the file's levels with the calculated ones",
+  "classificacao.limitesInvalidos":
+    "The high threshold must be above the low one; with the current values no dish ends up medium.",
+  "classificacao.concordancia": "Agreement between file and calculation:",
+  "classificacao.concordanciaTotal": "({iguais} of {total} combinations)",
+  "classificacao.matriz": "File \\ Calculated",
+  "biblioteca.titulo": "Saved files ({n})",
+  "biblioteca.confirmarExcluir": "Delete \"{nome}\" from the library?",
+  "biblioteca.nome": "Name",
+  "biblioteca.enviadoEm": "Uploaded",
+  "biblioteca.linhas": "Rows",
+  "biblioteca.marcar": "Tick to combine as units",
+  "biblioteca.aberto": "Open",
+  "biblioteca.abrir": "Open",
+  "biblioteca.renomear": "Rename",
+  "biblioteca.excluir": "Delete",
+  "biblioteca.combinarAjuda":
+    "One file per restaurant? Tick two or more to open them together, each as a unit.",
+  "biblioteca.combinar": "Combine as units",
+  "biblioteca.combinarN": "Combine {n} as units",
+  "visoes.titulo": "Saved views ({n})",
+  "visoes.descricao":
+    "The page address keeps the file, the day, the chart type and the open filters. Since files live in this browser's library, on another computer the link opens the last file used there, on the same day and with the same charts.",
+  "visoes.copieLink": "Copy the link to this view:",
+  "visoes.arquivoAusente": "file not found",
+  "visoes.copiado": "Link copied!",
+  "visoes.copiar": "Copy link to this view",
+  "visoes.nomeExemplo": "E.g. Pizza Friday",
+  "visoes.salvar": "Save current view",
+  "visoes.visao": "View",
+  "visoes.arquivo": "File",
+  "visoes.dia": "Day",
+  "visoes.abrir": "Open",
+  "visoes.excluir": "Delete",
+  "configPlano.titulo": "Production plan settings",
+  "configPlano.margemGlobal": "Global margin",
+  "configPlano.margemNivel": "Margin {nivel}",
+  "configPlano.margemNivelAria": "Margin for {nivel} level",
+  "configPlano.confirmarRestaurar": "Restore the default production plan settings?",
+  "configPlano.restaurar": "Restore defaults",
+  "configPlano.porPrato":
+    "Per dish: the batch rounds production to multiples of its size (without a batch, to whole portions); minimum and maximum cap the result.",
+  "configPlano.prato": "Dish",
+  "configPlano.lote": "Batch",
+  "configPlano.minimo": "Minimum",
+  "configPlano.maximo": "Maximum",
+  "configPlano.campoDe": "{campo} for {prato}",
+};
+
+const es: Mensagens = {
+  "app.titulo": "Panel de Pronóstico de Platos",
+  "app.introAntes": "Subí el archivo CSV generado en Colab (por ejemplo:",
+  "app.introDepois": ") para ver los pronósticos por plato y día de la semana.",
+  "app.idioma": "Idioma",
+  "app.tema": "Tema",
+  "app.paleta": "Colores de los gráficos",
+  "tema.escuro": "Oscuro",
+  "tema.claro": "Claro",
+  "tema.altoContraste": "Alto contraste",
+  "paleta.padrao": "Paleta estándar",
+  "paleta.daltonismo": "Apta para daltonismo",
+  "app.arquivoCsv": "Archivo CSV:",
+  "app.cliqueParaSelecionar": "(hacé clic para elegir)",
+  "app.semDados":
+    "Todavía no hay datos cargados. Subí un archivo CSV para ver los gráficos.",
+
+  "importacao.titulo": "Informe de importación: {nome}",
+  "importacao.perfil": "Asignación guardada \"{nome}\" aplicada automáticamente.",
+  "importacao.cabecalhoInvalido":
+    "El encabezado del archivo no sigue el formato esperado, así que no se importó ninguna fila. Columnas encontradas:",
+  "importacao.nenhumaColuna": "(ninguna)",
+  "importacao.lidas": "{n} filas leídas:",
+  "importacao.aceitas": "{n} aceptadas",
+  "importacao.e": "y",
+  "importacao.rejeitadas": "{n} rechazadas",
+  "importacao.comAvisos": ", con {n} aviso(s)",
+  "importacao.linha": "Fila",
+  "importacao.linhaN": "Fila {n}",
+  "importacao.cabecalho": "Encabezado",
+  "importacao.prato": "Plato",
+  "importacao.dia": "Día",
+  "importacao.coluna": "Columna",
+  "importacao.motivo": "Motivo",
+  "importacao.avisos": "Avisos ({n})",
+  "importacao.restantes": "… y {n} más no mostradas.",
+  "importacao.unificados": "Nombres de platos unificados ({n})",
+  "importacao.apelidoSalvo": "alias guardado",
+  "importacao.sugestoes":
+    "Nombres parecidos que pueden ser el mismo plato. Marcá los que deben unificarse; la elección queda guardada y vale para los próximos archivos.",
+  "importacao.unificar": "Unificar",
+  "importacao.nomesEncontrados": "Nombres encontrados",
+  "importacao.usarNome": "Usar el nombre",
+  "importacao.linhasAceitas": "Filas aceptadas ({n})",
+  "importacao.carregar": "Cargar {n} filas aceptadas",
+  "importacao.ajustarMapeamento": "Ajustar asignación de columnas",
+  "importacao.descartar": "Descartar archivo",
+
+  "mapeamento.titulo": "Asignación de columnas: {nome}",
+  "mapeamento.descricao":
+    "El encabezado de este archivo no está en el formato estándar. Indica qué columna corresponde a cada campo del dashboard; las sugerencias se completaron automáticamente a partir de los nombres de las columnas.",
+  "mapeamento.delimitador": "Delimitador",
+  "mapeamento.decimal": "Separador decimal",
+  "mapeamento.decimalPonto": "Punto (45.237)",
+  "mapeamento.decimalVirgula": "Coma (45,237)",
+  "mapeamento.naoUsar": "(no usar)",
+  "mapeamento.previa": "Vista previa de las primeras filas con la asignación actual:",
+  "mapeamento.invalido": "inválido",
+  "mapeamento.lembrar": "Recordar esta asignación para archivos con las mismas columnas, como",
+  "mapeamento.nomePerfil": "Nombre del perfil (ej.: Export POS)",
+  "mapeamento.faltando": "Campos obligatorios sin columna: {campos}.",
+  "mapeamento.aplicar": "Aplicar asignación",
+  "delimitador.auto": "Automático",
+  "delimitador.virgula": "Coma (,)",
+  "delimitador.pontoVirgula": "Punto y coma (;)",
+  "delimitador.tabulacao": "Tabulación",
+  "delimitador.barra": "Barra vertical (|)",
+
+  "campo.prato": "Plato",
+  "campo.dia_semana": "Día de la semana",
+  "campo.qtd_prevista_media": "Cantidad",
+  "campo.nivel_movimento_prato": "Nivel de movimiento",
+  "campo.qtd_vendida": "Cantidad vendida (real)",
+  "campo.data": "Fecha",
+  "campo.unidade": "Unidad (restaurante)",
+
+  "motivo.colunaMapeadaAusente": "La columna asignada a \"{campo}\" no existe en el encabezado",
+  "motivo.campoSemColuna": "Ninguna columna del archivo fue asignada a \"{campo}\"",
+  "motivo.colunaRepetida": "La misma columna fue asignada a más de un campo",
+  "motivo.colunaNaoMapeada": "Columna sin asignar (se ignorará)",
+  "motivo.colunaObrigatoria": "Falta una columna obligatoria en el encabezado",
+  "motivo.linhaCurta": "Fila con menos columnas que el encabezado",
+  "motivo.linhaLonga": "Fila con más columnas que el encabezado (valores extra ignorados)",
+  "motivo.aspas": "Comillas mal formadas en el campo",
+  "motivo.erroLeitura": "Error de lectura: {mensagem}",
+  "motivo.pratoVazio": "Plato no informado",
+  "motivo.pratoRepetido": "Plato repetido en el catálogo",
+  "motivo.dataVazia": "Fecha no informada",
+  "motivo.dataInvalida": "Fecha inválida (usa AAAA-MM-DD o DD/MM/AAAA)",
+  "motivo.diaVazio": "Día de la semana no informado",
+  "motivo.diaDesconhecido": "Día de la semana desconocido",
+  "motivo.diaNaoConfere": "El día de la semana no corresponde a la fecha (usado \"{dia}\")",
+  "motivo.qtdVazia": "Cantidad no informada",
+  "motivo.qtdNaoNumerica": "Cantidad no numérica",
+  "motivo.qtdNegativa": "Cantidad negativa",
+  "motivo.nivelDesconhecido": "Nivel de movimiento desconocido (tratado como sin definir)",
+  "motivo.vendaInvalida": "Cantidad vendida inválida (ignorada en la comparación)",
+  "motivo.duplicada": "Combinación plato + día duplicada (primera aparición en la fila {linha})",
+  "motivo.categoriaDesconhecida": "Categoría desconocida (usa {categorias})",
+  "motivo.custoInvalido": "Costo por porción inválido",
+  "motivo.precoInvalido": "Precio por porción inválido",
+  "motivo.ingredienteVazio": "Ingrediente no informado",
+  "motivo.ingredienteRepetido": "Ingrediente repetido para el mismo plato",
+  "motivo.qtdPorcaoInvalida": "Cantidad por porción inválida",
+  "motivo.unidadeDesconhecida": "Unidad desconocida (usa g, kg, ml, l o unidade)",
+  "motivo.qtdVendidaInvalida": "Cantidad vendida inválida",
+
+  "erro.lerCsv": "Error al leer el archivo CSV.",
+  "leitura.lendo": "Leyendo {nome}…",
+  "leitura.linhas": "{n} filas leídas",
+  "leitura.cancelar": "Cancelar lectura",
+  "erro.abrirArquivo": "Error al abrir el archivo guardado.",
+  "erro.visaoSemArquivo": "El archivo de esta vista ya no está en la biblioteca.",
+  "erro.xlsx": "No se pudo generar la planilla XLSX.",
+
+  "filtro.data": "Fecha:",
+  "filtro.diaSemana": "Día de la semana:",
+  "filtro.unidade": "Sucursal:",
+  "filtro.todasUnidades": "Todas (consolidado)",
+  "filtro.visualizacao": "Vista:",
+  "visao.previsao": "Pronóstico",
+  "visao.semana": "Vista de la semana",
+  "visao.calendario": "Calendario",
+  "visao.comparacao": "Pronosticado vs. vendido",
+  "visao.compras": "Lista de compras",
+  "visao.financeiro": "Menú y finanzas",
+  "visao.unidades": "Comparar sucursales",
+  "visao.diferencas": "Cambios entre corridas",
+  "visao.desperdicio": "Preparación y desperdicio",
+
+  "fonte.arquivo": "Columna de ventas del mismo archivo",
+  "fonte.dataset": "Archivo: {nome}",
+
+  "grafico.tipo": "Tipo de gráfico:",
+  "grafico.bar": "Barras",
+  "grafico.pie": "Torta",
+  "grafico.agruparPor": "Agrupar por:",
+  "grafico.papel": "gráfico",
+  "grafico.instrucoes": "Usá las flechas para recorrer los elementos, Inicio y Fin para ir al primero y al último.",
+  "grafico.instrucoesAtivar": "Enter o espacio selecciona el elemento.",
+  "grafico.posicao": "{atual} de {total}",
+  "grafico.verTabela": "Ver datos en tabla",
+  "agrupamento.prato": "Plato",
+  "agrupamento.categoria": "Categoría del catálogo",
+
+  "pratos.tituloPrato": "Cantidad pronosticada por plato ({dia})",
+  "pratos.tituloCategoria": "Cantidad pronosticada por categoría ({dia})",
+  "pratos.descricao":
+    "Muestra la cantidad media pronosticada de cada plato en el día de la semana seleccionado.",
+  "pratos.previsaoOriginal": "Pronóstico original",
+  "pratos.cenario": "Escenario",
+  "pratos.qtdPrevista": "Cant. pronosticada",
+  "pratos.outros": "Otros platos",
+
+  "pratosGrafico.mostrar": "Mostrar:",
+  "pratosGrafico.top": "Top {n}",
+  "pratosGrafico.todos": "Todos los platos",
+  "pratosGrafico.ordenar": "Ordenar por:",
+  "pratosGrafico.orientacao": "Barras:",
+  "pratosGrafico.buscar": "Buscar plato...",
+  "pratosGrafico.selecionados": "Solo los platos elegidos:",
+  "pratosGrafico.remover": "Quitar {prato}",
+  "pratosGrafico.limparSelecao": "Mostrar todos",
+  "pratosGrafico.dica":
+    "Hacé clic en una barra o porción para resaltar el plato en la sugerencia de preparación y en el mapa de la semana.",
+  "pratosGrafico.destacando": "Resaltando",
+  "pratosGrafico.limparDestaque": "Quitar resaltado",
+  "ordemPratos.quantidade": "Cantidad",
+  "ordemPratos.nome": "Nombre",
+  "ordemPratos.nivel": "Nivel de movimiento",
+  "orientacao.vertical": "Verticales",
+  "orientacao.horizontal": "Horizontales",
+
+  "nivel.tituloDia": "Nivel de movimiento ({dia})",
+  "nivel.tituloSemana": "Nivel de movimiento (semana)",
+  "nivel.escopoDia": "Día seleccionado",
+  "nivel.escopoSemana": "Semana completa",
+  "nivel.descricao":
+    "Cuántas combinaciones plato + día se clasificaron como movimiento bajo, medio o alto y cuántas porciones representa cada nivel. Hacé clic en un nivel para filtrar el gráfico de platos y la sugerencia de preparación.",
+  "nivel.origem": "Origen de los niveles:",
+  "nivel.combinacoesSerie": "Cant. de combinaciones",
+  "nivel.porcoes": "Porciones pronosticadas",
+  "nivel.nivel": "Nivel",
+  "nivel.combinacoes": "Combinaciones",
+  "nivel.pctPorcoes": "% de las porciones",
+  "nivel.filtroAtivo": "Mostrando solo platos de nivel",
+  "nivel.limparFiltro": "Quitar filtro",
+
+  "origem.arquivo": "Archivo",
+  "origem.tercis_dia": "Terciles por día",
+  "origem.tercis_semana": "Terciles de la semana",
+  "origem.limites": "Límites definidos",
+
+  "preparo.titulo": "Sugerencia de preparación para {dia}",
+  "preparo.feriado": "{nome}: pronóstico multiplicado por {valor}.",
+  "preparo.descricao":
+    "Cantidades a producir en el día seleccionado: el pronóstico recibe el margen de seguridad y se redondea a porciones enteras o al lote de cada plato. Marcá cada plato hecho con la cantidad producida y, al cierre, anotá el sobrante.",
+  "preparo.exportar": "Exportar:",
+  "preparo.csvDia": "CSV del día",
+  "preparo.csvSemana": "CSV de la semana",
+  "preparo.xlsx": "XLSX (día, semana y niveles)",
+  "preparo.folha": "Hoja de cocina / PDF:",
+  "preparo.imprimirDia": "Imprimir día",
+  "preparo.imprimirSemana": "Imprimir semana",
+  "preparo.semDados": "No hay datos para el día seleccionado.",
+  "preparo.prato": "Plato",
+  "preparo.qtdPrevista": "Cant. pronosticada (porciones)",
+  "preparo.deltaCenario": "Δ escenario",
+  "preparo.margem": "Margen",
+  "preparo.produzir": "Producir (porciones)",
+  "preparo.nivel": "Nivel de movimiento",
+  "preparo.comMargem": "{valor} con margen",
+  "preparo.calculado": "Calculado: {origem}",
+  "preparo.calc": "(calc.)",
+  "preparo.limiteMinimo": "mínimo",
+  "preparo.limiteMaximo": "máximo",
+  "preparo.financeiro":
+    "Ingreso previsto {receita} · costo de insumos {custo} · margen {margem}",
+  "preparo.foraCatalogo": "{valor} porciones de platos fuera del catálogo",
+  "preparo.retirados": "Quitados en este escenario:",
+  "preparo.folhaTitulo": "Hoja de producción",
+  "preparo.feito": "Hecho",
+  "preparo.produzido": "Producido",
+  "preparo.sobra": "Sobrante",
+  "preparo.marcarFeito": "Marcar {prato} como hecho",
+  "preparo.registroData": "Registro del",
+  "preparo.registroResumo": "{feitos} de {total} platos hechos · {produzido} porciones producidas",
+  "preparo.registroSobra": "sobrante de {sobra} porciones ({pct}%)",
+  "preparo.registroUnidade": "Elegí una unidad para registrar lo hecho, lo producido y el sobrante.",
+
+  "unidades.semDados": "Ninguna unidad tiene pronóstico para {dia}.",
+  "unidades.titulo": "Pronóstico por unidad ({dia})",
+  "unidades.descricao": "Porciones previstas de cada plato en cada unidad",
+  "unidades.descricaoTop": "(los {n} platos de mayor volumen sumando las unidades)",
+  "unidades.dica": "Haz clic en una barra para destacar el plato.",
+  "unidades.preparoTitulo": "Preparación por unidad",
+  "unidades.preparoDescricao":
+    "Cantidad a producir en cada cocina (pronóstico con margen, lotes y límites de cada plato); el pronóstico aparece entre paréntesis. \"—\" indica que el plato no está en el menú de la unidad en este día.",
+  "unidades.exportarCsv": "Exportar CSV",
+  "unidades.prato": "Plato",
+  "unidades.total": "Total",
+  "unidades.totalUnidade": "Total de la unidad",
+
+  "diff.rodadaAnterior": "Ronda anterior:",
+  "diff.rodadaAtual": "Ronda actual:",
+  "diff.escolhaArquivo": "Elegí un archivo",
+  "diff.inverter": "Invertir",
+  "diff.inverterAjuda": "Cambiar la ronda anterior por la actual",
+  "diff.escolhaDois":
+    "Elegí dos archivos de la biblioteca para ver qué cambió de un pronóstico al otro.",
+  "diff.escolhaDiferentes": "Elegí dos archivos distintos.",
+  "diff.carregando": "Cargando archivos…",
+  "diff.novos": "Platos nuevos",
+  "diff.novosAjuda": "Combinaciones plato + día que solo existen en la ronda actual",
+  "diff.retirados": "Platos retirados",
+  "diff.retiradosAjuda": "Combinaciones plato + día que solo existían en la ronda anterior",
+  "diff.alterados": "Cantidades cambiadas",
+  "diff.alteradosAjuda": "Combinaciones presentes en las dos rondas con pronóstico distinto",
+  "diff.mudancasNivel": "Cambios de nivel",
+  "diff.mudancasNivelAjuda":
+    "Combinaciones cuyo nivel de movimiento cambió (ej.: {de} → {para})",
+  "diff.porcoesSemana": "Porciones en la semana",
+  "diff.porcoesSemanaAjuda": "Ronda anterior: {valor} porciones",
+  "diff.maioresVariacoes": "Mayores variaciones ({dia})",
+  "diff.semVariacoes": "Ningún pronóstico cambió en este día.",
+  "diff.variacaoItem": "{prato}: {valor} porciones",
+  "diff.variacao": "Variación",
+  "diff.variacaoPorcoes": "Variación (porciones)",
+  "diff.oQueMudou": "Qué cambió",
+  "diff.exportarCsv": "Exportar CSV",
+  "diff.filtro.todos": "Todos los cambios",
+  "diff.filtro.alterado": "Cantidad cambiada",
+  "diff.filtro.adicionado": "Platos nuevos",
+  "diff.filtro.removido": "Platos retirados",
+  "diff.filtro.nivel": "Nivel de movimiento cambiado",
+  "diff.soDia": "Solo {dia}",
+  "diff.semMudancas": "Ningún cambio con este filtro.",
+  "diff.ordenar": "Haz clic para ordenar",
+  "diff.prato": "Plato",
+  "diff.dia": "Día",
+  "diff.anterior": "Anterior",
+  "diff.atual": "Actual",
+  "diff.deltaPorcoes": "Δ porciones",
+  "diff.nivel": "Nivel",
+  "diff.tipo.adicionado": "nuevo",
+  "diff.tipo.removido": "retirado",
+  "diff.limite": "Mostrando {n} de {total} cambios; la exportación en CSV los trae todos.",
+
+  "desperdicio.vazio":
+    "Todavía no hay cierres registrados. En la sugerencia de preparación de la vista {visao}, marcá los platos hechos con la cantidad producida y anotá el sobrante al final del día; cada fecha queda guardada en este navegador.",
+  "desperdicio.vazioSemFechamento": "{n} plato(s) ya tienen producción, pero todavía sin el sobrante.",
+  "desperdicio.semFechamento":
+    "{n} plato(s) con producción registrada pero sin el sobrante quedan fuera del informe.",
+  "desperdicio.produzidas": "Porciones producidas",
+  "desperdicio.produzidasAjuda": "{n} platos cerrados (plato + fecha)",
+  "desperdicio.previsao": "Pronóstico",
+  "desperdicio.previsaoAjuda": "Suma de qtd_prevista_media en los mismos platos y fechas",
+  "desperdicio.produzidoPrevisto": "Producido vs previsto",
+  "desperdicio.produzidoPrevistoAjuda": "Porciones producidas por encima (+) o por debajo (−) del pronóstico",
+  "desperdicio.sobraAjuda":
+    "Porciones que sobraron o se descartaron, y la parte de lo producido que representan",
+  "desperdicio.semanas": "Semana a semana",
+  "desperdicio.graficoTitulo": "Producción y sobrante semana a semana",
+  "desperdicio.graficoItem": "Semana del {semana}: {produzido} producidas, {sobra} de sobrante ({pct})",
+  "desperdicio.semana": "Semana",
+  "desperdicio.registros": "Registros",
+  "desperdicio.previsto": "Previsto",
+  "desperdicio.produzido": "Producido",
+  "desperdicio.delta": "Δ previsto",
+  "desperdicio.deltaAjuda": "Producido menos el pronóstico (qtd_prevista_media)",
+  "desperdicio.sobra": "Sobrante",
+  "desperdicio.pctProduzido": "% de lo producido",
+  "desperdicio.pctSobra": "% sobrante",
+  "desperdicio.porUnidade": "Por unidad",
+  "desperdicio.unidade": "Unidad",
+  "desperdicio.porDia": "Por día de la semana",
+  "desperdicio.dia": "Día",
+  "desperdicio.porPrato": "Por plato (más sobrante primero)",
+  "desperdicio.prato": "Plato",
+  "desperdicio.exportarCsv": "Exportar CSV",
+
+  "cenario.adicionado": "Plato agregado en el escenario",
+  "cenario.original": "Original: {valor}",
+  "cenario.novo": "nuevo",
+  "cozinha.abrir": "Modo cocina",
+  "cozinha.titulo": "Producción de hoy",
+  "cozinha.sair": "Salir",
+  "cozinha.semPrevisao": "El archivo abierto no tiene pronóstico para hoy ({dia}).",
+  "cozinha.previsto": "pronóstico {valor}",
+  "cozinha.lotes": "{lotes} tandas de {lote}",
+  "cozinha.total": "Total: {valor} porciones",
+  "catalogo.arquivo": "Catálogo de platos (CSV):",
+  "catalogo.colunas":
+    "columnas prato, categoria ({categorias}), custo y preco por porción",
+  "catalogo.resumo":
+    "{n} platos en el catálogo. Importar un archivo reemplaza el catálogo actual.",
+  "catalogo.vazio": "Todavía no hay platos. Importá un CSV o completá la tabla de abajo.",
+  "catalogo.confirmarLimpar": "¿Eliminar todo el catálogo de platos?",
+  "catalogo.limpar": "Vaciar catálogo",
+  "catalogo.erros": "{n} fila(s) del catálogo ignorada(s)",
+  "catalogo.projecao": "Proyección financiera de la semana",
+  "catalogo.baseCusto": "Costo de insumos sobre:",
+  "catalogo.basePrevisao": "Pronóstico de ventas",
+  "catalogo.baseProducao": "Plan de producción (con margen)",
+  "catalogo.semCatalogo":
+    "Platos sin catálogo (fuera del ingreso y del costo): {pratos}.",
+  "catalogo.graficoTitulo": "Ingreso, costo de insumos y margen por día",
+  "catalogo.graficoItem": "{dia}: ingreso {receita}, costo {custo}, margen {margem}",
+  "catalogo.receita": "Ingreso",
+  "catalogo.custoInsumos": "Costo de insumos",
+  "catalogo.custo": "Costo",
+  "catalogo.margem": "Margen",
+  "catalogo.margemPct": "Margen %",
+  "catalogo.dia": "Día",
+  "catalogo.porcoes": "Porciones",
+  "catalogo.semana": "Semana",
+  "catalogo.porCategoria": "Semana por categoría",
+  "catalogo.categoria": "Categoría",
+  "catalogo.titulo": "Catálogo de platos",
+  "catalogo.descricao":
+    "Valores por porción. Los platos del pronóstico que aún no están en el catálogo aparecen primero, resaltados; completar cualquier campo registra el plato.",
+  "catalogo.prato": "Plato",
+  "catalogo.custoReais": "Costo (R$)",
+  "catalogo.precoReais": "Precio (R$)",
+  "catalogo.foraCatalogo": "fuera del catálogo",
+  "catalogo.remover": "Eliminar",
+  "compras.arquivo": "Archivo de recetas (CSV):",
+  "compras.colunas":
+    "columnas prato, ingrediente, quantidade (por porción) y unidade (g, kg, ml, l o unidade)",
+  "compras.resumo": "{ingredientes} ingredientes registrados en {pratos} platos.",
+  "compras.vazio": "Todavía no hay recetas.",
+  "compras.confirmarLimpar": "¿Eliminar todas las recetas?",
+  "compras.limpar": "Eliminar recetas",
+  "compras.erros": "{n} fila(s) del archivo de recetas ignorada(s)",
+  "compras.periodo": "Período:",
+  "compras.diaSelecionado": "Día seleccionado ({dia})",
+  "compras.semanaInteira": "Semana completa",
+  "compras.base": "Cantidad de platos:",
+  "compras.basePrevisao": "Pronóstico",
+  "compras.tituloDia": "Lista de compras para {dia}",
+  "compras.tituloSemana": "Lista de compras de la semana",
+  "compras.semReceita": "Platos sin receta (no entran en la lista): {pratos}.",
+  "compras.semItens":
+    "Importá un archivo de recetas para calcular los ingredientes necesarios.",
+  "compras.ingrediente": "Ingrediente",
+  "compras.total": "Total",
+  "historico.titulo": "Generar pronóstico a partir del historial de ventas",
+  "historico.descricao":
+    "CSV con las columnas data, prato y qtd_vendida (una fila por plato y fecha). El pronóstico se calcula en el navegador, por plato y día de la semana, y se guarda en la biblioteca como un archivo nuevo.",
+  "historico.erros": "{n} problema(s) en el historial",
+  "historico.resumo": "{registros} registros de {pratos} platos, del {inicio} al {fim}.",
+  "historico.modelo": "Modelo",
+  "historico.modelo.media_movel": "Media móvil del día de la semana",
+  "historico.modelo.ewma": "Media exponencial (EWMA)",
+  "historico.modelo.mediana": "Mediana de las últimas semanas",
+  "historico.alpha": "Peso de la semana más reciente",
+  "historico.semanas": "Últimas semanas",
+  "historico.gerar": "Generar pronóstico",
+  "calendario.feriados": "Feriados y eventos especiales ({n})",
+  "calendario.feriadosAjuda":
+    "El multiplicador se aplica al pronóstico de todos los platos en la fecha (ej.: {exemplo} = 50% más; 0 = restaurante cerrado).",
+  "calendario.data": "Fecha",
+  "calendario.nome": "Nombre",
+  "calendario.nomeExemplo": "Ej.: Día de la Madre",
+  "calendario.multiplicador": "Multiplicador",
+  "calendario.adicionar": "Agregar",
+  "calendario.remover": "Eliminar",
+  "calendario.semDatas":
+    "El archivo abierto no tiene la columna data; el calendario solo está disponible para pronósticos con fechas específicas (AAAA-MM-DD o DD/MM/AAAA).",
+  "calendario.anterior": "Anterior",
+  "calendario.proximo": "Siguiente",
+  "calendario.legenda":
+    "Total de porciones previstas por fecha (ya con los multiplicadores de feriados). Hacé clic en una fecha para abrir el pronóstico del día.",
+  "comparacao.fonte": "Ventas reales:",
+  "comparacao.semVendas":
+    "No hay ventas reales disponibles. Importá un archivo con las columnas de pronóstico y de venta (ej.: qtd_prevista_media y qtd_vendida) o un segundo archivo solo con las ventas y seleccionalo arriba.",
+  "comparacao.pares": "{n} combinaciones plato + día con pronóstico y venta.",
+  "comparacao.semVenda": "{n} sin venta registrada.",
+  "comparacao.semPrevisao": "{n} ventas sin pronóstico correspondiente.",
+  "comparacao.mae": "MAE (porciones)",
+  "comparacao.maeAjuda": "Error absoluto medio entre previsto y vendido",
+  "comparacao.mapeAjuda": "Error porcentual absoluto medio (ignora ventas en cero)",
+  "comparacao.vies": "Sesgo",
+  "comparacao.viesPorcoes": "Sesgo (porciones)",
+  "comparacao.viesAjuda": "Media de previsto - vendido: positivo indica sobreestimación",
+  "comparacao.graficoTitulo": "Previsto vs. vendido por plato ({dia})",
+  "comparacao.graficoItem": "{prato}: previsto {previsto}, vendido {vendido}",
+  "comparacao.diaSemVenda": "No hay combinaciones con venta para el día seleccionado.",
+  "comparacao.prato": "Plato",
+  "comparacao.previsto": "Previsto",
+  "comparacao.vendido": "Vendido",
+  "comparacao.porDia": "Error por día de la semana",
+  "comparacao.dia": "Día",
+  "comparacao.porPrato": "Error por plato",
+  "comparacao.porPratoAjuda":
+    "Los platos en naranja son sobreestimados y en azul subestimados por el modelo en al menos el 75% de los días. Ordenado por el tamaño del sesgo.",
+  "comparacao.combinacoes": "Combinaciones",
+  "comparacao.diasAcimaAbaixo": "Días arriba / abajo",
+  "comparacao.tendencia": "Tendencia",
+  "comparacao.tendencia.superestima": "Sobreestima",
+  "comparacao.tendencia.subestima": "Subestima",
+  "semana.mapa": "Mapa de la semana (plato x día)",
+  "semana.mapaAjuda":
+    "Cantidad prevista de cada plato en cada día; cuanto más fuerte el azul, mayor el pronóstico. Hacé clic en una celda para abrir el día en la vista de pronóstico.",
+  "semana.ordenar": "Hacé clic para ordenar",
+  "semana.destacar": "Hacé clic para destacar el plato",
+  "semana.prato": "Plato",
+  "semana.total": "Total",
+  "semana.totalDia": "Total del día",
+  "semana.grafico": "Porciones previstas por día",
+  "semana.graficoAjuda":
+    "Total previsto en cada día, dividido por los platos de mayor volumen de la semana. Hacé clic en una barra para abrir el día.",
+  "semana.graficoItem": "{dia}: {valor} porciones",
+  "cenario.titulo": "Escenarios (¿y si...?)",
+  "cenario.ativo": "activo: {nome}",
+  "cenario.descricao":
+    "Ajustá el pronóstico sin modificar el archivo (ej.: lluvia el viernes, −20%; un plato nuevo en lugar de otro). Con un escenario activo, todos los gráficos, el plan de producción y las exportaciones usan los números ajustados.",
+  "cenario.mostrar": "Mostrar",
+  "cenario.previsaoOriginal": "Pronóstico original",
+  "cenario.nome": "Nombre del escenario",
+  "cenario.nomePadrao": "Escenario {n}",
+  "cenario.criar": "Nuevo escenario",
+  "cenario.excluir": "Eliminar",
+  "cenario.confirmarExcluir": "¿Eliminar el escenario \"{nome}\"?",
+  "cenario.ajustes": "Ajustes",
+  "cenario.ajuste": "Ajuste",
+  "cenario.ajustePorcoes": "{valor} porciones",
+  "cenario.prato": "Plato",
+  "cenario.dia": "Día",
+  "cenario.todos": "Todos",
+  "cenario.todosPratos": "Todos los platos",
+  "cenario.todosDias": "Todos los días",
+  "cenario.tipo": "Tipo",
+  "cenario.tipo.percentual": "Porcentual (%)",
+  "cenario.tipo.absoluto": "Porciones (+/−)",
+  "cenario.valor": "Valor",
+  "cenario.adicionarAjuste": "Agregar ajuste",
+  "cenario.remover": "Eliminar",
+  "cenario.removidos": "Platos retirados del menú",
+  "cenario.escolhaPrato": "Elegí un plato",
+  "cenario.retirar": "Retirar",
+  "cenario.restaurar": "Restaurar",
+  "cenario.adicionados": "Platos agregados",
+  "cenario.pratoExemplo": "Ej.: Moqueca",
+  "cenario.porcoes": "Porciones",
+  "cenario.adicionarPrato": "Agregar plato",
+  "folha.impressoEm": "Impreso el {data}",
+  "folha.prato": "Plato",
+  "folha.previsto": "Pronóstico",
+  "folha.produzir": "Producir",
+  "folha.lotes": "Tandas",
+  "folha.movimento": "Movimiento",
+  "folha.feito": "Hecho",
+  "folha.total": "Total",
+  "apelidos.titulo": "Alias de platos ({n})",
+  "apelidos.descricao":
+    "Se aplican automáticamente en las próximas importaciones. Quitar un alias no cambia los archivos ya guardados en la biblioteca.",
+  "apelidos.nomeArquivo": "Nombre en el archivo",
+  "apelidos.vira": "Pasa a ser",
+  "apelidos.remover": "Quitar",
+  "exportar.erroPng": "No se pudo exportar el gráfico como PNG.",
+  "exportar.baixar": "Descargar el gráfico en {formato}",
+  "classificacao.titulo": "Clasificación automática de nivel",
+  "classificacao.doArquivo":
+    "El archivo ya trae el nivel de movimiento. Las filas sin nivel reciben el nivel calculado; marcá la opción de abajo para reemplazar todos y comparar.",
+  "classificacao.calculado":
+    "El archivo no trae el nivel de movimiento, así que se calcula a partir de la cantidad pronosticada.",
+  "classificacao.estrategia": "Estrategia",
+  "classificacao.estrategia.tercis_dia": "Terciles por día",
+  "classificacao.estrategia.tercis_semana": "Terciles de la semana",
+  "classificacao.estrategia.limites": "Límites definidos",
+  "classificacao.limiteBaixo": "Bajo hasta (porciones)",
+  "classificacao.limiteAlto": "Alto desde (porciones)",
+  "classificacao.sobrescrever": "Reemplazar los niveles del archivo por los calculados",
+  "classificacao.limitesInvalidos":
+    "El límite de alto debe ser mayor que el de bajo; con los valores actuales ningún plato queda en medio.",
+  "classificacao.concordancia": "Concordancia entre archivo y cálculo:",
+  "classificacao.concordanciaTotal": "({iguais} de {total} combinaciones)",
+  "classificacao.matriz": "Archivo \\ Calculado",
+  "biblioteca.titulo": "Archivos guardados ({n})",
+  "biblioteca.confirmarExcluir": "¿Eliminar \"{nome}\" de la biblioteca?",
+  "biblioteca.nome": "Nombre",
+  "biblioteca.enviadoEm": "Subido el",
+  "biblioteca.linhas": "Filas",
+  "biblioteca.marcar": "Marcar para combinar como unidades",
+  "biblioteca.aberto": "Abierto",
+  "biblioteca.abrir": "Abrir",
+  "biblioteca.renomear": "Renombrar",
+  "biblioteca.excluir": "Eliminar",
+  "biblioteca.combinarAjuda":
+    "¿Un archivo por restaurante? Marcá dos o más para abrirlos juntos, cada uno como una unidad.",
+  "biblioteca.combinar": "Combinar como unidades",
+  "biblioteca.combinarN": "Combinar {n} como unidades",
+  "visoes.titulo": "Vistas guardadas ({n})",
+  "visoes.descricao":
+    "La dirección de la página guarda el archivo, el día, el tipo de gráfico y los filtros abiertos. Como los archivos quedan en la biblioteca de este navegador, en otra computadora el enlace abre el último archivo usado ahí, en el mismo día y con los mismos gráficos.",
+  "visoes.copieLink": "Copiá el enlace de esta vista:",
+  "visoes.arquivoAusente": "archivo no encontrado",
+  "visoes.copiado": "¡Enlace copiado!",
+  "visoes.copiar": "Copiar enlace de esta vista",
+  "visoes.nomeExemplo": "Ej.: Viernes de pizza",
+  "visoes.salvar": "Guardar vista actual",
+  "visoes.visao": "Vista",
+  "visoes.arquivo": "Archivo",
+  "visoes.dia": "Día",
+  "visoes.abrir": "Abrir",
+  "visoes.excluir": "Eliminar",
+  "configPlano.titulo": "Configurar plan de producción",
+  "configPlano.margemGlobal": "Margen global",
+  "configPlano.margemNivel": "Margen {nivel}",
+  "configPlano.margemNivelAria": "Margen para nivel {nivel}",
+  "configPlano.confirmarRestaurar":
+    "¿Restaurar la configuración predeterminada del plan de producción?",
+  "configPlano.restaurar": "Restaurar predeterminado",
+  "configPlano.porPrato":
+    "Por plato: la tanda redondea la producción a múltiplos de su tamaño (sin tanda, a porciones enteras); mínimo y máximo limitan el resultado.",
+  "configPlano.prato": "Plato",
+  "configPlano.lote": "Tanda",
+  "configPlano.minimo": "Mínimo",
+  "configPlano.maximo": "Máximo",
+  "configPlano.campoDe": "{campo} de {prato}",
+};
+
+export const MENSAGENS: Record<Idioma, Mensagens> = { pt, en, es };
+
+export const traduzir = (
+  idioma: Idioma,
+  chave: ChaveMensagem,
+  params: Record<string, string | number> = {}
+) =>
+  MENSAGENS[idioma][chave].replace(/\{(\w+)\}/g, (trecho, nome: string) =>
+    nome in params ? String(params[nome]) : trecho
+  );
@@ -1,9 +1,18 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import I18nProvider from './i18n/I18nProvider.tsx'
+import ThemeProvider from './theme/ThemeProvider.tsx'
+import { registrarServiceWorker } from './pwa/pwa.ts'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <I18nProvider>
+      <ThemeProvider>
+        <App />
+      </ThemeProvider>
+    </I18nProvider>
   </StrictMode>,
 )
+
+registrarServiceWorker()
@@ -0,0 +1,63 @@
+// App instalado: registro do service worker (só no build; no `vite dev` ele
+// atrapalharia o recarregamento) e arquivos CSV recebidos pelo sistema, seja
+// pelo "Abrir com" (File Handling API) ou pelo "Compartilhar" (Web Share
+// Target, que passa pelo service worker).
+
+// Mesmos nomes usados em src/pwa/service-worker.js
+const CACHE_COMPARTILHADO = "sabor-em-dados-compartilhado";
+const ARQUIVO_COMPARTILHADO = "./arquivo-compartilhado";
+const NOME_PADRAO = "compartilhado.csv";
+
+// File Handling API (Chromium): ainda fora do lib.dom do TypeScript
+interface LaunchParams {
+  files: readonly FileSystemHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer: (consumer: (params: LaunchParams) => void) => void;
+}
+
+export const registrarServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("./sw.js").catch((error) => {
+      console.error("Erro ao registrar o service worker:", error);
+    });
+    // Sem isso o navegador pode apagar os arquivos salvos (IndexedDB) quando
+    // falta espaço, e o tablet sem rede fica sem previsão
+    navigator.storage?.persist?.().catch((error) => {
+      console.error("Erro ao pedir armazenamento persistente:", error);
+    });
+  });
+};
+
+// Arquivo que o service worker guardou ao receber um "Compartilhar". É lido
+// uma vez só: depois de entregue, sai do cache.
+export const lerArquivoCompartilhado = async (): Promise<File | null> => {
+  if (!("caches" in window)) return null;
+  const cache = await caches.open(CACHE_COMPARTILHADO);
+  const resposta = await cache.match(ARQUIVO_COMPARTILHADO);
+  if (!resposta) return null;
+  await cache.delete(ARQUIVO_COMPARTILHADO);
+  const nome = resposta.headers.get("X-Nome-Arquivo");
+  const blob = await resposta.blob();
+  return new File([blob], nome ? decodeURIComponent(nome) : NOME_PADRAO, {
+    type: blob.type || "text/csv",
+  });
+};
+
+// "Abrir com" → Sabor em Dados: chama `aoAbrir` com o primeiro CSV
+export const aoAbrirArquivo = (aoAbrir: (file: File) => void) => {
+  const { launchQueue } = window as Window & { launchQueue?: LaunchQueue };
+  launchQueue?.setConsumer(async ({ files }) => {
+    const handle = files.find(
+      (item): item is FileSystemFileHandle => item.kind === "file"
+    );
+    if (!handle) return;
+    try {
+      aoAbrir(await handle.getFile());
+    } catch (error) {
+      console.error("Erro ao abrir arquivo:", error);
+    }
+  });
+};
@@ -0,0 +1,101 @@
+// Service worker do app instalado (PWA). Não passa pelo bundler: o plugin
+// `swPlugin` do vite.config.ts copia este arquivo para `dist/sw.js` com a
+// versão do build e a lista de arquivos dele no lugar das marcações abaixo.
+//
+// - O bundle inteiro (JS, CSS, worker do CSV, manifesto e ícone) é guardado na
+//   instalação, então o app abre sem rede no tablet da cozinha;
+// - A página tenta a rede primeiro (para pegar versões novas) e cai no cache;
+// - Arquivos compartilhados com o app (menu "Compartilhar" do sistema) chegam
+//   por POST e ficam no cache até a página buscá-los.
+//
+// Os arquivos de previsão ficam no IndexedDB do navegador, fora deste cache.
+
+const VERSAO = "__VERSAO__";
+const ARQUIVOS = __ARQUIVOS__;
+
+const CACHE_APP = `sabor-em-dados-app-${VERSAO}`;
+const CACHE_COMPARTILHADO = "sabor-em-dados-compartilhado";
+const ARQUIVO_COMPARTILHADO = "./arquivo-compartilhado";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_APP)
+      .then((cache) => cache.addAll(["./", ...ARQUIVOS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((nomes) =>
+        Promise.all(
+          nomes
+            .filter((nome) => nome.startsWith("sabor-em-dados-app-") && nome !== CACHE_APP)
+            .map((nome) => caches.delete(nome))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const receberCompartilhado = async (request) => {
+  const form = await request.formData();
+  const arquivo = form.get("arquivo");
+  if (arquivo instanceof File) {
+    const cache = await caches.open(CACHE_COMPARTILHADO);
+    await cache.put(
+      ARQUIVO_COMPARTILHADO,
+      new Response(arquivo, {
+        headers: {
+          "Content-Type": arquivo.type || "text/csv",
+          "X-Nome-Arquivo": encodeURIComponent(arquivo.name),
+        },
+      })
+    );
+  }
+  return Response.redirect("./?compartilhado=1", 303);
+};
+
+const paginaComFallback = async (request) => {
+  try {
+    const resposta = await fetch(request);
+    // Uma página de erro (404, 500) não pode tomar o lugar do app guardado
+    if (resposta.ok) {
+      const cache = await caches.open(CACHE_APP);
+      await cache.put("./", resposta.clone());
+    }
+    return resposta;
+  } catch {
+    return (await caches.match("./")) ?? Response.error();
+  }
+};
+
+const arquivoDoCache = async (request) => {
+  const salvo = await caches.match(request, { ignoreSearch: true });
+  if (salvo) return salvo;
+  const resposta = await fetch(request);
+  if (resposta.ok) {
+    const cache = await caches.open(CACHE_APP);
+    await cache.put(request, resposta.clone());
+  }
+  return resposta;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === "POST" && url.searchParams.has("compartilhar")) {
+    event.respondWith(receberCompartilhado(request));
+  } else if (request.method !== "GET") {
+    return;
+  } else if (request.mode === "navigate") {
+    event.respondWith(paginaComFallback(request));
+  } else {
+    event.respondWith(arquivoDoCache(request));
+  }
+});
@@ -0,0 +1,43 @@
+import React, { useLayoutEffect, useMemo, useState } from "react";
+import { TemaContext, criarTema } from "./context";
+import {
+  CSS_TEMA,
+  loadPreferenciasTema,
+  savePreferenciasTema,
+  type PreferenciasTema,
+} from "./themes";
+
+const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preferencias, setPreferencias] =
+    useState<PreferenciasTema>(loadPreferenciasTema);
+
+  // Antes da pintura, para a tela não piscar no tema escuro ao abrir
+  useLayoutEffect(() => {
+    const raiz = document.documentElement;
+    raiz.dataset.tema = preferencias.tema;
+    raiz.style.colorScheme = preferencias.tema === "claro" ? "light" : "dark";
+  }, [preferencias.tema]);
+
+  const valor = useMemo(() => {
+    const atualizar = (parcial: Partial<PreferenciasTema>) => {
+      const novas = { ...preferencias, ...parcial };
+      setPreferencias(novas);
+      savePreferenciasTema(novas);
+    };
+    return criarTema(
+      preferencias.tema,
+      preferencias.paleta,
+      (tema) => atualizar({ tema }),
+      (paleta) => atualizar({ paleta })
+    );
+  }, [preferencias]);
+
+  return (
+    <TemaContext.Provider value={valor}>
+      <style>{CSS_TEMA}</style>
+      {children}
+    </TemaContext.Provider>
+  );
+};
+
+export default ThemeProvider;
@@ -0,0 +1,40 @@
+import { createContext, useContext } from "react";
+import {
+  CORES_TEMA,
+  coresGrafico,
+  type CoresGrafico,
+  type CoresTema,
+  type Paleta,
+  type Tema,
+} from "./themes";
+
+export interface TemaAtual {
+  tema: Tema;
+  paleta: Paleta;
+  setTema: (tema: Tema) => void;
+  setPaleta: (paleta: Paleta) => void;
+  // Valores das variáveis CSS, para o que não aceita `var()` (ex.: exportação)
+  cores: CoresTema;
+  grafico: CoresGrafico;
+}
+
+export const criarTema = (
+  tema: Tema,
+  paleta: Paleta,
+  setTema: (tema: Tema) => void,
+  setPaleta: (paleta: Paleta) => void
+): TemaAtual => ({
+  tema,
+  paleta,
+  setTema,
+  setPaleta,
+  cores: CORES_TEMA[tema],
+  grafico: coresGrafico(tema, paleta),
+});
+
+// Fora do provider (ex.: testes de componente) vale o tema escuro original
+export const TemaContext = createContext<TemaAtual>(
+  criarTema("escuro", "padrao", () => {}, () => {})
+);
+
+export const useTema = () => useContext(TemaContext);
@@ -0,0 +1,330 @@
+// Temas da interface. As cores de HTML vêm de variáveis CSS (`var(--cor-...)`)
+// definidas aqui e aplicadas pelo `ThemeProvider`; os gráficos recebem as cores
+// como valores (`CoresGrafico`), porque o SVG exportado não leva o CSS da página.
+
+export type Tema = "escuro" | "claro" | "altoContraste";
+
+// Paleta das séries dos gráficos, escolhida à parte do tema
+export type Paleta = "padrao" | "daltonismo";
+
+export interface PreferenciasTema {
+  tema: Tema;
+  paleta: Paleta;
+}
+
+export interface CoresTema {
+  fundo: string;
+  cartao: string;
+  painel: string;
+  campo: string;
+  sombra: string;
+  texto: string;
+  textoSuave: string;
+  textoApagado: string;
+  borda: string;
+  bordaForte: string;
+  linha: string;
+  selecao: string;
+  info: string;
+  primaria: string;
+  primariaBorda: string;
+  alerta: string;
+  alertaSuave: string;
+  alertaFundo: string;
+  erro: string;
+  erroSuave: string;
+  erroBorda: string;
+  sucesso: string;
+  sucessoBorda: string;
+  foco: string;
+  grade: string;
+  eixo: string;
+}
+
+export interface CoresGrafico {
+  // Uma cor por fatia / série empilhada
+  series: string[];
+  // Previsão, vendido / custo, margem e valor de referência (cenário, original)
+  primaria: string;
+  secundaria: string;
+  terciaria: string;
+  neutra: string;
+  // Variação positiva e negativa (barras divergentes)
+  positivo: string;
+  negativo: string;
+  grade: string;
+  eixo: string;
+  // Contorno da barra ou fatia em foco pelo teclado
+  foco: string;
+  fundo: string;
+  // Células do mapa da semana e do calendário: cor "r,g,b" e a opacidade da
+  // maior célula, limitada para o texto do tema continuar legível por cima
+  mapaCalor: string;
+  mapaCalorMaximo: number;
+}
+
+export const TEMAS: Tema[] = ["escuro", "claro", "altoContraste"];
+export const PALETAS: Paleta[] = ["padrao", "daltonismo"];
+
+export const CORES_TEMA: Record<Tema, CoresTema> = {
+  escuro: {
+    fundo: "#0f172a",
+    cartao: "#020617",
+    painel: "rgba(15,23,42,0.9)",
+    campo: "rgba(15,23,42,0.8)",
+    sombra: "rgba(15,23,42,0.8)",
+    texto: "#e5e7eb",
+    textoSuave: "#9ca3af",
+    textoApagado: "#6b7280",
+    borda: "rgba(148,163,184,0.4)",
+    bordaForte: "rgba(148,163,184,0.7)",
+    linha: "rgba(31,41,55,0.8)",
+    selecao: "rgba(30,64,175,0.35)",
+    info: "#93c5fd",
+    primaria: "#60a5fa",
+    primariaBorda: "rgba(96,165,250,0.7)",
+    alerta: "#facc15",
+    alertaSuave: "#fde68a",
+    alertaFundo: "rgba(250,204,21,0.08)",
+    erro: "#f87171",
+    erroSuave: "#fca5a5",
+    erroBorda: "rgba(248,113,113,0.7)",
+    sucesso: "#34d399",
+    sucessoBorda: "rgba(52,211,153,0.7)",
+    foco: "#facc15",
+    grade: "#1f2937",
+    eixo: "#9ca3af",
+  },
+  claro: {
+    fundo: "#e2e8f0",
+    cartao: "#ffffff",
+    painel: "#f8fafc",
+    campo: "#ffffff",
+    sombra: "rgba(15,23,42,0.15)",
+    texto: "#0f172a",
+    textoSuave: "#475569",
+    textoApagado: "#94a3b8",
+    borda: "rgba(71,85,105,0.3)",
+    bordaForte: "rgba(71,85,105,0.6)",
+    linha: "#e2e8f0",
+    selecao: "rgba(59,130,246,0.18)",
+    info: "#1d4ed8",
+    primaria: "#2563eb",
+    primariaBorda: "rgba(37,99,235,0.6)",
+    alerta: "#a16207",
+    alertaSuave: "#854d0e",
+    alertaFundo: "rgba(234,179,8,0.14)",
+    erro: "#dc2626",
+    erroSuave: "#b91c1c",
+    erroBorda: "rgba(220,38,38,0.6)",
+    sucesso: "#15803d",
+    sucessoBorda: "rgba(21,128,61,0.6)",
+    foco: "#1d4ed8",
+    grade: "#e2e8f0",
+    eixo: "#475569",
+  },
+  // Fundo preto, texto branco e bordas sólidas (WCAG AAA para o texto)
+  altoContraste: {
+    fundo: "#000000",
+    cartao: "#000000",
+    painel: "#000000",
+    campo: "#000000",
+    sombra: "transparent",
+    texto: "#ffffff",
+    textoSuave: "#e5e5e5",
+    textoApagado: "#a3a3a3",
+    borda: "#a3a3a3",
+    bordaForte: "#ffffff",
+    linha: "#525252",
+    selecao: "rgba(255,255,0,0.25)",
+    info: "#7dd3fc",
+    primaria: "#38bdf8",
+    primariaBorda: "#38bdf8",
+    alerta: "#ffff00",
+    alertaSuave: "#fef08a",
+    alertaFundo: "rgba(255,255,0,0.15)",
+    erro: "#ff7b7b",
+    erroSuave: "#ffb3b3",
+    erroBorda: "#ff7b7b",
+    sucesso: "#4ade80",
+    sucessoBorda: "#4ade80",
+    foco: "#ffff00",
+    grade: "#404040",
+    eixo: "#ffffff",
+  },
+};
+
+// Paleta das fatias e séries empilhadas (boa em fundo escuro)
+const SERIES_PADRAO = [
+  "#0ea5e9", // sky-500
+  "#22c55e", // green-500
+  "#f97316", // orange-500
+  "#a855f7", // purple-500
+  "#eab308", // yellow-500
+  "#f43f5e", // rose-500
+  "#2dd4bf", // teal-400
+  "#6366f1", // indigo-500
+  "#84cc16", // lime-500
+  "#ec4899", // pink-500
+  "#14b8a6", // teal-500
+  "#facc15", // amber-400
+  "#38bdf8", // sky-400
+  "#c4b5fd", // violet-300
+  "#fb7185", // rose-400
+  "#4ade80", // green-400
+  "#e5e7eb", // gray-200
+  "#f59e0b", // amber-500
+  "#a3e635", // lime-400
+  "#67e8f9", // cyan-300
+];
+
+// Okabe-Ito: distinguível com deuteranopia, protanopia e tritanopia. Só tem
+// oito cores; a partir da nona as fatias repetem a sequência.
+const SERIES_DALTONISMO = [
+  "#E69F00", // laranja
+  "#56B4E9", // azul-celeste
+  "#009E73", // verde-azulado
+  "#F0E442", // amarelo
+  "#0072B2", // azul
+  "#D55E00", // vermelhão
+  "#CC79A7", // rosa-avermelhado
+  "#999999", // cinza
+];
+
+// O cinza das séries some no fundo claro
+const SERIES_PADRAO_CLARO = SERIES_PADRAO.map((cor) =>
+  cor === "#e5e7eb" ? "#64748b" : cor
+);
+const SERIES_DALTONISMO_CLARO = SERIES_DALTONISMO.map((cor) =>
+  cor === "#F0E442" ? "#B8A900" : cor
+);
+
+// Opacidade da maior célula do mapa de calor, escolhida para o texto do tema
+// manter contraste de 4,5:1 por cima (7:1 no alto contraste)
+const MAPA_CALOR_MAXIMO: Record<Tema, number> = {
+  escuro: 0.7,
+  claro: 0.45,
+  altoContraste: 1,
+};
+
+export const coresGrafico = (tema: Tema, paleta: Paleta): CoresGrafico => {
+  const cores = CORES_TEMA[tema];
+  const claro = tema === "claro";
+  const base = {
+    grade: cores.grade,
+    eixo: cores.eixo,
+    foco: cores.foco,
+    fundo: cores.cartao,
+    mapaCalorMaximo: MAPA_CALOR_MAXIMO[tema],
+  };
+  // No alto contraste o azul escuro segura o texto branco mesmo opaco
+  const mapaCalorAltoContraste = tema === "altoContraste" ? "30,58,138" : null;
+  if (paleta === "daltonismo") {
+    return {
+      ...base,
+      series: claro ? SERIES_DALTONISMO_CLARO : SERIES_DALTONISMO,
+      primaria: "#56B4E9",
+      secundaria: "#E69F00",
+      terciaria: "#009E73",
+      neutra: claro ? "#999999" : "#BBBBBB",
+      positivo: claro ? "#0072B2" : "#56B4E9",
+      negativo: "#D55E00",
+      mapaCalor: mapaCalorAltoContraste ?? "0,114,178",
+    };
+  }
+  return {
+    ...base,
+    series: claro ? SERIES_PADRAO_CLARO : SERIES_PADRAO,
+    primaria: claro ? "#3b82f6" : "#60a5fa",
+    secundaria: "#f97316",
+    terciaria: claro ? "#10b981" : "#34d399",
+    neutra: claro ? "#94a3b8" : "#475569",
+    positivo: claro ? "#16a34a" : "#4ade80",
+    negativo: claro ? "#dc2626" : "#f87171",
+    mapaCalor: mapaCalorAltoContraste ?? (claro ? "37,99,235" : "59,130,246"),
+  };
+};
+
+// Fundo de uma célula do mapa de calor; `fracao` vai de 0 (vazia) a 1 (maior valor)
+export const fundoMapaCalor = (grafico: CoresGrafico, fracao: number) => {
+  const opacidade = 0.1 + fracao * (grafico.mapaCalorMaximo - 0.1);
+  return `rgba(${grafico.mapaCalor},${opacidade.toFixed(2)})`;
+};
+
+// Nome da variável CSS de cada cor: textoSuave -> --cor-texto-suave
+const variavel = (nome: string) =>
+  `--cor-${nome.replace(/[A-Z]/g, (l) => `-${l.toLowerCase()}`)}`;
+
+const variaveisDoTema = (tema: Tema) =>
+  Object.entries(CORES_TEMA[tema])
+    .map(([nome, valor]) => `  ${variavel(nome)}: ${valor};`)
+    .join("\n");
+
+const seletor = (tema: Tema) =>
+  tema === "escuro" ? `:root, :root[data-tema="escuro"]` : `:root[data-tema="${tema}"]`;
+
+// Variáveis por tema (`data-tema` no <html>; sem ele vale o escuro), foco
+// visível, texto só para leitores de tela e o layout que se adapta ao tablet
+// da cozinha e ao celular
+export const CSS_TEMA = `
+${TEMAS.map((tema) => `${seletor(tema)} {\n${variaveisDoTema(tema)}\n}`).join("\n")}
+body { background: var(--cor-fundo); color: var(--cor-texto); }
+:focus-visible { outline: 3px solid var(--cor-foco); outline-offset: 2px; }
+.sr-only {
+  position: absolute; width: 1px; height: 1px; padding: 0; margin: -1px;
+  overflow: hidden; clip: rect(0, 0, 0, 0); white-space: nowrap; border: 0;
+}
+.sabor-tela { padding: 2rem; }
+.sabor-cartao { max-width: 1200px; padding: 1.5rem 2rem 2.5rem; border-radius: 1rem; }
+@media (max-width: 1024px) {
+  .sabor-tela { padding: 1rem; }
+  .sabor-cartao { padding: 1.25rem 1.25rem 2rem; }
+}
+@media (max-width: 640px) {
+  .sabor-tela { padding: 0; }
+  .sabor-cartao { padding: 1rem 0.75rem 1.5rem; border-radius: 0; }
+}
+@media (pointer: coarse) {
+  .sabor-tela button, .sabor-tela select, .sabor-tela input:not([type="checkbox"]):not([type="radio"]):not([type="range"]) {
+    min-height: 2.5rem;
+  }
+  .sabor-tela input[type="checkbox"], .sabor-tela input[type="radio"] { width: 1.25rem; height: 1.25rem; }
+}
+`;
+
+const STORAGE_KEY = "sabor-em-dados:tema";
+
+const isTema = (valor: unknown): valor is Tema => TEMAS.includes(valor as Tema);
+const isPaleta = (valor: unknown): valor is Paleta =>
+  PALETAS.includes(valor as Paleta);
+
+const consulta = (media: string) =>
+  typeof window.matchMedia === "function" && window.matchMedia(media).matches;
+
+// Sem escolha salva, segue o sistema: contraste alto e tema claro
+export const temaDoSistema = (): Tema =>
+  consulta("(prefers-contrast: more)") || consulta("(forced-colors: active)")
+    ? "altoContraste"
+    : consulta("(prefers-color-scheme: light)")
+      ? "claro"
+      : "escuro";
+
+export const loadPreferenciasTema = (): PreferenciasTema => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const salvo = JSON.parse(raw) as Partial<PreferenciasTema>;
+      return {
+        tema: isTema(salvo.tema) ? salvo.tema : temaDoSistema(),
+        paleta: isPaleta(salvo.paleta) ? salvo.paleta : "padrao",
+      };
+    }
+  } catch (error) {
+    console.error("Erro ao ler tema:", error);
+  }
+  return { tema: temaDoSistema(), paleta: "padrao" };
+};
+
+export const savePreferenciasTema = (preferencias: PreferenciasTema) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferencias));
+};
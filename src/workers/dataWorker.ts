@@ -0,0 +1,103 @@
+import Papa, { type ParseError, type ParseMeta, type ParseResult } from "papaparse";
+import { delimitadorDaLeitura, opcoesPapa, prepararLeitura } from "../data/csvImport";
+import type { CsvDelimiter } from "../data/mapping";
+import type { CsvRecord } from "../data/schema";
+import type { ImportReport } from "../data/validation";
+import type { PedidoWorker, RespostaWorker } from "./dataWorkerClient";
+
+// Leitura e validação do CSV fora da thread da interface. Cada pedido roda em
+// um worker novo; cancelar é encerrar o worker. Na importação da previsão as
+// linhas brutas não saem daqui: a interface recebe o resumo do cabeçalho e,
+// quando há validação, o relatório em lotes e o índice por dia das linhas
+// aceitas.
+
+// Pedaços menores que o padrão do Papaparse (10 MB) para o progresso andar
+const TAMANHO_PEDACO = 1024 * 1024;
+
+// Linhas por mensagem do relatório: cada `postMessage` é copiado de uma vez na
+// thread que recebe, então lotes menores não a travam
+const LINHAS_POR_MENSAGEM = 10_000;
+
+const responder = (resposta: RespostaWorker) => self.postMessage(resposta);
+
+// Envia as listas do relatório em lotes; o relatório final vai sem elas
+const enviarRelatorio = (report: ImportReport): ImportReport => {
+  const { aceitas, vendas, rejeitadas, avisos } = report;
+  const maior = Math.max(aceitas.length, vendas.length, rejeitadas.length, avisos.length);
+  for (let inicio = 0; inicio < maior; inicio += LINHAS_POR_MENSAGEM) {
+    const fim = inicio + LINHAS_POR_MENSAGEM;
+    responder({
+      tipo: "linhas",
+      aceitas: aceitas.slice(inicio, fim),
+      vendas: vendas.slice(inicio, fim),
+      rejeitadas: rejeitadas.slice(inicio, fim),
+      avisos: avisos.slice(inicio, fim),
+    });
+  }
+  return { ...report, aceitas: [], vendas: [], rejeitadas: [], avisos: [] };
+};
+
+// Lê o arquivo em pedaços, com progresso, e entrega o resultado completo
+const lerCsv = (
+  arquivo: File,
+  delimiter: CsvDelimiter,
+  concluir: (results: ParseResult<CsvRecord>) => void
+) => {
+  const data: CsvRecord[] = [];
+  const errors: ParseError[] = [];
+  let meta: ParseMeta | null = null;
+
+  Papa.parse<CsvRecord>(arquivo, {
+    ...opcoesPapa(delimiter),
+    chunkSize: TAMANHO_PEDACO,
+    chunk: (parcial) => {
+      // Sem spread: um pedaço pode ter mais linhas que o limite de argumentos.
+      // O Papaparse já numera `row` dos erros a partir do início do arquivo.
+      parcial.data.forEach((r) => data.push(r));
+      parcial.errors.forEach((erro) => errors.push(erro));
+      if (!meta) meta = parcial.meta;
+      responder({
+        tipo: "progresso",
+        linhas: data.length,
+        fracao: arquivo.size > 0 ? Math.min(parcial.meta.cursor / arquivo.size, 1) : 1,
+      });
+    },
+    complete: () =>
+      concluir({
+        data,
+        errors,
+        meta: meta ?? {
+          delimiter: "",
+          linebreak: "\n",
+          aborted: false,
+          truncated: false,
+          cursor: 0,
+          fields: [],
+        },
+      }),
+    error: (erro) => responder({ tipo: "erro", mensagem: erro.message }),
+  });
+};
+
+self.onmessage = (event: MessageEvent<PedidoWorker>) => {
+  const pedido = event.data;
+  if (pedido.tipo === "ler") {
+    lerCsv(pedido.arquivo, pedido.delimiter, (results) =>
+      responder({ tipo: "lido", results })
+    );
+    return;
+  }
+  const { arquivo, leitura } = pedido;
+  lerCsv(arquivo, delimitadorDaLeitura(leitura), (results) => {
+    const { resumo, preparo, indice } = prepararLeitura(results, arquivo.name, leitura);
+    responder({
+      tipo: "importado",
+      resumo,
+      indice,
+      preparo:
+        preparo.etapa === "validacao"
+          ? { ...preparo, report: enviarRelatorio(preparo.report) }
+          : preparo,
+    });
+  });
+};
@@ -0,0 +1,135 @@
+import type { ParseResult } from "papaparse";
+import {
+  delimitadorDaLeitura,
+  parseCsvFile,
+  prepararLeitura,
+  type EtapaLeitura,
+  type LeituraImportacao,
+} from "../data/csvImport";
+import type { CsvDelimiter } from "../data/mapping";
+import type { CsvRecord } from "../data/schema";
+import type { ImportReport } from "../data/validation";
+
+// `ler` devolve as linhas brutas (arquivos auxiliares, pequenos); `importar`
+// valida o arquivo de previsão no worker e devolve só o que a interface usa
+export type PedidoWorker =
+  | { tipo: "ler"; arquivo: File; delimiter: CsvDelimiter }
+  | { tipo: "importar"; arquivo: File; leitura: EtapaLeitura };
+
+// Listas do relatório de validação que chegam em lotes
+type ListasRelatorio = Pick<ImportReport, "aceitas" | "vendas" | "rejeitadas" | "avisos">;
+
+export type RespostaWorker =
+  | { tipo: "progresso"; linhas: number; fracao: number }
+  | ({ tipo: "linhas" } & ListasRelatorio)
+  | { tipo: "lido"; results: ParseResult<CsvRecord> }
+  | ({ tipo: "importado" } & LeituraImportacao)
+  | { tipo: "erro"; mensagem: string };
+
+export interface ProgressoLeitura {
+  linhas: number;
+  // 0 a 1, pela posição no arquivo
+  fracao: number;
+}
+
+export interface OpcoesLeitura {
+  onProgresso?: (progresso: ProgressoLeitura) => void;
+  signal?: AbortSignal;
+}
+
+const erroCancelado = () => new DOMException("Leitura cancelada", "AbortError");
+
+export const isCancelamento = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Sem suporte a workers (ex.: testes), o trabalho é feito na própria thread
+const temWorker = () => typeof Worker !== "undefined";
+
+// Um worker por pedido, encerrado na resposta final ou ao cancelar
+const pedir = (
+  pedido: PedidoWorker,
+  { onProgresso, signal }: OpcoesLeitura = {},
+  onLinhas?: (lote: ListasRelatorio) => void
+): Promise<RespostaWorker> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(erroCancelado());
+      return;
+    }
+    const worker = new Worker(new URL("./dataWorker.ts", import.meta.url), {
+      type: "module",
+    });
+    const encerrar = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", cancelar);
+    };
+    const cancelar = () => {
+      encerrar();
+      reject(erroCancelado());
+    };
+    signal?.addEventListener("abort", cancelar);
+
+    worker.onmessage = (event: MessageEvent<RespostaWorker>) => {
+      const resposta = event.data;
+      if (resposta.tipo === "progresso") {
+        onProgresso?.(resposta);
+        return;
+      }
+      if (resposta.tipo === "linhas") {
+        onLinhas?.(resposta);
+        return;
+      }
+      encerrar();
+      if (resposta.tipo === "erro") reject(new Error(resposta.mensagem));
+      else resolve(resposta);
+    };
+    worker.onerror = (event) => {
+      encerrar();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(pedido);
+  });
+
+// Mesmo resultado de `parseCsvFile`, lido em pedaços fora da thread da interface
+export const lerCsvEmSegundoPlano = async (
+  file: File,
+  delimiter: CsvDelimiter,
+  opcoes: OpcoesLeitura = {}
+): Promise<ParseResult<CsvRecord>> => {
+  if (!temWorker()) return parseCsvFile(file, delimiter);
+  const resposta = await pedir({ tipo: "ler", arquivo: file, delimiter }, opcoes);
+  if (resposta.tipo !== "lido") throw new Error("Resposta inesperada do worker");
+  return resposta.results;
+};
+
+// Mesmo resultado de `prepararLeitura` sobre `parseCsvFile`, com a leitura e a
+// validação fora da thread da interface. O relatório chega em lotes e é
+// remontado aqui.
+export const importarEmSegundoPlano = async (
+  file: File,
+  leitura: EtapaLeitura,
+  opcoes: OpcoesLeitura = {}
+): Promise<LeituraImportacao> => {
+  if (!temWorker()) {
+    const results = await parseCsvFile(file, delimitadorDaLeitura(leitura));
+    return prepararLeitura(results, file.name, leitura);
+  }
+  const listas: ListasRelatorio = { aceitas: [], vendas: [], rejeitadas: [], avisos: [] };
+  const resposta = await pedir({ tipo: "importar", arquivo: file, leitura }, opcoes, (lote) => {
+    // Sem spread: o total de linhas passa do limite de argumentos
+    lote.aceitas.forEach((r) => listas.aceitas.push(r));
+    lote.vendas.forEach((v) => listas.vendas.push(v));
+    lote.rejeitadas.forEach((r) => listas.rejeitadas.push(r));
+    lote.avisos.forEach((a) => listas.avisos.push(a));
+  });
+  if (resposta.tipo !== "importado") throw new Error("Resposta inesperada do worker");
+  const { resumo, preparo, indice } = resposta;
+  return {
+    resumo,
+    indice,
+    preparo:
+      preparo.etapa === "validacao"
+        ? { ...preparo, report: { ...preparo.report, ...listas } }
+        : preparo,
+  };
+};
@@ -1,7 +1,46 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vitest/config'
 import react from '@vitejs/plugin-react-swc'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+// Arquivos de `public/` que o app instalado precisa sem rede
+const ARQUIVOS_PUBLICOS = ['manifest.webmanifest', 'icon.svg']
+
+// Gera `dist/sw.js` a partir de src/pwa/service-worker.js com a lista de
+// arquivos do build; a versão muda sempre que algum nome com hash muda, e o
+// service worker novo troca o cache antigo.
+const swPlugin = (): Plugin => ({
+  name: 'sabor-em-dados-sw',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const arquivos = [
+      ...Object.keys(bundle).filter((nome) => !nome.endsWith('.map')),
+      ...ARQUIVOS_PUBLICOS,
+    ].sort()
+    const versao = createHash('sha256')
+      .update(arquivos.join('\n'))
+      .digest('hex')
+      .slice(0, 12)
+    const modelo = readFileSync(
+      new URL('./src/pwa/service-worker.js', import.meta.url),
+      'utf-8',
+    )
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: modelo
+        .replace('__VERSAO__', versao)
+        .replace('__ARQUIVOS__', JSON.stringify(arquivos.map((nome) => `./${nome}`))),
+    })
+  },
+})
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), swPlugin()],
+  test: {
+    // Os testes cobrem só a camada de dados (funções puras, sem DOM)
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
 })